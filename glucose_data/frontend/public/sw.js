@@ -0,0 +1,66 @@
+// sw.js
+// Service worker: guarda el app shell para abrir el dashboard sin conexión
+//
+// - Navegación: primero la red; sin conexión, el index.html guardado (las
+//   rutas las resuelve el router en el navegador).
+// - Recursos estáticos del mismo origen (JS, CSS, iconos): primero la caché.
+//   La build guarda al instalar todos los de /assets/, porque la primera
+//   carga ocurre antes de que el worker controle la página; cada build usa
+//   su propia caché y al activarse borra las anteriores.
+// - /api/ y /live/ no pasan por la caché: los resúmenes y las lecturas se
+//   guardan en IndexedDB desde la aplicación y las lecturas en vivo no
+//   tienen sentido sin conexión.
+
+// La build sustituye estos dos valores (ver swPrecache en vite.config.ts)
+const BUILD_ID = 'dev';
+const BUILD_ASSETS = [];
+
+const CACHE_NAME = `medmetrics-shell-${BUILD_ID}`;
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', ...BUILD_ASSETS];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put('/index.html', response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match('/index.html');
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith('/api/') || url.pathname.startsWith('/live/')) return;
+
+  event.respondWith(request.mode === 'navigate' ? networkFirst(request) : cacheFirst(request));
+});
@@ -0,0 +1,82 @@
+// scripts/backtest-forecast.ts
+// Evalúa la previsión de glucosa a 30–60 min contra el CSV histórico
+//
+// Uso:
+//   npm run backtest -- [--input ruta.csv] [--train 0.7] [--perfil perfil.json]
+//
+// Cada paciente entrena con la primera parte de su periodo (--train) y se
+// evalúa sobre el resto: error absoluto medio (MAE) frente a prever que la
+// glucosa no cambia, cobertura del intervalo del 80% y acierto (hit rate)
+// de los cruces del umbral de hiperglucemia.
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { parseReadingsCSV } from '../src/analysis/csv.ts';
+import { backtestForecast } from '../src/analysis/forecast.ts';
+import { DEFAULT_PROFILE } from '../src/analysis/thresholds.ts';
+import { validateThresholdProfile } from '../src/analysis/validation.ts';
+import type { ThresholdProfile } from '../src/components/types.ts';
+
+const { values } = parseArgs({
+  options: {
+    input: { type: 'string', default: '../glucose_data.csv' },
+    train: { type: 'string', default: '0.7' },
+    perfil: { type: 'string' },
+  },
+});
+
+async function loadProfile(): Promise<ThresholdProfile> {
+  if (!values.perfil) return DEFAULT_PROFILE;
+
+  const profile: unknown = JSON.parse(await readFile(resolve(values.perfil), 'utf-8'));
+  const issues = validateThresholdProfile(profile);
+  if (issues.length > 0) {
+    throw new Error(
+      `Perfil inválido en ${values.perfil}:\n` +
+      issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n')
+    );
+  }
+  return profile as ThresholdProfile;
+}
+
+const percent = (value: number) => `${value.toFixed(1)}%`;
+
+async function main() {
+  const train = Number(values.train);
+  if (!(train > 0 && train < 1)) {
+    throw new Error(`--train debe estar entre 0 y 1 (recibido "${values.train}")`);
+  }
+
+  const inputPath = resolve(values.input);
+  const { readings, rejected } = parseReadingsCSV(await readFile(inputPath, 'utf-8'));
+  const perfil = await loadProfile();
+  const result = backtestForecast(readings, perfil, train);
+
+  console.log(`Backtest de ${inputPath}`);
+  console.log(
+    `${readings.length} lecturas (${rejected.length} descartadas) · ${result.patients} pacientes · ` +
+    `entrenamiento ${result.trainReadings} / prueba ${result.testReadings} lecturas · perfil "${perfil.nombre}"`
+  );
+  if (result.skipped.length > 0) {
+    console.log(`Sin datos suficientes para entrenar: ${result.skipped.join(', ')}`);
+  }
+  console.log('');
+
+  console.table(result.horizons.map(score => ({
+    'Horizonte': `${score.horizon} min`,
+    'Previsiones': score.predictions,
+    'MAE (mg/dL)': Number(score.mae.toFixed(1)),
+    'MAE sin cambio': Number(score.persistenceMae.toFixed(1)),
+    'Intervalo 80%': percent(score.intervalCoverage),
+    'Cruces': score.crossings,
+    'Hit rate': score.crossings > 0 ? percent((score.hits / score.crossings) * 100) : '—',
+    'Falsas alarmas': score.alerts - score.hits,
+  })));
+  console.log(`\nAlertas de hiperglucemia prevista en el periodo de prueba: ${result.predictedAlerts}`);
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,166 @@
+// scripts/benchmark.ts
+// Mide el camino completo del dashboard con un volumen grande de lecturas
+//
+// Uso:
+//   npm run benchmark -- [--readings 1000000] [--patients 50]
+//
+// Genera lecturas sintéticas (reproducibles), las serializa a CSV y mide cada
+// etapa que hace el worker de análisis: parseo por trozos, análisis, reglas,
+// previsiones, primera vista del dashboard y las interacciones que reutilizan la caché
+// (cambiar de página, ordenar, hacer zoom). También mide la copia de la vista
+// entre hilos, que es lo único que recibe el hilo principal.
+
+import { performance } from 'node:perf_hooks';
+import { parseArgs } from 'node:util';
+import { createReadingsParser, formatReadingsCSV } from '../src/analysis/csv.ts';
+import { analyzeReadings } from '../src/analysis/summary.ts';
+import { applyRules, DEFAULT_RULES } from '../src/analysis/rules.ts';
+import { applyForecasts } from '../src/analysis/forecast.ts';
+import { mergeAlerts } from '../src/analysis/alerts.ts';
+import { DEFAULT_PROFILE } from '../src/analysis/thresholds.ts';
+import { EMPTY_FILTER } from '../src/analysis/filters.ts';
+import { fromEpoch, toEpoch } from '../src/analysis/time.ts';
+import {
+  computeDashboardView,
+  createDashboardCache,
+  DEFAULT_PAGE_SIZE,
+  type DashboardQuery,
+} from '../src/analysis/dashboard.ts';
+import { MEAL_CONTEXTS } from '../src/analysis/constants.ts';
+import { DEFAULT_TREND_WINDOW } from '../src/analysis/trend.ts';
+import { DEFAULT_QUALITY_GAP_MINUTES } from '../src/analysis/quality.ts';
+import type { GlucoseReading } from '../src/components/types.ts';
+
+const { values } = parseArgs({
+  options: {
+    readings: { type: 'string', default: '1000000' },
+    patients: { type: 'string', default: '50' },
+  },
+});
+
+const INTERVAL_MS = 5 * 60_000; // Una lectura por paciente cada 5 minutos
+const CHUNK_SIZE = 64 * 1024; // Tamaño de los trozos al parsear, como en la descarga
+
+function parsePositive(name: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`--${name} debe ser un entero positivo (recibido "${value}")`);
+  }
+  return parsed;
+}
+
+/**
+ * Generador pseudoaleatorio determinista (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Lecturas sintéticas: un paseo aleatorio por paciente con picos tras las comidas
+ */
+function generateReadings(count: number, patients: number): GlucoseReading[] {
+  const random = createRandom(42);
+  const start = toEpoch('2026-01-01 00:00:00');
+  const levels = Array.from({ length: patients }, () => 90 + random() * 40);
+  const readings: GlucoseReading[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const patient = i % patients;
+    const time = start + Math.floor(i / patients) * INTERVAL_MS;
+    const hour = new Date(time).getUTCHours();
+    const context = MEAL_CONTEXTS[hour < 7 ? 0 : hour < 21 ? 1 : 2];
+    const pull = context === 'Post-prandial' ? 150 : 100;
+    levels[patient] += (pull - levels[patient]) * 0.05 + (random() - 0.5) * 20;
+    levels[patient] = Math.min(400, Math.max(40, levels[patient]));
+    readings.push({
+      timestamp: fromEpoch(time),
+      patient_id: `P${String(patient + 1).padStart(3, '0')}`,
+      glucose_level: Math.round(levels[patient] * 100) / 100,
+      meal_context: context,
+    });
+  }
+  return readings;
+}
+
+const results: { step: string; ms: number }[] = [];
+
+function measure<T>(step: string, run: () => T): T {
+  const started = performance.now();
+  const value = run();
+  results.push({ step, ms: performance.now() - started });
+  return value;
+}
+
+function main() {
+  const count = parsePositive('readings', values.readings);
+  const patients = parsePositive('patients', values.patients);
+  console.log(`Benchmark con ${count.toLocaleString('es')} lecturas de ${patients} pacientes\n`);
+
+  const generated = measure('generar lecturas', () => generateReadings(count, patients));
+  const csv = measure('serializar CSV', () => formatReadingsCSV(generated));
+
+  const readings = measure('parsear CSV por trozos', () => {
+    const parser = createReadingsParser();
+    const parsed: GlucoseReading[] = [];
+    for (let offset = 0; offset < csv.length; offset += CHUNK_SIZE) {
+      for (const reading of parser.push(csv.slice(offset, offset + CHUNK_SIZE))) parsed.push(reading);
+    }
+    for (const reading of parser.finish()) parsed.push(reading);
+    return parsed;
+  });
+  if (readings.length !== count) {
+    throw new Error(`Se esperaban ${count} lecturas y se parsearon ${readings.length}`);
+  }
+
+  const analyzed = measure('analizar lecturas', () => analyzeReadings(readings, { perfil: DEFAULT_PROFILE }));
+  const ruled = measure('aplicar reglas', () => applyRules(analyzed, readings, DEFAULT_RULES));
+  const forecasted = measure('aplicar previsiones', () => applyForecasts(ruled, readings));
+  const alerts = mergeAlerts(forecasted);
+
+  const cache = createDashboardCache();
+  const reviews = new Map();
+  const query: DashboardQuery = {
+    filter: EMPTY_FILTER,
+    perfil: DEFAULT_PROFILE,
+    episodeGap: 60,
+    trendWindow: DEFAULT_TREND_WINDOW,
+    qualityGap: DEFAULT_QUALITY_GAP_MINUTES,
+    alertSort: { field: 'timestamp', order: 'desc' },
+    episodeSort: { field: 'start', order: 'desc' },
+    range: null,
+    timelineRange: null,
+    alertsPage: 0,
+    episodesPage: 0,
+    pageSize: DEFAULT_PAGE_SIZE,
+  };
+  const first = measure('primera vista del dashboard', () => computeDashboardView(readings, alerts, reviews, query, cache));
+  measure('cambiar de página', () => computeDashboardView(readings, alerts, reviews, { ...query, alertsPage: 10 }, cache));
+  measure('ordenar por glucosa', () =>
+    computeDashboardView(readings, alerts, reviews, { ...query, alertSort: { field: 'glucose_level', order: 'desc' } }, cache)
+  );
+
+  const end = toEpoch(readings[readings.length - 1].timestamp);
+  const zoom = { start: end - 7 * 24 * 3_600_000, end };
+  measure('zoom a la última semana', () =>
+    computeDashboardView(readings, alerts, reviews, { ...query, range: zoom, timelineRange: zoom }, cache)
+  );
+  measure('filtrar un paciente', () =>
+    computeDashboardView(readings, alerts, reviews, { ...query, filter: { ...EMPTY_FILTER, patients: ['P001'] } }, cache)
+  );
+  measure('copiar la vista entre hilos', () => structuredClone(first));
+
+  console.log(`Alertas: ${alerts.length.toLocaleString('es')} · Episodios: ${first.episodes.total.toLocaleString('es')}`);
+  console.log(`Puntos en la gráfica: ${first.timeline.overview.length.toLocaleString('es')}\n`);
+  const width = Math.max(...results.map(result => result.step.length));
+  results.forEach(({ step, ms }) => console.log(`${step.padEnd(width)}  ${ms.toFixed(1).padStart(9)} ms`));
+}
+
+main();
@@ -0,0 +1,103 @@
+// scripts/generate-summary.ts
+// CLI: genera public/api/summary.json a partir de glucose_data.csv
+// y publica las lecturas normalizadas en readings.csv, junto al resumen
+//
+// Uso:
+//   npm run summary -- [--input ruta.csv] [--output ruta.json]
+//                      [--readings-output ruta.csv]
+//                      [--umbral 140] [--umbral-alta 180]
+//                      [--umbral-hipo 70] [--umbral-hipo-grave 54]
+//                      [--perfil perfil.json]
+//
+// Sin --readings-output, las lecturas se escriben en la carpeta de --output.
+// Con --perfil se usa un perfil de umbrales completo (por contexto y por
+// paciente) y se ignoran los --umbral-*.
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { analyzeCSV } from '../src/analysis/summary.ts';
+import { formatReadingsCSV } from '../src/analysis/csv.ts';
+import { buildProfile } from '../src/analysis/thresholds.ts';
+import { validateThresholdProfile } from '../src/analysis/validation.ts';
+import type { ThresholdProfile } from '../src/components/types.ts';
+import {
+  DEFAULT_UMBRAL_HIPERGLUCEMIA,
+  DEFAULT_UMBRAL_SEVERIDAD_ALTA,
+  DEFAULT_UMBRAL_HIPOGLUCEMIA,
+  DEFAULT_UMBRAL_HIPOGLUCEMIA_GRAVE,
+} from '../src/analysis/constants.ts';
+
+const { values } = parseArgs({
+  options: {
+    input: { type: 'string', default: '../glucose_data.csv' },
+    output: { type: 'string', default: 'public/api/summary.json' },
+    'readings-output': { type: 'string' },
+    umbral: { type: 'string', default: String(DEFAULT_UMBRAL_HIPERGLUCEMIA) },
+    'umbral-alta': { type: 'string', default: String(DEFAULT_UMBRAL_SEVERIDAD_ALTA) },
+    'umbral-hipo': { type: 'string', default: String(DEFAULT_UMBRAL_HIPOGLUCEMIA) },
+    'umbral-hipo-grave': { type: 'string', default: String(DEFAULT_UMBRAL_HIPOGLUCEMIA_GRAVE) },
+    perfil: { type: 'string' },
+  },
+});
+
+function parseThreshold(name: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`--${name} debe ser un número positivo (recibido "${value}")`);
+  }
+  return parsed;
+}
+
+async function loadProfile(): Promise<ThresholdProfile> {
+  if (!values.perfil) {
+    return buildProfile({
+      hiperglucemia: parseThreshold('umbral', values.umbral),
+      severidad_alta: parseThreshold('umbral-alta', values['umbral-alta']),
+      hipoglucemia: parseThreshold('umbral-hipo', values['umbral-hipo']),
+      hipoglucemia_grave: parseThreshold('umbral-hipo-grave', values['umbral-hipo-grave']),
+    });
+  }
+
+  const profile: unknown = JSON.parse(await readFile(resolve(values.perfil), 'utf-8'));
+  const issues = validateThresholdProfile(profile);
+  if (issues.length > 0) {
+    throw new Error(
+      `Perfil inválido en ${values.perfil}:\n` +
+      issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n')
+    );
+  }
+  return profile as ThresholdProfile;
+}
+
+async function main() {
+  const input = resolve(values.input);
+  const output = resolve(values.output);
+  const readingsOutput = values['readings-output']
+    ? resolve(values['readings-output'])
+    : join(dirname(output), 'readings.csv');
+
+  const { data, readings, rejected } = analyzeCSV(await readFile(input, 'utf-8'), {
+    perfil: await loadProfile(),
+  });
+
+  rejected.forEach(row => console.warn(`Línea ${row.line} ignorada: ${row.message}`));
+
+  await mkdir(dirname(output), { recursive: true });
+  await writeFile(output, JSON.stringify(data, null, 2) + '\n', 'utf-8');
+  await mkdir(dirname(readingsOutput), { recursive: true });
+  await writeFile(readingsOutput, formatReadingsCSV(readings), 'utf-8');
+
+  console.log(
+    `Resumen generado en ${output}: ${data.metadata.total_alertas} alertas de hiperglucemia, ` +
+    `${data.metadata.total_alertas_hipoglucemia} de hipoglucemia, ` +
+    `${data.estadisticas.pacientes_afectados} pacientes afectados ` +
+    `(perfil "${data.metadata.perfil_umbrales.nombre}")`
+  );
+  console.log(`Lecturas normalizadas en ${readingsOutput}: ${readings.length}`);
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,179 @@
+// scripts/mock-stream.ts
+// Servidor local que reproduce glucose_data.csv como un flujo en vivo
+//
+// Uso:
+//   npm run mock:stream -- [--input ruta.csv] [--port 8787] [--speed 600]
+//
+// Endpoints:
+//   GET /stream?since=<ts>      Server-Sent Events, un evento "reading" por lectura
+//   GET /readings?since=<ts>    Lecturas emitidas después de <ts> (modo polling)
+//   POST /sync                  Recibe revisiones y ajustes encolados en el navegador
+//   GET /sync                   Último valor recibido de cada revisión o ajuste
+//
+// Las lecturas se emiten respetando el intervalo entre timestamps dividido
+// por --speed. Cada vuelta al CSV desplaza los timestamps para que el flujo
+// continúe justo donde terminan los datos originales.
+
+import { readFile } from 'node:fs/promises';
+import { createServer, type ServerResponse } from 'node:http';
+import { resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { parseReadingsCSV } from '../src/analysis/csv.ts';
+import { sortByTimestamp } from '../src/analysis/summary.ts';
+import { fromEpoch, toEpoch } from '../src/analysis/time.ts';
+import type { GlucoseReading, SyncChange } from '../src/components/types.ts';
+
+const { values } = parseArgs({
+  options: {
+    input: { type: 'string', default: '../glucose_data.csv' },
+    port: { type: 'string', default: '8787' },
+    speed: { type: 'string', default: '600' },
+  },
+});
+
+const MIN_DELAY_MS = 50;
+const HEARTBEAT_MS = 15_000;
+
+const emitted: GlucoseReading[] = [];
+const clients = new Set<ServerResponse>();
+const synced = new Map<string, SyncChange>(); // Último cambio recibido por id
+
+function parsePositive(name: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`--${name} debe ser un número positivo (recibido "${value}")`);
+  }
+  return parsed;
+}
+
+function writeEvent(res: ServerResponse, id: number, reading: GlucoseReading) {
+  res.write(`id: ${id}\nevent: reading\ndata: ${JSON.stringify(reading)}\n\n`);
+}
+
+function emit(reading: GlucoseReading) {
+  emitted.push(reading);
+  clients.forEach(res => writeEvent(res, emitted.length - 1, reading));
+}
+
+/**
+ * Reproduce las lecturas en bucle, desplazando cada vuelta en el tiempo
+ */
+function replay(readings: GlucoseReading[], speed: number) {
+  const epochs = readings.map(reading => toEpoch(reading.timestamp));
+  const step = epochs.length > 1 ? epochs[epochs.length - 1] - epochs[epochs.length - 2] : 30 * 60_000;
+  const cycleSpan = epochs[epochs.length - 1] - epochs[0] + step;
+
+  let index = 0;
+  let cycle = 1;
+
+  const next = () => {
+    const reading = readings[index];
+    emit({ ...reading, timestamp: fromEpoch(epochs[index] + cycle * cycleSpan) });
+
+    const gap = index + 1 < readings.length ? epochs[index + 1] - epochs[index] : step;
+    index += 1;
+    if (index === readings.length) {
+      index = 0;
+      cycle += 1;
+    }
+    setTimeout(next, Math.max(MIN_DELAY_MS, gap / speed));
+  };
+
+  next();
+}
+
+async function main() {
+  const port = parsePositive('port', values.port);
+  const speed = parsePositive('speed', values.speed);
+  const { readings, rejected } = parseReadingsCSV(await readFile(resolve(values.input), 'utf-8'));
+  if (readings.length === 0) {
+    throw new Error(`No hay lecturas válidas en ${values.input}`);
+  }
+  rejected.forEach(row => console.warn(`Línea ${row.line} ignorada: ${row.message}`));
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+    res.setHeader('Access-Control-Allow-Origin', '*');
+
+    if (url.pathname === '/stream') {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      res.write('retry: 3000\n\n');
+
+      // Al reconectar, EventSource envía el último id recibido; en la
+      // primera conexión se reenvía lo emitido después de ?since=
+      const lastId = Number(req.headers['last-event-id'] ?? NaN);
+      const since = url.searchParams.get('since');
+      emitted.forEach((reading, id) => {
+        const pending = Number.isInteger(lastId)
+          ? id > lastId
+          : !since || toEpoch(reading.timestamp) > toEpoch(since);
+        if (pending) writeEvent(res, id, reading);
+      });
+
+      const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+      clients.add(res);
+      req.on('close', () => {
+        clearInterval(heartbeat);
+        clients.delete(res);
+      });
+      return;
+    }
+
+    if (url.pathname === '/sync' && req.method === 'POST') {
+      let body = '';
+      req.on('data', chunk => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        try {
+          const changes = JSON.parse(body) as SyncChange[];
+          changes.forEach(change => {
+            const current = synced.get(change.id);
+            if (!current || current.changedAt <= change.changedAt) synced.set(change.id, change);
+          });
+          console.log(`Sincronizados ${changes.length} cambios (${synced.size} en total)`);
+          res.writeHead(204);
+          res.end();
+        } catch {
+          res.writeHead(400, { 'Content-Type': 'text/plain' });
+          res.end('JSON inválido');
+        }
+      });
+      return;
+    }
+
+    if (url.pathname === '/sync') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify([...synced.values()]));
+      return;
+    }
+
+    if (url.pathname === '/readings') {
+      const since = url.searchParams.get('since');
+      const sinceEpoch = since ? toEpoch(since) : -Infinity;
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(emitted.filter(reading => toEpoch(reading.timestamp) > sinceEpoch)));
+      return;
+    }
+
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Not found');
+  });
+
+  server.listen(port, () => {
+    console.log(
+      `Flujo simulado en http://localhost:${port}/stream (${readings.length} lecturas, x${speed}); ` +
+      `polling en /readings?since=<timestamp>`
+    );
+    replay(sortByTimestamp(readings), speed);
+  });
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
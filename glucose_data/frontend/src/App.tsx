@@ -1,11 +1,44 @@
 // App.tsx
-// Ejemplo de cómo integrar el HealthDashboard en tu aplicación React
+// Rutas de la aplicación: vista de cohorte, detalle por paciente, comparación, ajustes
+// (umbrales, reglas y notificaciones) e importación
+import { BrowserRouter, Routes, Route, Navigate } from 'react-router';
 import HealthDashboard from './components/HealthDashboard';
+import PatientPage from './components/PatientPage';
+import ComparisonPage from './components/ComparisonPage';
+import SnapshotHistoryPage from './components/SnapshotHistoryPage';
+import ThresholdSettings from './components/ThresholdSettings';
+import AlertRulesSettings from './components/AlertRulesSettings';
+import AlertNotificationSettings from './components/AlertNotificationSettings';
+import ImportPage from './components/ImportPage';
+import DataLayout from './components/DataLayout';
+import GlucoseDataProvider from './context/GlucoseDataProvider';
+import I18nProvider from './context/I18nProvider';
 import './index.css';
 
 function App() {
-  return <HealthDashboard />;
+  return (
+    <I18nProvider>
+      <GlucoseDataProvider>
+        <BrowserRouter>
+          <Routes>
+            <Route element={<DataLayout />}>
+              <Route index element={<HealthDashboard />} />
+              <Route path="patients/:patientId" element={<PatientPage />} />
+              <Route path="compare" element={<ComparisonPage />} />
+              <Route path="history" element={<SnapshotHistoryPage />} />
+              <Route path="settings" element={<ThresholdSettings />} />
+              <Route path="settings/rules" element={<AlertRulesSettings />} />
+              <Route path="settings/notifications" element={<AlertNotificationSettings />} />
+            </Route>
+            {/* Fuera del layout: se puede importar aunque falle el resumen */}
+            <Route path="import" element={<ImportPage />} />
+            <Route path="*" element={<Navigate to="/" replace />} />
+          </Routes>
+        </BrowserRouter>
+      </GlucoseDataProvider>
+    </I18nProvider>
+  );
 }
 
 
-export default App;
\ No newline at end of file
+export default App;
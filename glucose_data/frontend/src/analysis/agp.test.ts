@@ -0,0 +1,59 @@
+// analysis/agp.test.ts
+// Percentiles con interpolación lineal y franjas horarias del AGP
+
+import { describe, expect, it } from 'vitest';
+import type { GlucoseReading } from '../components/types';
+import { computeAGP, minuteOfDay, percentile } from './agp';
+
+function reading(timestamp: string, glucose_level: number): GlucoseReading {
+  return { timestamp, patient_id: 'P001', glucose_level, meal_context: 'Fasting' };
+}
+
+describe('percentile', () => {
+  it('interpola entre los dos valores más cercanos', () => {
+    const sorted = [10, 20, 30, 40, 50];
+
+    expect(percentile(sorted, 0)).toBe(10);
+    expect(percentile(sorted, 50)).toBe(30);
+    expect(percentile(sorted, 100)).toBe(50);
+    // Rango 0,25 · 4 = 1 → segundo valor exacto; 0,05 · 4 = 0,2 → 10 + 0,2 · 10
+    expect(percentile(sorted, 25)).toBe(20);
+    expect(percentile(sorted, 5)).toBeCloseTo(12);
+    expect(percentile(sorted, 95)).toBeCloseTo(48);
+  });
+
+  it('devuelve el único valor o NaN si no hay ninguno', () => {
+    expect(percentile([120], 75)).toBe(120);
+    expect(percentile([], 50)).toBeNaN();
+  });
+});
+
+describe('minuteOfDay', () => {
+  it('convierte la hora del timestamp en minutos', () => {
+    expect(minuteOfDay('2026-01-01 00:00:00')).toBe(0);
+    expect(minuteOfDay('2026-01-01 13:45:00')).toBe(825);
+  });
+});
+
+describe('computeAGP', () => {
+  it('superpone los días en franjas ordenadas por hora', () => {
+    const bins = computeAGP([
+      reading('2026-01-02 08:10:00', 140),
+      reading('2026-01-01 08:50:00', 100),
+      reading('2026-01-01 07:30:00', 90),
+      reading('2026-01-03 08:00:00', 120),
+    ]);
+
+    expect(bins.map(bin => [bin.label, bin.count, bin.p50])).toEqual([
+      ['07:00', 1, 90],
+      ['08:00', 3, 120],
+    ]);
+    expect(bins[1].p25).toBe(110);
+    expect(bins[1].p75).toBe(130);
+  });
+
+  it('usa el ancho de franja indicado', () => {
+    const bins = computeAGP([reading('2026-01-01 08:10:00', 100), reading('2026-01-01 08:40:00', 120)], 30);
+    expect(bins.map(bin => bin.minuteOfDay)).toEqual([480, 510]);
+  });
+});
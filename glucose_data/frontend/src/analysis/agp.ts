@@ -0,0 +1,81 @@
+// analysis/agp.ts
+// Perfil Ambulatorio de Glucosa (AGP): percentiles por hora del día
+
+import type { GlucoseReading } from '../components/types';
+
+/**
+ * Franja horaria del AGP con sus percentiles en mg/dL
+ */
+export interface AGPBin {
+  minuteOfDay: number; // Inicio de la franja (0–1439)
+  label: string; // "HH:MM"
+  count: number; // Lecturas en la franja, sumando todos los días
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+/**
+ * Percentil con interpolación lineal sobre un array ya ordenado
+ *
+ * @param sorted - Valores ordenados de menor a mayor
+ * @param p - Percentil entre 0 y 100
+ * @returns Valor interpolado (NaN si no hay valores)
+ */
+export function percentile(sorted: ArrayLike<number>, p: number): number {
+  if (sorted.length === 0) return NaN;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Minuto del día (0–1439) de un timestamp "YYYY-MM-DD HH:MM:SS"
+ */
+export function minuteOfDay(timestamp: string): number {
+  return Number(timestamp.slice(11, 13)) * 60 + Number(timestamp.slice(14, 16));
+}
+
+function formatMinute(minute: number): string {
+  const hours = String(Math.floor(minute / 60)).padStart(2, '0');
+  const minutes = String(minute % 60).padStart(2, '0');
+  return `${hours}:${minutes}`;
+}
+
+/**
+ * Construye el AGP superponiendo todos los días en un único día tipo
+ *
+ * @param readings - Lecturas de uno o varios pacientes y días
+ * @param binMinutes - Ancho de cada franja horaria (debe dividir 1440)
+ * @returns Franjas con lecturas, ordenadas por hora del día
+ */
+export function computeAGP(readings: readonly GlucoseReading[], binMinutes: number = 60): AGPBin[] {
+  const bins = new Map<number, number[]>();
+
+  readings.forEach(reading => {
+    const start = Math.floor(minuteOfDay(reading.timestamp) / binMinutes) * binMinutes;
+    const values = bins.get(start);
+    if (values) values.push(reading.glucose_level);
+    else bins.set(start, [reading.glucose_level]);
+  });
+
+  return Array.from(bins.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([start, values]) => {
+      // Float64Array ordena numéricamente y mucho más rápido que un array genérico
+      const sorted = Float64Array.from(values).sort();
+      return {
+        minuteOfDay: start,
+        label: formatMinute(start),
+        count: sorted.length,
+        p5: percentile(sorted, 5),
+        p25: percentile(sorted, 25),
+        p50: percentile(sorted, 50),
+        p75: percentile(sorted, 75),
+        p95: percentile(sorted, 95),
+      };
+    });
+}
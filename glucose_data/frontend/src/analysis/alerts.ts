@@ -0,0 +1,51 @@
+// analysis/alerts.ts
+// Utilidades comunes a alertas de hiperglucemia e hipoglucemia
+
+import type { AlertaGlucosa, GlucoseData, GlucoseReading, ThresholdLimits } from '../components/types';
+import { sortByTimestamp } from './summary';
+
+/**
+ * Clave estable de una lectura o alerta: un paciente no tiene dos
+ * lecturas con el mismo timestamp
+ */
+export function readingKey(item: Pick<GlucoseReading, 'patient_id' | 'timestamp'>): string {
+  return `${item.patient_id}|${item.timestamp}`;
+}
+
+/**
+ * Clave estable de una alerta (tipo + lectura que la generó)
+ */
+export function alertKey(alert: Pick<AlertaGlucosa, 'tipo' | 'patient_id' | 'timestamp'>): string {
+  return `${alert.tipo}|${readingKey(alert)}`;
+}
+
+/**
+ * Une las alertas de todos los tipos en una sola lista ordenada por fecha
+ *
+ * @param data - Resumen validado
+ * @returns Alertas con su discriminante `tipo`
+ */
+export function mergeAlerts(data: GlucoseData): AlertaGlucosa[] {
+  return sortByTimestamp<AlertaGlucosa>([
+    ...data.alertas_hiperglucemia.map(alerta => ({ ...alerta, tipo: 'hiperglucemia' as const })),
+    ...data.alertas_hipoglucemia.map(alerta => ({ ...alerta, tipo: 'hipoglucemia' as const })),
+    ...(data.alertas_reglas ?? []),
+    ...(data.alertas_previstas ?? []),
+  ]);
+}
+
+/**
+ * Distancia con signo al límite más cercano del rango objetivo
+ *
+ * Positiva por encima del límite superior, negativa por debajo del
+ * inferior y 0 dentro del rango.
+ *
+ * @param glucose - Nivel de glucosa en mg/dL
+ * @param limits - Límites efectivos para la lectura (ver resolveThresholds)
+ * @returns Diferencia en mg/dL
+ */
+export function distanceFromTarget(glucose: number, limits: ThresholdLimits): number {
+  if (glucose > limits.hiperglucemia) return glucose - limits.hiperglucemia;
+  if (glucose < limits.hipoglucemia) return glucose - limits.hipoglucemia;
+  return 0;
+}
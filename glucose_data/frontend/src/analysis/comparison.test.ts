@@ -0,0 +1,72 @@
+// analysis/comparison.test.ts
+// Agregados de cada grupo, periodos por defecto y dirección de las diferencias
+
+import { describe, expect, it } from 'vitest';
+import type { GlucoseReading, MealContext } from '../components/types';
+import { mergeAlerts } from './alerts';
+import { compareCohorts, compareValues, EMPTY_COHORT, periodOverPeriod, summarizeCohort } from './comparison';
+import { analyzeReadings } from './summary';
+
+function reading(timestamp: string, patient_id: string, glucose_level: number, meal_context: MealContext = 'Post-prandial'): GlucoseReading {
+  return { timestamp, patient_id, glucose_level, meal_context };
+}
+
+const READINGS = [
+  reading('2026-01-01 07:00:00', 'P001', 60, 'Fasting'),
+  reading('2026-01-01 13:00:00', 'P001', 190),
+  reading('2026-01-02 13:00:00', 'P001', 120),
+  reading('2026-01-08 13:00:00', 'P002', 200),
+  reading('2026-01-14 13:00:00', 'P001', 150),
+];
+const ALERTS = mergeAlerts(analyzeReadings(READINGS));
+
+describe('summarizeCohort', () => {
+  it('calcula los agregados de los pacientes y fechas del grupo', () => {
+    const summary = summarizeCohort(READINGS, ALERTS, { patients: ['P001'], dateFrom: '2026-01-01', dateTo: '2026-01-07' });
+
+    expect(summary).toMatchObject({ patients: ['P001'], days: 2, alertCount: 2, hyperCount: 1, hypoCount: 1 });
+    expect(summary.metrics?.readings).toBe(3);
+    expect(summary.contextAverages['Fasting']).toBe(60);
+  });
+
+  it('usa las alertas para los pacientes y días si no hay lecturas', () => {
+    const summary = summarizeCohort([], ALERTS, EMPTY_COHORT);
+
+    expect(summary).toMatchObject({ patients: ['P001', 'P002'], days: 3, metrics: null, alertCount: 4 });
+  });
+});
+
+describe('periodOverPeriod', () => {
+  it('divide los últimos días en dos periodos seguidos de la misma duración', () => {
+    expect(periodOverPeriod('2026-01-14', 7, ['P001'])).toEqual([
+      { patients: ['P001'], dateFrom: '2026-01-01', dateTo: '2026-01-07' },
+      { patients: ['P001'], dateFrom: '2026-01-08', dateTo: '2026-01-14' },
+    ]);
+  });
+});
+
+describe('compareCohorts', () => {
+  it('compara la última semana con la anterior si no se eligieron grupos', () => {
+    const result = compareCohorts(READINGS, ALERTS, null);
+
+    expect(result.lastDate).toBe('2026-01-14');
+    expect(result.patients).toEqual(['P001', 'P002']);
+    expect(result.selection).toEqual(periodOverPeriod('2026-01-14', 7, []));
+    expect(result.cohorts.map(cohort => cohort.metrics?.readings)).toEqual([3, 2]);
+  });
+
+  it('compara toda la cohorte consigo misma sin datos', () => {
+    const result = compareCohorts([], [], null);
+
+    expect(result.lastDate).toBeNull();
+    expect(result.selection).toEqual([EMPTY_COHORT, EMPTY_COHORT]);
+  });
+});
+
+describe('compareValues', () => {
+  it('da la diferencia por estable dentro de la tolerancia', () => {
+    expect(compareValues(100, 104, 5)).toBe('stable');
+    expect(compareValues(100, 94, 5)).toBe('decreasing');
+    expect(compareValues(100, 106, 5)).toBe('increasing');
+  });
+});
@@ -0,0 +1,158 @@
+// analysis/comparison.ts
+// Modo comparación: dos grupos (pacientes + fechas) y sus diferencias
+
+import type {
+  AlertaGlucosa,
+  AlertFilter,
+  ComparisonCohort,
+  GlucoseReading,
+  PatientId,
+  PromediosPorComida,
+} from '../components/types';
+import { EMPTY_FILTER, filterAlerts, filterReadings } from './filters';
+import { computeGlycemicMetrics, type GlycemicMetrics } from './metrics';
+import { computeContextAverages } from './summary';
+import { listPatients, type GlucoseTrend } from './stats';
+import { shiftDate } from './time';
+
+/**
+ * Grupo sin restricciones: toda la cohorte en todo el periodo
+ */
+export const EMPTY_COHORT: ComparisonCohort = { patients: [], dateFrom: null, dateTo: null };
+
+/**
+ * Días de cada periodo en la comparación inicial (última semana contra la anterior)
+ */
+export const DEFAULT_COMPARISON_DAYS = 7;
+
+/**
+ * Agregados de un grupo
+ */
+export interface CohortSummary {
+  patients: PatientId[]; // Pacientes con lecturas o alertas en el grupo
+  days: number; // Días distintos con lecturas (o con alertas si no hay lecturas)
+  metrics: GlycemicMetrics | null; // null sin lecturas
+  contextAverages: PromediosPorComida; // 0 en los contextos sin lecturas
+  alertCount: number;
+  hyperCount: number;
+  hypoCount: number;
+}
+
+/**
+ * Resultado de comparar dos grupos
+ */
+export interface ComparisonResult {
+  selection: [ComparisonCohort, ComparisonCohort]; // Grupos usados (los iniciales si no se eligieron)
+  cohorts: [CohortSummary, CohortSummary];
+  patients: PatientId[]; // Todos los pacientes, para elegir
+  lastDate: string | null; // Última fecha con datos, para los atajos de periodo
+}
+
+/**
+ * Filtro del dashboard equivalente a un grupo
+ */
+export function cohortFilter(cohort: ComparisonCohort): AlertFilter {
+  return { ...EMPTY_FILTER, patients: cohort.patients, dateFrom: cohort.dateFrom, dateTo: cohort.dateTo };
+}
+
+function countDays(items: readonly { timestamp: string }[]): number {
+  const dates = new Set<string>();
+  items.forEach(item => dates.add(item.timestamp.slice(0, 10)));
+  return dates.size;
+}
+
+/**
+ * Calcula los agregados de un grupo
+ *
+ * @param readings - Lecturas de toda la cohorte
+ * @param alerts - Alertas de toda la cohorte
+ * @param cohort - Pacientes y fechas del grupo
+ */
+export function summarizeCohort(
+  readings: readonly GlucoseReading[],
+  alerts: readonly AlertaGlucosa[],
+  cohort: ComparisonCohort
+): CohortSummary {
+  const filter = cohortFilter(cohort);
+  const cohortReadings = filterReadings(readings, filter);
+  const cohortAlerts = filterAlerts(alerts, filter);
+  const hyperCount = cohortAlerts.filter(alert => alert.tipo === 'hiperglucemia').length;
+  const hypoCount = cohortAlerts.filter(alert => alert.tipo === 'hipoglucemia').length;
+
+  return {
+    patients: listPatients(cohortReadings.length > 0 ? cohortReadings : cohortAlerts),
+    days: countDays(cohortReadings.length > 0 ? cohortReadings : cohortAlerts),
+    metrics: computeGlycemicMetrics(cohortReadings),
+    contextAverages: computeContextAverages(cohortReadings),
+    alertCount: cohortAlerts.length,
+    hyperCount,
+    hypoCount,
+  };
+}
+
+/**
+ * Compara dos grupos sobre las mismas lecturas y alertas
+ *
+ * Sin grupos elegidos se compara toda la cohorte en los últimos
+ * DEFAULT_COMPARISON_DAYS días con los anteriores.
+ *
+ * @param readings - Lecturas de toda la cohorte
+ * @param alerts - Alertas de toda la cohorte
+ * @param cohorts - Grupos A y B, o null para la comparación inicial
+ */
+export function compareCohorts(
+  readings: readonly GlucoseReading[],
+  alerts: readonly AlertaGlucosa[],
+  cohorts: [ComparisonCohort, ComparisonCohort] | null
+): ComparisonResult {
+  const source = readings.length > 0 ? readings : alerts;
+  let lastDate: string | null = null;
+  for (const item of source) {
+    const date = item.timestamp.slice(0, 10);
+    if (lastDate === null || date > lastDate) lastDate = date;
+  }
+
+  const selection = cohorts
+    ?? (lastDate ? periodOverPeriod(lastDate, DEFAULT_COMPARISON_DAYS, []) : [EMPTY_COHORT, EMPTY_COHORT]);
+  return {
+    selection,
+    cohorts: [summarizeCohort(readings, alerts, selection[0]), summarizeCohort(readings, alerts, selection[1])],
+    patients: listPatients(source),
+    lastDate,
+  };
+}
+
+/**
+ * Dirección de la diferencia de B respecto a A, con el vocabulario de la
+ * tendencia glucémica
+ *
+ * @param from - Valor del grupo A
+ * @param to - Valor del grupo B
+ * @param tolerance - Diferencia (en valor absoluto) que se considera estable
+ */
+export function compareValues(from: number, to: number, tolerance: number): GlucoseTrend {
+  const diff = to - from;
+  if (diff > tolerance) return 'increasing';
+  if (diff < -tolerance) return 'decreasing';
+  return 'stable';
+}
+
+/**
+ * Atajo "periodo contra periodo": los mismos pacientes en los últimos
+ * `days` días (B) y en los `days` anteriores (A)
+ *
+ * @param lastDate - Último día incluido en B ("YYYY-MM-DD")
+ * @param days - Duración de cada periodo
+ * @param patients - Pacientes de ambos grupos (vacío = todos)
+ */
+export function periodOverPeriod(
+  lastDate: string,
+  days: number,
+  patients: PatientId[]
+): [ComparisonCohort, ComparisonCohort] {
+  const recentFrom = shiftDate(lastDate, -(days - 1));
+  return [
+    { patients, dateFrom: shiftDate(recentFrom, -days), dateTo: shiftDate(recentFrom, -1) },
+    { patients, dateFrom: recentFrom, dateTo: lastDate },
+  ];
+}
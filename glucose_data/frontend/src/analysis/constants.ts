@@ -0,0 +1,112 @@
+// analysis/constants.ts
+// Constantes clínicas compartidas por el pipeline de análisis
+
+import type {
+  AlertKind,
+  AlertRule,
+  MealContext,
+  Severity,
+  HypoSeverity,
+  GlucoseUnit,
+  ReviewStatus,
+  RuleAlertKind,
+  ForecastAlertKind,
+} from '../components/types';
+
+/**
+ * Contextos de comida válidos, en el orden en que aparecen en el resumen
+ */
+export const MEAL_CONTEXTS: readonly MealContext[] = ['Before sleep', 'Fasting', 'Post-prandial'];
+
+/**
+ * Umbral por defecto de hiperglucemia en mg/dL
+ */
+export const DEFAULT_UMBRAL_HIPERGLUCEMIA = 140;
+
+/**
+ * A partir de este valor (mg/dL) una alerta se clasifica como "high"
+ */
+export const DEFAULT_UMBRAL_SEVERIDAD_ALTA = 180;
+
+/**
+ * Por debajo de este valor (mg/dL) se genera una alerta de hipoglucemia level1
+ */
+export const DEFAULT_UMBRAL_HIPOGLUCEMIA = 70;
+
+/**
+ * Por debajo de este valor (mg/dL) la hipoglucemia es level2 (clínicamente significativa)
+ */
+export const DEFAULT_UMBRAL_HIPOGLUCEMIA_GRAVE = 54;
+
+/**
+ * Comprueba si un string es un contexto de comida válido
+ */
+export function isMealContext(value: string): value is MealContext {
+  return (MEAL_CONTEXTS as readonly string[]).includes(value);
+}
+
+/**
+ * Comprueba si un contexto está en una lista de criterios (vacía = todos)
+ *
+ * Las lecturas sin contexto solo cumplen la lista vacía.
+ */
+export function matchesContexts(contexts: readonly MealContext[], context: MealContext | null): boolean {
+  return contexts.length === 0 || (context !== null && contexts.includes(context));
+}
+
+/**
+ * Severidades válidas de las alertas
+ */
+export const SEVERITIES: readonly Severity[] = ['moderate', 'high'];
+
+/**
+ * Niveles válidos de las alertas de hipoglucemia
+ */
+export const HYPO_SEVERITIES: readonly HypoSeverity[] = ['level1', 'level2'];
+
+/**
+ * Tipos de alerta propios de las reglas configurables
+ */
+export const RULE_ALERT_KINDS: readonly RuleAlertKind[] = ['hiperglucemia_sostenida', 'subida_rapida', 'hiperglucemia_nocturna'];
+
+/**
+ * Tipos de alerta que puede generar o reclasificar una regla
+ */
+export const RULE_TARGET_KINDS: readonly AlertRule['kind'][] = ['hiperglucemia', 'hipoglucemia', ...RULE_ALERT_KINDS];
+
+/**
+ * Tipo de alerta de las previsiones
+ */
+export const FORECAST_ALERT_KIND: ForecastAlertKind = 'hiperglucemia_prevista';
+
+/**
+ * Todos los tipos de alerta, en el orden en que se ofrecen en la interfaz
+ */
+export const ALERT_KINDS: readonly AlertKind[] = [...RULE_TARGET_KINDS, FORECAST_ALERT_KIND];
+
+/**
+ * Estados de revisión de una alerta, en el orden del flujo de triaje
+ */
+export const REVIEW_STATUSES: readonly ReviewStatus[] = ['new', 'acknowledged', 'escalated', 'dismissed'];
+
+/**
+ * Valores en español de resúmenes anteriores a los códigos de severidad
+ */
+export const LEGACY_SEVERITIES: Readonly<Record<string, Severity | HypoSeverity>> = {
+  'Moderada': 'moderate',
+  'Alta': 'high',
+  'Nivel 1': 'level1',
+  'Nivel 2': 'level2',
+};
+
+/**
+ * Unidades de glucosa soportadas (la interna es mg/dL)
+ */
+export const GLUCOSE_UNITS: readonly GlucoseUnit[] = ['mg/dL', 'mmol/L'];
+
+/**
+ * Comprueba si un string es una unidad de glucosa válida
+ */
+export function isGlucoseUnit(value: string): value is GlucoseUnit {
+  return (GLUCOSE_UNITS as readonly string[]).includes(value);
+}
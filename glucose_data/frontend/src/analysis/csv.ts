@@ -0,0 +1,190 @@
+// analysis/csv.ts
+// Lectura de datos crudos en el formato de glucose_data.csv
+
+import type { GlucoseReading } from '../components/types';
+import { isMealContext } from './constants';
+
+/**
+ * Columnas esperadas en el CSV, en cualquier orden
+ */
+export const READING_COLUMNS = ['timestamp', 'patient_id', 'glucose_level', 'meal_context'] as const;
+
+/**
+ * Fila del CSV que no pudo convertirse en lectura
+ */
+export interface CsvRowError {
+  line: number; // Número de línea (1 = cabecera)
+  message: string;
+}
+
+export interface ParsedReadings {
+  readings: GlucoseReading[];
+  rejected: CsvRowError[];
+}
+
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/;
+
+/**
+ * Divide una línea CSV respetando campos entre comillas
+ *
+ * @param line - Línea sin salto final
+ * @param delimiter - Separador de campos
+ * @returns Campos sin comillas externas
+ */
+export function splitCSVLine(line: string, delimiter: string = ','): string[] {
+  // Camino rápido: la gran mayoría de líneas no llevan comillas
+  if (!line.includes('"')) return line.split(delimiter).map(field => field.trim());
+
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current);
+  return fields.map(field => field.trim());
+}
+
+/**
+ * Parser incremental de glucose_data.csv
+ *
+ * Permite procesar archivos grandes por trozos (ej. el stream de `fetch`)
+ * sin tener todo el texto en memoria ni bloquear hasta el final.
+ */
+export interface ReadingsParser {
+  /** Procesa un trozo de texto y devuelve las lecturas válidas de sus líneas completas */
+  push(chunk: string): GlucoseReading[];
+  /** Procesa la última línea pendiente (sin salto final) */
+  finish(): GlucoseReading[];
+  /** Filas rechazadas hasta el momento */
+  readonly rejected: CsvRowError[];
+}
+
+/**
+ * Crea un parser incremental de lecturas
+ *
+ * @returns Parser con el estado de la cabecera y la línea pendiente
+ * @throws Error (en push o finish) si falta alguna columna obligatoria en la cabecera
+ */
+export function createReadingsParser(): ReadingsParser {
+  type ColumnIndex = Record<(typeof READING_COLUMNS)[number], number>;
+  let index: ColumnIndex | null = null;
+  let pending = '';
+  let line = 0;
+  const rejected: CsvRowError[] = [];
+
+  const readHeader = (raw: string) => {
+    const header = splitCSVLine(raw.replace(/^\uFEFF/, ''));
+    const missing = READING_COLUMNS.filter(column => !header.includes(column));
+    if (missing.length > 0) {
+      throw new Error(`Faltan columnas en el CSV: ${missing.join(', ')}`);
+    }
+    index = Object.fromEntries(READING_COLUMNS.map(column => [column, header.indexOf(column)])) as ColumnIndex;
+  };
+
+  const parseLines = (lines: string[]): GlucoseReading[] => {
+    const readings: GlucoseReading[] = [];
+    lines.forEach(rawLine => {
+      line += 1;
+      const raw = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+      if (!index) {
+        readHeader(raw);
+        return;
+      }
+      if (raw.trim() === '') return;
+
+      const fields = splitCSVLine(raw);
+      const timestamp = fields[index.timestamp] ?? '';
+      const patientId = fields[index.patient_id] ?? '';
+      const glucose = Number(fields[index.glucose_level]);
+      const context = fields[index.meal_context] ?? '';
+
+      if (!TIMESTAMP_PATTERN.test(timestamp) || Number.isNaN(new Date(timestamp.replace(' ', 'T')).getTime())) {
+        rejected.push({ line, message: `timestamp inválido: "${timestamp}"` });
+      } else if (patientId === '') {
+        rejected.push({ line, message: 'patient_id vacío' });
+      } else if (fields[index.glucose_level] === '' || !Number.isFinite(glucose)) {
+        rejected.push({ line, message: `glucose_level no numérico: "${fields[index.glucose_level] ?? ''}"` });
+      } else if (!isMealContext(context)) {
+        rejected.push({ line, message: `meal_context desconocido: "${context}"` });
+      } else {
+        readings.push({
+          timestamp,
+          patient_id: patientId,
+          glucose_level: glucose,
+          meal_context: context,
+        });
+      }
+    });
+    return readings;
+  };
+
+  return {
+    rejected,
+    push(chunk) {
+      const text = pending + chunk;
+      const end = text.lastIndexOf('\n');
+      if (end === -1) {
+        pending = text;
+        return [];
+      }
+      pending = text.slice(end + 1);
+      return parseLines(text.slice(0, end).split('\n'));
+    },
+    finish() {
+      const rest = pending;
+      pending = '';
+      if (rest !== '' || !index) return parseLines([rest]);
+      return [];
+    },
+  };
+}
+
+/**
+ * Convierte el texto de glucose_data.csv en lecturas tipadas
+ *
+ * Las filas inválidas no detienen el proceso: se devuelven en `rejected`
+ * con su número de línea para poder informarlas.
+ *
+ * @param text - Contenido completo del CSV
+ * @returns Lecturas válidas y filas rechazadas
+ * @throws Error si falta alguna columna obligatoria en la cabecera
+ */
+export function parseReadingsCSV(text: string): ParsedReadings {
+  const parser = createReadingsParser();
+  const readings = parser.push(text).concat(parser.finish());
+  return { readings, rejected: parser.rejected };
+}
+
+/**
+ * Serializa lecturas en el formato de glucose_data.csv
+ *
+ * @param readings - Lecturas a escribir
+ * @returns Texto CSV con cabecera
+ */
+export function formatReadingsCSV(readings: readonly GlucoseReading[]): string {
+  const rows = readings.map(reading =>
+    [reading.timestamp, reading.patient_id, reading.glucose_level, reading.meal_context].join(',')
+  );
+  return [READING_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,321 @@
+// analysis/dashboard.ts
+// Vista del dashboard calculada de una vez (filtros, agregados, orden y páginas)
+
+import type {
+  AlertaGlucosa,
+  AlertFilter,
+  AlertReview,
+  AlertSortField,
+  GlucoseReading,
+  PatientId,
+  PromediosPorComida,
+  ThresholdProfile,
+  TimeRange,
+} from '../components/types';
+import { computeAGP, type AGPBin } from './agp';
+import { cohortFilter } from './comparison';
+import { buildEpisodes, filterEpisodes, sortEpisodes, type EpisodeSortField, type GlycemicEpisode } from './episodes';
+import { filterAlerts, filterReadings, reviewStatusOf } from './filters';
+import { computeMetricsByPatient, type GlycemicMetrics } from './metrics';
+import { computeDataQuality, type DataQualityReport } from './quality';
+import {
+  computeContextStats,
+  computePatientStats,
+  listPatients,
+  sortAlerts,
+  type ContextAlertStats,
+  type PatientAlertStats,
+} from './stats';
+import { computeContextAverages } from './summary';
+import { toEpoch } from './time';
+import { indexTimeline, sampleTimeline, type TimelineSeries } from './timeline';
+import { computeTrendsByPatient, type PatientTrend, type TrendWindow } from './trend';
+
+/**
+ * Filas por página de las tablas del dashboard
+ */
+export const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Página de una tabla y total de filas
+ */
+export interface Page<T> {
+  items: T[];
+  page: number; // Índice desde 0, ajustado si se pidió una página que no existe
+  total: number;
+}
+
+/**
+ * Lo que el dashboard necesita saber para pedir una vista
+ */
+export interface DashboardQuery {
+  filter: AlertFilter;
+  perfil: ThresholdProfile; // Para el área de los episodios
+  episodeGap: number; // Minutos
+  trendWindow: TrendWindow; // Días
+  qualityGap: number; // Minutos sin lecturas que cuentan como hueco del sensor
+  alertSort: { field: AlertSortField; order: 'asc' | 'desc' };
+  episodeSort: { field: EpisodeSortField; order: 'asc' | 'desc' };
+  range: TimeRange | null; // Ventana de la tabla de alertas
+  timelineRange: TimeRange | null; // Ventana con detalle completo en la gráfica
+  alertsPage: number;
+  episodesPage: number;
+  pageSize: number;
+}
+
+/**
+ * Vista del dashboard ya calculada
+ */
+export interface DashboardView {
+  alertCount: number; // Alertas filtradas
+  hyperCount: number;
+  hypoCount: number;
+  predictedCount: number; // Hiperglucemias previstas
+  hasLevel2: boolean;
+  unreviewedCount: number; // Sobre todas las alertas, sin filtrar
+  patients: PatientId[]; // Todos los pacientes, para el filtro
+  patientStats: Record<PatientId, PatientAlertStats>;
+  patientMetrics: Record<PatientId, GlycemicMetrics>;
+  contextStats: ContextAlertStats;
+  readingCount: number; // Lecturas filtradas
+  contextAverages: PromediosPorComida; // De las lecturas filtradas
+  extremes: { max: number; min: number } | null; // De las lecturas filtradas
+  trends: Record<PatientId, PatientTrend>; // De las lecturas filtradas
+  quality: DataQualityReport; // De los pacientes y fechas filtrados
+  agp: AGPBin[];
+  agpDays: number;
+  timeline: TimelineSeries;
+  episodes: Page<GlycemicEpisode>;
+  alerts: Page<AlertaGlucosa>; // Dentro de la ventana de la tabla
+}
+
+type Memo = <T>(deps: readonly unknown[], compute: () => T) => T;
+
+/**
+ * Memoización de un único valor, como useMemo fuera de React
+ */
+function createMemo(): Memo {
+  let lastDeps: readonly unknown[] | null = null;
+  let lastValue: unknown;
+  return <T>(deps: readonly unknown[], compute: () => T): T => {
+    if (!lastDeps || deps.length !== lastDeps.length || deps.some((dep, i) => !Object.is(dep, lastDeps![i]))) {
+      lastValue = compute();
+      lastDeps = deps;
+    }
+    return lastValue as T;
+  };
+}
+
+/**
+ * Resultados intermedios de la última vista, para no recalcular lo que no
+ * cambia al pasar de página, ordenar o hacer zoom
+ */
+export function createDashboardCache() {
+  return {
+    patients: createMemo(),
+    readings: createMemo(),
+    readingStats: createMemo(),
+    trends: createMemo(),
+    qualityReadings: createMemo(),
+    quality: createMemo(),
+    alerts: createMemo(),
+    alertStats: createMemo(),
+    unreviewed: createMemo(),
+    sortedAlerts: createMemo(),
+    rangeAlerts: createMemo(),
+    allEpisodes: createMemo(),
+    episodes: createMemo(),
+    sortedEpisodes: createMemo(),
+    timelineIndex: createMemo(),
+    timelineOverview: createMemo(),
+    timelineDetail: createMemo(),
+  };
+}
+
+export type DashboardCache = ReturnType<typeof createDashboardCache>;
+
+/**
+ * Recorta una página de una lista
+ *
+ * @param items - Lista completa
+ * @param page - Página pedida (desde 0); se ajusta al rango válido
+ * @param pageSize - Filas por página
+ * @returns Filas de la página, página efectiva y total
+ */
+export function paginate<T>(items: readonly T[], page: number, pageSize: number): Page<T> {
+  const pages = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(page, 0), pages - 1);
+  return {
+    items: items.slice(current * pageSize, (current + 1) * pageSize),
+    page: current,
+    total: items.length,
+  };
+}
+
+/**
+ * Alertas dentro de una ventana de tiempo (todas si no hay ventana)
+ */
+export function alertsInRange(alerts: readonly AlertaGlucosa[], range: TimeRange | null): AlertaGlucosa[] {
+  if (!range) return [...alerts];
+  return alerts.filter(alert => {
+    const time = toEpoch(alert.timestamp);
+    return time >= range.start && time <= range.end;
+  });
+}
+
+/**
+ * Máximo y mínimo de glucosa sin expandir el array (con cientos de miles de
+ * lecturas Math.max(...values) desborda la pila)
+ */
+function computeExtremes(readings: readonly GlucoseReading[]): { max: number; min: number } | null {
+  if (readings.length === 0) return null;
+  let max = -Infinity;
+  let min = Infinity;
+  for (const reading of readings) {
+    if (reading.glucose_level > max) max = reading.glucose_level;
+    if (reading.glucose_level < min) min = reading.glucose_level;
+  }
+  return { max, min };
+}
+
+/**
+ * Calcula la vista del dashboard para un filtro, orden y página
+ *
+ * Cada etapa se memoriza en `cache` según sus entradas, así que cambiar de
+ * página o de orden no vuelve a filtrar ni a agregar las lecturas. Las
+ * entradas se comparan por referencia, salvo el filtro, que se compara por
+ * contenido porque llega copiado en cada mensaje al worker.
+ *
+ * @param readings - Todas las lecturas
+ * @param alerts - Todas las alertas (resumen con reglas aplicadas)
+ * @param reviews - Revisiones por alertKey
+ * @param query - Filtro, orden, ventanas y páginas pedidas
+ * @param cache - Resultados de la vista anterior
+ * @returns Vista con los agregados completos y solo las filas de las páginas pedidas
+ */
+export function computeDashboardView(
+  readings: readonly GlucoseReading[],
+  alerts: readonly AlertaGlucosa[],
+  reviews: ReadonlyMap<string, AlertReview>,
+  query: DashboardQuery,
+  cache: DashboardCache = createDashboardCache()
+): DashboardView {
+  const filterKey = JSON.stringify(query.filter);
+  const rangeKey = query.range ? `${query.range.start}-${query.range.end}` : '';
+  const timelineKey = query.timelineRange ? `${query.timelineRange.start}-${query.timelineRange.end}` : '';
+  const usesReviews = query.filter.reviewStatus !== null;
+
+  const patients = cache.patients([readings, alerts], () => listPatients(readings.length > 0 ? readings : alerts));
+
+  const filteredReadings = cache.readings([readings, filterKey], () => filterReadings(readings, query.filter));
+  const readingStats = cache.readingStats([filteredReadings], () => ({
+    patientMetrics: computeMetricsByPatient(filteredReadings),
+    contextAverages: computeContextAverages(filteredReadings),
+    extremes: computeExtremes(filteredReadings),
+    agp: computeAGP(filteredReadings),
+    agpDays: new Set(filteredReadings.map(reading => reading.timestamp.slice(0, 10))).size,
+  }));
+
+  const trends = cache.trends([filteredReadings, query.trendWindow], () =>
+    computeTrendsByPatient(filteredReadings, query.trendWindow)
+  );
+
+  // La calidad se mide sobre todo lo que envió el sensor en el periodo: el
+  // resto de criterios (contexto, franja, glucosa) dejarían huecos falsos
+  const { patients: qualityPatients, dateFrom, dateTo } = query.filter;
+  const qualityReadings = cache.qualityReadings([readings, JSON.stringify([qualityPatients, dateFrom, dateTo])], () =>
+    qualityPatients.length > 0 || dateFrom || dateTo
+      ? filterReadings(readings, cohortFilter({ patients: qualityPatients, dateFrom, dateTo }))
+      : readings
+  );
+  const quality = cache.quality([qualityReadings, query.qualityGap], () =>
+    computeDataQuality(qualityReadings, query.qualityGap)
+  );
+
+  const filteredAlerts = cache.alerts([alerts, filterKey, usesReviews ? reviews : null], () =>
+    filterAlerts(alerts, query.filter, reviews)
+  );
+  const alertStats = cache.alertStats([filteredAlerts], () => ({
+    hyperCount: filteredAlerts.filter(alert => alert.tipo === 'hiperglucemia').length,
+    hypoCount: filteredAlerts.filter(alert => alert.tipo === 'hipoglucemia').length,
+    predictedCount: filteredAlerts.filter(alert => alert.tipo === 'hiperglucemia_prevista').length,
+    hasLevel2: filteredAlerts.some(alert => alert.severidad === 'level2'),
+    patientStats: computePatientStats(filteredAlerts),
+    contextStats: computeContextStats(filteredAlerts),
+  }));
+  const unreviewedCount = cache.unreviewed([alerts, reviews], () =>
+    alerts.reduce((count, alert) => (reviewStatusOf(alert, reviews) === 'new' ? count + 1 : count), 0)
+  );
+
+  const { field, order } = query.alertSort;
+  const sortedAlerts = cache.sortedAlerts([filteredAlerts, field, order], () => sortAlerts(filteredAlerts, field, order));
+  const rangeAlerts = cache.rangeAlerts([sortedAlerts, rangeKey], () => alertsInRange(sortedAlerts, query.range));
+
+  // Los episodios se agrupan sobre todas las lecturas y el filtro se aplica
+  // después a episodios enteros
+  const allEpisodes = cache.allEpisodes([readings, alerts, JSON.stringify(query.perfil), query.episodeGap], () =>
+    buildEpisodes(readings, alerts, query.perfil, query.episodeGap)
+  );
+  const episodes = cache.episodes([allEpisodes, filteredAlerts], () => filterEpisodes(allEpisodes, filteredAlerts));
+  const { field: episodeField, order: episodeOrder } = query.episodeSort;
+  const sortedEpisodes = cache.sortedEpisodes([episodes, episodeField, episodeOrder], () =>
+    sortEpisodes(episodes, episodeField, episodeOrder)
+  );
+
+  const timelineIndex = cache.timelineIndex([filteredReadings, filteredAlerts], () =>
+    indexTimeline(filteredReadings, filteredAlerts)
+  );
+  const timeline: TimelineSeries = {
+    overview: cache.timelineOverview([timelineIndex], () => sampleTimeline(timelineIndex)),
+    detail: cache.timelineDetail([timelineIndex, timelineKey], () =>
+      query.timelineRange ? sampleTimeline(timelineIndex, query.timelineRange) : null
+    ),
+    detailRange: query.timelineRange,
+    total: filteredReadings.length,
+  };
+
+  return {
+    alertCount: filteredAlerts.length,
+    ...alertStats,
+    unreviewedCount,
+    patients,
+    patientMetrics: readingStats.patientMetrics,
+    trends,
+    quality,
+    readingCount: filteredReadings.length,
+    contextAverages: readingStats.contextAverages,
+    extremes: readingStats.extremes,
+    agp: readingStats.agp,
+    agpDays: readingStats.agpDays,
+    timeline,
+    episodes: paginate(sortedEpisodes, query.episodesPage, query.pageSize),
+    alerts: paginate(rangeAlerts, query.alertsPage, query.pageSize),
+  };
+}
+
+/**
+ * Alertas filtradas y ordenadas completas (para exportar)
+ */
+export function computeFilteredAlerts(
+  alerts: readonly AlertaGlucosa[],
+  reviews: ReadonlyMap<string, AlertReview>,
+  query: Pick<DashboardQuery, 'filter' | 'alertSort'>
+): AlertaGlucosa[] {
+  return sortAlerts(filterAlerts(alerts, query.filter, reviews), query.alertSort.field, query.alertSort.order);
+}
+
+/**
+ * Episodios con alertas filtradas, completos y ordenados (para exportar)
+ */
+export function computeFilteredEpisodes(
+  readings: readonly GlucoseReading[],
+  alerts: readonly AlertaGlucosa[],
+  reviews: ReadonlyMap<string, AlertReview>,
+  query: Pick<DashboardQuery, 'filter' | 'perfil' | 'episodeGap' | 'episodeSort'>
+): GlycemicEpisode[] {
+  const episodes = filterEpisodes(
+    buildEpisodes(readings, alerts, query.perfil, query.episodeGap),
+    filterAlerts(alerts, query.filter, reviews)
+  );
+  return sortEpisodes(episodes, query.episodeSort.field, query.episodeSort.order);
+}
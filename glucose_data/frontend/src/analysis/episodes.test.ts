@@ -0,0 +1,101 @@
+// analysis/episodes.test.ts
+// Episodios: cortes por lecturas en rango y por huecos, área fuera de rango y filtro
+
+import { describe, expect, it } from 'vitest';
+import type { GlucoseReading } from '../components/types';
+import { mergeAlerts } from './alerts';
+import { buildEpisodes, filterEpisodes } from './episodes';
+import { analyzeReadings } from './summary';
+import { DEFAULT_PROFILE } from './thresholds';
+
+function series(patient_id: string, values: [string, number][]): GlucoseReading[] {
+  return values.map(([time, glucose_level]) => ({
+    timestamp: `2026-01-01 ${time}:00`,
+    patient_id,
+    glucose_level,
+    meal_context: 'Post-prandial',
+  }));
+}
+
+function episodesOf(readings: GlucoseReading[], maxGapMinutes = 60) {
+  const alerts = mergeAlerts(analyzeReadings(readings));
+  return buildEpisodes(readings, alerts, DEFAULT_PROFILE, maxGapMinutes);
+}
+
+describe('buildEpisodes', () => {
+  it('agrupa lecturas consecutivas fuera de rango', () => {
+    const episodes = episodesOf(series('P001', [['10:00', 150], ['10:30', 170], ['11:00', 160], ['11:30', 120]]));
+
+    expect(episodes).toHaveLength(1);
+    expect(episodes[0]).toMatchObject({
+      tipo: 'hiperglucemia',
+      start: '2026-01-01 10:00:00',
+      end: '2026-01-01 11:00:00',
+      durationMinutes: 60,
+      readings: 3,
+      peak: 170,
+      mean: 160,
+    });
+  });
+
+  it('corta el episodio en una lectura en rango aunque la separación sea menor', () => {
+    const episodes = episodesOf(series('P001', [['10:00', 150], ['10:25', 120], ['10:50', 160]]));
+
+    expect(episodes.map(episode => [episode.start, episode.readings])).toEqual([
+      ['2026-01-01 10:00:00', 1],
+      ['2026-01-01 10:50:00', 1],
+    ]);
+  });
+
+  it('corta el episodio si el hueco entre lecturas supera la separación', () => {
+    const readings = series('P001', [['10:00', 150], ['10:45', 155], ['12:15', 160]]);
+
+    expect(episodesOf(readings, 60).map(episode => episode.readings)).toEqual([2, 1]);
+    expect(episodesOf(readings, 120).map(episode => episode.readings)).toEqual([3]);
+  });
+
+  it('separa hiper e hipo y cada paciente', () => {
+    const readings = [
+      ...series('P001', [['10:00', 150], ['10:30', 60]]),
+      ...series('P002', [['10:15', 160]]),
+    ];
+
+    expect(episodesOf(readings).map(episode => [episode.patient_id, episode.tipo])).toEqual([
+      ['P001', 'hiperglucemia'],
+      ['P002', 'hiperglucemia'],
+      ['P001', 'hipoglucemia'],
+    ]);
+  });
+
+  it('integra el área por trapecios sobre el exceso sobre el umbral', () => {
+    // Umbral 140: excesos 10, 30 y 20 cada 30 min → (10+30)/2·0,5 + (30+20)/2·0,5
+    const [episode] = episodesOf(series('P001', [['10:00', 150], ['10:30', 170], ['11:00', 160]]));
+    expect(episode.area).toBeCloseTo(22.5);
+
+    const [hypo] = episodesOf(series('P001', [['03:00', 60], ['04:00', 50]]));
+    // Umbral 70: déficits 10 y 20 durante 1 h
+    expect(hypo.area).toBeCloseTo(15);
+    expect(hypo.severidad).toBe('level2');
+  });
+
+  it('usa las alertas sin lectura cuando no hay lecturas cargadas', () => {
+    const readings = series('P001', [['10:00', 150], ['10:30', 170], ['11:00', 120]]);
+    const alerts = mergeAlerts(analyzeReadings(readings));
+
+    expect(buildEpisodes([], alerts, DEFAULT_PROFILE).map(episode => episode.readings)).toEqual([2]);
+  });
+});
+
+describe('filterEpisodes', () => {
+  it('conserva episodios enteros con alguna alerta filtrada', () => {
+    const readings = series('P001', [['10:00', 150], ['10:30', 190], ['11:00', 160], ['12:00', 120], ['12:30', 150]]);
+    const alerts = mergeAlerts(analyzeReadings(readings));
+    const episodes = buildEpisodes(readings, alerts, DEFAULT_PROFILE);
+    const high = alerts.filter(alert => alert.severidad === 'high');
+
+    const filtered = filterEpisodes(episodes, high);
+    expect(filtered).toHaveLength(1);
+    expect(filtered[0].readings).toBe(3);
+    expect(filterEpisodes(episodes, [])).toEqual([]);
+  });
+});
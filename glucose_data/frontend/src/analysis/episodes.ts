@@ -0,0 +1,207 @@
+// analysis/episodes.ts
+// Agrupación de lecturas consecutivas fuera de rango de un paciente en episodios
+
+import type {
+  AlertaGlucosa,
+  GlucoseReading,
+  HypoSeverity,
+  MealContext,
+  PatientId,
+  Severity,
+  ThresholdProfile,
+} from '../components/types';
+import { alertKey, readingKey } from './alerts';
+import { groupByPatient } from './metrics';
+import { resolveThresholds } from './thresholds';
+import { toEpoch } from './time';
+
+/**
+ * Separación máxima por defecto entre dos lecturas del mismo episodio
+ */
+export const DEFAULT_EPISODE_GAP_MINUTES = 60;
+
+/**
+ * Separaciones que se ofrecen en la interfaz, en minutos
+ */
+export const EPISODE_GAP_OPTIONS = [30, 60, 120, 240] as const;
+
+/**
+ * Episodio: lecturas consecutivas del mismo paciente fuera de rango por el
+ * mismo lado, sin lecturas en rango entre ellas ni huecos mayores que la
+ * separación configurada
+ */
+export interface GlycemicEpisode {
+  id: string; // alertKey de la primera alerta
+  alertKeys: string[]; // alertKey de cada alerta del episodio
+  tipo: RangeAlert['tipo'];
+  patient_id: PatientId;
+  start: string; // Timestamp de la primera alerta
+  end: string; // Timestamp de la última alerta
+  durationMinutes: number; // 0 en episodios de una sola lectura
+  readings: number; // Alertas agrupadas
+  peak: number; // mg/dL: máximo en hiper, mínimo en hipo
+  mean: number; // mg/dL
+  area: number; // mg/dL·h por encima (hiper) o por debajo (hipo) del umbral
+  severidad: Severity | HypoSeverity; // La más grave del episodio
+  contexts: MealContext[]; // Contextos de comida en los que ocurrió
+}
+
+/**
+ * Alertas fuera de rango (las de tipos propios de las reglas no forman episodios)
+ */
+type RangeAlert = Extract<AlertaGlucosa, { tipo: 'hiperglucemia' | 'hipoglucemia' }>;
+
+const SEVERITY_RANK: Record<Severity | HypoSeverity, number> = {
+  moderate: 1,
+  high: 2,
+  level1: 1,
+  level2: 2,
+};
+
+/**
+ * Resume un grupo de alertas ordenadas en un episodio
+ *
+ * El área se integra por trapecios sobre la distancia de cada lectura al
+ * umbral efectivo de su paciente y contexto.
+ */
+function summarizeEpisode(alerts: readonly RangeAlert[], perfil: ThresholdProfile): GlycemicEpisode {
+  const first = alerts[0];
+  const last = alerts[alerts.length - 1];
+  const hyper = first.tipo === 'hiperglucemia';
+
+  const excess = alerts.map(alert => {
+    const limits = resolveThresholds(perfil, alert.patient_id, alert.meal_context);
+    return hyper ? alert.glucose_level - limits.hiperglucemia : limits.hipoglucemia - alert.glucose_level;
+  });
+
+  let area = 0;
+  let sum = first.glucose_level;
+  let peak = first.glucose_level;
+  let severidad = first.severidad;
+  for (let i = 1; i < alerts.length; i++) {
+    const hours = (toEpoch(alerts[i].timestamp) - toEpoch(alerts[i - 1].timestamp)) / 3_600_000;
+    area += ((Math.max(excess[i], 0) + Math.max(excess[i - 1], 0)) / 2) * hours;
+    sum += alerts[i].glucose_level;
+    peak = hyper ? Math.max(peak, alerts[i].glucose_level) : Math.min(peak, alerts[i].glucose_level);
+    if (SEVERITY_RANK[alerts[i].severidad] > SEVERITY_RANK[severidad]) severidad = alerts[i].severidad;
+  }
+
+  return {
+    id: alertKey(first),
+    alertKeys: alerts.map(alertKey),
+    tipo: first.tipo,
+    patient_id: first.patient_id,
+    start: first.timestamp,
+    end: last.timestamp,
+    durationMinutes: Math.round((toEpoch(last.timestamp) - toEpoch(first.timestamp)) / 60_000),
+    readings: alerts.length,
+    peak,
+    mean: sum / alerts.length,
+    area,
+    severidad,
+    contexts: [...new Set(alerts.map(alert => alert.meal_context).filter(context => context !== null))],
+  };
+}
+
+/**
+ * Agrupa en episodios las lecturas fuera de rango
+ *
+ * Se recorre la serie de cada paciente por fecha: una lectura con alerta de
+ * hiper o hipoglucemia continúa el episodio en curso si es del mismo tipo;
+ * una lectura en rango, una alerta del otro tipo o un hueco entre lecturas
+ * mayor que `maxGapMinutes` lo cierran. Las alertas de tipos propios de las
+ * reglas (ej. subida rápida) no forman episodios. Las alertas sin su
+ * lectura (resumen sin lecturas cargadas) cuentan como lecturas fuera de
+ * rango.
+ *
+ * @param readings - Lecturas de uno o varios pacientes, sin filtrar, en cualquier orden
+ * @param alerts - Alertas de esas lecturas, sin filtrar (ver filterEpisodes)
+ * @param perfil - Perfil de umbrales para calcular el área fuera de rango
+ * @param maxGapMinutes - Separación máxima entre lecturas consecutivas
+ * @returns Episodios ordenados por inicio
+ */
+export function buildEpisodes(
+  readings: readonly GlucoseReading[],
+  alerts: readonly AlertaGlucosa[],
+  perfil: ThresholdProfile,
+  maxGapMinutes: number = DEFAULT_EPISODE_GAP_MINUTES
+): GlycemicEpisode[] {
+  const maxGapMs = maxGapMinutes * 60_000;
+  const episodes: GlycemicEpisode[] = [];
+
+  const rangeAlerts = new Map<string, RangeAlert>();
+  alerts.forEach(alert => {
+    if (alert.tipo === 'hiperglucemia' || alert.tipo === 'hipoglucemia') rangeAlerts.set(readingKey(alert), alert);
+  });
+
+  const points: { patient_id: PatientId; timestamp: string; alert: RangeAlert | null }[] = [];
+  const seen = new Set<string>();
+  readings.forEach(reading => {
+    const key = readingKey(reading);
+    if (seen.has(key)) return;
+    seen.add(key);
+    points.push({ patient_id: reading.patient_id, timestamp: reading.timestamp, alert: rangeAlerts.get(key) ?? null });
+  });
+  rangeAlerts.forEach((alert, key) => {
+    if (!seen.has(key)) points.push({ patient_id: alert.patient_id, timestamp: alert.timestamp, alert });
+  });
+
+  groupByPatient(points).forEach(series => {
+    series.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    let current: RangeAlert[] = [];
+    let previousTime: number | null = null;
+    const close = () => {
+      if (current.length > 0) episodes.push(summarizeEpisode(current, perfil));
+      current = [];
+    };
+
+    series.forEach(({ timestamp, alert }) => {
+      const time = toEpoch(timestamp);
+      if (previousTime !== null && time - previousTime > maxGapMs) close();
+      previousTime = time;
+      if (!alert || (current.length > 0 && current[0].tipo !== alert.tipo)) close();
+      if (alert) current.push(alert);
+    });
+    close();
+  });
+
+  return episodes.sort((a, b) => a.start.localeCompare(b.start) || a.patient_id.localeCompare(b.patient_id));
+}
+
+/**
+ * Episodios con al menos una de las alertas dadas (ej. las que cumplen el
+ * filtro del dashboard)
+ *
+ * Los episodios se construyen con todas las lecturas y se filtran enteros,
+ * así que el filtro decide qué episodios se ven pero no cambia su forma.
+ *
+ * @param episodes - Episodios de todas las alertas
+ * @param alerts - Alertas filtradas
+ * @returns Episodios en el mismo orden
+ */
+export function filterEpisodes(episodes: readonly GlycemicEpisode[], alerts: readonly AlertaGlucosa[]): GlycemicEpisode[] {
+  const keys = new Set(alerts.map(alertKey));
+  return episodes.filter(episode => episode.alertKeys.some(key => keys.has(key)));
+}
+
+/**
+ * Columnas por las que se puede ordenar la tabla de episodios
+ */
+export type EpisodeSortField = 'start' | 'patient_id' | 'durationMinutes' | 'peak' | 'area';
+
+/**
+ * Ordena episodios por una columna de la tabla sin mutar el array original
+ */
+export function sortEpisodes(
+  episodes: readonly GlycemicEpisode[],
+  field: EpisodeSortField,
+  order: 'asc' | 'desc'
+): GlycemicEpisode[] {
+  const direction = order === 'asc' ? 1 : -1;
+  return [...episodes].sort((a, b) => {
+    const aValue = a[field];
+    const bValue = b[field];
+    if (aValue === bValue) return 0;
+    return aValue > bValue ? direction : -direction;
+  });
+}
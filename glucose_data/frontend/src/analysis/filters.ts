@@ -0,0 +1,123 @@
+// analysis/filters.ts
+// Modelo de filtros del dashboard aplicado a lecturas y alertas
+
+import type { AlertaGlucosa, AlertFilter, AlertReview, GlucoseReading, ReviewStatus } from '../components/types';
+import { alertKey } from './alerts';
+import { isMealContext, matchesContexts } from './constants';
+
+/**
+ * Filtro sin criterios activos
+ */
+export const EMPTY_FILTER: AlertFilter = {
+  patients: [],
+  contexts: [],
+  kind: null,
+  severity: null,
+  dateFrom: null,
+  dateTo: null,
+  timeFrom: null,
+  timeTo: null,
+  minGlucose: null,
+  maxGlucose: null,
+  reviewStatus: null,
+};
+
+/**
+ * Completa un filtro guardado con una versión anterior del modelo
+ */
+export function normalizeFilter(value: Partial<AlertFilter> | null | undefined): AlertFilter {
+  return { ...EMPTY_FILTER, ...value };
+}
+
+/**
+ * Convierte el paciente y el contexto que guardaban las primeras versiones
+ * (claves 'filter_patient' y 'filter_context', null = todos)
+ */
+export function filterFromLegacy(patient: unknown, context: unknown): AlertFilter {
+  return {
+    ...EMPTY_FILTER,
+    patients: typeof patient === 'string' && patient !== '' ? [patient] : [],
+    contexts: typeof context === 'string' && isMealContext(context) ? [context] : [],
+  };
+}
+
+/**
+ * Indica si algún criterio del filtro está activo
+ */
+export function isFilterActive(filter: AlertFilter): boolean {
+  return (Object.keys(EMPTY_FILTER) as (keyof AlertFilter)[]).some(key => {
+    const value = filter[key];
+    return Array.isArray(value) ? value.length > 0 : value !== null;
+  });
+}
+
+/**
+ * Comprueba si "HH:MM" cae en la franja [from, to); admite franjas que
+ * cruzan la medianoche (ej. 22:00–06:00)
+ */
+export function inTimeWindow(time: string, from: string | null, to: string | null): boolean {
+  if (from === null && to === null) return true;
+  if (from === null) return time < to!;
+  if (to === null) return time >= from;
+  return from <= to ? time >= from && time < to : time >= from || time < to;
+}
+
+/**
+ * Estado de revisión de una alerta ("new" si no tiene revisión guardada)
+ */
+export function reviewStatusOf(alert: AlertaGlucosa, reviews?: ReadonlyMap<string, AlertReview>): ReviewStatus {
+  return reviews?.get(alertKey(alert))?.status ?? 'new';
+}
+
+/**
+ * Aplica los criterios comunes a lecturas y alertas
+ */
+export function matchesReading(reading: GlucoseReading, filter: AlertFilter): boolean {
+  const date = reading.timestamp.slice(0, 10);
+  const time = reading.timestamp.slice(11, 16);
+
+  return (
+    (filter.patients.length === 0 || filter.patients.includes(reading.patient_id)) &&
+    matchesContexts(filter.contexts, reading.meal_context) &&
+    (filter.dateFrom === null || date >= filter.dateFrom) &&
+    (filter.dateTo === null || date <= filter.dateTo) &&
+    inTimeWindow(time, filter.timeFrom, filter.timeTo) &&
+    (filter.minGlucose === null || reading.glucose_level >= filter.minGlucose) &&
+    (filter.maxGlucose === null || reading.glucose_level <= filter.maxGlucose)
+  );
+}
+
+/**
+ * Aplica todos los criterios a una alerta (incluidos tipo, severidad y
+ * estado de revisión; sin revisión guardada la alerta cuenta como "new")
+ */
+export function matchesAlert(
+  alert: AlertaGlucosa,
+  filter: AlertFilter,
+  reviews?: ReadonlyMap<string, AlertReview>
+): boolean {
+  return (
+    (filter.kind === null || alert.tipo === filter.kind) &&
+    (filter.severity === null || alert.severidad === filter.severity) &&
+    (filter.reviewStatus === null || reviewStatusOf(alert, reviews) === filter.reviewStatus) &&
+    matchesReading(alert, filter)
+  );
+}
+
+/**
+ * Lecturas que cumplen los criterios de lectura del filtro
+ */
+export function filterReadings(readings: readonly GlucoseReading[], filter: AlertFilter): GlucoseReading[] {
+  return isFilterActive(filter) ? readings.filter(reading => matchesReading(reading, filter)) : [...readings];
+}
+
+/**
+ * Alertas que cumplen todos los criterios del filtro
+ */
+export function filterAlerts(
+  alerts: readonly AlertaGlucosa[],
+  filter: AlertFilter,
+  reviews?: ReadonlyMap<string, AlertReview>
+): AlertaGlucosa[] {
+  return isFilterActive(filter) ? alerts.filter(alert => matchesAlert(alert, filter, reviews)) : [...alerts];
+}
@@ -0,0 +1,102 @@
+// analysis/forecast.test.ts
+// Ajuste del modelo sobre una serie lineal sintética, alertas previstas y
+// evaluación con partición temporal
+
+import { describe, expect, it } from 'vitest';
+import type { GlucoseReading } from '../components/types';
+import { FORECAST_ALERT_KIND } from './constants';
+import { analyzeReadings } from './summary';
+import { DEFAULT_PROFILE } from './thresholds';
+import { fromEpoch, toEpoch } from './time';
+import { applyForecasts, backtestForecast, fitForecastModel, forecastLatest, MIN_TRAINING_PAIRS } from './forecast';
+
+const START = toEpoch('2026-01-01 08:00:00');
+
+/**
+ * Lecturas cada 5 minutos que suben 0,2 mg/dL por minuto desde `from`
+ */
+function linearSeries(minutes: number, from = 100, patient_id = 'P001'): GlucoseReading[] {
+  return Array.from({ length: minutes / 5 + 1 }, (_, i) => ({
+    timestamp: fromEpoch(START + i * 5 * 60_000),
+    patient_id,
+    glucose_level: from + i,
+    meal_context: null,
+  }));
+}
+
+describe('fitForecastModel', () => {
+  it('ajusta una serie lineal casi sin error', () => {
+    const model = fitForecastModel(linearSeries(240), 30)!;
+
+    expect(model.horizon).toBe(30);
+    expect(model.pairs).toBeGreaterThanOrEqual(MIN_TRAINING_PAIRS);
+    // Solo las lecturas finales, emparejadas con la última dentro de la
+    // tolerancia, se apartan de la recta
+    expect(model.sigma).toBeLessThan(1);
+    expect(model.mean).toBe(124);
+  });
+
+  it(`necesita al menos ${MIN_TRAINING_PAIRS} pares`, () => {
+    // 20 lecturas: solo 14 tienen otra a 30 min (± 15)
+    expect(fitForecastModel(linearSeries(95), 30)).toBeNull();
+  });
+});
+
+describe('forecastLatest', () => {
+  it('prolonga la tendencia desde la última lectura en cada horizonte', () => {
+    const forecasts = forecastLatest(linearSeries(240));
+
+    expect(forecasts.map(forecast => [forecast.horizonte_min, forecast.timestamp])).toEqual([
+      [30, '2026-01-01 12:30:00'],
+      [60, '2026-01-01 13:00:00'],
+    ]);
+    expect(Math.abs(forecasts[0].glucosa - 154)).toBeLessThan(1);
+    expect(Math.abs(forecasts[1].glucosa - 160)).toBeLessThan(1);
+    expect(forecasts[1].inferior).toBeLessThan(forecasts[1].glucosa);
+    expect(forecasts[1].superior).toBeGreaterThan(forecasts[1].glucosa);
+  });
+
+  it('no prevé nada sin lecturas', () => {
+    expect(forecastLatest([])).toEqual([]);
+  });
+});
+
+describe('applyForecasts', () => {
+  it('alerta desde lecturas en rango cuya previsión supera el umbral', () => {
+    const readings = linearSeries(240);
+    const threshold = DEFAULT_PROFILE.por_defecto.hiperglucemia;
+    const alerts = applyForecasts(analyzeReadings(readings), readings).alertas_previstas!;
+
+    expect(alerts.length).toBeGreaterThan(0);
+    alerts.forEach(alert => {
+      expect(alert.tipo).toBe(FORECAST_ALERT_KIND);
+      expect(alert.glucose_level).toBeLessThanOrEqual(threshold);
+      expect(alert.prevision.glucosa).toBeGreaterThan(threshold);
+      expect(alert.severidad).toBe(alert.prevision.inferior > threshold ? 'high' : 'moderate');
+    });
+    // Primero avisa el horizonte largo y, al acercarse, el corto
+    expect(alerts[0].prevision.horizonte_min).toBe(60);
+    expect(alerts[alerts.length - 1].prevision.horizonte_min).toBe(30);
+    expect(alerts.some(alert => alert.severidad === 'high')).toBe(true);
+  });
+
+  it('devuelve el resumen sin cambios sin lecturas', () => {
+    const data = analyzeReadings(linearSeries(60));
+    expect(applyForecasts(data, [])).toBe(data);
+  });
+});
+
+describe('backtestForecast', () => {
+  it('evalúa sobre la parte final del periodo de cada paciente', () => {
+    const readings = [...linearSeries(480, 60), ...linearSeries(60, 100, 'P002')];
+    const result = backtestForecast(readings, DEFAULT_PROFILE, 0.5);
+
+    expect(result).toMatchObject({ patients: 1, skipped: ['P002'], trainReadings: 48, testReadings: 49 });
+    result.horizons.forEach(score => {
+      // La persistencia falla por todo el cambio en el horizonte (0,2 mg/dL/min)
+      expect(score.persistenceMae).toBeCloseTo(score.horizon * 0.2, 0);
+      expect(score.mae).toBeLessThan(1);
+      expect(score.hits).toBe(score.crossings);
+    });
+  });
+});
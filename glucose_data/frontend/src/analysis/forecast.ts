@@ -0,0 +1,408 @@
+// analysis/forecast.ts
+// Previsión de la glucosa a corto plazo (30–60 min) y alertas de
+// hiperglucemia prevista
+
+import type {
+  AlertaPrevista,
+  GlucoseData,
+  GlucoseReading,
+  MealContext,
+  PatientId,
+  PrevisionGlucosa,
+  ThresholdProfile,
+} from '../components/types';
+import { FORECAST_ALERT_KIND, MEAL_CONTEXTS } from './constants';
+import { groupByPatient } from './metrics';
+import { sortByTimestamp } from './summary';
+import { resolveThresholds } from './thresholds';
+import { fromEpoch, toEpoch } from './time';
+
+/**
+ * Horizontes de la previsión, en minutos
+ */
+export const FORECAST_HORIZONS = [30, 60] as const;
+
+/**
+ * Minutos hacia atrás con los que se estima la tendencia reciente
+ */
+export const FORECAST_LOOKBACK_MINUTES = 30;
+
+/**
+ * Diferencia máxima (minutos) entre el momento previsto y la lectura con la
+ * que se compara al entrenar y al evaluar
+ */
+export const FORECAST_TOLERANCE_MINUTES = 15;
+
+/**
+ * Pares (lectura, lectura a `horizonte` minutos) necesarios para ajustar el
+ * modelo de un paciente
+ */
+export const MIN_TRAINING_PAIRS = 20;
+
+// Cuantil de la normal del intervalo de predicción del 80%
+const Z_80 = 1.2816;
+
+/**
+ * Modelo de un paciente para un horizonte
+ *
+ * Prevé el cambio de glucosa como
+ *   Δ = a + b·(glucosa − media del contexto) + c·(pendiente reciente · horizonte)
+ * es decir, la tendencia de las últimas lecturas más una vuelta hacia el
+ * nivel habitual del paciente en ese momento del día (ayuno, después de
+ * comer, antes de dormir).
+ */
+export interface ForecastModel {
+  horizon: number; // Minutos
+  coefficients: [number, number, number]; // a, b, c
+  sigma: number; // Desviación típica de los residuos, mg/dL
+  contextMeans: Record<MealContext, number>; // mg/dL, de las lecturas de entrenamiento
+  mean: number; // mg/dL, de todas ellas (lecturas sin contexto)
+  pairs: number; // Pares con los que se ajustó
+}
+
+/**
+ * Lecturas de un paciente ordenadas, con sus instantes ya convertidos
+ */
+interface Series {
+  readings: readonly GlucoseReading[];
+  epochs: readonly number[];
+}
+
+function toSeries(readings: readonly GlucoseReading[]): Series {
+  const sorted = sortByTimestamp(readings);
+  return { readings: sorted, epochs: sorted.map(reading => toEpoch(reading.timestamp)) };
+}
+
+/**
+ * Índice de la lectura más cercana a `time`, si está dentro de la tolerancia
+ */
+function readingNear({ epochs }: Series, time: number): number | null {
+  let low = 0;
+  let high = epochs.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (epochs[mid] < time) low = mid + 1;
+    else high = mid;
+  }
+  const tolerance = FORECAST_TOLERANCE_MINUTES * 60_000;
+  const candidates = [low - 1, low].filter(i => i >= 0 && i < epochs.length && Math.abs(epochs[i] - time) <= tolerance);
+  if (candidates.length === 0) return null;
+  return candidates.reduce((best, i) => (Math.abs(epochs[i] - time) < Math.abs(epochs[best] - time) ? i : best));
+}
+
+/**
+ * Pendiente (mg/dL por minuto) por mínimos cuadrados de las lecturas de los
+ * últimos FORECAST_LOOKBACK_MINUTES hasta `index`; 0 con una sola lectura
+ */
+function recentSlope({ readings, epochs }: Series, index: number): number {
+  const start = epochs[index] - FORECAST_LOOKBACK_MINUTES * 60_000;
+  let n = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let sumXY = 0;
+  let sumXX = 0;
+  for (let i = index; i >= 0 && epochs[i] >= start; i--) {
+    const x = (epochs[i] - epochs[index]) / 60_000;
+    const y = readings[i].glucose_level;
+    n += 1;
+    sumX += x;
+    sumY += y;
+    sumXY += x * y;
+    sumXX += x * x;
+  }
+  const denominator = n * sumXX - sumX * sumX;
+  return n < 2 || denominator === 0 ? 0 : (n * sumXY - sumX * sumY) / denominator;
+}
+
+function features(series: Series, index: number, model: Pick<ForecastModel, 'horizon' | 'contextMeans' | 'mean'>): number[] {
+  const reading = series.readings[index];
+  const level = reading.meal_context ? model.contextMeans[reading.meal_context] : model.mean;
+  return [1, reading.glucose_level - level, recentSlope(series, index) * model.horizon];
+}
+
+/**
+ * Resuelve un sistema lineal pequeño por eliminación de Gauss con pivoteo
+ * parcial; null si es singular
+ */
+function solve(matrix: number[][], vector: number[]): number[] | null {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    if (Math.abs(a[pivot][col]) < 1e-9) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+/**
+ * Ajusta el modelo de un paciente por mínimos cuadrados
+ *
+ * @param series - Lecturas del paciente ordenadas
+ * @param horizon - Minutos hacia adelante
+ * @param until - Solo se usan lecturas anteriores a este instante (epoch ms),
+ *   para evaluar sin mirar el futuro
+ * @returns Modelo, o null sin pares suficientes
+ */
+function fitSeries(series: Series, horizon: number, until: number = Infinity): ForecastModel | null {
+  const totals = new Map<MealContext, { sum: number; count: number }>();
+  let sum = 0;
+  let count = 0;
+  series.readings.forEach((reading, i) => {
+    if (series.epochs[i] >= until) return;
+    if (reading.meal_context) {
+      const entry = totals.get(reading.meal_context) ?? { sum: 0, count: 0 };
+      entry.sum += reading.glucose_level;
+      entry.count += 1;
+      totals.set(reading.meal_context, entry);
+    }
+    sum += reading.glucose_level;
+    count += 1;
+  });
+  if (count === 0) return null;
+  const contextMeans = Object.fromEntries(
+    MEAL_CONTEXTS.map(context => {
+      const entry = totals.get(context);
+      return [context, entry ? entry.sum / entry.count : sum / count];
+    })
+  ) as Record<MealContext, number>;
+
+  // Ecuaciones normales de los pares (lectura, lectura a `horizon` minutos)
+  const xtx = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const xty = [0, 0, 0];
+  const pairs: { x: number[]; y: number }[] = [];
+  series.readings.forEach((reading, i) => {
+    const target = series.epochs[i] + horizon * 60_000;
+    if (target >= until) return;
+    const j = readingNear(series, target);
+    if (j === null) return;
+    const x = features(series, i, { horizon, contextMeans, mean: sum / count });
+    const y = series.readings[j].glucose_level - reading.glucose_level;
+    pairs.push({ x, y });
+    for (let r = 0; r < 3; r++) {
+      xty[r] += x[r] * y;
+      for (let c = 0; c < 3; c++) xtx[r][c] += x[r] * x[c];
+    }
+  });
+  if (pairs.length < MIN_TRAINING_PAIRS) return null;
+
+  // Sin tendencia medible (p. ej. lecturas muy separadas) la columna de la
+  // pendiente es nula y el sistema singular: se ajusta sin ella
+  const coefficients = solve(xtx, xty) ?? [...(solve(xtx.slice(0, 2).map(row => row.slice(0, 2)), xty.slice(0, 2)) ?? [0, 0]), 0];
+  const residuals = pairs.map(({ x, y }) => y - x.reduce((total, value, k) => total + value * coefficients[k], 0));
+  const sigma = Math.sqrt(residuals.reduce((total, r) => total + r * r, 0) / Math.max(pairs.length - 3, 1));
+
+  return { horizon, coefficients: coefficients as [number, number, number], sigma, contextMeans, mean: sum / count, pairs: pairs.length };
+}
+
+/**
+ * Ajusta el modelo de un paciente para un horizonte
+ *
+ * @param readings - Lecturas del paciente, en cualquier orden
+ * @param horizon - Minutos hacia adelante
+ * @returns Modelo, o null sin pares suficientes
+ */
+export function fitForecastModel(readings: readonly GlucoseReading[], horizon: number): ForecastModel | null {
+  return fitSeries(toSeries(readings), horizon);
+}
+
+function predict(series: Series, index: number, model: ForecastModel): PrevisionGlucosa {
+  const x = features(series, index, model);
+  const glucosa = series.readings[index].glucose_level + x.reduce((total, value, k) => total + value * model.coefficients[k], 0);
+  const margin = Z_80 * model.sigma;
+  return {
+    horizonte_min: model.horizon,
+    timestamp: fromEpoch(series.epochs[index] + model.horizon * 60_000),
+    glucosa,
+    inferior: glucosa - margin,
+    superior: glucosa + margin,
+  };
+}
+
+/**
+ * Previsión desde la última lectura de un paciente
+ *
+ * @param readings - Lecturas del paciente, en cualquier orden
+ * @returns Una previsión por horizonte con modelo ajustado
+ */
+export function forecastLatest(readings: readonly GlucoseReading[]): PrevisionGlucosa[] {
+  if (readings.length === 0) return [];
+  const series = toSeries(readings);
+  return FORECAST_HORIZONS.flatMap(horizon => {
+    const model = fitSeries(series, horizon);
+    return model ? [predict(series, series.readings.length - 1, model)] : [];
+  });
+}
+
+/**
+ * Alertas de hiperglucemia prevista de un paciente
+ *
+ * Se alerta desde una lectura que aún no supera el umbral de su contexto
+ * cuando la previsión lo supera en algún horizonte (el más cercano); la
+ * severidad es "high" si lo supera todo el intervalo de predicción.
+ */
+function seriesAlerts(series: Series, models: ForecastModel[], perfil: ThresholdProfile, from = 0): AlertaPrevista[] {
+  const alerts: AlertaPrevista[] = [];
+  for (let i = from; i < series.readings.length; i++) {
+    const reading = series.readings[i];
+    const threshold = resolveThresholds(perfil, reading.patient_id, reading.meal_context).hiperglucemia;
+    if (reading.glucose_level > threshold) continue;
+    for (const model of models) {
+      const prevision = predict(series, i, model);
+      if (prevision.glucosa <= threshold) continue;
+      alerts.push({
+        timestamp: reading.timestamp,
+        patient_id: reading.patient_id,
+        glucose_level: reading.glucose_level,
+        meal_context: reading.meal_context,
+        tipo: FORECAST_ALERT_KIND,
+        severidad: prevision.inferior > threshold ? 'high' : 'moderate',
+        prevision,
+      });
+      break;
+    }
+  }
+  return alerts;
+}
+
+/**
+ * Añade las alertas de hiperglucemia prevista a un resumen
+ *
+ * El modelo de cada paciente se ajusta con todas sus lecturas y se aplica a
+ * cada una de ellas, como las reglas.
+ *
+ * @param data - Resumen (con las reglas ya aplicadas)
+ * @param readings - Lecturas crudas con las que se generó
+ * @returns Resumen con `alertas_previstas`
+ */
+export function applyForecasts(data: GlucoseData, readings: readonly GlucoseReading[]): GlucoseData {
+  if (readings.length === 0) return data;
+  const alerts: AlertaPrevista[] = [];
+  groupByPatient(readings).forEach(patientReadings => {
+    const series = toSeries(patientReadings);
+    const models = FORECAST_HORIZONS.flatMap(horizon => fitSeries(series, horizon) ?? []);
+    if (models.length > 0) alerts.push(...seriesAlerts(series, models, data.metadata.perfil_umbrales));
+  });
+  return { ...data, alertas_previstas: sortByTimestamp(alerts) };
+}
+
+/**
+ * Precisión de la previsión en un horizonte
+ */
+export interface HorizonScore {
+  horizon: number;
+  predictions: number; // Previsiones con lectura real con la que comparar
+  mae: number; // Error absoluto medio del modelo, mg/dL
+  persistenceMae: number; // Error de prever que la glucosa no cambia (referencia)
+  intervalCoverage: number; // % de lecturas reales dentro del intervalo del 80%
+  crossings: number; // Lecturas bajo el umbral cuya lectura a `horizon` min lo supera
+  hits: number; // Cruces que la previsión anticipó
+  alerts: number; // Previsiones de cruce (aciertos + falsas alarmas)
+}
+
+/**
+ * Resultado de evaluar la previsión sobre datos históricos
+ */
+export interface BacktestResult {
+  patients: number; // Pacientes con modelo
+  skipped: PatientId[]; // Sin pares suficientes para entrenar
+  trainReadings: number;
+  testReadings: number;
+  horizons: HorizonScore[];
+  predictedAlerts: number; // Alertas de hiperglucemia prevista en el periodo de prueba
+}
+
+/**
+ * Evalúa la previsión con una partición temporal: cada paciente entrena
+ * con la primera parte de su periodo y se evalúa sobre el resto
+ *
+ * El acierto (hit rate) es la fracción de cruces del umbral que la
+ * previsión anticipó desde una lectura aún en rango.
+ *
+ * @param readings - Lecturas históricas de la cohorte
+ * @param perfil - Perfil con los umbrales de hiperglucemia
+ * @param trainFraction - Fracción del periodo de cada paciente para entrenar
+ */
+export function backtestForecast(
+  readings: readonly GlucoseReading[],
+  perfil: ThresholdProfile,
+  trainFraction: number
+): BacktestResult {
+  const scores = new Map(FORECAST_HORIZONS.map(horizon => [horizon, {
+    horizon, predictions: 0, absError: 0, persistenceError: 0, inside: 0, crossings: 0, hits: 0, alerts: 0,
+  }]));
+  const skipped: PatientId[] = [];
+  let patients = 0;
+  let trainReadings = 0;
+  let testReadings = 0;
+  let predictedAlerts = 0;
+
+  groupByPatient(readings).forEach((patientReadings, patientId) => {
+    const series = toSeries(patientReadings);
+    const first = series.epochs[0];
+    const split = first + (series.epochs[series.epochs.length - 1] - first) * trainFraction;
+    const models = FORECAST_HORIZONS.flatMap(horizon => fitSeries(series, horizon, split) ?? []);
+    if (models.length < FORECAST_HORIZONS.length) {
+      skipped.push(patientId);
+      return;
+    }
+    patients += 1;
+
+    const testFrom = series.epochs.findIndex(epoch => epoch >= split);
+    trainReadings += testFrom;
+    testReadings += series.readings.length - testFrom;
+    predictedAlerts += seriesAlerts(series, models, perfil, testFrom).length;
+
+    for (let i = testFrom; i < series.readings.length; i++) {
+      const reading = series.readings[i];
+      const threshold = resolveThresholds(perfil, patientId, reading.meal_context).hiperglucemia;
+      models.forEach(model => {
+        const j = readingNear(series, series.epochs[i] + model.horizon * 60_000);
+        if (j === null || j === i) return;
+        const actual = series.readings[j].glucose_level;
+        const prevision = predict(series, i, model);
+        const score = scores.get(model.horizon as (typeof FORECAST_HORIZONS)[number])!;
+        score.predictions += 1;
+        score.absError += Math.abs(prevision.glucosa - actual);
+        score.persistenceError += Math.abs(reading.glucose_level - actual);
+        if (actual >= prevision.inferior && actual <= prevision.superior) score.inside += 1;
+        if (reading.glucose_level > threshold) return;
+        const predicted = prevision.glucosa > threshold;
+        if (predicted) score.alerts += 1;
+        if (actual > threshold) {
+          score.crossings += 1;
+          if (predicted) score.hits += 1;
+        }
+      });
+    }
+  });
+
+  return {
+    patients,
+    skipped,
+    trainReadings,
+    testReadings,
+    predictedAlerts,
+    horizons: [...scores.values()].map(score => ({
+      horizon: score.horizon,
+      predictions: score.predictions,
+      mae: score.predictions > 0 ? score.absError / score.predictions : 0,
+      persistenceMae: score.predictions > 0 ? score.persistenceError / score.predictions : 0,
+      intervalCoverage: score.predictions > 0 ? (score.inside / score.predictions) * 100 : 0,
+      crossings: score.crossings,
+      hits: score.hits,
+      alerts: score.alerts,
+    })),
+  };
+}
@@ -0,0 +1,92 @@
+// analysis/importers.test.ts
+// Detección de formato, contexto de las lecturas importadas y duplicados
+
+import { describe, expect, it } from 'vitest';
+import { importReadings, parseImportTimestamp, prepareImport } from './importers';
+
+const PLAIN = [
+  'timestamp,patient_id,glucose_level,meal_context',
+  '2026-01-01 07:00:00,P001,95,Fasting',
+  '2026-01-01 13:00:00,P001,150,',
+  '2026-01-01 13:00:00,P001,152,',
+  '2026-01-01 22:30:00,P002,120,',
+  '2026-01-01 23:00:00,P002,abc,',
+].join('\n');
+
+const DEXCOM = [
+  'Index,Timestamp (YYYY-MM-DDThh:mm:ss),Event Type,Event Subtype,Patient Info,Device Info,Source Device ID,Glucose Value (mg/dL)',
+  '1,,FirstName,,Ana,,,',
+  '2,,LastName,,Pérez,,,',
+  '3,2026-01-01T12:00:00,Carbs,,,,,',
+  '4,2026-01-01T12:30:00,EGV,,,,,180',
+  '5,2026-01-01T15:00:00,EGV,,,,,Low',
+].join('\n');
+
+describe('prepareImport', () => {
+  it('sugiere importar sin contexto', () => {
+    expect(prepareImport(PLAIN, 'datos.csv').suggested.contextFallback).toBe('none');
+  });
+
+  it('reconoce las exportaciones de Dexcom y el nombre del paciente', () => {
+    const preview = prepareImport(DEXCOM, 'clarity.csv');
+    expect(preview.format).toBe('dexcom');
+    expect(preview.suggested.patientId).toBe('Ana Pérez');
+  });
+});
+
+describe('importReadings', () => {
+  it('deja sin contexto las lecturas que no lo indican', () => {
+    const preview = prepareImport(PLAIN, 'datos.csv');
+    const { readings } = importReadings(preview, preview.suggested);
+
+    expect(readings.map(reading => [reading.meal_context, reading.meal_context_guessed])).toEqual([
+      ['Fasting', undefined],
+      [null, undefined],
+      [null, undefined],
+    ]);
+  });
+
+  it('marca los contextos supuestos por la hora o fijos', () => {
+    const preview = prepareImport(PLAIN, 'datos.csv');
+    const bySchedule = importReadings(preview, { ...preview.suggested, contextFallback: 'schedule' }).readings;
+    const fixed = importReadings(preview, { ...preview.suggested, contextFallback: 'Fasting' }).readings;
+
+    expect(bySchedule.map(reading => [reading.meal_context, reading.meal_context_guessed])).toEqual([
+      ['Fasting', undefined],
+      ['Post-prandial', true],
+      ['Before sleep', true],
+    ]);
+    expect(fixed.slice(1).every(reading => reading.meal_context === 'Fasting' && reading.meal_context_guessed)).toBe(true);
+  });
+
+  it('descarta las lecturas repetidas del mismo paciente y hora', () => {
+    const preview = prepareImport(PLAIN, 'datos.csv');
+    const result = importReadings(preview, preview.suggested);
+
+    expect(result.duplicates).toBe(1);
+    expect(result.readings.find(reading => reading.timestamp === '2026-01-01 13:00:00')?.glucose_level).toBe(150);
+    expect(result.rejected).toEqual([{ line: 6, message: 'glucosa no numérica: "abc"' }]);
+  });
+
+  it('marca como post-prandiales las lecturas tras una comida registrada', () => {
+    const preview = prepareImport(DEXCOM, 'clarity.csv');
+    const result = importReadings(preview, preview.suggested);
+
+    expect(result.skipped).toBe(3);
+    expect(result.readings.map(reading => [reading.glucose_level, reading.meal_context])).toEqual([
+      [180, 'Post-prandial'],
+      [40, null],
+    ]);
+  });
+});
+
+describe('parseImportTimestamp', () => {
+  it('interpreta el orden de la fecha y la hora en formato de 12 h', () => {
+    expect(parseImportTimestamp('01/02/2026 03:15 PM', 'mdy')).toBe('2026-01-02 15:15:00');
+    expect(parseImportTimestamp('01/02/2026 03:15 PM', 'dmy')).toBe('2026-02-01 15:15:00');
+  });
+
+  it('rechaza fechas imposibles', () => {
+    expect(parseImportTimestamp('2026-02-30 10:00', 'ymd')).toBeNull();
+  });
+});
@@ -0,0 +1,407 @@
+// analysis/importers.ts
+// Importación de exportaciones de dispositivos (Dexcom Clarity, LibreView)
+// y del CSV plano de data_gen.py
+
+import type { GlucoseReading, GlucoseUnit, MealContext, PatientId } from '../components/types';
+import { isMealContext, MEAL_CONTEXTS } from './constants';
+import { splitCSVLine, READING_COLUMNS, type CsvRowError, type ParsedReadings } from './csv';
+import { fromEpoch } from './time';
+import { toMgdl } from './units';
+
+/**
+ * Formatos de archivo reconocidos
+ */
+export type ImportFormat = 'dexcom' | 'libreview' | 'plain';
+
+export const IMPORT_FORMATS: readonly ImportFormat[] = ['dexcom', 'libreview', 'plain'];
+
+/**
+ * Orden de día, mes y año en las fechas del archivo
+ *
+ * LibreView exporta "MM-DD-YYYY" o "DD-MM-YYYY" según el país de la cuenta.
+ */
+export type DateOrder = 'ymd' | 'mdy' | 'dmy';
+
+/**
+ * Contexto que se asigna cuando el archivo no lo indica: `'none'` para
+ * dejar la lectura sin contexto, uno fijo o `'schedule'` para deducirlo de
+ * la hora (ver CONTEXT_SCHEDULE). Los dos últimos se marcan como supuestos.
+ */
+export type ContextFallback = MealContext | 'schedule' | 'none';
+
+/**
+ * Índice de columna (0-based) de cada campo; null = no disponible
+ */
+export interface ColumnMapping {
+  timestamp: number;
+  glucose: number;
+  glucoseAlt: number | null; // Se usa si `glucose` viene vacía (LibreView: escaneo)
+  patient: number | null;
+  context: number | null;
+}
+
+/**
+ * Opciones editables en el paso de vista previa
+ */
+export interface ImportOptions {
+  mapping: ColumnMapping;
+  unit: GlucoseUnit;
+  dateOrder: DateOrder;
+  patientId: PatientId; // Paciente si no hay columna o viene vacía
+  contextFallback: ContextFallback;
+}
+
+/**
+ * Filtro de filas por el valor de una columna (tipo de registro)
+ */
+interface RecordFilter {
+  column: number;
+  values: readonly string[];
+}
+
+/**
+ * Archivo leído y listo para la vista previa
+ */
+export interface ImportPreview {
+  fileName: string;
+  format: ImportFormat;
+  header: string[];
+  rows: string[][]; // Filas de datos (sin cabecera ni metadatos previos)
+  rowLines: number[]; // Número de línea en el archivo de cada fila
+  readingFilter: RecordFilter | null; // Filas que son lecturas de glucosa
+  mealFilter: RecordFilter | null; // Filas que registran una comida
+  suggested: ImportOptions;
+}
+
+export interface ImportResult extends ParsedReadings {
+  skipped: number; // Filas que no son lecturas (eventos, metadatos, notas)
+  duplicates: number; // Lecturas repetidas (mismo paciente y hora) descartadas
+}
+
+/**
+ * Horario para deducir el contexto por la hora de la lectura (horas locales)
+ */
+export const CONTEXT_SCHEDULE: { from: number; to: number; context: MealContext }[] = [
+  { from: 5, to: 9, context: 'Fasting' },
+  { from: 21, to: 5, context: 'Before sleep' },
+];
+
+/**
+ * Minutos tras una comida registrada en los que una lectura es post-prandial
+ */
+export const POST_PRANDIAL_WINDOW_MIN = 120;
+
+/**
+ * Valores que Dexcom escribe fuera del rango del sensor (mg/dL)
+ */
+const DEXCOM_OUT_OF_RANGE: Record<string, number> = { Low: 40, High: 400 };
+
+const DELIMITERS = [',', ';', '\t'] as const;
+
+/**
+ * Elige el separador más frecuente en la línea de cabecera
+ */
+function detectDelimiter(line: string): string {
+  return DELIMITERS.reduce((best, delimiter) =>
+    line.split(delimiter).length > line.split(best).length ? delimiter : best
+  );
+}
+
+/**
+ * Busca la primera columna cuyo nombre cumpla el patrón
+ */
+function findColumn(header: readonly string[], pattern: RegExp): number | null {
+  const index = header.findIndex(name => pattern.test(name));
+  return index === -1 ? null : index;
+}
+
+/**
+ * Unidad indicada en el nombre de una columna, ej. "Glucose Value (mmol/L)"
+ */
+function unitFromHeader(name: string | undefined): GlucoseUnit {
+  return name && /mmol/i.test(name) ? 'mmol/L' : 'mg/dL';
+}
+
+/**
+ * Deduce el orden de la fecha a partir de las primeras filas
+ *
+ * Si el primer componente supera 12 en alguna fecha, es el día.
+ */
+function detectDateOrder(values: readonly string[]): DateOrder {
+  const parts = values.map(value => value.match(/^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})/)).filter(match => !!match);
+  if (parts.some(match => match[1].length === 4)) return 'ymd';
+  return parts.some(match => Number(match[1]) > 12) ? 'dmy' : 'mdy';
+}
+
+/**
+ * Nombre de paciente por defecto a partir del nombre del archivo
+ */
+function patientFromFileName(fileName: string): PatientId {
+  return fileName.replace(/\.[^.]+$/, '').replace(/[_\s]+/g, '-').slice(0, 40) || 'importado';
+}
+
+/**
+ * Convierte una fecha del archivo al formato "YYYY-MM-DD HH:MM:SS"
+ *
+ * @returns Timestamp normalizado o null si no es una fecha válida
+ */
+export function parseImportTimestamp(value: string, order: DateOrder): string | null {
+  const match = value.trim().match(
+    /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})[T ]+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*(AM|PM)?$/i
+  );
+  if (!match) return null;
+
+  const [, a, b, c, h, minute, second = '0', meridiem] = match;
+  const [year, month, day] = order === 'ymd' ? [a, b, c] : order === 'mdy' ? [c, a, b] : [c, b, a];
+  let hour = Number(h);
+  if (meridiem) hour = (hour % 12) + (meridiem.toUpperCase() === 'PM' ? 12 : 0);
+
+  const date = new Date(Number(year), Number(month) - 1, Number(day), hour, Number(minute), Number(second));
+  if (
+    year.length !== 4 ||
+    date.getFullYear() !== Number(year) ||
+    date.getMonth() !== Number(month) - 1 ||
+    date.getDate() !== Number(day) ||
+    date.getHours() !== hour
+  ) {
+    return null;
+  }
+  return fromEpoch(date.getTime());
+}
+
+/**
+ * Contexto según CONTEXT_SCHEDULE; fuera de sus franjas, post-prandial
+ */
+export function contextFromSchedule(timestamp: string): MealContext {
+  const hour = Number(timestamp.slice(11, 13));
+  const slot = CONTEXT_SCHEDULE.find(({ from, to }) => (from < to ? hour >= from && hour < to : hour >= from || hour < to));
+  return slot?.context ?? 'Post-prandial';
+}
+
+/**
+ * Interpreta el contexto de una celda: nombre del modelo o etiqueta común
+ */
+function parseContext(value: string): MealContext | null {
+  const normalized = value.trim().toLowerCase();
+  const direct = MEAL_CONTEXTS.find(context => context.toLowerCase() === normalized);
+  if (direct) return direct;
+  if (/^(ayuno|fasting|before breakfast|antes del desayuno)$/.test(normalized)) return 'Fasting';
+  if (/^(post-?prandial|after meal|despu[eé]s de comer)$/.test(normalized)) return 'Post-prandial';
+  if (/^(before sleep|bedtime|antes de dormir)$/.test(normalized)) return 'Before sleep';
+  return null;
+}
+
+/**
+ * Identifica el formato de un archivo por sus primeras líneas
+ */
+export function detectImportFormat(lines: readonly string[]): ImportFormat {
+  const head = lines.slice(0, 5).join('\n');
+  if (/Glucose Value \((mg\/dL|mmol\/L)\)/i.test(head) && /Event Type/i.test(head)) return 'dexcom';
+  if (/Historic Glucose/i.test(head) && /Record Type/i.test(head)) return 'libreview';
+  return 'plain';
+}
+
+/**
+ * Lee el archivo y propone un mapeo de columnas según su formato
+ *
+ * @param text - Contenido del archivo
+ * @param fileName - Nombre del archivo (paciente por defecto)
+ * @returns Cabecera, filas de datos y opciones sugeridas
+ * @throws Error si el archivo no tiene cabecera o no se reconoce ninguna columna de glucosa
+ */
+export function prepareImport(text: string, fileName: string): ImportPreview {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const format = detectImportFormat(lines);
+
+  // LibreView antepone una línea de metadatos a la cabecera
+  const headerIndex = format === 'libreview' ? lines.findIndex(line => /Record Type/i.test(line)) : 0;
+  const headerLine = lines[headerIndex] ?? '';
+  if (headerLine.trim() === '') {
+    throw new Error('El archivo está vacío o no tiene cabecera');
+  }
+
+  const delimiter = detectDelimiter(headerLine);
+  const header = splitCSVLine(headerLine, delimiter);
+  const rows: string[][] = [];
+  const rowLines: number[] = [];
+  lines.slice(headerIndex + 1).forEach((line, i) => {
+    if (line.trim() === '') return;
+    rows.push(splitCSVLine(line, delimiter));
+    rowLines.push(headerIndex + i + 2);
+  });
+
+  let mapping: ColumnMapping;
+  let readingFilter: RecordFilter | null = null;
+  let mealFilter: RecordFilter | null = null;
+  let patientId = patientFromFileName(fileName);
+
+  if (format === 'dexcom') {
+    const eventType = findColumn(header, /^Event Type$/i);
+    const patientInfo = findColumn(header, /^Patient Info$/i);
+    mapping = {
+      timestamp: findColumn(header, /^Timestamp/i) ?? 1,
+      glucose: findColumn(header, /^Glucose Value/i) ?? 7,
+      glucoseAlt: null,
+      patient: null,
+      context: null,
+    };
+    if (eventType !== null) {
+      readingFilter = { column: eventType, values: ['EGV'] };
+      mealFilter = { column: eventType, values: ['Carbs'] };
+
+      // Clarity incluye el nombre del paciente en filas de metadatos
+      if (patientInfo !== null) {
+        const name = ['FirstName', 'LastName']
+          .map(type => rows.find(row => row[eventType] === type)?.[patientInfo] ?? '')
+          .filter(Boolean)
+          .join(' ');
+        if (name) patientId = name;
+      }
+    }
+  } else if (format === 'libreview') {
+    const recordType = findColumn(header, /^Record Type$/i);
+    mapping = {
+      timestamp: findColumn(header, /Timestamp/i) ?? 2,
+      glucose: findColumn(header, /^Historic Glucose/i) ?? 4,
+      glucoseAlt: findColumn(header, /^Scan Glucose/i),
+      patient: null,
+      context: null,
+    };
+    if (recordType !== null) {
+      readingFilter = { column: recordType, values: ['0', '1'] };
+      mealFilter = { column: recordType, values: ['5'] };
+    }
+
+    // La línea de metadatos incluye "Generated by,<nombre>"
+    const meta = headerIndex > 0 ? splitCSVLine(lines[0], delimiter) : [];
+    const generatedBy = meta.findIndex(field => /^Generated by$/i.test(field));
+    if (generatedBy !== -1 && meta[generatedBy + 1]) patientId = meta[generatedBy + 1];
+  } else {
+    const glucose = findColumn(header, /glucose|glucosa/i);
+    if (glucose === null) {
+      throw new Error(`No se reconoce ninguna columna de glucosa (se esperaba ${READING_COLUMNS.join(', ')})`);
+    }
+    mapping = {
+      timestamp: findColumn(header, /timestamp|fecha|date|time/i) ?? 0,
+      glucose,
+      glucoseAlt: null,
+      patient: findColumn(header, /patient|paciente/i),
+      context: findColumn(header, /meal_context|context|contexto/i),
+    };
+  }
+
+  const sampleDates = rows.slice(0, 200).map(row => row[mapping.timestamp] ?? '');
+
+  return {
+    fileName,
+    format,
+    header,
+    rows,
+    rowLines,
+    readingFilter,
+    mealFilter,
+    suggested: {
+      mapping,
+      unit: unitFromHeader(header[mapping.glucose]),
+      dateOrder: detectDateOrder(sampleDates),
+      patientId,
+      contextFallback: 'none',
+    },
+  };
+}
+
+/**
+ * Convierte las filas del archivo en lecturas en mg/dL
+ *
+ * Las filas que no son lecturas (eventos, metadatos) se cuentan en
+ * `skipped`; las lecturas con datos inválidos, en `rejected` con su número
+ * de línea, y las repetidas (mismo paciente y hora que una anterior), en
+ * `duplicates`. Si el archivo registra comidas, las lecturas de las dos
+ * horas siguientes se marcan como post-prandiales; el resto sin contexto usa
+ * `contextFallback` con `meal_context_guessed`.
+ *
+ * @param preview - Resultado de prepareImport
+ * @param options - Mapeo y opciones confirmadas por el usuario
+ * @returns Lecturas válidas, filas rechazadas, omitidas y repetidas
+ */
+export function importReadings(preview: ImportPreview, options: ImportOptions): ImportResult {
+  const { mapping, unit, dateOrder, patientId, contextFallback } = options;
+  const matches = (row: string[], filter: RecordFilter | null) =>
+    !filter || filter.values.includes(row[filter.column] ?? '');
+
+  // Horas de comida por paciente, para marcar lecturas post-prandiales
+  const meals = new Map<PatientId, number[]>();
+  if (preview.mealFilter) {
+    preview.rows.forEach(row => {
+      if (!matches(row, preview.mealFilter)) return;
+      const timestamp = parseImportTimestamp(row[mapping.timestamp] ?? '', dateOrder);
+      if (!timestamp) return;
+      const patient = (mapping.patient !== null && row[mapping.patient]) || patientId;
+      const times = meals.get(patient) ?? [];
+      times.push(new Date(timestamp.replace(' ', 'T')).getTime());
+      meals.set(patient, times);
+    });
+  }
+  const afterMeal = (patient: PatientId, timestamp: string) => {
+    const epoch = new Date(timestamp.replace(' ', 'T')).getTime();
+    return (meals.get(patient) ?? []).some(meal => epoch >= meal && epoch - meal <= POST_PRANDIAL_WINDOW_MIN * 60_000);
+  };
+
+  const readings: GlucoseReading[] = [];
+  const rejected: CsvRowError[] = [];
+  const seen = new Set<string>();
+  let skipped = 0;
+  let duplicates = 0;
+
+  preview.rows.forEach((row, i) => {
+    const line = preview.rowLines[i];
+    if (!matches(row, preview.readingFilter)) {
+      skipped++;
+      return;
+    }
+
+    const rawTimestamp = row[mapping.timestamp] ?? '';
+    const timestamp = parseImportTimestamp(rawTimestamp, dateOrder);
+    const rawGlucose = [row[mapping.glucose], mapping.glucoseAlt !== null ? row[mapping.glucoseAlt] : undefined]
+      .find(value => value !== undefined && value !== '') ?? '';
+    const glucose = rawGlucose in DEXCOM_OUT_OF_RANGE
+      ? DEXCOM_OUT_OF_RANGE[rawGlucose]
+      : toMgdl(Number(rawGlucose.replace(',', '.')), unit);
+    const patient = (mapping.patient !== null && row[mapping.patient]) || patientId;
+    const rawContext = mapping.context !== null ? row[mapping.context] ?? '' : '';
+
+    if (!timestamp) {
+      rejected.push({ line, message: `fecha inválida: "${rawTimestamp}"` });
+    } else if (rawGlucose === '' || !Number.isFinite(glucose) || glucose <= 0) {
+      rejected.push({ line, message: `glucosa no numérica: "${rawGlucose}"` });
+    } else if (patient === '') {
+      rejected.push({ line, message: 'paciente vacío' });
+    } else if (rawContext !== '' && !parseContext(rawContext)) {
+      rejected.push({ line, message: `contexto desconocido: "${rawContext}"` });
+    } else if (seen.has(`${patient}|${timestamp}`)) {
+      duplicates++;
+    } else {
+      seen.add(`${patient}|${timestamp}`);
+      const reading: GlucoseReading = {
+        timestamp,
+        patient_id: patient,
+        glucose_level: Math.round(glucose * 100) / 100,
+        meal_context: parseContext(rawContext) ?? (afterMeal(patient, timestamp) ? 'Post-prandial' : null),
+      };
+      if (!reading.meal_context && contextFallback !== 'none') {
+        reading.meal_context = contextFallback === 'schedule' ? contextFromSchedule(timestamp) : contextFallback;
+        reading.meal_context_guessed = true;
+      }
+      readings.push(reading);
+    }
+  });
+
+  return { readings, rejected, skipped, duplicates };
+}
+
+/**
+ * Comprueba si un valor es un contexto de respaldo válido
+ */
+export function isContextFallback(value: string): value is ContextFallback {
+  return value === 'none' || value === 'schedule' || isMealContext(value);
+}
@@ -0,0 +1,71 @@
+// analysis/metrics.test.ts
+// Rangos de tiempo en rango, GMI y coeficiente de variación
+
+import { describe, expect, it } from 'vitest';
+import type { GlucoseReading } from '../components/types';
+import { computeGlycemicMetrics, computeGMI, computeMetricsByPatient } from './metrics';
+
+function readings(values: number[], patient_id = 'P001'): GlucoseReading[] {
+  return values.map((glucose_level, index) => ({
+    timestamp: `2026-01-01 ${String(index).padStart(2, '0')}:00:00`,
+    patient_id,
+    glucose_level,
+    meal_context: 'Fasting',
+  }));
+}
+
+describe('computeGlycemicMetrics', () => {
+  it('devuelve null sin lecturas', () => {
+    expect(computeGlycemicMetrics([])).toBeNull();
+  });
+
+  it('reparte las lecturas en los cinco rangos', () => {
+    const metrics = computeGlycemicMetrics(readings([50, 60, 100, 200, 300]))!;
+
+    expect(metrics).toMatchObject({
+      readings: 5,
+      tbrVeryLow: 20,
+      tbrLow: 20,
+      tir: 20,
+      tarHigh: 20,
+      tarVeryHigh: 20,
+    });
+  });
+
+  it('incluye cada límite en el rango que le corresponde', () => {
+    // 54 → 54–69, 70 y 180 → en rango, 250 → 181–250
+    const metrics = computeGlycemicMetrics(readings([54, 70, 180, 250]))!;
+
+    expect([metrics.tbrVeryLow, metrics.tbrLow, metrics.tir, metrics.tarHigh, metrics.tarVeryHigh])
+      .toEqual([0, 25, 50, 25, 0]);
+  });
+
+  it('calcula la media, la desviación muestral y el CV', () => {
+    const metrics = computeGlycemicMetrics(readings([100, 200]))!;
+
+    expect(metrics.meanGlucose).toBe(150);
+    expect(metrics.stdDev).toBeCloseTo(70.71, 2);
+    expect(metrics.cv).toBeCloseTo(47.14, 2);
+  });
+
+  it('no tiene variabilidad con una sola lectura', () => {
+    expect(computeGlycemicMetrics(readings([120]))).toMatchObject({ stdDev: 0, cv: 0 });
+  });
+});
+
+describe('computeGMI', () => {
+  it('aplica la fórmula de Bergenstal', () => {
+    expect(computeGMI(150)).toBeCloseTo(6.898, 3);
+    expect(computeGlycemicMetrics(readings([100, 200]))!.gmi).toBeCloseTo(6.898, 3);
+  });
+});
+
+describe('computeMetricsByPatient', () => {
+  it('calcula las métricas de cada paciente por separado', () => {
+    const result = computeMetricsByPatient([...readings([100, 200]), ...readings([60], 'P002')]);
+
+    expect(Object.keys(result)).toEqual(['P001', 'P002']);
+    expect(result.P001.tir).toBe(50);
+    expect(result.P002.tbrLow).toBe(100);
+  });
+});
@@ -0,0 +1,110 @@
+// analysis/metrics.ts
+// Métricas CGM de consenso internacional (Battelino et al., 2019)
+
+import type { GlucoseReading, PatientId } from '../components/types';
+
+/**
+ * Límites de los rangos de tiempo en rango, en mg/dL
+ */
+export const TIR_LIMITS = {
+  veryLow: 54,
+  low: 70,
+  high: 180,
+  veryHigh: 250,
+} as const;
+
+/**
+ * Métricas glucémicas de un conjunto de lecturas
+ *
+ * Los porcentajes se calculan sobre el número de lecturas y suman 100.
+ */
+export interface GlycemicMetrics {
+  readings: number;
+  meanGlucose: number; // mg/dL
+  stdDev: number; // mg/dL
+  cv: number; // Coeficiente de variación, % (objetivo ≤ 36)
+  gmi: number; // Glucose Management Indicator, % (A1c estimada)
+  tbrVeryLow: number; // % < 54
+  tbrLow: number; // % 54–69
+  tir: number; // % 70–180 (objetivo > 70)
+  tarHigh: number; // % 181–250
+  tarVeryHigh: number; // % > 250
+}
+
+/**
+ * GMI (%) a partir de la glucosa media en mg/dL
+ */
+export function computeGMI(meanGlucose: number): number {
+  return 3.31 + 0.02392 * meanGlucose;
+}
+
+/**
+ * Calcula las métricas de consenso sobre todas las lecturas recibidas
+ *
+ * @param readings - Lecturas (de un paciente o de la cohorte)
+ * @returns Métricas, o null si no hay lecturas
+ */
+export function computeGlycemicMetrics(readings: readonly GlucoseReading[]): GlycemicMetrics | null {
+  const n = readings.length;
+  if (n === 0) return null;
+
+  const counts = { veryLow: 0, low: 0, inRange: 0, high: 0, veryHigh: 0 };
+  let sum = 0;
+
+  readings.forEach(({ glucose_level: value }) => {
+    sum += value;
+    if (value < TIR_LIMITS.veryLow) counts.veryLow += 1;
+    else if (value < TIR_LIMITS.low) counts.low += 1;
+    else if (value <= TIR_LIMITS.high) counts.inRange += 1;
+    else if (value <= TIR_LIMITS.veryHigh) counts.high += 1;
+    else counts.veryHigh += 1;
+  });
+
+  const mean = sum / n;
+  const variance = n > 1
+    ? readings.reduce((acc, r) => acc + (r.glucose_level - mean) ** 2, 0) / (n - 1)
+    : 0;
+  const stdDev = Math.sqrt(variance);
+  const pct = (count: number) => (count / n) * 100;
+
+  return {
+    readings: n,
+    meanGlucose: mean,
+    stdDev,
+    cv: mean > 0 ? (stdDev / mean) * 100 : 0,
+    gmi: computeGMI(mean),
+    tbrVeryLow: pct(counts.veryLow),
+    tbrLow: pct(counts.low),
+    tir: pct(counts.inRange),
+    tarHigh: pct(counts.high),
+    tarVeryHigh: pct(counts.veryHigh),
+  };
+}
+
+/**
+ * Agrupa lecturas por paciente
+ */
+export function groupByPatient<T extends { patient_id: PatientId }>(items: readonly T[]): Map<PatientId, T[]> {
+  const groups = new Map<PatientId, T[]>();
+  items.forEach(item => {
+    const group = groups.get(item.patient_id);
+    if (group) group.push(item);
+    else groups.set(item.patient_id, [item]);
+  });
+  return groups;
+}
+
+/**
+ * Calcula las métricas de consenso de cada paciente
+ *
+ * @param readings - Lecturas de toda la cohorte
+ * @returns Métricas por ID de paciente
+ */
+export function computeMetricsByPatient(readings: readonly GlucoseReading[]): Record<PatientId, GlycemicMetrics> {
+  const result: Record<PatientId, GlycemicMetrics> = {};
+  groupByPatient(readings).forEach((patientReadings, patientId) => {
+    const metrics = computeGlycemicMetrics(patientReadings);
+    if (metrics) result[patientId] = metrics;
+  });
+  return result;
+}
@@ -0,0 +1,96 @@
+// analysis/notifications.test.ts
+// Horas de silencio (también cruzando la medianoche), silencios por
+// paciente y alertas que no se notifican dos veces
+
+import { describe, expect, it } from 'vitest';
+import type { GlucoseReading, NotificationSettings } from '../components/types';
+import { alertKey, mergeAlerts } from './alerts';
+import { DEFAULT_NOTIFICATION_SETTINGS, diffAlerts, isQuietTime, selectNotifications } from './notifications';
+import { analyzeReadings } from './summary';
+
+function at(hours: number, minutes = 0): Date {
+  return new Date(2026, 0, 1, hours, minutes);
+}
+
+const READINGS: GlucoseReading[] = [
+  { timestamp: '2026-01-01 08:00:00', patient_id: 'P001', glucose_level: 200, meal_context: 'Post-prandial' },
+  { timestamp: '2026-01-01 09:00:00', patient_id: 'P001', glucose_level: 150, meal_context: 'Post-prandial' },
+  { timestamp: '2026-01-01 10:00:00', patient_id: 'P002', glucose_level: 50, meal_context: 'Fasting' },
+  { timestamp: '2026-01-01 11:00:00', patient_id: 'P002', glucose_level: 220, meal_context: null },
+];
+const ALERTS = mergeAlerts(analyzeReadings(READINGS));
+const PREVIOUS = ALERTS.filter(alert => alert.timestamp < '2026-01-01 10:00:00');
+const SETTINGS: NotificationSettings = { ...DEFAULT_NOTIFICATION_SETTINGS, enabled: true };
+
+describe('isQuietTime', () => {
+  it('cubre la franja que cruza la medianoche', () => {
+    const quietHours = { enabled: true, start: '22:00', end: '07:00' };
+
+    expect(isQuietTime(quietHours, at(21, 59))).toBe(false);
+    expect(isQuietTime(quietHours, at(22, 0))).toBe(true);
+    expect(isQuietTime(quietHours, at(0, 30))).toBe(true);
+    expect(isQuietTime(quietHours, at(6, 59))).toBe(true);
+    expect(isQuietTime(quietHours, at(7, 0))).toBe(false);
+  });
+
+  it('cubre la franja dentro del mismo día', () => {
+    const quietHours = { enabled: true, start: '13:00', end: '15:00' };
+
+    expect(isQuietTime(quietHours, at(14))).toBe(true);
+    expect(isQuietTime(quietHours, at(15))).toBe(false);
+    expect(isQuietTime(quietHours, at(2))).toBe(false);
+  });
+
+  it('no silencia nada desactivada o con inicio igual al fin', () => {
+    expect(isQuietTime({ enabled: false, start: '00:00', end: '23:59' }, at(12))).toBe(false);
+    expect(isQuietTime({ enabled: true, start: '22:00', end: '22:00' }, at(22))).toBe(false);
+  });
+});
+
+describe('diffAlerts', () => {
+  it('devuelve solo las alertas que no estaban en la carga anterior', () => {
+    expect(diffAlerts(PREVIOUS, ALERTS).map(alert => alert.timestamp).sort()).toEqual([
+      '2026-01-01 10:00:00',
+      '2026-01-01 11:00:00',
+    ]);
+  });
+});
+
+describe('selectNotifications', () => {
+  it('notifica las alertas nuevas con la severidad elegida', () => {
+    const { notify, handled } = selectNotifications(PREVIOUS, ALERTS, SETTINGS, new Set(), at(12));
+
+    expect(notify.map(alert => [alert.patient_id, alert.severidad])).toEqual(
+      expect.arrayContaining([['P002', 'level2'], ['P002', 'high']])
+    );
+    expect(handled).toHaveLength(2);
+  });
+
+  it('no repite las alertas ya tratadas', () => {
+    const notified = new Set(diffAlerts(PREVIOUS, ALERTS).map(alertKey));
+    expect(selectNotifications(PREVIOUS, ALERTS, SETTINGS, notified, at(12))).toEqual({ notify: [], handled: [] });
+  });
+
+  it('da por tratadas las alertas en horas de silencio sin notificarlas', () => {
+    const quiet = { ...SETTINGS, quietHours: { enabled: true, start: '22:00', end: '07:00' } };
+    const result = selectNotifications(PREVIOUS, ALERTS, quiet, new Set(), at(23, 30));
+
+    expect(result.notify).toEqual([]);
+    expect(result.handled).toHaveLength(2);
+  });
+
+  it('respeta los silencios por paciente hasta que caducan', () => {
+    const muted = { ...SETTINGS, mutes: [{ patient_id: 'P002', until: at(13).toISOString() }] };
+
+    expect(selectNotifications(PREVIOUS, ALERTS, muted, new Set(), at(12)).notify).toEqual([]);
+    expect(selectNotifications(PREVIOUS, ALERTS, muted, new Set(), at(14)).notify).toHaveLength(2);
+  });
+
+  it('filtra por paciente y contexto', () => {
+    const fasting = { ...SETTINGS, contexts: ['Fasting' as const] };
+    expect(selectNotifications(PREVIOUS, ALERTS, fasting, new Set(), at(12)).notify.map(alert => alert.glucose_level)).toEqual([50]);
+
+    const otherPatient = { ...SETTINGS, patients: ['P001'] };
+    expect(selectNotifications(PREVIOUS, ALERTS, otherPatient, new Set(), at(12)).handled).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+// analysis/notifications.ts
+// Selección de las alertas nuevas que merecen una notificación del navegador
+
+import type { AlertaGlucosa, NotificationSettings, PatientId, QuietHours } from '../components/types';
+import { alertKey } from './alerts';
+import { matchesContexts } from './constants';
+
+/**
+ * Preferencias por defecto: desactivadas y, al activarlas, solo las
+ * alertas graves (hiperglucemia alta e hipoglucemia de nivel 2)
+ */
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  severities: ['high', 'level2'],
+  patients: [],
+  contexts: [],
+  mutes: [],
+  quietHours: { enabled: false, start: '22:00', end: '07:00' },
+};
+
+/**
+ * Duraciones de silencio por paciente que se ofrecen en la interfaz, en horas
+ */
+export const MUTE_DURATIONS_HOURS = [1, 4, 8, 24] as const;
+
+/**
+ * Alertas ya notificadas que se recuerdan para no repetirlas
+ */
+export const MAX_NOTIFIED_KEYS = 2000;
+
+/**
+ * Por encima de estas alertas nuevas se envía una sola notificación resumen
+ */
+export const MAX_INDIVIDUAL_NOTIFICATIONS = 3;
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Indica si un momento cae en la franja sin notificaciones
+ *
+ * @param quietHours - Franja configurada; puede cruzar la medianoche
+ * @param now - Momento a comprobar (hora local)
+ */
+export function isQuietTime(quietHours: QuietHours, now: Date): boolean {
+  if (!quietHours.enabled) return false;
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (start === end) return false;
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+/**
+ * Indica si un paciente tiene las notificaciones silenciadas en un momento
+ */
+export function isMuted(patientId: PatientId, settings: NotificationSettings, now: Date): boolean {
+  return settings.mutes.some(mute => mute.patient_id === patientId && new Date(mute.until) > now);
+}
+
+/**
+ * Indica si una alerta cumple los criterios de severidad, paciente y contexto
+ */
+export function matchesNotificationCriteria(alert: AlertaGlucosa, settings: NotificationSettings): boolean {
+  return (
+    settings.severities.includes(alert.severidad) &&
+    (settings.patients.length === 0 || settings.patients.includes(alert.patient_id)) &&
+    matchesContexts(settings.contexts, alert.meal_context)
+  );
+}
+
+/**
+ * Alertas de `next` que no estaban en `previous` (por alertKey)
+ */
+export function diffAlerts(previous: readonly AlertaGlucosa[], next: readonly AlertaGlucosa[]): AlertaGlucosa[] {
+  const known = new Set(previous.map(alertKey));
+  return next.filter(alert => !known.has(alertKey(alert)));
+}
+
+/**
+ * Resultado de comparar dos cargas de datos
+ */
+export interface NotificationSelection {
+  notify: AlertaGlucosa[]; // Alertas a notificar ahora
+  handled: string[]; // alertKey que no deben volver a notificarse (incluye las silenciadas)
+}
+
+/**
+ * Decide qué alertas nuevas se notifican
+ *
+ * Una alerta nueva que cumple los criterios se da por tratada aunque caiga
+ * en horas de silencio o su paciente esté silenciado: así no llegan todas
+ * de golpe al terminar el silencio y ninguna se notifica dos veces.
+ *
+ * @param previous - Alertas de la carga anterior
+ * @param next - Alertas de la carga nueva
+ * @param settings - Preferencias del usuario
+ * @param notified - alertKey ya tratadas en cargas anteriores
+ * @param now - Momento de la comprobación
+ */
+export function selectNotifications(
+  previous: readonly AlertaGlucosa[],
+  next: readonly AlertaGlucosa[],
+  settings: NotificationSettings,
+  notified: ReadonlySet<string>,
+  now: Date
+): NotificationSelection {
+  const candidates = diffAlerts(previous, next).filter(
+    alert => !notified.has(alertKey(alert)) && matchesNotificationCriteria(alert, settings)
+  );
+  const quiet = isQuietTime(settings.quietHours, now);
+  return {
+    notify: quiet ? [] : candidates.filter(alert => !isMuted(alert.patient_id, settings, now)),
+    handled: candidates.map(alertKey),
+  };
+}
@@ -0,0 +1,93 @@
+// analysis/quality.test.ts
+// Cobertura, huecos (también en los bordes del periodo), duplicados y saltos
+
+import { describe, expect, it } from 'vitest';
+import type { GlucoseReading } from '../components/types';
+import { computeDataQuality, computePatientQuality } from './quality';
+
+function reading(time: string, glucose_level = 120, patient_id = 'P001'): GlucoseReading {
+  return { timestamp: `2026-01-01 ${time}:00`, patient_id, glucose_level, meal_context: null };
+}
+
+/**
+ * Lecturas cada 15 minutos entre dos horas (incluidas)
+ */
+function every15(from: string, to: string, patient_id = 'P001'): GlucoseReading[] {
+  const minutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+  const result: GlucoseReading[] = [];
+  for (let minute = minutes(from); minute <= minutes(to); minute += 15) {
+    const time = `${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`;
+    result.push(reading(time, 120, patient_id));
+  }
+  return result;
+}
+
+describe('computePatientQuality', () => {
+  it('da cobertura completa a una serie regular', () => {
+    const quality = computePatientQuality(every15('08:00', '10:00'), 60);
+
+    expect(quality).toMatchObject({ readings: 9, expectedInterval: 15, coverage: 100, gapCount: 0, reliable: true });
+  });
+
+  it('cuenta los huecos mayores que la separación y reduce la cobertura', () => {
+    const readings = [...every15('08:00', '08:30'), ...every15('12:30', '12:45')];
+    const quality = computePatientQuality(readings, 120);
+
+    expect(quality.expectedInterval).toBe(15);
+    expect(quality.longestGaps).toEqual([{ start: '2026-01-01 08:30:00', end: '2026-01-01 12:30:00', minutes: 240 }]);
+    // 5 lecturas · 15 min sobre 285 min + un intervalo
+    expect(quality.coverage).toBe(25);
+    expect(quality.reliable).toBe(false);
+  });
+
+  it('no cuenta como hueco una separación igual a la configurada', () => {
+    expect(computePatientQuality([reading('08:00'), reading('10:00'), reading('12:00')], 120).gapCount).toBe(0);
+    expect(computePatientQuality([reading('08:00'), reading('10:00'), reading('12:01')], 120).gapCount).toBe(1);
+  });
+
+  it('cuenta los huecos al principio y al final del periodo', () => {
+    const quality = computePatientQuality(every15('08:00', '10:00'), 60, {
+      from: '2026-01-01 06:00:00',
+      to: '2026-01-01 14:00:00',
+    });
+
+    expect(quality.longestGaps).toEqual([
+      { start: '2026-01-01 10:00:00', end: '2026-01-01 14:00:00', minutes: 240 },
+      { start: '2026-01-01 06:00:00', end: '2026-01-01 08:00:00', minutes: 120 },
+    ]);
+    expect(quality.gapMinutes).toBe(360);
+    expect(quality.coverage).toBeCloseTo((9 * 15 * 100) / 495);
+  });
+
+  it('cuenta duplicados, valores imposibles y saltos bruscos', () => {
+    const quality = computePatientQuality([
+      reading('08:00', 100),
+      reading('08:00', 100),
+      reading('08:05', 110),
+      reading('08:05', 120),
+      reading('08:10', 10),
+      // 110 → 200 en 10 min, comparando con la última lectura plausible
+      reading('08:15', 200),
+    ]);
+
+    expect(quality).toMatchObject({ duplicates: 2, conflictingDuplicates: 1, implausible: 1, jumps: 1 });
+    expect(quality.implausibleExamples.map(example => example.glucose_level)).toEqual([10]);
+    expect(quality.jumpExamples).toEqual([{ timestamp: '2026-01-01 08:15:00', from: 110, to: 200, rate: 9 }]);
+  });
+
+  it('no calcula cobertura con una sola lectura', () => {
+    expect(computePatientQuality([reading('08:00')])).toMatchObject({ expectedInterval: null, coverage: null, reliable: false });
+  });
+});
+
+describe('computeDataQuality', () => {
+  it('usa el mismo periodo para todos los pacientes', () => {
+    const report = computeDataQuality([...every15('08:00', '12:00'), ...every15('08:00', '09:00', 'P002')], 120);
+
+    expect([report.from, report.to]).toEqual(['2026-01-01 08:00:00', '2026-01-01 12:00:00']);
+    expect(report.patients.P001.gapCount).toBe(0);
+    expect(report.patients.P002.longestGaps).toEqual([
+      { start: '2026-01-01 09:00:00', end: '2026-01-01 12:00:00', minutes: 180 },
+    ]);
+  });
+});
@@ -0,0 +1,236 @@
+// analysis/quality.ts
+// Calidad de los datos por paciente: huecos del sensor, duplicados, valores
+// imposibles, saltos bruscos y cobertura
+
+import type { GlucoseReading, PatientId } from '../components/types';
+import { groupByPatient } from './metrics';
+import { toEpoch } from './time';
+
+/**
+ * Límites fuera de los cuales una lectura no es fisiológicamente posible
+ * (mg/dL); suelen ser errores del sensor o de transcripción
+ */
+export const IMPLAUSIBLE_LOW = 20;
+export const IMPLAUSIBLE_HIGH = 600;
+
+/**
+ * Velocidad máxima plausible entre dos lecturas (mg/dL por minuto). La
+ * glucosa rara vez cambia más de 3–4 mg/dL/min; por encima de 5 se
+ * considera un salto del sensor
+ */
+export const MAX_PLAUSIBLE_RATE = 5;
+
+/**
+ * Cambio mínimo (mg/dL) para contar un salto, así dos lecturas casi
+ * simultáneas con poca diferencia no cuentan aunque la velocidad sea alta
+ */
+export const MIN_JUMP_DELTA = 50;
+
+/**
+ * Cobertura (% del tiempo con sensor) por debajo de la cual las métricas
+ * del paciente se marcan como poco fiables
+ */
+export const MIN_RELIABLE_COVERAGE = 70;
+
+/**
+ * Separación mínima por defecto entre lecturas para contar un hueco
+ */
+export const DEFAULT_QUALITY_GAP_MINUTES = 240;
+
+/**
+ * Separaciones que se ofrecen en la interfaz, en minutos
+ */
+export const QUALITY_GAP_OPTIONS = [60, 120, 240, 480] as const;
+
+// Ejemplos que se guardan de cada problema (el resto solo se cuenta)
+const MAX_EXAMPLES = 3;
+
+/**
+ * Tramo sin lecturas más largo que la separación configurada
+ */
+export interface SensorGap {
+  start: string; // Última lectura antes del hueco (o inicio del periodo)
+  end: string; // Primera lectura después (o fin del periodo)
+  minutes: number;
+}
+
+/**
+ * Cambio entre dos lecturas consecutivas más rápido de lo posible
+ */
+export interface ImplausibleJump {
+  timestamp: string; // Segunda lectura del salto
+  from: number; // mg/dL
+  to: number; // mg/dL
+  rate: number; // mg/dL por minuto (en valor absoluto)
+}
+
+/**
+ * Calidad de los datos de un paciente en el periodo analizado
+ */
+export interface PatientQuality {
+  readings: number;
+  expectedInterval: number | null; // Minutos (mediana entre lecturas); null con menos de dos
+  coverage: number | null; // % del periodo con lecturas, hasta 100; null sin intervalo
+  gapCount: number;
+  gapMinutes: number; // Tiempo total en huecos
+  longestGaps: SensorGap[]; // Los más largos, de mayor a menor
+  duplicates: number; // Lecturas con un timestamp ya visto
+  conflictingDuplicates: number; // De ellas, con distinto valor
+  implausible: number;
+  implausibleExamples: GlucoseReading[];
+  jumps: number;
+  jumpExamples: ImplausibleJump[];
+  reliable: boolean; // Cobertura suficiente para fiarse de las métricas
+}
+
+/**
+ * Calidad de los datos de la cohorte
+ */
+export interface DataQualityReport {
+  from: string | null; // Primera lectura del periodo (de cualquier paciente)
+  to: string | null; // Última lectura del periodo
+  gapMinutes: number; // Separación que cuenta como hueco
+  patients: Record<PatientId, PatientQuality>;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Analiza la calidad de las lecturas de un paciente
+ *
+ * El intervalo esperado es la mediana de la separación entre lecturas
+ * consecutivas, así que se adapta al dispositivo (5 min en un MCG, horas en
+ * un glucómetro). La cobertura compara las lecturas con las que cabrían en
+ * el periodo a ese ritmo; los huecos al principio y al final del periodo
+ * también cuentan, para que un sensor que dejó de enviar datos no pase por
+ * una semana tranquila.
+ *
+ * @param readings - Lecturas de un paciente, en cualquier orden
+ * @param gapMinutes - Separación a partir de la cual hay un hueco
+ * @param period - Primer y último timestamp del periodo; por defecto los del paciente
+ */
+export function computePatientQuality(
+  readings: readonly GlucoseReading[],
+  gapMinutes: number = DEFAULT_QUALITY_GAP_MINUTES,
+  period?: { from: string; to: string }
+): PatientQuality {
+  const sorted = [...readings].sort((a, b) => (a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0));
+  const epochs = sorted.map(reading => toEpoch(reading.timestamp));
+
+  let duplicates = 0;
+  let conflictingDuplicates = 0;
+  let implausible = 0;
+  let jumps = 0;
+  const implausibleExamples: GlucoseReading[] = [];
+  const jumpExamples: ImplausibleJump[] = [];
+  const points: { time: number; timestamp: string }[] = []; // Timestamps distintos
+  let previous: { reading: GlucoseReading; time: number } | null = null; // Última lectura plausible
+
+  sorted.forEach((reading, i) => {
+    const time = epochs[i];
+    if (i > 0 && time === epochs[i - 1]) {
+      duplicates += 1;
+      if (reading.glucose_level !== sorted[i - 1].glucose_level) conflictingDuplicates += 1;
+      return;
+    }
+    points.push({ time, timestamp: reading.timestamp });
+
+    const value = reading.glucose_level;
+    if (value < IMPLAUSIBLE_LOW || value > IMPLAUSIBLE_HIGH) {
+      implausible += 1;
+      if (implausibleExamples.length < MAX_EXAMPLES) implausibleExamples.push(reading);
+      return;
+    }
+
+    if (previous) {
+      const delta = Math.abs(value - previous.reading.glucose_level);
+      const rate = delta / ((time - previous.time) / 60_000);
+      if (delta >= MIN_JUMP_DELTA && rate > MAX_PLAUSIBLE_RATE) {
+        jumps += 1;
+        if (jumpExamples.length < MAX_EXAMPLES) {
+          jumpExamples.push({ timestamp: reading.timestamp, from: previous.reading.glucose_level, to: value, rate });
+        }
+      }
+    }
+    previous = { reading, time };
+  });
+
+  const intervals = points.slice(1).map((point, i) => (point.time - points[i].time) / 60_000);
+  const expectedInterval = intervals.length > 0 ? median(intervals) : null;
+
+  // Bordes del periodo: los huecos antes de la primera lectura y después
+  // de la última también cuentan
+  const first = period && (points.length === 0 || period.from < points[0].timestamp)
+    ? { time: toEpoch(period.from), timestamp: period.from }
+    : points[0];
+  const last = period && (points.length === 0 || period.to > points[points.length - 1].timestamp)
+    ? { time: toEpoch(period.to), timestamp: period.to }
+    : points[points.length - 1];
+  const bounds = points.length === 0 ? [] : [first, ...points, last];
+
+  const coverage = expectedInterval !== null
+    ? Math.min(100, (points.length * expectedInterval * 100) / ((last.time - first.time) / 60_000 + expectedInterval))
+    : null;
+
+  const gaps: SensorGap[] = [];
+  for (let i = 1; i < bounds.length; i++) {
+    const minutes = (bounds[i].time - bounds[i - 1].time) / 60_000;
+    if (minutes > gapMinutes) gaps.push({ start: bounds[i - 1].timestamp, end: bounds[i].timestamp, minutes });
+  }
+
+  return {
+    readings: readings.length,
+    expectedInterval,
+    coverage,
+    gapCount: gaps.length,
+    gapMinutes: gaps.reduce((total, gap) => total + gap.minutes, 0),
+    longestGaps: gaps.sort((a, b) => b.minutes - a.minutes).slice(0, MAX_EXAMPLES),
+    duplicates,
+    conflictingDuplicates,
+    implausible,
+    implausibleExamples,
+    jumps,
+    jumpExamples,
+    reliable: coverage !== null && coverage >= MIN_RELIABLE_COVERAGE,
+  };
+}
+
+/**
+ * Primer y último timestamp de unas lecturas, o null si no hay ninguna
+ */
+export function readingsPeriod(readings: readonly GlucoseReading[]): { from: string; to: string } | null {
+  if (readings.length === 0) return null;
+  let from = readings[0].timestamp;
+  let to = from;
+  for (const reading of readings) {
+    if (reading.timestamp < from) from = reading.timestamp;
+    if (reading.timestamp > to) to = reading.timestamp;
+  }
+  return { from, to };
+}
+
+/**
+ * Analiza la calidad de los datos de cada paciente
+ *
+ * El periodo es el mismo para todos (de la primera a la última lectura de
+ * la cohorte), así que un paciente sin lecturas al final aparece con un
+ * hueco y menos cobertura.
+ *
+ * @param readings - Lecturas de toda la cohorte
+ * @param gapMinutes - Separación a partir de la cual hay un hueco
+ */
+export function computeDataQuality(
+  readings: readonly GlucoseReading[],
+  gapMinutes: number = DEFAULT_QUALITY_GAP_MINUTES
+): DataQualityReport {
+  const period = readingsPeriod(readings);
+  const patients: Record<PatientId, PatientQuality> = {};
+  groupByPatient(readings).forEach((patientReadings, patientId) => {
+    patients[patientId] = computePatientQuality(patientReadings, gapMinutes, period ?? undefined);
+  });
+  return { from: period?.from ?? null, to: period?.to ?? null, gapMinutes, patients };
+}
@@ -0,0 +1,155 @@
+// analysis/rules.test.ts
+// Condiciones de las reglas y su aplicación sobre un resumen analizado
+
+import { describe, expect, it } from 'vitest';
+import type { AlertRule, GlucoseReading, MealContext } from '../components/types';
+import { applyRules, matchesCondition, MAX_RISE_GAP_MINUTES } from './rules';
+import { analyzeReadings } from './summary';
+
+function reading(
+  timestamp: string,
+  glucose_level: number,
+  meal_context: MealContext | null = 'Post-prandial',
+  patient_id = 'P001'
+): GlucoseReading {
+  return { timestamp, patient_id, glucose_level, meal_context };
+}
+
+function rule(overrides: Partial<AlertRule>): AlertRule {
+  return {
+    id: 'regla',
+    nombre: 'Regla de prueba',
+    enabled: true,
+    condition: { type: 'above', value: 180 },
+    contexts: [],
+    kind: 'hiperglucemia',
+    severity: 'high',
+    ...overrides,
+  };
+}
+
+describe('matchesCondition', () => {
+  const series = [
+    reading('2026-01-01 08:00:00', 150),
+    reading('2026-01-01 09:00:00', 160),
+    reading('2026-01-01 10:00:00', 120),
+    reading('2026-01-01 10:30:00', 175),
+    reading('2026-01-01 16:30:00', 240),
+  ];
+
+  it('compara la lectura con el valor en above y below', () => {
+    expect(matchesCondition({ type: 'above', value: 150 }, series, 0)).toBe(false);
+    expect(matchesCondition({ type: 'above', value: 150 }, series, 1)).toBe(true);
+    expect(matchesCondition({ type: 'below', value: 130 }, series, 2)).toBe(true);
+    expect(matchesCondition({ type: 'below', value: 130 }, series, 1)).toBe(false);
+  });
+
+  it('cuenta las lecturas por encima del valor dentro de la ventana en sustained', () => {
+    const condition = { type: 'sustained', value: 140, count: 3, hours: 6 } as const;
+    expect(matchesCondition(condition, series, 1)).toBe(false); // Solo 2 hasta aquí
+    expect(matchesCondition(condition, series, 2)).toBe(false); // La lectura no supera el valor
+    expect(matchesCondition(condition, series, 3)).toBe(true); // 08:00, 09:00 y 10:30
+    expect(matchesCondition(condition, series, 4)).toBe(false); // 10:30 y 16:30: las de las 08 y 09 quedan fuera
+  });
+
+  it('normaliza la subida a 30 minutos en riseRate', () => {
+    // 10:00 → 10:30: +55 en 30 min
+    expect(matchesCondition({ type: 'riseRate', rate: 50 }, series, 3)).toBe(true);
+    expect(matchesCondition({ type: 'riseRate', rate: 60 }, series, 3)).toBe(false);
+    // 08:00 → 09:00: +10 en 60 min = +5 cada 30 min
+    expect(matchesCondition({ type: 'riseRate', rate: 4 }, series, 1)).toBe(true);
+    expect(matchesCondition({ type: 'riseRate', rate: 50 }, series, 0)).toBe(false);
+  });
+
+  it(`ignora subidas con huecos de más de ${MAX_RISE_GAP_MINUTES} minutos`, () => {
+    // 10:30 → 16:30: +65 en 6 h
+    expect(matchesCondition({ type: 'riseRate', rate: 1 }, series, 4)).toBe(false);
+  });
+});
+
+describe('applyRules', () => {
+  const readings = [
+    reading('2026-01-01 08:00:00', 95, 'Fasting'),
+    reading('2026-01-01 13:00:00', 150),
+    reading('2026-01-01 13:30:00', 200),
+    reading('2026-01-01 22:00:00', 60, 'Before sleep'),
+    reading('2026-01-01 23:00:00', 145, null, 'P002'),
+  ];
+  const data = analyzeReadings(readings, { fechaGeneracion: new Date('2026-01-02T00:00:00') });
+
+  it('devuelve el resumen sin cambios si no hay reglas activas', () => {
+    expect(applyRules(data, readings, [rule({ enabled: false })])).toBe(data);
+  });
+
+  it('reclasifica la severidad de las alertas del perfil y conserva las demás', () => {
+    const result = applyRules(data, readings, [rule({ condition: { type: 'above', value: 190 } })]);
+
+    expect(result.alertas_hiperglucemia.map(alert => [alert.glucose_level, alert.severidad, alert.regla?.id])).toEqual([
+      [150, 'moderate', undefined],
+      [200, 'high', 'regla'],
+      [145, 'moderate', undefined],
+    ]);
+  });
+
+  it('crea alertas del perfil que este no generó y actualiza los totales', () => {
+    const result = applyRules(data, readings, [
+      rule({ kind: 'hipoglucemia', condition: { type: 'below', value: 100 }, severity: 'level1' }),
+    ]);
+
+    expect(result.alertas_hipoglucemia.map(alert => alert.glucose_level)).toEqual([95, 60]);
+    expect(result.metadata.total_alertas_hipoglucemia).toBe(2);
+    expect(result.metadata.total_alertas).toBe(data.metadata.total_alertas);
+  });
+
+  it('añade las alertas de tipos propios a alertas_reglas', () => {
+    const result = applyRules(data, readings, [
+      rule({ kind: 'subida_rapida', condition: { type: 'riseRate', rate: 40 }, severity: 'moderate' }),
+    ]);
+
+    expect(result.alertas_reglas).toEqual([{
+      timestamp: '2026-01-01 13:30:00',
+      patient_id: 'P001',
+      glucose_level: 200,
+      meal_context: 'Post-prandial',
+      tipo: 'subida_rapida',
+      severidad: 'moderate',
+      regla: { id: 'regla', nombre: 'Regla de prueba' },
+    }]);
+  });
+
+  it('aplica solo la primera regla que se cumple de cada tipo', () => {
+    const result = applyRules(data, readings, [
+      rule({ id: 'primera', condition: { type: 'above', value: 140 }, severity: 'moderate' }),
+      rule({ id: 'segunda', condition: { type: 'above', value: 190 }, severity: 'high' }),
+    ]);
+
+    expect(result.alertas_hiperglucemia.map(alert => alert.regla?.id)).toEqual(['primera', 'primera', 'primera']);
+  });
+
+  it('filtra por contexto y no aplica reglas con contextos a lecturas sin contexto', () => {
+    const result = applyRules(data, readings, [
+      rule({ kind: 'hiperglucemia_nocturna', condition: { type: 'above', value: 140 }, contexts: ['Before sleep', 'Post-prandial'] }),
+    ]);
+
+    expect(result.alertas_reglas?.map(alert => alert.glucose_level)).toEqual([150, 200]);
+  });
+
+  it('adapta la severidad a la escala del tipo de alerta', () => {
+    const result = applyRules(data, readings, [
+      rule({ kind: 'hipoglucemia', condition: { type: 'below', value: 70 }, severity: 'high' }),
+      rule({ kind: 'hiperglucemia', condition: { type: 'above', value: 140 }, severity: 'level1' }),
+    ]);
+
+    expect(result.alertas_hipoglucemia.map(alert => alert.severidad)).toEqual(['level2']);
+    expect(new Set(result.alertas_hiperglucemia.map(alert => alert.severidad))).toEqual(new Set(['moderate']));
+  });
+
+  it('cuenta los pacientes afectados por cualquier tipo de alerta', () => {
+    const result = applyRules(data, readings, [
+      rule({ kind: 'hiperglucemia_sostenida', condition: { type: 'sustained', value: 140, count: 2, hours: 1 } }),
+    ]);
+
+    expect(result.estadisticas.pacientes_afectados).toBe(2);
+    expect(result.alertas_reglas?.map(alert => alert.timestamp)).toEqual(['2026-01-01 13:30:00']);
+  });
+});
@@ -0,0 +1,214 @@
+// analysis/rules.ts
+// Motor de reglas de alerta declarativas: clasifica severidades y genera
+// alertas de tipos propios sobre las lecturas
+
+import type {
+  AlertaHiperglucemia,
+  AlertaHipoglucemia,
+  AlertaRegla,
+  AlertKind,
+  AlertRule,
+  GlucoseData,
+  GlucoseReading,
+  HypoSeverity,
+  RuleCondition,
+  Severity,
+} from '../components/types';
+import { HYPO_SEVERITIES, matchesContexts } from './constants';
+import { readingKey } from './alerts';
+import { groupByPatient } from './metrics';
+import { sortByTimestamp } from './summary';
+import { toEpoch } from './time';
+
+/**
+ * Separación máxima (minutos) entre dos lecturas para calcular una tasa de
+ * subida; con huecos mayores la pendiente no es representativa
+ */
+export const MAX_RISE_GAP_MINUTES = 180;
+
+/**
+ * Reglas de ejemplo con las que arranca el editor
+ */
+export const DEFAULT_RULES: readonly AlertRule[] = [
+  {
+    id: 'hiper-muy-alta',
+    nombre: 'Hiperglucemia muy alta (> 250)',
+    enabled: false,
+    condition: { type: 'above', value: 250 },
+    contexts: [],
+    kind: 'hiperglucemia',
+    severity: 'high',
+  },
+  {
+    id: 'hiper-sostenida',
+    nombre: '3 lecturas > 140 en 6 h',
+    enabled: true,
+    condition: { type: 'sustained', value: 140, count: 3, hours: 6 },
+    contexts: [],
+    kind: 'hiperglucemia_sostenida',
+    severity: 'high',
+  },
+  {
+    id: 'subida-rapida',
+    nombre: 'Subida > 50 mg/dL cada 30 min',
+    enabled: true,
+    condition: { type: 'riseRate', rate: 50 },
+    contexts: [],
+    kind: 'subida_rapida',
+    severity: 'moderate',
+  },
+  {
+    id: 'hiper-nocturna',
+    nombre: 'Hiperglucemia nocturna (> 140 antes de dormir)',
+    enabled: false,
+    condition: { type: 'above', value: 140 },
+    contexts: ['Before sleep'],
+    kind: 'hiperglucemia_nocturna',
+    severity: 'high',
+  },
+];
+
+/**
+ * Condición por defecto al cambiar el tipo de condición en el editor
+ */
+export function defaultCondition(type: RuleCondition['type']): RuleCondition {
+  switch (type) {
+    case 'above':
+      return { type, value: 180 };
+    case 'below':
+      return { type, value: 70 };
+    case 'sustained':
+      return { type, value: 180, count: 3, hours: 6 };
+    case 'riseRate':
+      return { type, rate: 30 };
+  }
+}
+
+function isHypoSeverity(severity: Severity | HypoSeverity): severity is HypoSeverity {
+  return HYPO_SEVERITIES.includes(severity as HypoSeverity);
+}
+
+/**
+ * Severidad de la regla en la escala de su tipo de alerta
+ * (las reglas guardadas a mano pueden mezclar escalas)
+ */
+function severityFor(rule: AlertRule): Severity;
+function severityFor(rule: AlertRule, hypo: true): HypoSeverity;
+function severityFor(rule: AlertRule, hypo = false): Severity | HypoSeverity {
+  const grave = rule.severity === 'high' || rule.severity === 'level2';
+  if (hypo) return isHypoSeverity(rule.severity) ? rule.severity : grave ? 'level2' : 'level1';
+  return isHypoSeverity(rule.severity) ? (grave ? 'high' : 'moderate') : rule.severity;
+}
+
+/**
+ * Evalúa la condición sobre la lectura `index` de la serie de un paciente
+ *
+ * @param condition - Condición de la regla
+ * @param series - Lecturas del paciente ordenadas por fecha
+ * @param index - Posición de la lectura evaluada
+ * @param epochs - Timestamps de la serie ya convertidos a epoch ms (evita
+ *   reconvertirlos en cada lectura con series grandes)
+ */
+export function matchesCondition(
+  condition: RuleCondition,
+  series: readonly GlucoseReading[],
+  index: number,
+  epochs: readonly number[] = series.map(reading => toEpoch(reading.timestamp))
+): boolean {
+  const reading = series[index];
+  switch (condition.type) {
+    case 'above':
+      return reading.glucose_level > condition.value;
+    case 'below':
+      return reading.glucose_level < condition.value;
+    case 'sustained': {
+      if (reading.glucose_level <= condition.value) return false;
+      const windowStart = epochs[index] - condition.hours * 3_600_000;
+      let count = 0;
+      for (let i = index; i >= 0 && epochs[i] >= windowStart; i--) {
+        if (series[i].glucose_level > condition.value) count += 1;
+      }
+      return count >= condition.count;
+    }
+    case 'riseRate': {
+      if (index === 0) return false;
+      const previous = series[index - 1];
+      const minutes = (epochs[index] - epochs[index - 1]) / 60_000;
+      if (minutes <= 0 || minutes > MAX_RISE_GAP_MINUTES) return false;
+      return ((reading.glucose_level - previous.glucose_level) / minutes) * 30 > condition.rate;
+    }
+  }
+}
+
+/**
+ * Aplica las reglas activas sobre las lecturas y un resumen ya analizado
+ *
+ * Las reglas se recorren en orden y, para cada lectura y tipo de alerta,
+ * gana la primera que se cumple:
+ * - con tipo hiperglucemia o hipoglucemia, la regla fija la severidad de la
+ *   alerta del perfil (o la crea si el perfil no la generó);
+ * - con un tipo propio, se añade una alerta a `alertas_reglas`.
+ * Las alertas del perfil a las que no se aplica ninguna regla se conservan.
+ *
+ * @param data - Resumen con las alertas del perfil de umbrales
+ * @param readings - Lecturas crudas con las que se generó
+ * @param rules - Reglas en orden de prioridad
+ * @returns Resumen con severidades y alertas de las reglas
+ */
+export function applyRules(
+  data: GlucoseData,
+  readings: readonly GlucoseReading[],
+  rules: readonly AlertRule[]
+): GlucoseData {
+  const active = rules.filter(rule => rule.enabled);
+  if (active.length === 0 || readings.length === 0) return data;
+
+  const hiper = new Map<string, AlertaHiperglucemia>(data.alertas_hiperglucemia.map(a => [readingKey(a), a]));
+  const hipo = new Map<string, AlertaHipoglucemia>(data.alertas_hipoglucemia.map(a => [readingKey(a), a]));
+  const reglas: AlertaRegla[] = [];
+
+  groupByPatient(sortByTimestamp(readings)).forEach(series => {
+    const epochs = series.map(reading => toEpoch(reading.timestamp));
+    series.forEach((reading, index) => {
+      const fired = new Set<AlertKind>();
+      active.forEach(rule => {
+        if (fired.has(rule.kind)) return;
+        if (!matchesContexts(rule.contexts, reading.meal_context)) return;
+        if (!matchesCondition(rule.condition, series, index, epochs)) return;
+        fired.add(rule.kind);
+
+        const base = {
+          timestamp: reading.timestamp,
+          patient_id: reading.patient_id,
+          glucose_level: reading.glucose_level,
+          meal_context: reading.meal_context,
+          regla: { id: rule.id, nombre: rule.nombre },
+        };
+        if (rule.kind === 'hiperglucemia') {
+          hiper.set(readingKey(reading), { ...base, severidad: severityFor(rule) });
+        } else if (rule.kind === 'hipoglucemia') {
+          hipo.set(readingKey(reading), { ...base, severidad: severityFor(rule, true) });
+        } else {
+          reglas.push({ ...base, tipo: rule.kind, severidad: severityFor(rule) });
+        }
+      });
+    });
+  });
+
+  const alertas = sortByTimestamp([...hiper.values()]);
+  const alertasHipo = sortByTimestamp([...hipo.values()]);
+  const afectados = new Set([...alertas, ...alertasHipo, ...reglas].map(alerta => alerta.patient_id));
+
+  return {
+    ...data,
+    metadata: {
+      ...data.metadata,
+      total_alertas: alertas.length,
+      total_alertas_hipoglucemia: alertasHipo.length,
+    },
+    alertas_hiperglucemia: alertas,
+    alertas_hipoglucemia: alertasHipo,
+    alertas_reglas: sortByTimestamp(reglas),
+    estadisticas: { ...data.estadisticas, pacientes_afectados: afectados.size },
+  };
+}
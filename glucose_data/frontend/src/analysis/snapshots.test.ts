@@ -0,0 +1,66 @@
+// analysis/snapshots.test.ts
+// Alertas nuevas y desaparecidas, totales y pacientes entre dos resúmenes
+
+import { describe, expect, it } from 'vitest';
+import type { GlucoseReading } from '../components/types';
+import { compareSnapshots } from './snapshots';
+import { analyzeReadings } from './summary';
+
+function reading(timestamp: string, patient_id: string, glucose_level: number): GlucoseReading {
+  return { timestamp, patient_id, glucose_level, meal_context: 'Post-prandial' };
+}
+
+const BEFORE = analyzeReadings([
+  reading('2026-01-01 08:00:00', 'P001', 190),
+  reading('2026-01-01 09:00:00', 'P001', 150),
+  reading('2026-01-01 10:00:00', 'P002', 160),
+]);
+
+const AFTER = analyzeReadings([
+  reading('2026-01-01 08:00:00', 'P001', 195),
+  reading('2026-01-01 09:00:00', 'P001', 120),
+  reading('2026-01-02 08:00:00', 'P003', 60),
+  reading('2026-01-02 09:00:00', 'P003', 150),
+]);
+
+describe('compareSnapshots', () => {
+  it('separa las alertas nuevas, las desaparecidas y las que siguen', () => {
+    const diff = compareSnapshots(BEFORE, AFTER);
+
+    expect(diff.newAlerts.map(alert => [alert.patient_id, alert.timestamp])).toEqual(expect.arrayContaining([
+      ['P003', '2026-01-02 08:00:00'],
+      ['P003', '2026-01-02 09:00:00'],
+    ]));
+    expect(diff.newAlerts).toHaveLength(2);
+    expect(diff.removedAlerts.map(alert => [alert.patient_id, alert.timestamp])).toEqual(expect.arrayContaining([
+      ['P001', '2026-01-01 09:00:00'],
+      ['P002', '2026-01-01 10:00:00'],
+    ]));
+    expect(diff.removedAlerts).toHaveLength(2);
+    // La alerta de las 08:00 sigue aunque cambie el valor
+    expect(diff.unchangedCount).toBe(1);
+  });
+
+  it('calcula la diferencia de los totales y los promedios', () => {
+    const diff = compareSnapshots(BEFORE, AFTER);
+
+    expect(diff.totalHyper).toEqual({ before: 3, after: 2, delta: -1 });
+    expect(diff.totalHypo).toEqual({ before: 0, after: 1, delta: 1 });
+    expect(diff.contextAverages['Post-prandial'].before).toBeCloseTo(166.67, 2);
+    expect(diff.contextAverages['Post-prandial'].after).toBeCloseTo(131.25, 2);
+  });
+
+  it('indica los pacientes que pasan a tener alertas y los que dejan de tenerlas', () => {
+    const diff = compareSnapshots(BEFORE, AFTER);
+
+    expect(diff.newlyAffected).toEqual(['P003']);
+    expect(diff.noLongerAffected).toEqual(['P002']);
+  });
+
+  it('no encuentra cambios entre un resumen y sí mismo', () => {
+    const diff = compareSnapshots(AFTER, AFTER);
+
+    expect(diff).toMatchObject({ newAlerts: [], removedAlerts: [], unchangedCount: 3, newlyAffected: [], noLongerAffected: [] });
+    expect(diff.totalHyper.delta).toBe(0);
+  });
+});
@@ -0,0 +1,73 @@
+// analysis/snapshots.ts
+// Diferencias entre dos resúmenes guardados: qué cambió desde el informe anterior
+
+import type { AlertaGlucosa, GlucoseData, MealContext, PatientId } from '../components/types';
+import { alertKey, mergeAlerts } from './alerts';
+import { MEAL_CONTEXTS } from './constants';
+
+/**
+ * Valor en los dos resúmenes y su diferencia (después − antes)
+ */
+export interface SnapshotDelta {
+  before: number;
+  after: number;
+  delta: number;
+}
+
+/**
+ * Cambios de un resumen a otro posterior
+ */
+export interface SnapshotDiff {
+  newAlerts: AlertaGlucosa[]; // Solo en el resumen posterior
+  removedAlerts: AlertaGlucosa[]; // Solo en el anterior (resueltas o fuera de la ventana)
+  unchangedCount: number; // Alertas presentes en los dos
+  totalHyper: SnapshotDelta; // metadata.total_alertas
+  totalHypo: SnapshotDelta; // metadata.total_alertas_hipoglucemia
+  contextAverages: Record<MealContext, SnapshotDelta>; // promedios_por_comida en mg/dL
+  newlyAffected: PatientId[]; // Con alertas en el posterior y ninguna en el anterior
+  noLongerAffected: PatientId[]; // Con alertas en el anterior y ninguna en el posterior
+}
+
+function delta(before: number, after: number): SnapshotDelta {
+  return { before, after, delta: after - before };
+}
+
+function affectedPatients(alerts: AlertaGlucosa[]): Set<PatientId> {
+  return new Set(alerts.map(alert => alert.patient_id));
+}
+
+/**
+ * Compara dos resúmenes (normalmente el anterior y el último)
+ *
+ * Las alertas se emparejan por alertKey, así que una alerta que sigue
+ * presente con otro valor o severidad no cuenta como nueva.
+ *
+ * @param before - Resumen más antiguo, en mg/dL
+ * @param after - Resumen más reciente, en mg/dL
+ * @returns Alertas nuevas y desaparecidas, totales, promedios y pacientes
+ */
+export function compareSnapshots(before: GlucoseData, after: GlucoseData): SnapshotDiff {
+  const beforeAlerts = mergeAlerts(before);
+  const afterAlerts = mergeAlerts(after);
+  const beforeKeys = new Set(beforeAlerts.map(alertKey));
+  const afterKeys = new Set(afterAlerts.map(alertKey));
+  const beforePatients = affectedPatients(beforeAlerts);
+  const afterPatients = affectedPatients(afterAlerts);
+
+  const newAlerts = afterAlerts.filter(alert => !beforeKeys.has(alertKey(alert)));
+  const contextAverages = Object.fromEntries(MEAL_CONTEXTS.map(context => [
+    context,
+    delta(before.promedios_por_comida[context], after.promedios_por_comida[context]),
+  ])) as Record<MealContext, SnapshotDelta>;
+
+  return {
+    newAlerts,
+    removedAlerts: beforeAlerts.filter(alert => !afterKeys.has(alertKey(alert))),
+    unchangedCount: afterAlerts.length - newAlerts.length,
+    totalHyper: delta(before.metadata.total_alertas, after.metadata.total_alertas),
+    totalHypo: delta(before.metadata.total_alertas_hipoglucemia, after.metadata.total_alertas_hipoglucemia),
+    contextAverages,
+    newlyAffected: [...afterPatients].filter(patient => !beforePatients.has(patient)).sort(),
+    noLongerAffected: [...beforePatients].filter(patient => !afterPatients.has(patient)).sort(),
+  };
+}
@@ -0,0 +1,108 @@
+// analysis/stats.ts
+// Agregados de alertas para tarjetas y gráficos del dashboard
+
+import type {
+  AlertaGlucosa,
+  AlertKind,
+  AlertSortField,
+  MealContext,
+  PatientId,
+} from '../components/types';
+import { ALERT_KINDS } from './constants';
+
+/**
+ * Resumen de alertas de un paciente
+ */
+export interface PatientAlertStats {
+  totalAlerts: number;
+  hyperAlerts: number;
+  hypoAlerts: number;
+  avgGlucose: number;
+  maxGlucose: number;
+  minGlucose: number;
+}
+
+/**
+ * Conteo de alertas por contexto de comida y tipo
+ */
+export type ContextAlertStats = Record<MealContext, Record<AlertKind, number>>;
+
+export type GlucoseTrend = 'increasing' | 'decreasing' | 'stable';
+
+/**
+ * Calcula el resumen de alertas de cada paciente
+ *
+ * @param alerts - Alertas de cualquier tipo
+ * @returns Estadísticas por ID de paciente
+ */
+export function computePatientStats(alerts: readonly AlertaGlucosa[]): Record<PatientId, PatientAlertStats> {
+  const stats = new Map<PatientId, PatientAlertStats>();
+
+  alerts.forEach(alert => {
+    const existing = stats.get(alert.patient_id);
+
+    if (!existing) {
+      stats.set(alert.patient_id, {
+        totalAlerts: 1,
+        hyperAlerts: alert.tipo === 'hiperglucemia' ? 1 : 0,
+        hypoAlerts: alert.tipo === 'hipoglucemia' ? 1 : 0,
+        avgGlucose: alert.glucose_level,
+        maxGlucose: alert.glucose_level,
+        minGlucose: alert.glucose_level,
+      });
+    } else {
+      existing.totalAlerts += 1;
+      if (alert.tipo === 'hiperglucemia') existing.hyperAlerts += 1;
+      else if (alert.tipo === 'hipoglucemia') existing.hypoAlerts += 1;
+      existing.avgGlucose = (existing.avgGlucose * (existing.totalAlerts - 1) + alert.glucose_level) / existing.totalAlerts;
+      existing.maxGlucose = Math.max(existing.maxGlucose, alert.glucose_level);
+      existing.minGlucose = Math.min(existing.minGlucose, alert.glucose_level);
+    }
+  });
+
+  return Object.fromEntries(stats);
+}
+
+/**
+ * Lista única y ordenada de pacientes
+ */
+export function listPatients(items: readonly { patient_id: PatientId }[]): PatientId[] {
+  const patients = new Set<PatientId>();
+  items.forEach(item => patients.add(item.patient_id));
+  return Array.from(patients).sort();
+}
+
+/**
+ * Cuenta las alertas por contexto de comida y tipo
+ */
+export function computeContextStats(alerts: readonly AlertaGlucosa[]): ContextAlertStats {
+  const emptyCounts = () => Object.fromEntries(ALERT_KINDS.map(kind => [kind, 0])) as Record<AlertKind, number>;
+  const stats: ContextAlertStats = {
+    'Fasting': emptyCounts(),
+    'Post-prandial': emptyCounts(),
+    'Before sleep': emptyCounts(),
+  };
+
+  alerts.forEach(alert => {
+    if (alert.meal_context) stats[alert.meal_context][alert.tipo] += 1;
+  });
+
+  return stats;
+}
+
+/**
+ * Ordena alertas por una columna de la tabla sin mutar el array original
+ */
+export function sortAlerts(
+  alerts: readonly AlertaGlucosa[],
+  field: AlertSortField,
+  order: 'asc' | 'desc'
+): AlertaGlucosa[] {
+  const direction = order === 'asc' ? 1 : -1;
+  return [...alerts].sort((a, b) => {
+    const aValue = a[field] ?? '';
+    const bValue = b[field] ?? '';
+    if (aValue === bValue) return 0;
+    return aValue > bValue ? direction : -direction;
+  });
+}
@@ -0,0 +1,183 @@
+// analysis/summary.ts
+// Pipeline de análisis: lecturas crudas -> GlucoseData (summary.json)
+
+import type {
+  GlucoseData,
+  GlucoseReading,
+  AlertaHiperglucemia,
+  AlertaHipoglucemia,
+  HypoSeverity,
+  MealContext,
+  PromediosPorComida,
+  Severity,
+  ThresholdLimits,
+  ThresholdProfile,
+} from '../components/types';
+import { parseReadingsCSV, type CsvRowError } from './csv';
+import {
+  DEFAULT_UMBRAL_SEVERIDAD_ALTA,
+  DEFAULT_UMBRAL_HIPOGLUCEMIA_GRAVE,
+} from './constants';
+import { DEFAULT_PROFILE, resolveThresholds } from './thresholds';
+
+/**
+ * Opciones del análisis
+ */
+export interface AnalysisOptions {
+  perfil?: ThresholdProfile; // Umbrales por defecto, por contexto y por paciente
+  fechaGeneracion?: Date;
+}
+
+/**
+ * Clasifica la severidad de una lectura por encima del umbral
+ *
+ * @param glucose - Nivel de glucosa en mg/dL
+ * @param umbralAlta - Límite a partir del cual la alerta es "high"
+ * @returns Severidad de la alerta
+ */
+export function classifySeverity(glucose: number, umbralAlta: number = DEFAULT_UMBRAL_SEVERIDAD_ALTA): Severity {
+  return glucose > umbralAlta ? 'high' : 'moderate';
+}
+
+/**
+ * Clasifica el nivel de una lectura por debajo del umbral de hipoglucemia
+ *
+ * @param glucose - Nivel de glucosa en mg/dL
+ * @param umbralGrave - Límite por debajo del cual la alerta es "level2"
+ * @returns Nivel de la alerta
+ */
+export function classifyHypoSeverity(glucose: number, umbralGrave: number = DEFAULT_UMBRAL_HIPOGLUCEMIA_GRAVE): HypoSeverity {
+  return glucose < umbralGrave ? 'level2' : 'level1';
+}
+
+/**
+ * Ordena lecturas por timestamp sin mutar el array original
+ */
+export function sortByTimestamp<T extends { timestamp: string }>(items: readonly T[]): T[] {
+  // Las lecturas del CSV suelen llegar ya ordenadas: comprobarlo es lineal
+  let sorted = true;
+  for (let i = 1; i < items.length && sorted; i++) sorted = items[i - 1].timestamp <= items[i].timestamp;
+  if (sorted) return [...items];
+  return [...items].sort((a, b) => (a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0));
+}
+
+/**
+ * Calcula el promedio de glucosa por contexto de comida
+ *
+ * @param readings - Todas las lecturas (las que no tienen contexto no cuentan)
+ * @returns Promedio en mg/dL por contexto (0 si no hay lecturas)
+ */
+export function computeContextAverages(readings: readonly GlucoseReading[]): PromediosPorComida {
+  const totals = new Map<MealContext, { sum: number; count: number }>();
+
+  readings.forEach(reading => {
+    if (!reading.meal_context) return;
+    const entry = totals.get(reading.meal_context) ?? { sum: 0, count: 0 };
+    entry.sum += reading.glucose_level;
+    entry.count += 1;
+    totals.set(reading.meal_context, entry);
+  });
+
+  const average = (context: MealContext): number => {
+    const entry = totals.get(context);
+    return entry ? entry.sum / entry.count : 0;
+  };
+
+  return {
+    'Before sleep': average('Before sleep'),
+    'Fasting': average('Fasting'),
+    'Post-prandial': average('Post-prandial'),
+  };
+}
+
+/**
+ * Genera el resumen completo que consume el dashboard
+ *
+ * Reproduce el resumen de summary.json: una alerta por cada lectura fuera
+ * del rango objetivo (por encima del umbral de hiperglucemia o por debajo
+ * del de hipoglucemia), ordenadas por fecha, y promedios sobre todas las lecturas.
+ * Los umbrales de cada lectura se resuelven con el perfil según su paciente
+ * y contexto de comida.
+ *
+ * @param readings - Lecturas crudas (orden indiferente)
+ * @param options - Perfil de umbrales y fecha de generación
+ * @returns Objeto GlucoseData listo para serializar
+ */
+export function analyzeReadings(readings: readonly GlucoseReading[], options: AnalysisOptions = {}): GlucoseData {
+  const perfil = options.perfil ?? DEFAULT_PROFILE;
+  const sorted = sortByTimestamp(readings);
+
+  const alertas: AlertaHiperglucemia[] = [];
+  const alertasHipo: AlertaHipoglucemia[] = [];
+
+  // Los límites solo dependen del paciente y del contexto: se resuelven una
+  // vez por combinación en lugar de una vez por lectura
+  const limitsByKey = new Map<string, ThresholdLimits>();
+
+  sorted.forEach(reading => {
+    const key = `${reading.patient_id}|${reading.meal_context}`;
+    let limits = limitsByKey.get(key);
+    if (!limits) {
+      limits = resolveThresholds(perfil, reading.patient_id, reading.meal_context);
+      limitsByKey.set(key, limits);
+    }
+    const base = {
+      timestamp: reading.timestamp,
+      patient_id: reading.patient_id,
+      glucose_level: reading.glucose_level,
+      meal_context: reading.meal_context,
+    };
+
+    if (reading.glucose_level > limits.hiperglucemia) {
+      alertas.push({ ...base, severidad: classifySeverity(reading.glucose_level, limits.severidad_alta) });
+    } else if (reading.glucose_level < limits.hipoglucemia) {
+      alertasHipo.push({ ...base, severidad: classifyHypoSeverity(reading.glucose_level, limits.hipoglucemia_grave) });
+    }
+  });
+
+  // Bucle en vez de Math.max(...levels): con cientos de miles de lecturas
+  // el spread desborda la pila
+  let maxima = -Infinity;
+  let minima = Infinity;
+  sorted.forEach(({ glucose_level: value }) => {
+    if (value > maxima) maxima = value;
+    if (value < minima) minima = value;
+  });
+  const afectados = new Set([...alertas, ...alertasHipo].map(alerta => alerta.patient_id));
+
+  return {
+    metadata: {
+      fecha_generacion: (options.fechaGeneracion ?? new Date()).toISOString(),
+      unidad: 'mg/dL',
+      umbral_hiperglucemia: perfil.por_defecto.hiperglucemia,
+      umbral_hipoglucemia: perfil.por_defecto.hipoglucemia,
+      umbral_hipoglucemia_grave: perfil.por_defecto.hipoglucemia_grave,
+      perfil_umbrales: perfil,
+      total_alertas: alertas.length,
+      total_alertas_hipoglucemia: alertasHipo.length,
+    },
+    promedios_por_comida: computeContextAverages(sorted),
+    alertas_hiperglucemia: alertas,
+    alertas_hipoglucemia: alertasHipo,
+    estadisticas: {
+      glucosa_maxima: sorted.length > 0 ? maxima : 0,
+      glucosa_minima: sorted.length > 0 ? minima : 0,
+      pacientes_afectados: afectados.size,
+    },
+  };
+}
+
+/**
+ * Atajo para analizar directamente el texto de un CSV (navegador o Node)
+ *
+ * @param text - Contenido de glucose_data.csv
+ * @param options - Perfil de umbrales y fecha de generación
+ * @returns Resumen, lecturas válidas ordenadas y filas rechazadas durante el parseo
+ */
+export function analyzeCSV(
+  text: string,
+  options: AnalysisOptions = {}
+): { data: GlucoseData; readings: GlucoseReading[]; rejected: CsvRowError[] } {
+  const { readings, rejected } = parseReadingsCSV(text);
+  return { data: analyzeReadings(readings, options), readings: sortByTimestamp(readings), rejected };
+}
@@ -0,0 +1,69 @@
+// analysis/thresholds.test.ts
+// Precedencia de las sobrescrituras y perfiles creados desde límites sueltos
+
+import { describe, expect, it } from 'vitest';
+import type { ThresholdProfile } from '../components/types';
+import { buildProfile, DEFAULT_LIMITS, DEFAULT_PROFILE, resolveThresholds } from './thresholds';
+
+const PROFILE: ThresholdProfile = {
+  id: 'prueba',
+  nombre: 'Prueba',
+  por_defecto: DEFAULT_LIMITS,
+  por_contexto: {
+    'Fasting': { hiperglucemia: 130 },
+    'Post-prandial': { hiperglucemia: 180, severidad_alta: 250 },
+  },
+  por_paciente: {
+    P001: {
+      por_defecto: { hipoglucemia: 80 },
+      por_contexto: { 'Fasting': { hiperglucemia: 110 } },
+    },
+  },
+};
+
+describe('resolveThresholds', () => {
+  it('usa los límites por defecto sin contexto ni paciente', () => {
+    expect(resolveThresholds(PROFILE, null, null)).toEqual(DEFAULT_LIMITS);
+  });
+
+  it('aplica el contexto sobre los límites por defecto', () => {
+    expect(resolveThresholds(PROFILE, null, 'Post-prandial')).toEqual({
+      ...DEFAULT_LIMITS,
+      hiperglucemia: 180,
+      severidad_alta: 250,
+    });
+  });
+
+  it('aplica el paciente después del contexto y su propio contexto al final', () => {
+    expect(resolveThresholds(PROFILE, 'P001', 'Fasting')).toEqual({ ...DEFAULT_LIMITS, hiperglucemia: 110, hipoglucemia: 80 });
+    expect(resolveThresholds(PROFILE, 'P001', 'Post-prandial')).toEqual({
+      ...DEFAULT_LIMITS,
+      hiperglucemia: 180,
+      severidad_alta: 250,
+      hipoglucemia: 80,
+    });
+  });
+
+  it('no aplica sobrescrituras de contexto a lecturas sin contexto', () => {
+    expect(resolveThresholds(PROFILE, 'P001', null)).toEqual({ ...DEFAULT_LIMITS, hipoglucemia: 80 });
+  });
+
+  it('ignora pacientes sin sobrescrituras', () => {
+    expect(resolveThresholds(PROFILE, 'P002', 'Fasting')).toEqual({ ...DEFAULT_LIMITS, hiperglucemia: 130 });
+  });
+});
+
+describe('buildProfile', () => {
+  it('devuelve el perfil estándar con los límites por defecto', () => {
+    expect(buildProfile({})).toBe(DEFAULT_PROFILE);
+    expect(buildProfile({ ...DEFAULT_LIMITS })).toBe(DEFAULT_PROFILE);
+  });
+
+  it('deriva un id estable de los valores', () => {
+    const profile = buildProfile({ hiperglucemia: 160 });
+
+    expect(profile.id).toBe('personalizado-160-180-70-54');
+    expect(profile.por_defecto).toEqual({ ...DEFAULT_LIMITS, hiperglucemia: 160 });
+    expect(buildProfile({ hiperglucemia: 160 })).toEqual(profile);
+  });
+});
@@ -0,0 +1,122 @@
+// analysis/thresholds.ts
+// Perfiles de umbrales: resolución por paciente y contexto de comida
+
+import type {
+  MealContext,
+  PatientId,
+  ThresholdLimits,
+  ThresholdOverride,
+  ThresholdProfile,
+} from '../components/types';
+import {
+  DEFAULT_UMBRAL_HIPERGLUCEMIA,
+  DEFAULT_UMBRAL_SEVERIDAD_ALTA,
+  DEFAULT_UMBRAL_HIPOGLUCEMIA,
+  DEFAULT_UMBRAL_HIPOGLUCEMIA_GRAVE,
+} from './constants';
+
+/**
+ * Límites por defecto (mismos valores que el pipeline original)
+ */
+export const DEFAULT_LIMITS: ThresholdLimits = {
+  hiperglucemia: DEFAULT_UMBRAL_HIPERGLUCEMIA,
+  severidad_alta: DEFAULT_UMBRAL_SEVERIDAD_ALTA,
+  hipoglucemia: DEFAULT_UMBRAL_HIPOGLUCEMIA,
+  hipoglucemia_grave: DEFAULT_UMBRAL_HIPOGLUCEMIA_GRAVE,
+};
+
+/**
+ * Perfil estándar: un único umbral para todas las lecturas
+ */
+export const DEFAULT_PROFILE: ThresholdProfile = {
+  id: 'estandar',
+  nombre: 'Estándar',
+  por_defecto: DEFAULT_LIMITS,
+  por_contexto: {},
+  por_paciente: {},
+};
+
+/**
+ * Perfiles predefinidos que se ofrecen como punto de partida en ajustes
+ */
+export const PRESET_PROFILES: readonly ThresholdProfile[] = [
+  DEFAULT_PROFILE,
+  {
+    id: 'por-contexto',
+    nombre: 'Por contexto de comida (ADA)',
+    por_defecto: DEFAULT_LIMITS,
+    por_contexto: {
+      'Fasting': { hiperglucemia: 130 },
+      'Post-prandial': { hiperglucemia: 180, severidad_alta: 250 },
+    },
+    por_paciente: {},
+  },
+  {
+    id: 'gestacional',
+    nombre: 'Diabetes gestacional',
+    por_defecto: { ...DEFAULT_LIMITS, hiperglucemia: 120, severidad_alta: 160, hipoglucemia: 63 },
+    por_contexto: {
+      'Fasting': { hiperglucemia: 95 },
+      'Post-prandial': { hiperglucemia: 140 },
+    },
+    por_paciente: {},
+  },
+];
+
+function applyOverride(limits: ThresholdLimits, override: ThresholdOverride | undefined): ThresholdLimits {
+  if (!override) return limits;
+  return {
+    hiperglucemia: override.hiperglucemia ?? limits.hiperglucemia,
+    severidad_alta: override.severidad_alta ?? limits.severidad_alta,
+    hipoglucemia: override.hipoglucemia ?? limits.hipoglucemia,
+    hipoglucemia_grave: override.hipoglucemia_grave ?? limits.hipoglucemia_grave,
+  };
+}
+
+/**
+ * Límites efectivos para un paciente y contexto
+ *
+ * @param profile - Perfil de umbrales
+ * @param patientId - Paciente (null = nivel de cohorte)
+ * @param context - Contexto de comida (null = sin contexto)
+ * @returns Límites tras aplicar las sobrescrituras en orden de precedencia
+ */
+export function resolveThresholds(
+  profile: ThresholdProfile,
+  patientId: PatientId | null,
+  context: MealContext | null
+): ThresholdLimits {
+  let limits = profile.por_defecto;
+  if (context) limits = applyOverride(limits, profile.por_contexto[context]);
+
+  const patient = patientId ? profile.por_paciente[patientId] : undefined;
+  if (patient) {
+    limits = applyOverride(limits, patient.por_defecto);
+    if (context) limits = applyOverride(limits, patient.por_contexto?.[context]);
+  }
+
+  return limits;
+}
+
+/**
+ * Crea un perfil sin sobrescrituras a partir de límites sueltos
+ *
+ * Si los límites coinciden con los por defecto devuelve DEFAULT_PROFILE;
+ * si no, el id se deriva de los valores para que sea estable.
+ */
+export function buildProfile(limits: ThresholdOverride): ThresholdProfile {
+  const porDefecto = applyOverride(DEFAULT_LIMITS, limits);
+  const values = [porDefecto.hiperglucemia, porDefecto.severidad_alta, porDefecto.hipoglucemia, porDefecto.hipoglucemia_grave];
+
+  if (values.join() === [DEFAULT_LIMITS.hiperglucemia, DEFAULT_LIMITS.severidad_alta, DEFAULT_LIMITS.hipoglucemia, DEFAULT_LIMITS.hipoglucemia_grave].join()) {
+    return DEFAULT_PROFILE;
+  }
+
+  return {
+    id: `personalizado-${values.join('-')}`,
+    nombre: 'Personalizado',
+    por_defecto: porDefecto,
+    por_contexto: {},
+    por_paciente: {},
+  };
+}
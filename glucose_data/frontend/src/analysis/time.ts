@@ -0,0 +1,65 @@
+// analysis/time.ts
+// Conversión de los timestamps del CSV ("YYYY-MM-DD HH:MM:SS")
+
+// Epoch de cada "YYYY-MM-DD HH" ya convertido: en series grandes casi todos
+// los timestamps comparten hora con otro y parsear fechas es lo más costoso
+const hourEpochs = new Map<string, number>();
+const MAX_CACHED_HOURS = 100_000;
+
+/**
+ * Convierte un timestamp del CSV a epoch ms (hora local)
+ *
+ * Los timestamps "YYYY-MM-DD HH:MM[:SS]" suman minutos y segundos al inicio
+ * de su hora (cacheado), lo que respeta los cambios de horario en horas en
+ * punto; cualquier otro formato se delega en Date.
+ */
+export function toEpoch(timestamp: string): number {
+  const minutes = Number(timestamp.slice(14, 16));
+  const seconds = timestamp.length === 19 ? Number(timestamp.slice(17, 19)) : 0;
+  if (
+    (timestamp.length !== 16 && timestamp.length !== 19) || timestamp[10] !== ' ' ||
+    !(minutes >= 0 && minutes < 60 && seconds >= 0 && seconds < 60)
+  ) {
+    return new Date(timestamp.replace(' ', 'T')).getTime();
+  }
+
+  const hour = timestamp.slice(0, 13);
+  let epoch = hourEpochs.get(hour);
+  if (epoch === undefined) {
+    epoch = new Date(`${hour.replace(' ', 'T')}:00:00`).getTime();
+    if (hourEpochs.size >= MAX_CACHED_HOURS) hourEpochs.clear();
+    hourEpochs.set(hour, epoch);
+  }
+  return epoch + minutes * 60_000 + seconds * 1000;
+}
+
+/**
+ * Convierte epoch ms (hora local) al formato de timestamp del CSV
+ */
+export function fromEpoch(epoch: number): string {
+  const date = new Date(epoch);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  );
+}
+
+/**
+ * Suma días a una fecha "YYYY-MM-DD" (negativos para restar)
+ */
+export function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Días entre dos fechas "YYYY-MM-DD" (positivo si `to` es posterior)
+ */
+export function daysBetween(from: string, to: string): number {
+  const utc = (date: string) => {
+    const [year, month, day] = date.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((utc(to) - utc(from)) / 86_400_000);
+}
@@ -0,0 +1,165 @@
+// analysis/timeline.ts
+// Puntos de la gráfica de evolución, reducidos cuando hay demasiadas lecturas
+
+import type {
+  AlertaGlucosa,
+  AlertaPrevista,
+  GlucoseReading,
+  MealContext,
+  PatientId,
+  PrevisionGlucosa,
+  TimeRange,
+} from '../components/types';
+import { readingKey } from './alerts';
+import { sortByTimestamp } from './summary';
+import { toEpoch } from './time';
+
+/**
+ * Máximo de puntos que se dibujan en la gráfica de evolución
+ */
+export const TIMELINE_MAX_POINTS = 2000;
+
+/**
+ * Lectura dibujada en la gráfica, con la alerta que generó (si alguna)
+ */
+export interface TimelineSample {
+  time: number; // epoch ms
+  timestamp: string;
+  patient_id: PatientId;
+  glucose_level: number; // mg/dL
+  meal_context: MealContext | null;
+  alert: Pick<AlertaGlucosa, 'tipo' | 'severidad'> | null; // La primera alerta de la lectura
+  forecast: (PrevisionGlucosa & Pick<AlertaPrevista, 'severidad'>) | null; // Hiperglucemia prevista desde la lectura
+}
+
+/**
+ * Puntos de la gráfica: vista general y detalle de la ventana de zoom
+ */
+export interface TimelineSeries {
+  overview: TimelineSample[]; // Todo el periodo
+  detail: TimelineSample[] | null; // Solo la ventana, con más resolución
+  detailRange: TimeRange | null; // Ventana a la que corresponde `detail`
+  total: number; // Lecturas antes de reducir
+}
+
+/**
+ * Lecturas ordenadas por tiempo, listas para muestrear varias ventanas
+ */
+export interface TimelineIndex {
+  readings: GlucoseReading[];
+  epochs: Float64Array;
+  alerts: Map<string, AlertaGlucosa>; // Primera alerta por readingKey (sin las previstas)
+  forecasts: Map<string, AlertaPrevista>; // Hiperglucemia prevista por readingKey
+}
+
+/**
+ * Ordena las lecturas y precalcula sus instantes y alertas
+ *
+ * @param readings - Lecturas (ya filtradas), en cualquier orden
+ * @param alerts - Alertas a marcar sobre sus lecturas
+ */
+export function indexTimeline(readings: readonly GlucoseReading[], alerts: readonly AlertaGlucosa[]): TimelineIndex {
+  const sorted = sortByTimestamp(readings);
+  const byReading = new Map<string, AlertaGlucosa>();
+  const forecasts = new Map<string, AlertaPrevista>();
+  alerts.forEach(alert => {
+    const key = readingKey(alert);
+    if (alert.tipo === 'hiperglucemia_prevista') forecasts.set(key, alert);
+    else if (!byReading.has(key)) byReading.set(key, alert);
+  });
+  return {
+    readings: sorted,
+    epochs: Float64Array.from(sorted, reading => toEpoch(reading.timestamp)),
+    alerts: byReading,
+    forecasts,
+  };
+}
+
+/**
+ * Primer índice con epoch >= value
+ */
+function lowerBound(epochs: Float64Array, value: number): number {
+  let low = 0;
+  let high = epochs.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (epochs[mid] < value) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Índices a dibujar entre `from` y `to` (exclusivo)
+ *
+ * Si hay más lecturas que `budget`, el periodo se divide en tramos iguales
+ * y de cada paciente y tramo se conservan la mínima y la máxima, así no se
+ * pierden picos ni hipoglucemias.
+ */
+function decimate({ readings, epochs }: TimelineIndex, from: number, to: number, budget: number): number[] {
+  const indexes: number[] = [];
+  if (to - from <= budget) {
+    for (let i = from; i < to; i++) indexes.push(i);
+    return indexes;
+  }
+
+  const patients = new Set<PatientId>();
+  for (let i = from; i < to; i++) patients.add(readings[i].patient_id);
+  const buckets = Math.max(1, Math.floor(budget / (2 * patients.size)));
+  const start = epochs[from];
+  const span = Math.max(epochs[to - 1] - start, 1);
+
+  const extremes = new Map<string, { min: number; max: number }>();
+  for (let i = from; i < to; i++) {
+    const reading = readings[i];
+    const bucket = Math.min(Math.floor(((epochs[i] - start) / span) * buckets), buckets - 1);
+    const key = `${reading.patient_id}|${bucket}`;
+    const entry = extremes.get(key);
+    if (!entry) {
+      extremes.set(key, { min: i, max: i });
+    } else {
+      if (reading.glucose_level < readings[entry.min].glucose_level) entry.min = i;
+      if (reading.glucose_level > readings[entry.max].glucose_level) entry.max = i;
+    }
+  }
+
+  const kept = new Set<number>();
+  extremes.forEach(({ min, max }) => {
+    kept.add(min);
+    kept.add(max);
+  });
+  return [...kept].sort((a, b) => a - b);
+}
+
+/**
+ * Muestrea las lecturas de una ventana (o de todo el periodo)
+ *
+ * @param index - Lecturas preparadas con indexTimeline
+ * @param range - Ventana de tiempo (null = todo el periodo)
+ * @param maxPoints - Máximo aproximado de puntos
+ * @returns Puntos ordenados por tiempo
+ */
+export function sampleTimeline(
+  index: TimelineIndex,
+  range: TimeRange | null = null,
+  maxPoints: number = TIMELINE_MAX_POINTS
+): TimelineSample[] {
+  const from = range ? lowerBound(index.epochs, range.start) : 0;
+  const to = range ? lowerBound(index.epochs, range.end + 1) : index.epochs.length;
+
+  return decimate(index, from, to, maxPoints).map(i => {
+    const reading = index.readings[i];
+    const key = readingKey(reading);
+    const alert = index.alerts.get(key);
+    const forecast = index.forecasts.get(key);
+    return {
+      time: index.epochs[i],
+      timestamp: reading.timestamp,
+      patient_id: reading.patient_id,
+      glucose_level: reading.glucose_level,
+      meal_context: reading.meal_context,
+      alert: alert ? { tipo: alert.tipo, severidad: alert.severidad } : null,
+      forecast: forecast ? { ...forecast.prevision, severidad: forecast.severidad } : null,
+    };
+  });
+}
@@ -0,0 +1,81 @@
+// analysis/trend.test.ts
+// Pendiente de Theil–Sen sobre medias diarias y su intervalo de confianza
+
+import { describe, expect, it } from 'vitest';
+import type { GlucoseReading } from '../components/types';
+import { shiftDate } from './time';
+import { computePatientTrend, computeTrendsByPatient, countTrendDirections, MIN_TREND_DAYS } from './trend';
+
+/**
+ * Dos lecturas por día alrededor de cada media diaria, desde el 1 de enero
+ */
+function dailySeries(means: number[], patient_id = 'P001'): GlucoseReading[] {
+  return means.flatMap((mean, day) => {
+    const date = shiftDate('2026-01-01', day);
+    return [
+      { timestamp: `${date} 08:00:00`, patient_id, glucose_level: mean - 20, meal_context: 'Fasting' as const },
+      { timestamp: `${date} 14:00:00`, patient_id, glucose_level: mean + 20, meal_context: 'Post-prandial' as const },
+    ];
+  });
+}
+
+describe('computePatientTrend', () => {
+  it('devuelve la pendiente exacta de una serie lineal', () => {
+    const trend = computePatientTrend(dailySeries([100, 105, 110, 115, 120, 125, 130]), 14)!;
+
+    expect(trend).toMatchObject({
+      slope: 5,
+      lower: 5,
+      upper: 5,
+      direction: 'increasing',
+      confidence: 'high',
+      days: 7,
+      readings: 14,
+      from: '2025-12-25',
+      to: '2026-01-07',
+    });
+  });
+
+  it('no se deja arrastrar por un día atípico', () => {
+    const trend = computePatientTrend(dailySeries([100, 102, 104, 300, 108, 110, 112]), 14)!;
+
+    // Las 6 pendientes con el día 4 quedan en los extremos, fuera del intervalo
+    expect(trend).toMatchObject({ slope: 2, lower: 2, upper: 2, direction: 'increasing', confidence: 'high' });
+  });
+
+  it('da por estable una serie sin dirección', () => {
+    const trend = computePatientTrend(dailySeries([100, 120, 100, 120, 100, 120, 100]), 14)!;
+
+    expect(trend.lower).toBeLessThanOrEqual(0);
+    expect(trend.upper).toBeGreaterThanOrEqual(0);
+    expect(trend).toMatchObject({ direction: 'stable', confidence: 'low' });
+  });
+
+  it('solo usa los días de la ventana que termina en el último con lecturas', () => {
+    // Subida los 10 primeros días y bajada los 7 últimos
+    const means = [...Array.from({ length: 10 }, (_, day) => 100 + day * 10), 180, 170, 160, 150, 140, 130, 120];
+    const trend = computePatientTrend(dailySeries(means), 7)!;
+
+    expect(trend).toMatchObject({ slope: -10, direction: 'decreasing', days: 7, from: '2026-01-11', to: '2026-01-17' });
+  });
+
+  it(`necesita al menos ${MIN_TREND_DAYS} días con lecturas`, () => {
+    const trend = computePatientTrend(dailySeries([100, 150, 200]), 14)!;
+
+    expect(trend).toMatchObject({ slope: 0, direction: 'stable', confidence: 'insufficient', days: 3 });
+    expect(computePatientTrend([], 14)).toBeNull();
+  });
+});
+
+describe('countTrendDirections', () => {
+  it('cuenta las direcciones sin los pacientes con datos insuficientes', () => {
+    const trends = computeTrendsByPatient([
+      ...dailySeries([100, 110, 120, 130], 'P001'),
+      ...dailySeries([130, 120, 110, 100], 'P002'),
+      ...dailySeries([100, 110], 'P003'),
+    ], 14);
+
+    expect(Object.keys(trends)).toEqual(['P001', 'P002', 'P003']);
+    expect(countTrendDirections(trends)).toEqual({ increasing: 1, decreasing: 1, stable: 0 });
+  });
+});
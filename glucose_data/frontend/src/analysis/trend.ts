@@ -0,0 +1,173 @@
+// analysis/trend.ts
+// Tendencia glucémica por paciente: pendiente robusta (Theil–Sen) con
+// intervalo de confianza sobre las medias diarias de una ventana reciente
+
+import type { GlucoseReading, PatientId } from '../components/types';
+import { groupByPatient } from './metrics';
+import type { GlucoseTrend } from './stats';
+import { daysBetween, shiftDate } from './time';
+
+/**
+ * Ventanas que se ofrecen en la interfaz, en días
+ */
+export const TREND_WINDOWS = [7, 14, 30] as const;
+
+export type TrendWindow = (typeof TREND_WINDOWS)[number];
+
+export const DEFAULT_TREND_WINDOW: TrendWindow = 14;
+
+/**
+ * Días con lecturas necesarios para estimar una pendiente
+ */
+export const MIN_TREND_DAYS = 4;
+
+// Cuantiles de la normal para los intervalos del 95% y del 80%
+const Z_95 = 1.96;
+const Z_80 = 1.2816;
+
+/**
+ * Confianza en la dirección de la tendencia
+ *
+ * - high: el intervalo del 95% no incluye 0
+ * - medium: solo el del 80% lo excluye
+ * - low: ambos incluyen 0 (la dirección se da como estable)
+ * - insufficient: menos de MIN_TREND_DAYS días con lecturas
+ */
+export type TrendConfidence = 'high' | 'medium' | 'low' | 'insufficient';
+
+/**
+ * Tendencia de un paciente en la ventana elegida
+ */
+export interface PatientTrend {
+  slope: number; // mg/dL por día (mediana de las pendientes entre pares de días)
+  lower: number; // Límite inferior del intervalo del 95%, mg/dL por día
+  upper: number; // Límite superior del intervalo del 95%
+  direction: GlucoseTrend;
+  confidence: TrendConfidence;
+  days: number; // Días con lecturas en la ventana
+  readings: number; // Lecturas en la ventana
+  from: string; // "YYYY-MM-DD", inicio de la ventana
+  to: string; // "YYYY-MM-DD", último día con lecturas
+}
+
+/**
+ * Media de glucosa de cada día, ordenada por fecha
+ *
+ * Trabajar con medias diarias evita que el ciclo de las comidas (subidas
+ * post-prandiales, ayuno) se confunda con la tendencia y reduce la
+ * autocorrelación entre lecturas consecutivas.
+ */
+function dailyMeans(readings: readonly GlucoseReading[], from: string): { day: number; mean: number }[] {
+  const totals = new Map<string, { sum: number; count: number }>();
+  readings.forEach(reading => {
+    const date = reading.timestamp.slice(0, 10);
+    const entry = totals.get(date);
+    if (entry) {
+      entry.sum += reading.glucose_level;
+      entry.count += 1;
+    } else {
+      totals.set(date, { sum: reading.glucose_level, count: 1 });
+    }
+  });
+  return Array.from(totals, ([date, { sum, count }]) => ({ day: daysBetween(from, date), mean: sum / count }))
+    .sort((a, b) => a.day - b.day);
+}
+
+/**
+ * Intervalo de Sen para la pendiente de Theil–Sen
+ *
+ * @param slopes - Pendientes entre pares, ordenadas
+ * @param n - Número de puntos (días)
+ * @param z - Cuantil de la normal del nivel de confianza
+ */
+function senInterval(slopes: readonly number[], n: number, z: number): [number, number] {
+  const count = slopes.length;
+  const c = z * Math.sqrt((n * (n - 1) * (2 * n + 5)) / 18);
+  const lowerRank = Math.round((count - c) / 2); // 1-indexado
+  const upperRank = Math.round((count + c) / 2) + 1;
+  const at = (rank: number) => slopes[Math.min(Math.max(rank, 1), count) - 1];
+  return [at(lowerRank), at(upperRank)];
+}
+
+/**
+ * Calcula la tendencia de un paciente en una ventana de `window` días
+ *
+ * La ventana termina en el último día con lecturas del paciente. La
+ * pendiente es la de Theil–Sen sobre las medias diarias, robusta frente a
+ * días atípicos, y su intervalo de confianza el de Sen (basado en la
+ * distribución de la tau de Kendall).
+ *
+ * @param readings - Lecturas de un paciente, en cualquier orden
+ * @param window - Días de la ventana
+ * @returns Tendencia, o null si no hay lecturas
+ */
+export function computePatientTrend(readings: readonly GlucoseReading[], window: TrendWindow): PatientTrend | null {
+  if (readings.length === 0) return null;
+
+  let to = readings[0].timestamp.slice(0, 10);
+  readings.forEach(reading => {
+    const date = reading.timestamp.slice(0, 10);
+    if (date > to) to = date;
+  });
+  const from = shiftDate(to, -(window - 1));
+  const inWindow = readings.filter(reading => reading.timestamp.slice(0, 10) >= from);
+  const points = dailyMeans(inWindow, from);
+  const n = points.length;
+  const base = { days: n, readings: inWindow.length, from, to };
+
+  if (n < MIN_TREND_DAYS) {
+    return { ...base, slope: 0, lower: 0, upper: 0, direction: 'stable', confidence: 'insufficient' };
+  }
+
+  const slopes: number[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      slopes.push((points[j].mean - points[i].mean) / (points[j].day - points[i].day));
+    }
+  }
+  slopes.sort((a, b) => a - b);
+  const middle = slopes.length / 2;
+  const slope = slopes.length % 2 === 1
+    ? slopes[Math.floor(middle)]
+    : (slopes[middle - 1] + slopes[middle]) / 2;
+
+  const [lower, upper] = senInterval(slopes, n, Z_95);
+  const [lower80, upper80] = senInterval(slopes, n, Z_80);
+  const excludesZero = (low: number, high: number) => low > 0 || high < 0;
+  const confidence: TrendConfidence = excludesZero(lower, upper)
+    ? 'high'
+    : excludesZero(lower80, upper80) ? 'medium' : 'low';
+  const direction: GlucoseTrend = confidence === 'low' ? 'stable' : slope > 0 ? 'increasing' : 'decreasing';
+
+  return { ...base, slope, lower, upper, direction, confidence };
+}
+
+/**
+ * Calcula la tendencia de cada paciente
+ *
+ * @param readings - Lecturas de toda la cohorte
+ * @param window - Días de la ventana
+ * @returns Tendencia por ID de paciente
+ */
+export function computeTrendsByPatient(
+  readings: readonly GlucoseReading[],
+  window: TrendWindow
+): Record<PatientId, PatientTrend> {
+  const result: Record<PatientId, PatientTrend> = {};
+  groupByPatient(readings).forEach((patientReadings, patientId) => {
+    const trend = computePatientTrend(patientReadings, window);
+    if (trend) result[patientId] = trend;
+  });
+  return result;
+}
+
+/**
+ * Cuántos pacientes tienen cada dirección (sin contar los de datos insuficientes)
+ */
+export function countTrendDirections(trends: Record<PatientId, PatientTrend>): Record<GlucoseTrend, number> {
+  const counts: Record<GlucoseTrend, number> = { increasing: 0, decreasing: 0, stable: 0 };
+  Object.values(trends).forEach(trend => {
+    if (trend.confidence !== 'insufficient') counts[trend.direction] += 1;
+  });
+  return counts;
+}
@@ -0,0 +1,66 @@
+// analysis/units.test.ts
+// Conversión y redondeo entre mg/dL y mmol/L
+
+import { describe, expect, it } from 'vitest';
+import type { GlucoseReading } from '../components/types';
+import { analyzeReadings } from './summary';
+import { formatGlucose, fromMgdl, MGDL_PER_MMOLL, normalizeToMgdl, roundGlucose, toMgdl } from './units';
+
+describe('fromMgdl / toMgdl', () => {
+  it('convierten sin perder precisión en la ida y vuelta', () => {
+    expect(fromMgdl(MGDL_PER_MMOLL, 'mmol/L')).toBe(1);
+    [54, 70, 140, 180, 251.5].forEach(value => {
+      expect(toMgdl(fromMgdl(value, 'mmol/L'), 'mmol/L')).toBeCloseTo(value, 10);
+    });
+  });
+
+  it('no cambian los valores en mg/dL', () => {
+    expect(fromMgdl(152.34, 'mg/dL')).toBe(152.34);
+    expect(toMgdl(152.34, 'mg/dL')).toBe(152.34);
+  });
+});
+
+describe('roundGlucose', () => {
+  it('redondea mmol/L a un decimal', () => {
+    expect(roundGlucose(180, 'mmol/L')).toBe(10);
+    expect(roundGlucose(70, 'mmol/L')).toBe(3.9);
+    expect(roundGlucose(54, 'mmol/L', true)).toBe(3);
+  });
+
+  it('redondea mg/dL a un decimal o a enteros en compacto', () => {
+    expect(roundGlucose(152.36, 'mg/dL')).toBe(152.4);
+    expect(roundGlucose(152.36, 'mg/dL', true)).toBe(152);
+  });
+});
+
+describe('formatGlucose', () => {
+  it('añade la unidad y usa el separador decimal del idioma', () => {
+    expect(formatGlucose(152.34, 'mg/dL')).toBe('152.3 mg/dL');
+    expect(formatGlucose(153.2, 'mmol/L', { locale: 'es' })).toBe('8,5 mmol/L');
+    expect(formatGlucose(140, 'mg/dL', { compact: true, withUnit: false })).toBe('140');
+  });
+});
+
+describe('normalizeToMgdl', () => {
+  const readings: GlucoseReading[] = [
+    { timestamp: '2026-01-01 07:00:00', patient_id: 'P001', glucose_level: 95, meal_context: 'Fasting' },
+    { timestamp: '2026-01-01 13:30:00', patient_id: 'P001', glucose_level: 190, meal_context: 'Post-prandial' },
+    { timestamp: '2026-01-01 22:00:00', patient_id: 'P002', glucose_level: 60, meal_context: 'Before sleep' },
+  ];
+  const data = analyzeReadings(readings, { fechaGeneracion: new Date('2026-01-02T00:00:00') });
+
+  it('devuelve el mismo objeto si ya está en mg/dL', () => {
+    expect(normalizeToMgdl(data)).toBe(data);
+  });
+
+  it('convierte las alertas, los umbrales y el perfil de un resumen en mmol/L', () => {
+    const mmol = { ...data, metadata: { ...data.metadata, unidad: 'mmol/L' as const } };
+    const result = normalizeToMgdl(mmol);
+
+    expect(result.metadata.unidad).toBe('mg/dL');
+    expect(result.metadata.umbral_hiperglucemia).toBeCloseTo(140 * MGDL_PER_MMOLL);
+    expect(result.metadata.perfil_umbrales.por_defecto.hipoglucemia).toBeCloseTo(70 * MGDL_PER_MMOLL);
+    expect(result.alertas_hiperglucemia[0].glucose_level).toBeCloseTo(190 * MGDL_PER_MMOLL);
+    expect(result.estadisticas.glucosa_minima).toBeCloseTo(60 * MGDL_PER_MMOLL);
+  });
+});
@@ -0,0 +1,153 @@
+// analysis/units.ts
+// Conversión entre mg/dL (unidad interna) y mmol/L
+
+import type { GlucoseData, GlucoseUnit, ThresholdLimits, ThresholdOverride, ThresholdProfile } from '../components/types';
+
+/**
+ * mg/dL por cada mmol/L de glucosa (masa molar 180,16 g/mol)
+ */
+export const MGDL_PER_MMOLL = 18.0182;
+
+/**
+ * Decimales con los que se muestra cada unidad
+ *
+ * `compact` se usa en umbrales, ejes y percentiles, donde en mg/dL no
+ * aportan nada los decimales; en mmol/L el convenio es siempre uno.
+ */
+const DECIMALS: Record<'full' | 'compact', Record<GlucoseUnit, number>> = {
+  full: { 'mg/dL': 1, 'mmol/L': 1 },
+  compact: { 'mg/dL': 0, 'mmol/L': 1 },
+};
+
+/**
+ * Convierte un valor en mg/dL a la unidad indicada (sin redondear)
+ */
+export function fromMgdl(mgdl: number, unit: GlucoseUnit): number {
+  return unit === 'mmol/L' ? mgdl / MGDL_PER_MMOLL : mgdl;
+}
+
+/**
+ * Convierte un valor en la unidad indicada a mg/dL (sin redondear)
+ */
+export function toMgdl(value: number, unit: GlucoseUnit): number {
+  return unit === 'mmol/L' ? value * MGDL_PER_MMOLL : value;
+}
+
+/**
+ * Convierte desde mg/dL y redondea con los decimales de la unidad
+ *
+ * @param mgdl - Valor en mg/dL
+ * @param unit - Unidad de destino
+ * @param compact - Usa la precisión reducida (umbrales, ejes)
+ * @returns Número listo para gráficos o exportación
+ */
+export function roundGlucose(mgdl: number, unit: GlucoseUnit, compact: boolean = false): number {
+  const factor = 10 ** DECIMALS[compact ? 'compact' : 'full'][unit];
+  return Math.round(fromMgdl(mgdl, unit) * factor) / factor;
+}
+
+/**
+ * Texto de un valor de glucosa en la unidad indicada
+ *
+ * @param mgdl - Valor en mg/dL
+ * @param unit - Unidad de presentación
+ * @param options.compact - Precisión reducida (ver DECIMALS)
+ * @param options.withUnit - Añade " mg/dL" o " mmol/L"
+ * @param options.locale - Etiqueta BCP 47 para el separador decimal (sin ella, "." fijo)
+ * @returns Ej: "152.3 mg/dL", "8,5 mmol/L"
+ */
+export function formatGlucose(
+  mgdl: number,
+  unit: GlucoseUnit,
+  { compact = false, withUnit = true, locale }: { compact?: boolean; withUnit?: boolean; locale?: string } = {}
+): string {
+  const decimals = DECIMALS[compact ? 'compact' : 'full'][unit];
+  const value = fromMgdl(mgdl, unit);
+  const text = locale
+    ? value.toLocaleString(locale, { minimumFractionDigits: decimals, maximumFractionDigits: decimals })
+    : value.toFixed(decimals);
+  return withUnit ? `${text} ${unit}` : text;
+}
+
+type Convert = (value: number) => number;
+
+function convertLimits<T extends ThresholdOverride>(limits: T, convert: Convert): T {
+  return Object.fromEntries(
+    Object.entries(limits).map(([key, value]) => [key, typeof value === 'number' ? convert(value) : value])
+  ) as T;
+}
+
+function convertContextOverrides(
+  overrides: ThresholdProfile['por_contexto'],
+  convert: Convert
+): ThresholdProfile['por_contexto'] {
+  return Object.fromEntries(
+    Object.entries(overrides).map(([context, override]) => [context, override && convertLimits(override, convert)])
+  );
+}
+
+function convertProfile(profile: ThresholdProfile, convert: Convert): ThresholdProfile {
+  return {
+    ...profile,
+    por_defecto: convertLimits<ThresholdLimits>(profile.por_defecto, convert),
+    por_contexto: convertContextOverrides(profile.por_contexto, convert),
+    por_paciente: Object.fromEntries(
+      Object.entries(profile.por_paciente).map(([patientId, patient]) => [patientId, {
+        ...patient,
+        por_defecto: patient.por_defecto && convertLimits(patient.por_defecto, convert),
+        por_contexto: patient.por_contexto && convertContextOverrides(patient.por_contexto, convert),
+      }])
+    ),
+  };
+}
+
+/**
+ * Normaliza un resumen a mg/dL según `metadata.unidad`
+ *
+ * @param data - Resumen validado
+ * @returns El mismo objeto si ya está en mg/dL; si no, una copia convertida
+ */
+export function normalizeToMgdl(data: GlucoseData): GlucoseData {
+  if (data.metadata.unidad === 'mg/dL') return data;
+
+  const unit = data.metadata.unidad;
+  const convert: Convert = value => toMgdl(value, unit);
+  return {
+    ...data,
+    metadata: {
+      ...data.metadata,
+      unidad: 'mg/dL',
+      umbral_hiperglucemia: convert(data.metadata.umbral_hiperglucemia),
+      umbral_hipoglucemia: convert(data.metadata.umbral_hipoglucemia),
+      umbral_hipoglucemia_grave: convert(data.metadata.umbral_hipoglucemia_grave),
+      perfil_umbrales: convertProfile(data.metadata.perfil_umbrales, convert),
+    },
+    promedios_por_comida: {
+      'Before sleep': convert(data.promedios_por_comida['Before sleep']),
+      'Fasting': convert(data.promedios_por_comida['Fasting']),
+      'Post-prandial': convert(data.promedios_por_comida['Post-prandial']),
+    },
+    alertas_hiperglucemia: data.alertas_hiperglucemia.map(alerta => ({ ...alerta, glucose_level: convert(alerta.glucose_level) })),
+    alertas_hipoglucemia: data.alertas_hipoglucemia.map(alerta => ({ ...alerta, glucose_level: convert(alerta.glucose_level) })),
+    ...(data.alertas_reglas && {
+      alertas_reglas: data.alertas_reglas.map(alerta => ({ ...alerta, glucose_level: convert(alerta.glucose_level) })),
+    }),
+    ...(data.alertas_previstas && {
+      alertas_previstas: data.alertas_previstas.map(alerta => ({
+        ...alerta,
+        glucose_level: convert(alerta.glucose_level),
+        prevision: {
+          ...alerta.prevision,
+          glucosa: convert(alerta.prevision.glucosa),
+          inferior: convert(alerta.prevision.inferior),
+          superior: convert(alerta.prevision.superior),
+        },
+      })),
+    }),
+    estadisticas: {
+      ...data.estadisticas,
+      glucosa_maxima: convert(data.estadisticas.glucosa_maxima),
+      glucosa_minima: convert(data.estadisticas.glucosa_minima),
+    },
+  };
+}
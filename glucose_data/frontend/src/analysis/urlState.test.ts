@@ -0,0 +1,67 @@
+// analysis/urlState.test.ts
+// Ida y vuelta del estado del dashboard por los parámetros de la URL
+
+import { describe, expect, it } from 'vitest';
+import type { AlertFilter } from '../components/types';
+import { EMPTY_FILTER } from './filters';
+import { toEpoch } from './time';
+import {
+  decodeDashboardState,
+  DEFAULT_ALERT_SORT,
+  DEFAULT_EPISODE_SORT,
+  encodeDashboardState,
+  hasDashboardParams,
+  type DashboardUrlState,
+} from './urlState';
+
+const STATE: DashboardUrlState = {
+  filter: {
+    ...EMPTY_FILTER,
+    patients: ['P001', 'P003'],
+    contexts: ['Fasting'],
+    kind: 'hipoglucemia',
+    severity: 'level2',
+    dateFrom: '2026-01-01',
+    timeFrom: '22:00',
+    timeTo: '06:00',
+    minGlucose: 0,
+    reviewStatus: 'new',
+  },
+  alertSort: { field: 'glucose_level', order: 'asc' },
+  episodeSort: { field: 'peak', order: 'desc' },
+  range: { start: toEpoch('2026-01-02 00:00:00'), end: toEpoch('2026-01-03 12:30:00') },
+};
+
+describe('encodeDashboardState / decodeDashboardState', () => {
+  it('recupera la misma vista', () => {
+    expect(decodeDashboardState(encodeDashboardState(STATE))).toEqual(STATE);
+  });
+
+  it('escribe solo los criterios activos', () => {
+    const params = encodeDashboardState({
+      filter: EMPTY_FILTER,
+      alertSort: DEFAULT_ALERT_SORT,
+      episodeSort: DEFAULT_EPISODE_SORT,
+      range: null,
+    });
+    expect(params.toString()).toBe('sort=timestamp&order=desc');
+  });
+
+  it('usa el filtro guardado si la URL no trae estado del dashboard', () => {
+    const saved: AlertFilter = { ...EMPTY_FILTER, patients: ['P002'] };
+    const params = new URLSearchParams('utm_source=mail');
+
+    expect(hasDashboardParams(params)).toBe(false);
+    expect(decodeDashboardState(params, saved).filter).toBe(saved);
+  });
+
+  it('ignora los valores que no reconoce', () => {
+    const state = decodeDashboardState(new URLSearchParams(
+      'patient=P001&patient=P001&context=Lunch&kind=otro&from=ayer&timeFrom=25:00&min=-5&sort=nombre&order=up&chartFrom=2026-01-03T00:00&chartTo=2026-01-02T00:00'
+    ));
+
+    expect(state.filter).toEqual({ ...EMPTY_FILTER, patients: ['P001'] });
+    expect(state.alertSort).toEqual(DEFAULT_ALERT_SORT);
+    expect(state.range).toBeNull();
+  });
+});
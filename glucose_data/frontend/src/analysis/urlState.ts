@@ -0,0 +1,199 @@
+// analysis/urlState.ts
+// Estado del dashboard en los parámetros de la URL: filtro, orden de las
+// tablas y zoom de la gráfica, para compartir una vista con un enlace
+
+import type { AlertFilter, AlertKind, AlertSortField, TimeRange } from '../components/types';
+import type { EpisodeSortField } from './episodes';
+import { ALERT_KINDS, HYPO_SEVERITIES, isMealContext, REVIEW_STATUSES, SEVERITIES } from './constants';
+import { EMPTY_FILTER } from './filters';
+import { fromEpoch, toEpoch } from './time';
+
+/**
+ * Columna y sentido de orden de una tabla
+ */
+export interface SortState<F extends string> {
+  field: F;
+  order: 'asc' | 'desc';
+}
+
+/**
+ * Vista del dashboard que se guarda en la URL
+ */
+export interface DashboardUrlState {
+  filter: AlertFilter;
+  alertSort: SortState<AlertSortField>;
+  episodeSort: SortState<EpisodeSortField>;
+  range: TimeRange | null; // Zoom de la gráfica de evolución
+}
+
+/**
+ * Orden inicial de las tablas: lo más reciente primero
+ */
+export const DEFAULT_ALERT_SORT: SortState<AlertSortField> = { field: 'timestamp', order: 'desc' };
+export const DEFAULT_EPISODE_SORT: SortState<EpisodeSortField> = { field: 'start', order: 'desc' };
+
+const ALERT_SORT_FIELDS: readonly AlertSortField[] = [
+  'timestamp', 'patient_id', 'glucose_level', 'meal_context', 'severidad', 'tipo',
+];
+const EPISODE_SORT_FIELDS: readonly EpisodeSortField[] = ['start', 'patient_id', 'durationMinutes', 'peak', 'area'];
+
+/**
+ * Parámetros de la URL por criterio
+ *
+ * Pacientes y contextos se repiten (`patient=P001&patient=P002`); las
+ * fechas son "YYYY-MM-DD", las horas "HH:MM", la glucosa en mg/dL y el
+ * zoom en hora local ("YYYY-MM-DDTHH:MM:SS") para que el enlace muestre las
+ * mismas lecturas en cualquier zona horaria.
+ */
+const PARAMS = {
+  patients: 'patient',
+  contexts: 'context',
+  kind: 'kind',
+  severity: 'severity',
+  dateFrom: 'from',
+  dateTo: 'to',
+  timeFrom: 'timeFrom',
+  timeTo: 'timeTo',
+  minGlucose: 'min',
+  maxGlucose: 'max',
+  reviewStatus: 'review',
+  alertSort: 'sort',
+  alertOrder: 'order',
+  episodeSort: 'episodeSort',
+  episodeOrder: 'episodeOrder',
+  rangeStart: 'chartFrom',
+  rangeEnd: 'chartTo',
+} as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const LOCAL_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/;
+
+function oneOf<T extends string>(value: string | null, allowed: readonly T[]): T | null {
+  return value !== null && (allowed as readonly string[]).includes(value) ? value as T : null;
+}
+
+function matching(value: string | null, pattern: RegExp): string | null {
+  return value !== null && pattern.test(value) ? value : null;
+}
+
+function parseNumber(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function parseLocalTime(value: string | null): number | null {
+  if (matching(value, LOCAL_TIME_PATTERN) === null) return null;
+  const epoch = toEpoch(value!.replace('T', ' '));
+  return Number.isFinite(epoch) ? epoch : null;
+}
+
+function parseSort<F extends string>(
+  params: URLSearchParams,
+  fieldParam: string,
+  orderParam: string,
+  fields: readonly F[],
+  fallback: SortState<F>
+): SortState<F> {
+  return {
+    field: oneOf(params.get(fieldParam), fields) ?? fallback.field,
+    order: oneOf(params.get(orderParam), ['asc', 'desc'] as const) ?? fallback.order,
+  };
+}
+
+/**
+ * Indica si la URL trae estado del dashboard
+ *
+ * Las URLs que escribe el dashboard llevan siempre el orden de la tabla de
+ * alertas, así que una URL sin parámetros solo llega desde fuera (un enlace
+ * a "/" o la primera visita) y usa el filtro guardado por defecto.
+ */
+export function hasDashboardParams(params: URLSearchParams): boolean {
+  return Object.values(PARAMS).some(name => params.has(name));
+}
+
+/**
+ * Lee la vista del dashboard de la URL
+ *
+ * Los valores que no se reconocen se ignoran (enlaces editados a mano o de
+ * otra versión).
+ *
+ * @param params - Parámetros de la URL
+ * @param fallbackFilter - Filtro si la URL no trae estado del dashboard
+ * @returns Vista completa
+ */
+export function decodeDashboardState(params: URLSearchParams, fallbackFilter: AlertFilter = EMPTY_FILTER): DashboardUrlState {
+  if (!hasDashboardParams(params)) {
+    return { filter: fallbackFilter, alertSort: DEFAULT_ALERT_SORT, episodeSort: DEFAULT_EPISODE_SORT, range: null };
+  }
+
+  const severity = params.get(PARAMS.severity);
+  const minGlucose = parseNumber(params.get(PARAMS.minGlucose));
+  const maxGlucose = parseNumber(params.get(PARAMS.maxGlucose));
+  const filter: AlertFilter = {
+    ...EMPTY_FILTER,
+    patients: [...new Set(params.getAll(PARAMS.patients).filter(patient => patient !== ''))],
+    contexts: [...new Set(params.getAll(PARAMS.contexts).filter(isMealContext))],
+    kind: oneOf<AlertKind>(params.get(PARAMS.kind), ALERT_KINDS),
+    severity: oneOf(severity, SEVERITIES) ?? oneOf(severity, HYPO_SEVERITIES),
+    dateFrom: matching(params.get(PARAMS.dateFrom), DATE_PATTERN),
+    dateTo: matching(params.get(PARAMS.dateTo), DATE_PATTERN),
+    timeFrom: matching(params.get(PARAMS.timeFrom), TIME_PATTERN),
+    timeTo: matching(params.get(PARAMS.timeTo), TIME_PATTERN),
+    minGlucose: minGlucose !== null && minGlucose >= 0 ? minGlucose : null,
+    maxGlucose: maxGlucose !== null && maxGlucose >= 0 ? maxGlucose : null,
+    reviewStatus: oneOf(params.get(PARAMS.reviewStatus), REVIEW_STATUSES),
+  };
+
+  const start = parseLocalTime(params.get(PARAMS.rangeStart));
+  const end = parseLocalTime(params.get(PARAMS.rangeEnd));
+
+  return {
+    filter,
+    alertSort: parseSort(params, PARAMS.alertSort, PARAMS.alertOrder, ALERT_SORT_FIELDS, DEFAULT_ALERT_SORT),
+    episodeSort: parseSort(params, PARAMS.episodeSort, PARAMS.episodeOrder, EPISODE_SORT_FIELDS, DEFAULT_EPISODE_SORT),
+    range: start !== null && end !== null && start < end ? { start, end } : null,
+  };
+}
+
+/**
+ * Escribe la vista del dashboard en parámetros de URL
+ *
+ * Solo se incluyen los criterios activos y el orden de los episodios si no
+ * es el inicial; el de las alertas va siempre (ver hasDashboardParams).
+ *
+ * @param state - Vista completa
+ * @returns Parámetros listos para la URL
+ */
+export function encodeDashboardState({ filter, alertSort, episodeSort, range }: DashboardUrlState): URLSearchParams {
+  const params = new URLSearchParams();
+  filter.patients.forEach(patient => params.append(PARAMS.patients, patient));
+  filter.contexts.forEach(context => params.append(PARAMS.contexts, context));
+  const single: [string, string | number | null][] = [
+    [PARAMS.kind, filter.kind],
+    [PARAMS.severity, filter.severity],
+    [PARAMS.dateFrom, filter.dateFrom],
+    [PARAMS.dateTo, filter.dateTo],
+    [PARAMS.timeFrom, filter.timeFrom],
+    [PARAMS.timeTo, filter.timeTo],
+    [PARAMS.minGlucose, filter.minGlucose],
+    [PARAMS.maxGlucose, filter.maxGlucose],
+    [PARAMS.reviewStatus, filter.reviewStatus],
+  ];
+  single.forEach(([name, value]) => {
+    if (value !== null) params.set(name, String(value));
+  });
+
+  params.set(PARAMS.alertSort, alertSort.field);
+  params.set(PARAMS.alertOrder, alertSort.order);
+  if (episodeSort.field !== DEFAULT_EPISODE_SORT.field || episodeSort.order !== DEFAULT_EPISODE_SORT.order) {
+    params.set(PARAMS.episodeSort, episodeSort.field);
+    params.set(PARAMS.episodeOrder, episodeSort.order);
+  }
+  if (range) {
+    params.set(PARAMS.rangeStart, fromEpoch(range.start).replace(' ', 'T'));
+    params.set(PARAMS.rangeEnd, fromEpoch(range.end).replace(' ', 'T'));
+  }
+  return params;
+}
@@ -0,0 +1,181 @@
+// analysis/validation.test.ts
+// Resúmenes anteriores (campos por defecto) y errores fatales de validateGlucoseData
+
+import { describe, expect, it } from 'vitest';
+import type { GlucoseReading } from '../components/types';
+import { analyzeReadings } from './summary';
+import { DEFAULT_PROFILE } from './thresholds';
+import { fromMgdl } from './units';
+import { validateGlucoseData, validateReading } from './validation';
+
+const READINGS: GlucoseReading[] = [
+  { timestamp: '2026-01-01 07:00:00', patient_id: 'P001', glucose_level: 95, meal_context: 'Fasting' },
+  { timestamp: '2026-01-01 13:30:00', patient_id: 'P001', glucose_level: 190, meal_context: 'Post-prandial' },
+  { timestamp: '2026-01-01 22:00:00', patient_id: 'P002', glucose_level: 60, meal_context: 'Before sleep' },
+];
+
+/**
+ * Resumen con el formato de las primeras versiones de summary.json:
+ * sin unidad, umbrales de hipoglucemia, perfil ni alertas de hipoglucemia
+ */
+function legacySummary() {
+  return {
+    metadata: {
+      fecha_generacion: '2026-02-08T19:11:58.427038',
+      umbral_hiperglucemia: 140,
+      total_alertas: 2,
+    },
+    promedios_por_comida: { 'Before sleep': 111.3, 'Fasting': 110.5, 'Post-prandial': 113.6 },
+    alertas_hiperglucemia: [
+      { timestamp: '2026-01-01 17:30:00', patient_id: 'P002', glucose_level: 146.04, meal_context: 'Post-prandial', severidad: 'Moderada' },
+      { timestamp: '2026-01-02 02:30:00', patient_id: 'P001', glucose_level: 191.5, meal_context: 'Before sleep', severidad: 'Alta' },
+    ],
+    estadisticas: { glucosa_maxima: 191.5, pacientes_afectados: 2 },
+  };
+}
+
+describe('validateGlucoseData', () => {
+  it('acepta un resumen actual sin avisos', () => {
+    const summary = analyzeReadings(READINGS, { fechaGeneracion: new Date('2026-01-02T00:00:00') });
+    const result = validateGlucoseData(JSON.parse(JSON.stringify(summary)));
+
+    expect(result.errors).toEqual([]);
+    expect(result.droppedAlerts).toBe(0);
+    expect(result.data?.alertas_hiperglucemia).toHaveLength(1);
+    expect(result.data?.alertas_hipoglucemia).toHaveLength(1);
+  });
+
+  describe('resúmenes anteriores', () => {
+    it('completa los campos ausentes con los valores por defecto', () => {
+      const { data } = validateGlucoseData(legacySummary());
+
+      expect(data).not.toBeNull();
+      expect(data!.metadata.unidad).toBe('mg/dL');
+      expect(data!.metadata.umbral_hipoglucemia).toBe(70);
+      expect(data!.metadata.umbral_hipoglucemia_grave).toBe(54);
+      expect(data!.metadata.total_alertas_hipoglucemia).toBe(0);
+      expect(data!.alertas_hipoglucemia).toEqual([]);
+      // Menor valor conocido: los promedios, ya que todas las alertas son altas
+      expect(data!.estadisticas.glucosa_minima).toBe(110.5);
+    });
+
+    it('construye el perfil de umbrales a partir de metadata', () => {
+      const { data } = validateGlucoseData(legacySummary());
+      expect(data!.metadata.perfil_umbrales).toEqual(DEFAULT_PROFILE);
+
+      const custom = legacySummary();
+      custom.metadata.umbral_hiperglucemia = 160;
+      const perfil = validateGlucoseData(custom).data!.metadata.perfil_umbrales;
+      expect(perfil.por_defecto).toMatchObject({ hiperglucemia: 160, hipoglucemia: 70, hipoglucemia_grave: 54 });
+    });
+
+    it('avisa de cada campo completado sin impedir la carga', () => {
+      const { data, errors, droppedAlerts } = validateGlucoseData(legacySummary());
+
+      expect(data).not.toBeNull();
+      expect(droppedAlerts).toBe(0);
+      expect(errors.map(issue => issue.path).sort()).toEqual([
+        'alertas_hipoglucemia',
+        'estadisticas.glucosa_minima',
+        'metadata.perfil_umbrales',
+        'metadata.total_alertas_hipoglucemia',
+        'metadata.umbral_hipoglucemia',
+        'metadata.umbral_hipoglucemia_grave',
+      ]);
+    });
+
+    it('cuenta las alertas de hipoglucemia presentes si falta el total', () => {
+      const summary = {
+        ...legacySummary(),
+        alertas_hipoglucemia: [
+          { timestamp: '2026-01-03 04:00:00', patient_id: 'P003', glucose_level: 52, meal_context: 'Before sleep', severidad: 'Nivel 2' },
+        ],
+      };
+      const { data } = validateGlucoseData(summary);
+
+      expect(data!.metadata.total_alertas_hipoglucemia).toBe(1);
+      expect(data!.estadisticas.glucosa_minima).toBe(52);
+    });
+
+    it('usa los umbrales por defecto en la unidad del resumen', () => {
+      const summary = legacySummary();
+      const metadata = { ...summary.metadata, unidad: 'mmol/L', umbral_hiperglucemia: 7.8 };
+      const { data } = validateGlucoseData({ ...summary, metadata });
+
+      expect(data!.metadata.umbral_hipoglucemia).toBe(fromMgdl(70, 'mmol/L'));
+      expect(data!.metadata.umbral_hipoglucemia_grave).toBe(fromMgdl(54, 'mmol/L'));
+      expect(data!.metadata.perfil_umbrales.por_defecto.hiperglucemia).toBeCloseTo(7.8, 1);
+    });
+
+    it('traduce las severidades antiguas', () => {
+      const { data } = validateGlucoseData(legacySummary());
+      expect(data!.alertas_hiperglucemia.map(alert => alert.severidad)).toEqual(['moderate', 'high']);
+    });
+  });
+
+  describe('errores fatales', () => {
+    it('rechaza una raíz que no es un objeto', () => {
+      const result = validateGlucoseData([]);
+      expect(result.data).toBeNull();
+      expect(result.errors).toEqual([{ path: '(raíz)', message: 'se esperaba un objeto, se recibió array' }]);
+    });
+
+    it('rechaza un resumen sin metadata', () => {
+      const summary: Partial<ReturnType<typeof legacySummary>> = legacySummary();
+      delete summary.metadata;
+      const result = validateGlucoseData(summary);
+
+      expect(result.data).toBeNull();
+      expect(result.errors).toContainEqual({ path: 'metadata', message: 'campo obligatorio ausente' });
+    });
+
+    it('rechaza promedios que no son números', () => {
+      const summary = legacySummary();
+      const result = validateGlucoseData({
+        ...summary,
+        promedios_por_comida: { ...summary.promedios_por_comida, 'Fasting': '110' },
+      });
+
+      expect(result.data).toBeNull();
+      expect(result.errors.map(issue => issue.path)).toContain('promedios_por_comida.Fasting');
+    });
+
+    it('rechaza alertas que no vienen en un array', () => {
+      const result = validateGlucoseData({ ...legacySummary(), alertas_hiperglucemia: {} });
+
+      expect(result.data).toBeNull();
+      expect(result.errors).toContainEqual({
+        path: 'alertas_hiperglucemia',
+        message: 'se esperaba un array, se recibió object',
+      });
+    });
+  });
+
+  it('descarta solo las alertas inválidas', () => {
+    const summary = legacySummary();
+    summary.alertas_hiperglucemia[1].glucose_level = Number.NaN;
+    const result = validateGlucoseData(summary);
+
+    expect(result.data!.alertas_hiperglucemia).toHaveLength(1);
+    expect(result.droppedAlerts).toBe(1);
+    expect(result.errors.map(issue => issue.path)).toContain('alertas_hiperglucemia[1].glucose_level');
+  });
+
+  it('descarta las alertas previstas del archivo', () => {
+    const result = validateGlucoseData({ ...legacySummary(), alertas_previstas: [{ timestamp: 7 }, null] });
+
+    expect(result.data).not.toBeNull();
+    expect(result.data).not.toHaveProperty('alertas_previstas');
+    expect(result.droppedAlerts).toBe(0);
+  });
+});
+
+describe('validateReading', () => {
+  it('acepta lecturas sin contexto', () => {
+    expect(validateReading({ ...READINGS[0], meal_context: null })).toEqual([]);
+  });
+
+  it('señala el contexto desconocido', () => {
+    expect(validateReading({ ...READINGS[0], meal_context: 'Lunch' }).map(issue => issue.path)).toEqual(['lectura.meal_context']);
+  });
+});
@@ -0,0 +1,483 @@
+// analysis/validation.ts
+// Validación en tiempo de ejecución de GlucoseData (summary.json)
+
+import type {
+  GlucoseData,
+  GlucoseMetadata,
+  PromediosPorComida,
+  AlertaHiperglucemia,
+  AlertaHipoglucemia,
+  AlertaRegla,
+  Estadisticas,
+  GlucoseReading,
+  GlucoseUnit,
+  MealContext,
+  PatientThresholds,
+  RuleRef,
+  ThresholdLimits,
+  ThresholdOverride,
+  ThresholdProfile,
+} from '../components/types';
+import {
+  MEAL_CONTEXTS,
+  SEVERITIES,
+  HYPO_SEVERITIES,
+  GLUCOSE_UNITS,
+  LEGACY_SEVERITIES,
+  RULE_ALERT_KINDS,
+  DEFAULT_UMBRAL_HIPOGLUCEMIA,
+  DEFAULT_UMBRAL_HIPOGLUCEMIA_GRAVE,
+} from './constants';
+import { fromMgdl, toMgdl } from './units';
+import { buildProfile } from './thresholds';
+
+/**
+ * Problema encontrado en un campo concreto del JSON
+ */
+export interface ValidationIssue {
+  path: string; // Ej: "alertas_hiperglucemia[17].glucose_level"
+  message: string;
+}
+
+/**
+ * Resultado de validar un resumen
+ *
+ * `data` es null cuando el error es irrecuperable (metadata, promedios o
+ * estadísticas inválidos). Las alertas inválidas se descartan una a una y
+ * se cuentan en `droppedAlerts`. Los campos que faltan en resúmenes
+ * anteriores se completan con valores por defecto y se avisan en `errors`
+ * sin impedir la carga.
+ */
+export interface ValidationResult {
+  data: GlucoseData | null;
+  errors: ValidationIssue[];
+  droppedAlerts: number;
+}
+
+/**
+ * Validador de un valor; añade a `issues` lo que encuentre
+ */
+type Check = ((value: unknown, path: string, issues: ValidationIssue[]) => void) & { optional?: boolean };
+
+/**
+ * Un validador por cada clave del tipo: si se añade un campo en types.ts
+ * sin validarlo aquí, el compilador lo señala.
+ */
+type Shape<T> = { [K in keyof T]-?: Check };
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value === 'string' ? `"${value}"` : typeof value;
+}
+
+const string: Check = (value, path, issues) => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    issues.push({ path, message: `se esperaba texto, se recibió ${describe(value)}` });
+  }
+};
+
+const number: Check = (value, path, issues) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({ path, message: `se esperaba un número, se recibió ${describe(value)}` });
+  }
+};
+
+const boolean: Check = (value, path, issues) => {
+  if (typeof value !== 'boolean') {
+    issues.push({ path, message: `se esperaba true o false, se recibió ${describe(value)}` });
+  }
+};
+
+const date: Check = (value, path, issues) => {
+  if (typeof value !== 'string' || Number.isNaN(new Date(value.replace(' ', 'T')).getTime())) {
+    issues.push({ path, message: `fecha inválida: ${describe(value)}` });
+  }
+};
+
+function oneOf(allowed: readonly string[]): Check {
+  return (value, path, issues) => {
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      issues.push({ path, message: `valor ${describe(value)} no permitido (${allowed.join(' | ')})` });
+    }
+  };
+}
+
+/**
+ * Campo que puede faltar; si está presente se valida con `check`
+ */
+function optional(check: Check): Check {
+  return Object.assign((value: unknown, path: string, issues: ValidationIssue[]) => check(value, path, issues), {
+    optional: true,
+  });
+}
+
+/**
+ * Campo que admite null (ej. contexto de lecturas importadas sin él)
+ */
+function nullable(check: Check): Check {
+  return (value, path, issues) => {
+    if (value !== null) check(value, path, issues);
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function object<T>(shape: Shape<T>, { partial = false }: { partial?: boolean } = {}): Check {
+  return (value, path, issues) => {
+    if (!isPlainObject(value)) {
+      issues.push({ path, message: `se esperaba un objeto, se recibió ${describe(value)}` });
+      return;
+    }
+    (Object.keys(shape) as (keyof T & string)[]).forEach(key => {
+      const fieldPath = path ? `${path}.${key}` : key;
+      if (!(key in value) || (partial && value[key] === undefined)) {
+        if (!partial && !shape[key].optional) issues.push({ path: fieldPath, message: 'campo obligatorio ausente' });
+        return;
+      }
+      shape[key](value[key], fieldPath, issues);
+    });
+  };
+}
+
+/**
+ * Objeto con claves libres (ej. IDs de paciente) y valores del mismo tipo
+ */
+function record(check: Check): Check {
+  return (value, path, issues) => {
+    if (!isPlainObject(value)) {
+      issues.push({ path, message: `se esperaba un objeto, se recibió ${describe(value)}` });
+      return;
+    }
+    Object.entries(value).forEach(([key, item]) => check(item, `${path}.${key}`, issues));
+  };
+}
+
+// ============================================================================
+// ESQUEMAS (espejo de types.ts)
+// ============================================================================
+
+const limitsShape: Shape<ThresholdLimits> = {
+  hiperglucemia: number,
+  severidad_alta: number,
+  hipoglucemia: number,
+  hipoglucemia_grave: number,
+};
+
+const overrideSchema = object<ThresholdOverride>(limitsShape, { partial: true });
+
+const contextOverridesSchema = object<Record<MealContext, ThresholdOverride>>({
+  'Before sleep': overrideSchema,
+  'Fasting': overrideSchema,
+  'Post-prandial': overrideSchema,
+}, { partial: true });
+
+const thresholdProfileSchema = object<ThresholdProfile>({
+  id: string,
+  nombre: string,
+  por_defecto: object<ThresholdLimits>(limitsShape),
+  por_contexto: contextOverridesSchema,
+  por_paciente: record(object<PatientThresholds>({
+    por_defecto: overrideSchema,
+    por_contexto: contextOverridesSchema,
+  }, { partial: true })),
+});
+
+const metadataSchema = object<GlucoseMetadata>({
+  fecha_generacion: date,
+  unidad: oneOf(GLUCOSE_UNITS),
+  umbral_hiperglucemia: number,
+  umbral_hipoglucemia: number,
+  umbral_hipoglucemia_grave: number,
+  perfil_umbrales: thresholdProfileSchema,
+  total_alertas: number,
+  total_alertas_hipoglucemia: number,
+});
+
+const promediosSchema = object<PromediosPorComida>({
+  'Before sleep': number,
+  'Fasting': number,
+  'Post-prandial': number,
+});
+
+const mealContext = nullable(oneOf(MEAL_CONTEXTS));
+
+const ruleRefSchema = object<RuleRef>({
+  id: string,
+  nombre: string,
+});
+
+const alertaSchema = object<AlertaHiperglucemia>({
+  timestamp: date,
+  patient_id: string,
+  glucose_level: number,
+  meal_context: mealContext,
+  severidad: oneOf(SEVERITIES),
+  regla: optional(ruleRefSchema),
+});
+
+const alertaHipoSchema = object<AlertaHipoglucemia>({
+  timestamp: date,
+  patient_id: string,
+  glucose_level: number,
+  meal_context: mealContext,
+  severidad: oneOf(HYPO_SEVERITIES),
+  regla: optional(ruleRefSchema),
+});
+
+const alertaReglaSchema = object<AlertaRegla>({
+  timestamp: date,
+  patient_id: string,
+  glucose_level: number,
+  meal_context: mealContext,
+  tipo: oneOf(RULE_ALERT_KINDS),
+  severidad: oneOf(SEVERITIES),
+  regla: ruleRefSchema,
+});
+
+const readingSchema = object<GlucoseReading>({
+  timestamp: date,
+  patient_id: string,
+  glucose_level: number,
+  meal_context: mealContext,
+  meal_context_guessed: optional(boolean),
+});
+
+const estadisticasSchema = object<Estadisticas>({
+  glucosa_maxima: number,
+  glucosa_minima: number,
+  pacientes_afectados: number,
+});
+
+/**
+ * Valida un perfil de umbrales (ej. importado desde un archivo)
+ *
+ * @param input - JSON desconocido
+ * @returns Lista de problemas; vacía si el perfil es válido
+ */
+export function validateThresholdProfile(input: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  thresholdProfileSchema(input, 'perfil', issues);
+  return issues;
+}
+
+/**
+ * Valida una lectura recibida del flujo en vivo
+ *
+ * @param input - JSON desconocido
+ * @returns Lista de problemas; vacía si la lectura es válida
+ */
+export function validateReading(input: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  readingSchema(input, 'lectura', issues);
+  return issues;
+}
+
+/**
+ * Traduce una severidad antigua ("Moderada", "Nivel 1"...) a su código
+ */
+function normalizeSeverity(alerta: unknown): unknown {
+  if (!isPlainObject(alerta) || typeof alerta.severidad !== 'string') return alerta;
+  return Object.hasOwn(LEGACY_SEVERITIES, alerta.severidad)
+    ? { ...alerta, severidad: LEGACY_SEVERITIES[alerta.severidad] }
+    : alerta;
+}
+
+/**
+ * Valida un array de alertas registro a registro
+ *
+ * @returns Alertas válidas, o null si el campo no es un array
+ */
+function validateAlertArray<T>(
+  value: unknown,
+  key: string,
+  schema: Check,
+  errors: ValidationIssue[]
+): { valid: T[]; dropped: number } | null {
+  if (!Array.isArray(value)) {
+    errors.push({ path: key, message: `se esperaba un array, se recibió ${describe(value)}` });
+    return null;
+  }
+
+  const valid: T[] = [];
+  let dropped = 0;
+
+  value.map(normalizeSeverity).forEach((alerta: unknown, i: number) => {
+    const issues: ValidationIssue[] = [];
+    schema(alerta, `${key}[${i}]`, issues);
+    if (issues.length > 0) {
+      errors.push(...issues);
+      dropped += 1;
+    } else {
+      valid.push(alerta as T);
+    }
+  });
+
+  return { valid, dropped };
+}
+
+/**
+ * Valores de glucosa de un array de alertas sin validar (los que sean números)
+ */
+function alertLevels(value: unknown): number[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(alerta => (isPlainObject(alerta) ? alerta.glucose_level : undefined))
+    .filter((level): level is number => typeof level === 'number' && Number.isFinite(level));
+}
+
+/**
+ * Perfil de umbrales de un resumen anterior a los perfiles, a partir de
+ * los umbrales sueltos de metadata (en la unidad del resumen)
+ *
+ * @returns null si algún umbral no es un número (lo señala la validación)
+ */
+function legacyProfile(metadata: Record<string, unknown>, unit: GlucoseUnit): ThresholdProfile | null {
+  const { umbral_hiperglucemia, umbral_hipoglucemia, umbral_hipoglucemia_grave } = metadata;
+  if (typeof umbral_hiperglucemia !== 'number' || typeof umbral_hipoglucemia !== 'number' || typeof umbral_hipoglucemia_grave !== 'number') {
+    return null;
+  }
+  const perfil = buildProfile({
+    hiperglucemia: toMgdl(umbral_hiperglucemia, unit),
+    hipoglucemia: toMgdl(umbral_hipoglucemia, unit),
+    hipoglucemia_grave: toMgdl(umbral_hipoglucemia_grave, unit),
+  });
+  if (unit === 'mg/dL') return perfil;
+  // normalizeToMgdl vuelve a convertir el perfil junto con el resto del resumen
+  const { hiperglucemia, severidad_alta, hipoglucemia, hipoglucemia_grave } = perfil.por_defecto;
+  return {
+    ...perfil,
+    por_defecto: {
+      hiperglucemia: fromMgdl(hiperglucemia, unit),
+      severidad_alta: fromMgdl(severidad_alta, unit),
+      hipoglucemia: fromMgdl(hipoglucemia, unit),
+      hipoglucemia_grave: fromMgdl(hipoglucemia_grave, unit),
+    },
+  };
+}
+
+/**
+ * Completa los campos que no existían en resúmenes anteriores
+ *
+ * Cada valor añadido se anota en `warnings` (salvo la unidad, que siempre
+ * fue mg/dL); el resto de la validación sigue igual.
+ *
+ * - `metadata.unidad`: mg/dL
+ * - `metadata.umbral_hipoglucemia` / `umbral_hipoglucemia_grave`: 70 / 54 mg/dL
+ * - `metadata.perfil_umbrales`: perfil sin sobrescrituras con los umbrales de metadata
+ * - `metadata.total_alertas_hipoglucemia`: alertas de hipoglucemia presentes (0 si no hay)
+ * - `alertas_hipoglucemia`: []
+ * - `estadisticas.glucosa_minima`: menor valor de las alertas y promedios
+ *   (cota superior: las lecturas sin alerta no están en el resumen)
+ *
+ * @param input - Raíz del JSON, ya comprobado que es un objeto
+ * @param warnings - Recibe un aviso por cada campo completado
+ * @returns Copia con los campos añadidos
+ */
+function applyLegacyDefaults(input: Record<string, unknown>, warnings: ValidationIssue[]): Record<string, unknown> {
+  const root = { ...input };
+  const fill = (target: Record<string, unknown>, key: string, path: string, value: number | []) => {
+    target[key] = value;
+    warnings.push({ path, message: `campo ausente (resumen anterior), se usa ${Array.isArray(value) ? '[]' : value}` });
+  };
+
+  if (root.alertas_hipoglucemia === undefined) fill(root, 'alertas_hipoglucemia', 'alertas_hipoglucemia', []);
+
+  if (isPlainObject(root.metadata)) {
+    const metadata = { ...root.metadata };
+    if (!('unidad' in metadata)) metadata.unidad = 'mg/dL';
+    const unit = metadata.unidad === 'mmol/L' ? 'mmol/L' : 'mg/dL';
+    if (!('umbral_hipoglucemia' in metadata)) {
+      fill(metadata, 'umbral_hipoglucemia', 'metadata.umbral_hipoglucemia', fromMgdl(DEFAULT_UMBRAL_HIPOGLUCEMIA, unit));
+    }
+    if (!('umbral_hipoglucemia_grave' in metadata)) {
+      fill(metadata, 'umbral_hipoglucemia_grave', 'metadata.umbral_hipoglucemia_grave', fromMgdl(DEFAULT_UMBRAL_HIPOGLUCEMIA_GRAVE, unit));
+    }
+    if (!('perfil_umbrales' in metadata)) {
+      const perfil = legacyProfile(metadata, unit);
+      if (perfil) {
+        metadata.perfil_umbrales = perfil;
+        warnings.push({
+          path: 'metadata.perfil_umbrales',
+          message: 'campo ausente (resumen anterior), se construye con los umbrales de metadata',
+        });
+      }
+    }
+    if (!('total_alertas_hipoglucemia' in metadata)) {
+      const hypoCount = Array.isArray(root.alertas_hipoglucemia) ? root.alertas_hipoglucemia.length : 0;
+      fill(metadata, 'total_alertas_hipoglucemia', 'metadata.total_alertas_hipoglucemia', hypoCount);
+    }
+    root.metadata = metadata;
+  }
+
+  if (isPlainObject(root.estadisticas) && !('glucosa_minima' in root.estadisticas)) {
+    const averages = isPlainObject(root.promedios_por_comida)
+      ? Object.values(root.promedios_por_comida).filter((value): value is number => typeof value === 'number' && value > 0)
+      : [];
+    const levels = [...alertLevels(root.alertas_hiperglucemia), ...alertLevels(root.alertas_hipoglucemia), ...averages];
+    if (levels.length > 0) {
+      const estadisticas = { ...root.estadisticas };
+      fill(estadisticas, 'glucosa_minima', 'estadisticas.glucosa_minima', Math.min(...levels));
+      root.estadisticas = estadisticas;
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Valida un JSON desconocido contra la estructura GlucoseData
+ *
+ * @param input - Resultado de response.json()
+ * @returns Datos utilizables (si los hay), errores por ruta y alertas descartadas
+ */
+export function validateGlucoseData(input: unknown): ValidationResult {
+  const errors: ValidationIssue[] = [];
+
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    errors.push({ path: '(raíz)', message: `se esperaba un objeto, se recibió ${describe(input)}` });
+    return { data: null, errors, droppedAlerts: 0 };
+  }
+
+  const legacy: ValidationIssue[] = [];
+  const root = applyLegacyDefaults(input as Record<string, unknown>, legacy);
+  object<Omit<GlucoseData, 'alertas_hiperglucemia' | 'alertas_hipoglucemia' | 'alertas_reglas' | 'alertas_previstas'>>({
+    metadata: metadataSchema,
+    promedios_por_comida: promediosSchema,
+    estadisticas: estadisticasSchema,
+  })(root, '', errors);
+
+  const fatal = errors.length > 0;
+  const hiper = validateAlertArray<AlertaHiperglucemia>(
+    root.alertas_hiperglucemia, 'alertas_hiperglucemia', alertaSchema, errors
+  );
+  const hipo = validateAlertArray<AlertaHipoglucemia>(
+    root.alertas_hipoglucemia, 'alertas_hipoglucemia', alertaHipoSchema, errors
+  );
+  // Las alertas de reglas son opcionales (resúmenes guardados desde el navegador)
+  const reglas = root.alertas_reglas === undefined
+    ? null
+    : validateAlertArray<AlertaRegla>(root.alertas_reglas, 'alertas_reglas', alertaReglaSchema, errors);
+  const droppedAlerts = (hiper?.dropped ?? 0) + (hipo?.dropped ?? 0) + (reglas?.dropped ?? 0);
+
+  if (fatal || !hiper || !hipo) {
+    return { data: null, errors: [...legacy, ...errors], droppedAlerts };
+  }
+
+  // Las alertas previstas no se validan ni se conservan: el worker las
+  // recalcula a partir de las lecturas
+  const data = { ...(root as unknown as GlucoseData) };
+  delete data.alertas_previstas;
+  return {
+    data: {
+      ...data,
+      alertas_hiperglucemia: hiper.valid,
+      alertas_hipoglucemia: hipo.valid,
+      ...(reglas && { alertas_reglas: reglas.valid }),
+    },
+    errors: [...legacy, ...errors],
+    droppedAlerts,
+  };
+}
@@ -0,0 +1,164 @@
+// AGPChart.tsx
+// Perfil Ambulatorio de Glucosa: bandas 5–95 y 25–75 con mediana
+import React from 'react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  type TooltipContentProps,
+} from 'recharts';
+import type { AGPBin } from '../analysis/agp';
+import type { GlucoseUnit } from './types';
+import { roundGlucose } from '../analysis/units';
+import { useI18n } from '../context/I18nContext';
+
+interface AGPChartProps {
+  bins: AGPBin[]; // Calculadas con computeAGP
+  readings: number; // Lecturas superpuestas
+  days: number; // Días distintos cubiertos
+  umbralHipo: number; // Límite inferior del rango objetivo (mg/dL)
+  umbralHiper: number; // Límite superior del rango objetivo (mg/dL)
+  unit: GlucoseUnit;
+  binMinutes?: number; // Minutos por franja con los que se calcularon
+}
+
+/**
+ * Franja con los percentiles ya convertidos a la unidad de presentación
+ */
+type DisplayBin = AGPBin & { unit: GlucoseUnit; raw: AGPBin };
+
+const AGPChart: React.FC<AGPChartProps> = ({ bins: agpBins, readings, days, umbralHipo, umbralHiper, unit, binMinutes = 60 }) => {
+  const { t, formatGlucose } = useI18n();
+  const bins: DisplayBin[] = React.useMemo(() => {
+    return agpBins.map(bin => ({
+      ...bin,
+      p5: roundGlucose(bin.p5, unit),
+      p25: roundGlucose(bin.p25, unit),
+      p50: roundGlucose(bin.p50, unit),
+      p75: roundGlucose(bin.p75, unit),
+      p95: roundGlucose(bin.p95, unit),
+      unit,
+      raw: bin,
+    }));
+  }, [agpBins, unit]);
+
+  if (bins.length === 0) {
+    return (
+      <p className="text-center text-gray-500 py-16">
+        {t('agp.notEnough')}
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <p className="text-sm text-gray-500 mb-4">
+        {t('agp.subtitle', { readings, days, minutes: binMinutes })}
+      </p>
+      <ResponsiveContainer width="100%" height={400}>
+        <ComposedChart data={bins} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis
+            dataKey="label"
+            stroke="#6b7280"
+            tick={{ fill: '#374151', fontSize: '12px' }}
+          />
+          <YAxis
+            domain={[roundGlucose(40, unit, true), 'auto']}
+            label={{
+              value: t('chart.glucoseAxis', { unit }),
+              angle: -90,
+              position: 'insideLeft',
+              style: { fontSize: '14px', fontWeight: 600, fill: '#374151' }
+            }}
+            stroke="#6b7280"
+            tick={{ fill: '#374151' }}
+          />
+          <Tooltip content={AGPTooltip} />
+          <Area
+            type="monotone"
+            dataKey={(bin: AGPBin) => [bin.p5, bin.p95]}
+            name={t('agp.band90')}
+            stroke="none"
+            fill="#c7d2fe"
+            fillOpacity={0.6}
+            isAnimationActive={false}
+          />
+          <Area
+            type="monotone"
+            dataKey={(bin: AGPBin) => [bin.p25, bin.p75]}
+            name={t('agp.band50')}
+            stroke="none"
+            fill="#818cf8"
+            fillOpacity={0.6}
+            isAnimationActive={false}
+          />
+          <Line
+            type="monotone"
+            dataKey="p50"
+            name={t('agp.median')}
+            stroke="#312e81"
+            strokeWidth={3}
+            dot={false}
+            isAnimationActive={false}
+          />
+          <ReferenceLine
+            y={roundGlucose(umbralHiper, unit, true)}
+            stroke="#ef4444"
+            strokeWidth={2}
+            strokeDasharray="5 5"
+            label={formatGlucose(umbralHiper, unit, { compact: true })}
+          />
+          <ReferenceLine
+            y={roundGlucose(umbralHipo, unit, true)}
+            stroke="#0ea5e9"
+            strokeWidth={2}
+            strokeDasharray="5 5"
+            label={formatGlucose(umbralHipo, unit, { compact: true })}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+      <div className="flex items-center justify-center gap-6 text-sm mt-2">
+        <div className="flex items-center gap-2">
+          <div className="w-4 h-4 rounded" style={{ backgroundColor: '#c7d2fe' }}></div>
+          <span className="text-gray-600">5–95%</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-4 h-4 rounded" style={{ backgroundColor: '#818cf8' }}></div>
+          <span className="text-gray-600">25–75%</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-4 h-1 rounded" style={{ backgroundColor: '#312e81' }}></div>
+          <span className="text-gray-600">{t('agp.median')}</span>
+        </div>
+      </div>
+    </>
+  );
+};
+
+// Tooltip con los cinco percentiles de la franja
+const AGPTooltip = ({ active, payload }: TooltipContentProps<number, string>) => {
+  const { t, formatGlucose } = useI18n();
+  if (active && payload && payload.length) {
+    const { raw: bin, unit } = payload[0].payload as DisplayBin;
+    const format = (value: number) => formatGlucose(value, unit, { compact: true, withUnit: false });
+    return (
+      <div className="bg-white border-2 border-indigo-600 rounded-lg shadow-xl p-4 text-sm">
+        <p className="font-bold text-gray-900 text-lg mb-1">{bin.label}</p>
+        <p className="text-indigo-900 font-bold mb-1">{t('agp.medianValue', { value: formatGlucose(bin.p50, unit, { compact: true }) })}</p>
+        <p className="text-gray-600">25–75%: {format(bin.p25)}–{format(bin.p75)} {unit}</p>
+        <p className="text-gray-600">5–95%: {format(bin.p5)}–{format(bin.p95)} {unit}</p>
+        <p className="text-xs text-gray-500 mt-1">{t('agp.readings', { count: bin.count })}</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+export default AGPChart;
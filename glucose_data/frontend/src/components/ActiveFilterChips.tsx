@@ -0,0 +1,119 @@
+// ActiveFilterChips.tsx
+// Barra con un chip por cada criterio activo del filtro del dashboard
+import React from 'react';
+import { X } from 'lucide-react';
+import { useI18n } from '../context/I18nContext';
+import { EMPTY_FILTER, isFilterActive } from '../analysis/filters';
+import { HYPO_SEVERITIES } from '../analysis/constants';
+import { getContextIcon } from './dashboardHelpers';
+import type { AlertFilter, GlucoseUnit, HypoSeverity } from './types';
+
+interface ActiveFilterChipsProps {
+  filter: AlertFilter;
+  onChange: (filter: AlertFilter) => void;
+  unit: GlucoseUnit;
+}
+
+interface Chip {
+  key: string;
+  label: string;
+  remove: Partial<AlertFilter>; // Cambios que quitan este criterio
+}
+
+const ActiveFilterChips: React.FC<ActiveFilterChipsProps> = ({ filter, onChange, unit }) => {
+  const { t, formatDateTime, formatGlucose } = useI18n();
+
+  if (!isFilterActive(filter)) return null;
+
+  const formatDate = (date: string) => formatDateTime(`${date} 00:00:00`, { dateStyle: 'medium' });
+  const glucose = (mgdl: number) => formatGlucose(mgdl, unit, { compact: true });
+
+  const chips: Chip[] = [
+    ...filter.patients.map(patient => ({
+      key: `patient-${patient}`,
+      label: patient,
+      remove: { patients: filter.patients.filter(item => item !== patient) },
+    })),
+    ...filter.contexts.map(context => ({
+      key: `context-${context}`,
+      label: `${getContextIcon(context)} ${t(`context.${context}`)}`,
+      remove: { contexts: filter.contexts.filter(item => item !== context) },
+    })),
+  ];
+
+  if (filter.kind) {
+    chips.push({ key: 'kind', label: t(`kind.${filter.kind}`), remove: { kind: null } });
+  }
+  if (filter.severity) {
+    const label = t(`severity.${filter.severity}`);
+    chips.push({
+      key: 'severity',
+      label: HYPO_SEVERITIES.includes(filter.severity as HypoSeverity) ? t('severity.hypoPrefix', { severity: label }) : label,
+      remove: { severity: null },
+    });
+  }
+  if (filter.reviewStatus) {
+    chips.push({
+      key: 'review',
+      label: t('filters.chip.review', { status: t(`review.status.${filter.reviewStatus}`) }),
+      remove: { reviewStatus: null },
+    });
+  }
+  if (filter.dateFrom || filter.dateTo) {
+    chips.push({
+      key: 'date',
+      label: t('filters.chip.date', {
+        from: filter.dateFrom ? formatDate(filter.dateFrom) : '…',
+        to: filter.dateTo ? formatDate(filter.dateTo) : '…',
+      }),
+      remove: { dateFrom: null, dateTo: null },
+    });
+  }
+  if (filter.timeFrom || filter.timeTo) {
+    chips.push({
+      key: 'time',
+      label: t('filters.chip.time', { from: filter.timeFrom ?? '00:00', to: filter.timeTo ?? '24:00' }),
+      remove: { timeFrom: null, timeTo: null },
+    });
+  }
+  if (filter.minGlucose !== null || filter.maxGlucose !== null) {
+    chips.push({
+      key: 'glucose',
+      label: t('filters.chip.glucose', {
+        from: filter.minGlucose !== null ? glucose(filter.minGlucose) : '…',
+        to: filter.maxGlucose !== null ? glucose(filter.maxGlucose) : '…',
+      }),
+      remove: { minGlucose: null, maxGlucose: null },
+    });
+  }
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap mb-8">
+      <span className="text-sm font-semibold text-gray-700">{t('filters.active')}</span>
+      {chips.map(chip => (
+        <span
+          key={chip.key}
+          className="inline-flex items-center gap-1 bg-indigo-100 text-indigo-800 pl-3 pr-1 py-1 rounded-full text-sm font-medium"
+        >
+          {chip.label}
+          <button
+            onClick={() => onChange({ ...filter, ...chip.remove })}
+            className="p-0.5 rounded-full hover:bg-indigo-200"
+            aria-label={t('filters.remove', { label: chip.label })}
+            title={t('filters.remove', { label: chip.label })}
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </span>
+      ))}
+      <button
+        onClick={() => onChange(EMPTY_FILTER)}
+        className="text-indigo-600 hover:text-indigo-800 font-medium text-sm hover:underline ml-2"
+      >
+        {t('filters.clear')}
+      </button>
+    </div>
+  );
+};
+
+export default ActiveFilterChips;
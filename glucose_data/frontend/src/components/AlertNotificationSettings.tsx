@@ -0,0 +1,310 @@
+// AlertNotificationSettings.tsx
+// Ajustes: notificaciones del navegador de alertas nuevas (/settings/notifications)
+import React from 'react';
+import { Link } from 'react-router';
+import { ArrowLeft, Bell, BellOff, Moon, Send, Settings, Trash2, Zap } from 'lucide-react';
+import { useGlucoseDataContext } from '../context/GlucoseDataContext';
+import { useI18n } from '../context/I18nContext';
+import { useAllAlerts, usePatientList, SUMMARY_REFRESH_MS } from '../hooks/useGlucoseData';
+import { HYPO_SEVERITIES, MEAL_CONTEXTS, SEVERITIES } from '../analysis/constants';
+import { MUTE_DURATIONS_HOURS } from '../analysis/notifications';
+import { getContextIcon } from './dashboardHelpers';
+import ToggleChip from './ToggleChip';
+import UnitToggle from './UnitToggle';
+import LanguageSwitcher from './LanguageSwitcher';
+import type { NotificationSettings, PatientId } from './types';
+
+type PermissionState = NotificationPermission | 'unsupported';
+
+const inputClass =
+  'mt-1 w-full px-3 py-2 border-2 border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+function currentPermission(): PermissionState {
+  return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+}
+
+/**
+ * Añade o quita un valor de una lista de selección múltiple
+ */
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+}
+
+const AlertNotificationSettings: React.FC = () => {
+  const { data, readings, notificationSettings: settings, setNotificationSettings } = useGlucoseDataContext();
+  const { t, formatDateTime } = useI18n();
+  const alerts = useAllAlerts(data);
+  const patients = usePatientList(readings.length > 0 ? readings : alerts);
+  const [permission, setPermission] = React.useState<PermissionState>(currentPermission);
+  const [now] = React.useState(Date.now);
+  const [mutePatient, setMutePatient] = React.useState<PatientId>('');
+  const [muteHours, setMuteHours] = React.useState<number>(MUTE_DURATIONS_HOURS[0]);
+
+  const update = (changes: Partial<NotificationSettings>) => setNotificationSettings({ ...settings, ...changes });
+  const active = settings.enabled && permission === 'granted';
+  const mutes = settings.mutes.filter(mute => new Date(mute.until).getTime() > now);
+
+  const enable = async () => {
+    const result = permission === 'granted' ? permission : await Notification.requestPermission();
+    setPermission(result);
+    if (result === 'granted') update({ enabled: true });
+  };
+
+  const sendTest = () => {
+    new Notification(t('notifications.testTitle'), { body: t('notifications.testBody'), tag: 'glucose-alerts-test' });
+  };
+
+  const addMute = () => {
+    const patient = mutePatient || patients[0];
+    if (!patient) return;
+    const until = new Date(Date.now() + muteHours * 60 * 60 * 1000).toISOString();
+    update({
+      mutes: [
+        ...settings.mutes.filter(mute => mute.patient_id !== patient && new Date(mute.until).getTime() > Date.now()),
+        { patient_id: patient, until },
+      ],
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      {/* ========== HEADER ========== */}
+      <header className="bg-white shadow-md border-b-4 border-indigo-600 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center gap-4 mb-3">
+            <Link
+              to="/"
+              className="inline-flex items-center gap-2 text-indigo-600 hover:text-indigo-800 font-medium text-sm"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              {t('app.backToCohort')}
+            </Link>
+            <Link
+              to="/settings"
+              className="inline-flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium text-sm"
+            >
+              <Settings className="w-4 h-4" />
+              {t('settings.title')}
+            </Link>
+            <Link
+              to="/settings/rules"
+              className="inline-flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium text-sm"
+            >
+              <Zap className="w-4 h-4" />
+              {t('rules.link')}
+            </Link>
+          </div>
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <div className="flex items-center gap-4">
+              <div className="bg-indigo-600 p-3 rounded-xl shadow-lg">
+                <Bell className="w-8 h-8 text-white" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">{t('notifications.title')}</h1>
+                <p className="text-sm text-gray-600 mt-1">
+                  {t('notifications.subtitle', { seconds: SUMMARY_REFRESH_MS / 1000 })}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <LanguageSwitcher />
+              <UnitToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* ========== ACTIVACIÓN ========== */}
+        <section className="bg-white rounded-xl shadow-lg p-6">
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+                {active ? <Bell className="w-5 h-5 text-green-600" /> : <BellOff className="w-5 h-5 text-gray-400" />}
+                {active ? t('notifications.active') : t('notifications.inactive')}
+              </h2>
+              <p className="text-sm text-gray-600 mt-1">{t(`notifications.permission.${permission}`)}</p>
+            </div>
+            <div className="flex gap-2 flex-wrap">
+              {active ? (
+                <>
+                  <button
+                    onClick={sendTest}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-indigo-700 bg-white border-2 border-indigo-200 rounded-lg hover:bg-indigo-50"
+                  >
+                    <Send className="w-4 h-4" />
+                    {t('notifications.test')}
+                  </button>
+                  <button
+                    onClick={() => update({ enabled: false })}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+                  >
+                    <BellOff className="w-4 h-4" />
+                    {t('notifications.disable')}
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={enable}
+                  disabled={permission === 'unsupported' || permission === 'denied'}
+                  className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  <Bell className="w-4 h-4" />
+                  {t('notifications.enable')}
+                </button>
+              )}
+            </div>
+          </div>
+        </section>
+
+        {/* ========== CRITERIOS ========== */}
+        <section className="bg-white rounded-xl shadow-lg p-6">
+          <h2 className="text-xl font-bold text-gray-900 mb-1">{t('notifications.criteria')}</h2>
+          <p className="text-sm text-gray-600 mb-4">{t('notifications.criteriaHint')}</p>
+
+          <p className="text-xs font-semibold text-gray-600 mb-2">{t('table.severity')}</p>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {[...SEVERITIES, ...HYPO_SEVERITIES].map(severity => (
+              <ToggleChip
+                key={severity}
+                active={settings.severities.includes(severity)}
+                onClick={() => update({ severities: toggle(settings.severities, severity) })}
+              >
+                {severity.startsWith('level')
+                  ? t('severity.hypoPrefix', { severity: t(`severity.${severity}`) })
+                  : t(`severity.${severity}`)}
+              </ToggleChip>
+            ))}
+            {settings.severities.length === 0 && (
+              <span className="text-xs text-amber-700 self-center">{t('notifications.noSeverities')}</span>
+            )}
+          </div>
+
+          <p className="text-xs font-semibold text-gray-600 mb-2">{t('rules.contexts')}</p>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {MEAL_CONTEXTS.map(context => (
+              <ToggleChip
+                key={context}
+                active={settings.contexts.includes(context)}
+                onClick={() => update({ contexts: toggle(settings.contexts, context) })}
+              >
+                {getContextIcon(context)} {t(`context.${context}`)}
+              </ToggleChip>
+            ))}
+            {settings.contexts.length === 0 && (
+              <span className="text-xs text-gray-500 self-center">{t('rules.allContexts')}</span>
+            )}
+          </div>
+
+          <p className="text-xs font-semibold text-gray-600 mb-2">{t('notifications.patients')}</p>
+          <div className="flex flex-wrap gap-2">
+            {patients.map(patient => (
+              <ToggleChip
+                key={patient}
+                active={settings.patients.includes(patient)}
+                onClick={() => update({ patients: toggle(settings.patients, patient) })}
+              >
+                {patient}
+              </ToggleChip>
+            ))}
+            {settings.patients.length === 0 && (
+              <span className="text-xs text-gray-500 self-center">{t('notifications.allPatients')}</span>
+            )}
+          </div>
+        </section>
+
+        {/* ========== HORAS DE SILENCIO ========== */}
+        <section className="bg-white rounded-xl shadow-lg p-6">
+          <label className="flex items-center gap-2 text-xl font-bold text-gray-900 mb-1">
+            <input
+              type="checkbox"
+              checked={settings.quietHours.enabled}
+              onChange={(e) => update({ quietHours: { ...settings.quietHours, enabled: e.target.checked } })}
+            />
+            <Moon className="w-5 h-5 text-indigo-600" />
+            {t('notifications.quietHours')}
+          </label>
+          <p className="text-sm text-gray-600 mb-4">{t('notifications.quietHoursHint')}</p>
+          <div className="grid grid-cols-2 gap-3 max-w-sm">
+            <label className="text-xs font-semibold text-gray-600">
+              {t('notifications.quietFrom')}
+              <input
+                type="time"
+                value={settings.quietHours.start}
+                disabled={!settings.quietHours.enabled}
+                onChange={(e) => e.target.value && update({ quietHours: { ...settings.quietHours, start: e.target.value } })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs font-semibold text-gray-600">
+              {t('notifications.quietTo')}
+              <input
+                type="time"
+                value={settings.quietHours.end}
+                disabled={!settings.quietHours.enabled}
+                onChange={(e) => e.target.value && update({ quietHours: { ...settings.quietHours, end: e.target.value } })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+        </section>
+
+        {/* ========== SILENCIOS POR PACIENTE ========== */}
+        <section className="bg-white rounded-xl shadow-lg p-6">
+          <h2 className="text-xl font-bold text-gray-900 mb-1">{t('notifications.mutes')}</h2>
+          <p className="text-sm text-gray-600 mb-4">{t('notifications.mutesHint')}</p>
+          <div className="flex items-end gap-3 flex-wrap mb-4">
+            <label className="text-xs font-semibold text-gray-600 min-w-40">
+              {t('quality.patient')}
+              <select value={mutePatient || patients[0] || ''} onChange={(e) => setMutePatient(e.target.value)} className={inputClass}>
+                {patients.map(patient => (
+                  <option key={patient} value={patient}>{patient}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs font-semibold text-gray-600 min-w-32">
+              {t('notifications.muteFor')}
+              <select value={muteHours} onChange={(e) => setMuteHours(Number(e.target.value))} className={inputClass}>
+                {MUTE_DURATIONS_HOURS.map(hours => (
+                  <option key={hours} value={hours}>{t('notifications.hours', { count: hours })}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={addMute}
+              disabled={patients.length === 0}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+            >
+              <BellOff className="w-4 h-4" />
+              {t('notifications.mute')}
+            </button>
+          </div>
+          {mutes.length === 0 ? (
+            <p className="text-sm text-gray-500">{t('notifications.noMutes')}</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {mutes.map(mute => (
+                <li key={mute.patient_id} className="flex items-center justify-between py-2 text-sm">
+                  <span>
+                    <span className="font-semibold text-gray-900">{mute.patient_id}</span>
+                    <span className="text-gray-600"> · {t('notifications.mutedUntil', { date: formatDateTime(mute.until) })}</span>
+                  </span>
+                  <button
+                    onClick={() => update({ mutes: settings.mutes.filter(item => item.patient_id !== mute.patient_id) })}
+                    aria-label={t('notifications.unmute')}
+                    title={t('notifications.unmute')}
+                    className="p-2 rounded-lg text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default AlertNotificationSettings;
@@ -0,0 +1,100 @@
+// AlertReviewForm.tsx
+// Formulario de revisión clínica de una alerta (estado, revisor y notas)
+import React from 'react';
+import type { AlertReview, ReviewStatus } from './types';
+import { REVIEW_STATUSES } from '../analysis/constants';
+import { useI18n } from '../context/I18nContext';
+import { useLocalStorage } from '../hooks/useGlucoseData';
+import { getReviewBadge } from './dashboardHelpers';
+
+interface AlertReviewFormProps {
+  alertKey: string;
+  review?: AlertReview; // Revisión guardada, si la hay
+  onSave: (review: AlertReview) => void;
+  onCancel: () => void;
+}
+
+const AlertReviewForm: React.FC<AlertReviewFormProps> = ({ alertKey, review, onSave, onCancel }) => {
+  const { t, formatDateTime } = useI18n();
+  // El último nombre usado se propone en la siguiente revisión
+  const [lastReviewer, setLastReviewer] = useLocalStorage<string>('reviewer_name', '');
+  const [status, setStatus] = React.useState<ReviewStatus>(
+    review?.status && review.status !== 'new' ? review.status : 'acknowledged'
+  );
+  const [reviewer, setReviewer] = React.useState(review?.reviewer || lastReviewer);
+  const [notes, setNotes] = React.useState(review?.notes ?? '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = reviewer.trim();
+    setLastReviewer(name);
+    onSave({ alertKey, status, reviewer: name, reviewedAt: new Date().toISOString(), notes: notes.trim() });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={t('review.status')}>
+        {REVIEW_STATUSES.map(option => (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={status === option}
+            onClick={() => setStatus(option)}
+            className={`px-3 py-1 rounded-full text-xs font-bold border-2 transition-colors ${getReviewBadge(option)} ${
+              status === option ? 'border-indigo-600' : 'border-transparent opacity-70 hover:opacity-100'
+            }`}
+          >
+            {t(`review.status.${option}`)}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="text-xs font-semibold text-gray-600">
+          {t('review.reviewer')}
+          <input
+            type="text"
+            required
+            value={reviewer}
+            onChange={(e) => setReviewer(e.target.value)}
+            className="mt-1 w-full px-3 py-2 border-2 border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </label>
+        <label className="md:col-span-2 text-xs font-semibold text-gray-600">
+          {t('review.notes')}
+          <textarea
+            rows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="mt-1 w-full px-3 py-2 border-2 border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </label>
+      </div>
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <span className="text-xs text-gray-500">
+          {review && t('review.last', {
+            reviewer: review.reviewer,
+            date: formatDateTime(review.reviewedAt, { dateStyle: 'medium', timeStyle: 'short' }),
+          })}
+        </span>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+          >
+            {t('review.cancel')}
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700"
+          >
+            {t('review.save')}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default AlertReviewForm;
@@ -0,0 +1,366 @@
+// AlertRulesSettings.tsx
+// Ajustes: editor de reglas de alerta declarativas (/settings/rules)
+import React from 'react';
+import { Link } from 'react-router';
+import { ArrowDown, ArrowLeft, ArrowUp, Plus, RotateCcw, Trash2, Zap } from 'lucide-react';
+import { useGlucoseDataContext } from '../context/GlucoseDataContext';
+import { useI18n } from '../context/I18nContext';
+import { useAllAlerts } from '../hooks/useGlucoseData';
+import { HYPO_SEVERITIES, MEAL_CONTEXTS, RULE_TARGET_KINDS, SEVERITIES } from '../analysis/constants';
+import { DEFAULT_RULES, defaultCondition } from '../analysis/rules';
+import { fromMgdl, toMgdl } from '../analysis/units';
+import { getContextIcon } from './dashboardHelpers';
+import UnitToggle from './UnitToggle';
+import LanguageSwitcher from './LanguageSwitcher';
+import type { AlertRule, GlucoseUnit, RuleCondition } from './types';
+
+const CONDITION_TYPES: RuleCondition['type'][] = ['above', 'below', 'sustained', 'riseRate'];
+
+const inputClass =
+  'mt-1 w-full px-3 py-2 border-2 border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+interface NumberFieldProps {
+  label: string;
+  value: number; // mg/dL si `unit` está presente
+  unit?: GlucoseUnit; // Campo de glucosa: se muestra en la unidad de presentación
+  step?: number;
+  onCommit: (value: number) => void;
+}
+
+/**
+ * Campo numérico que se confirma al salir o pulsar Enter (igual que en
+ * ThresholdSettings); los valores no positivos se descartan
+ */
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, unit, step = 1, onCommit }) => {
+  const [draft, setDraft] = React.useState<string | null>(null);
+  const shown = draft ?? String(unit ? Math.round(fromMgdl(value, unit) * 10) / 10 : value);
+
+  return (
+    <label className="text-xs font-semibold text-gray-600">
+      {label}
+      <input
+        type="number"
+        min={0}
+        step={unit === 'mmol/L' ? 0.1 : step}
+        value={shown}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => {
+          const parsed = Number(draft);
+          if (draft !== null && draft.trim() !== '' && Number.isFinite(parsed) && parsed > 0) {
+            onCommit(unit ? Math.round(toMgdl(parsed, unit) * 10) / 10 : parsed);
+          }
+          setDraft(null);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur();
+        }}
+        className={inputClass}
+      />
+    </label>
+  );
+};
+
+/**
+ * Campos de la condición según su tipo
+ */
+const ConditionFields: React.FC<{
+  condition: RuleCondition;
+  unit: GlucoseUnit;
+  onChange: (condition: RuleCondition) => void;
+}> = ({ condition, unit, onChange }) => {
+  const { t } = useI18n();
+
+  switch (condition.type) {
+    case 'above':
+    case 'below':
+      return (
+        <NumberField
+          label={t('rules.field.value', { unit })}
+          value={condition.value}
+          unit={unit}
+          onCommit={(value) => onChange({ ...condition, value })}
+        />
+      );
+    case 'sustained':
+      return (
+        <div className="grid grid-cols-3 gap-3">
+          <NumberField
+            label={t('rules.field.count')}
+            value={condition.count}
+            onCommit={(count) => onChange({ ...condition, count: Math.max(1, Math.round(count)) })}
+          />
+          <NumberField
+            label={t('rules.field.value', { unit })}
+            value={condition.value}
+            unit={unit}
+            onCommit={(value) => onChange({ ...condition, value })}
+          />
+          <NumberField
+            label={t('rules.field.hours')}
+            value={condition.hours}
+            step={0.5}
+            onCommit={(hours) => onChange({ ...condition, hours })}
+          />
+        </div>
+      );
+    case 'riseRate':
+      return (
+        <NumberField
+          label={t('rules.field.rate', { unit })}
+          value={condition.rate}
+          unit={unit}
+          onCommit={(rate) => onChange({ ...condition, rate })}
+        />
+      );
+  }
+};
+
+const AlertRulesSettings: React.FC = () => {
+  const { data, rules, setRules, unit } = useGlucoseDataContext();
+  const { t } = useI18n();
+  const alerts = useAllAlerts(data);
+
+  // Alertas que ha generado o clasificado cada regla con los datos actuales
+  const firedCounts = React.useMemo(() => {
+    const counts = new Map<string, number>();
+    alerts.forEach(alert => {
+      if (alert.regla) counts.set(alert.regla.id, (counts.get(alert.regla.id) ?? 0) + 1);
+    });
+    return counts;
+  }, [alerts]);
+
+  const updateRule = (rule: AlertRule) => setRules(rules.map(item => (item.id === rule.id ? rule : item)));
+
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setRules(next);
+  };
+
+  const addRule = () => {
+    setRules([
+      ...rules,
+      {
+        id: `regla-${Date.now()}`,
+        nombre: t('rules.newName'),
+        enabled: true,
+        condition: defaultCondition('above'),
+        contexts: [],
+        kind: 'hiperglucemia',
+        severity: 'high',
+      },
+    ]);
+  };
+
+  const changeKind = (rule: AlertRule, kind: AlertRule['kind']) => {
+    const grave = rule.severity === 'high' || rule.severity === 'level2';
+    const severity = kind === 'hipoglucemia' ? (grave ? 'level2' : 'level1') : grave ? 'high' : 'moderate';
+    updateRule({ ...rule, kind, severity });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      {/* ========== HEADER ========== */}
+      <header className="bg-white shadow-md border-b-4 border-indigo-600 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center gap-4 mb-3">
+            <Link
+              to="/"
+              className="inline-flex items-center gap-2 text-indigo-600 hover:text-indigo-800 font-medium text-sm"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              {t('app.backToCohort')}
+            </Link>
+            <Link to="/settings" className="text-indigo-600 hover:text-indigo-800 font-medium text-sm">
+              {t('settings.title')}
+            </Link>
+            <Link to="/settings/notifications" className="text-indigo-600 hover:text-indigo-800 font-medium text-sm">
+              {t('notifications.link')}
+            </Link>
+          </div>
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <div className="flex items-center gap-4">
+              <div className="bg-indigo-600 p-3 rounded-xl shadow-lg">
+                <Zap className="w-8 h-8 text-white" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">{t('rules.title')}</h1>
+                <p className="text-sm text-gray-600 mt-1">{t('rules.subtitle')}</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <LanguageSwitcher />
+              <UnitToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center justify-between flex-wrap gap-3 mb-6">
+          <p className="text-sm text-gray-600 max-w-2xl">{t('rules.priorityHint')}</p>
+          <div className="flex gap-2">
+            <button
+              onClick={addRule}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700"
+            >
+              <Plus className="w-4 h-4" />
+              {t('rules.add')}
+            </button>
+            <button
+              onClick={() => setRules([...DEFAULT_RULES])}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+            >
+              <RotateCcw className="w-4 h-4" />
+              {t('rules.reset')}
+            </button>
+          </div>
+        </div>
+
+        {rules.length === 0 && (
+          <p className="bg-white rounded-xl shadow-lg p-6 text-center text-gray-500">{t('rules.empty')}</p>
+        )}
+
+        <ol className="space-y-4">
+          {rules.map((rule, index) => (
+            <li
+              key={rule.id}
+              className={`bg-white rounded-xl shadow-lg p-6 border-2 ${rule.enabled ? 'border-indigo-200' : 'border-transparent opacity-75'}`}
+            >
+              <div className="flex items-end gap-3 flex-wrap mb-4">
+                <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 pb-2">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => updateRule({ ...rule, enabled: e.target.checked })}
+                  />
+                  {t('rules.enabled')}
+                </label>
+                <label className="flex-1 min-w-48 text-xs font-semibold text-gray-600">
+                  {t('settings.name')}
+                  <input
+                    type="text"
+                    value={rule.nombre}
+                    onChange={(e) => updateRule({ ...rule, nombre: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <span className="pb-2 text-xs font-semibold text-indigo-700 bg-indigo-50 px-3 py-1 rounded-full">
+                  {t('rules.fired', { count: rule.enabled ? firedCounts.get(rule.id) ?? 0 : 0 })}
+                </span>
+                <div className="flex gap-1 pb-1">
+                  <button
+                    onClick={() => moveRule(index, -1)}
+                    disabled={index === 0}
+                    aria-label={t('rules.moveUp')}
+                    title={t('rules.moveUp')}
+                    className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-30"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveRule(index, 1)}
+                    disabled={index === rules.length - 1}
+                    aria-label={t('rules.moveDown')}
+                    title={t('rules.moveDown')}
+                    className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-30"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setRules(rules.filter(item => item.id !== rule.id))}
+                    aria-label={t('settings.delete')}
+                    title={t('settings.delete')}
+                    className="p-2 rounded-lg text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                <div className="space-y-3">
+                  <label className="block text-xs font-semibold text-gray-600">
+                    {t('rules.condition')}
+                    <select
+                      value={rule.condition.type}
+                      onChange={(e) => updateRule({
+                        ...rule,
+                        condition: defaultCondition(e.target.value as RuleCondition['type']),
+                      })}
+                      className={inputClass}
+                    >
+                      {CONDITION_TYPES.map(type => (
+                        <option key={type} value={type}>{t(`rules.conditionType.${type}`)}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <ConditionFields
+                    condition={rule.condition}
+                    unit={unit}
+                    onChange={(condition) => updateRule({ ...rule, condition })}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-3 h-fit">
+                  <label className="text-xs font-semibold text-gray-600">
+                    {t('rules.kind')}
+                    <select
+                      value={rule.kind}
+                      onChange={(e) => changeKind(rule, e.target.value as AlertRule['kind'])}
+                      className={inputClass}
+                    >
+                      {RULE_TARGET_KINDS.map(kind => (
+                        <option key={kind} value={kind}>{t(`kind.${kind}`)}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="text-xs font-semibold text-gray-600">
+                    {t('table.severity')}
+                    <select
+                      value={rule.severity}
+                      onChange={(e) => updateRule({ ...rule, severity: e.target.value as AlertRule['severity'] })}
+                      className={inputClass}
+                    >
+                      {(rule.kind === 'hipoglucemia' ? HYPO_SEVERITIES : SEVERITIES).map(severity => (
+                        <option key={severity} value={severity}>{t(`severity.${severity}`)}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+              </div>
+
+              <p className="text-xs font-semibold text-gray-600 mb-2">{t('rules.contexts')}</p>
+              <div className="flex flex-wrap gap-2">
+                {MEAL_CONTEXTS.map(context => {
+                  const active = rule.contexts.includes(context);
+                  return (
+                    <button
+                      key={context}
+                      type="button"
+                      aria-pressed={active}
+                      onClick={() => updateRule({
+                        ...rule,
+                        contexts: active ? rule.contexts.filter(item => item !== context) : [...rule.contexts, context],
+                      })}
+                      className={`px-3 py-1 rounded-full text-sm font-medium border-2 transition-colors ${
+                        active ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 border-gray-200 hover:border-indigo-300'
+                      }`}
+                    >
+                      {getContextIcon(context)} {t(`context.${context}`)}
+                    </button>
+                  );
+                })}
+                {rule.contexts.length === 0 && (
+                  <span className="text-xs text-gray-500 self-center">{t('rules.allContexts')}</span>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      </main>
+    </div>
+  );
+};
+
+export default AlertRulesSettings;
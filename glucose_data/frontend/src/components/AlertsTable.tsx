@@ -0,0 +1,245 @@
+// AlertsTable.tsx
+// Tabla ordenable de alertas de glucosa (hiper, hipo, reglas y previstas)
+import React from 'react';
+import { Link } from 'react-router';
+import { Heart, Clock, Droplet, MessageSquare, TrendingUp, Zap } from 'lucide-react';
+import type { AlertaGlucosa, AlertReview, AlertSortField, GlucoseUnit, ThresholdProfile } from './types';
+import { alertKey, distanceFromTarget, readingKey } from '../analysis/alerts';
+import { resolveThresholds } from '../analysis/thresholds';
+import { useI18n } from '../context/I18nContext';
+import AlertReviewForm from './AlertReviewForm';
+import {
+  getContextIcon,
+  getContextLabel,
+  getReviewBadge,
+  getRowColor,
+  getSeverityBadge,
+  getSeverityLabel,
+  formatDistance
+} from './dashboardHelpers';
+
+export type SortOrder = 'asc' | 'desc';
+
+interface AlertsTableProps {
+  alerts: AlertaGlucosa[]; // Ya ordenadas
+  sortField: AlertSortField;
+  sortOrder: SortOrder;
+  onSort: (field: AlertSortField) => void;
+  perfil: ThresholdProfile; // Para la distancia al rango de cada alerta
+  unit: GlucoseUnit;
+  newAlertKeys?: ReadonlySet<string>; // Alertas recibidas en vivo sin ver
+  emptyMessage?: string;
+  onRowClick?: (alert: AlertaGlucosa) => void; // Si se pasa, las filas son seleccionables
+  selectedKey?: string | null; // alertKey de la fila seleccionada
+  reviews?: ReadonlyMap<string, AlertReview>; // Revisiones por alertKey
+  onReview?: (review: AlertReview) => void; // Si se pasa, se muestra la columna de revisión
+}
+
+const AlertsTable: React.FC<AlertsTableProps> = ({
+  alerts,
+  sortField,
+  sortOrder,
+  onSort,
+  perfil,
+  unit,
+  newAlertKeys,
+  emptyMessage,
+  onRowClick,
+  selectedKey = null,
+  reviews,
+  onReview
+}) => {
+  const i18n = useI18n();
+  const { t, formatDateTime, formatGlucose } = i18n;
+  // Alerta cuya revisión se está editando (alertKey)
+  const [reviewingKey, setReviewingKey] = React.useState<string | null>(null);
+  const columns = onReview ? 7 : 6;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead className="bg-gray-50 border-b-2 border-gray-200">
+          <tr>
+            <th 
+              className="px-6 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider cursor-pointer hover:bg-gray-100 transition-colors"
+              onClick={() => onSort('timestamp')}
+            >
+              <div className="flex items-center gap-2">
+                <Clock className="w-4 h-4" />
+                {t('table.datetime')} {sortField === 'timestamp' && (sortOrder === 'asc' ? '↑' : '↓')}
+              </div>
+            </th>
+            <th 
+              className="px-6 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider cursor-pointer hover:bg-gray-100 transition-colors"
+              onClick={() => onSort('patient_id')}
+            >
+              {t('table.patient')} {sortField === 'patient_id' && (sortOrder === 'asc' ? '↑' : '↓')}
+            </th>
+            <th 
+              className="px-6 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider cursor-pointer hover:bg-gray-100 transition-colors"
+              onClick={() => onSort('glucose_level')}
+            >
+              <div className="flex items-center gap-2">
+                <Droplet className="w-4 h-4" />
+                {t('table.glucose')} {sortField === 'glucose_level' && (sortOrder === 'asc' ? '↑' : '↓')}
+              </div>
+            </th>
+            <th className="px-6 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">
+              {t('table.context')}
+            </th>
+            <th className="px-6 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">
+              {t('table.severity')}
+            </th>
+            <th className="px-6 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">
+              {t('table.rule')}
+            </th>
+            {onReview && (
+              <th className="px-6 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">
+                {t('table.review')}
+              </th>
+            )}
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {alerts.map((alert) => {
+            const key = alertKey(alert);
+            const review = reviews?.get(key);
+            return (
+              <React.Fragment key={key}>
+                <tr 
+                  onClick={onRowClick && (() => onRowClick(alert))}
+                  aria-selected={onRowClick ? selectedKey === key : undefined}
+                  className={`hover:bg-indigo-50 transition-colors ${getRowColor(alert)} ${onRowClick ? 'cursor-pointer' : ''} ${
+                    selectedKey === key ? 'ring-2 ring-inset ring-indigo-500' : ''
+                  }`}
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatDateTime(alert.timestamp, {
+                      year: 'numeric',
+                      month: 'short',
+                      day: 'numeric',
+                      hour: '2-digit',
+                      minute: '2-digit'
+                    })}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <Link
+                      to={`/patients/${encodeURIComponent(alert.patient_id)}`}
+                      onClick={(e) => e.stopPropagation()}
+                      className="inline-flex items-center px-3 py-1 rounded-full text-xs font-bold bg-blue-100 text-blue-800 hover:bg-blue-200 transition-colors"
+                    >
+                      {alert.patient_id}
+                    </Link>
+                    {newAlertKeys?.has(readingKey(alert)) && (
+                      <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-bold bg-red-600 text-white">
+                        {t('table.new')}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div>
+                      <span
+                        className={`text-xl font-bold ${
+                          alert.tipo === 'hipoglucemia' ? 'text-sky-600' : alert.tipo === 'hiperglucemia_prevista' ? 'text-gray-700' : 'text-red-600'
+                        }`}
+                      >
+                        {formatGlucose(alert.glucose_level, unit, { withUnit: false })}
+                      </span>
+                      <span className="text-sm text-gray-500 ml-1">{unit}</span>
+                    </div>
+                    {alert.tipo === 'hiperglucemia_prevista' ? (
+                      <div className="text-xs text-red-600 font-semibold mt-1">
+                        {t('forecast.predicted', {
+                          value: formatGlucose(alert.prevision.glucosa, unit),
+                          horizon: alert.prevision.horizonte_min,
+                          low: formatGlucose(alert.prevision.inferior, unit, { withUnit: false }),
+                          high: formatGlucose(alert.prevision.superior, unit, { withUnit: false }),
+                        })}
+                      </div>
+                    ) : (
+                      <div className="text-xs text-gray-500 mt-1">
+                        {formatDistance(distanceFromTarget(alert.glucose_level, resolveThresholds(perfil, alert.patient_id, alert.meal_context)), unit, i18n)}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    <div className="flex items-center gap-2">
+                      <span>{getContextIcon(alert.meal_context)}</span>
+                      <span>{getContextLabel(alert.meal_context, t)}</span>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-bold ${getSeverityBadge(alert)}`}>
+                      {getSeverityLabel(alert, t)}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-xs">
+                    {alert.regla ? (
+                      <span className="inline-flex items-center gap-1 text-indigo-700 font-semibold" title={alert.regla.id}>
+                        <Zap className="w-3.5 h-3.5" />
+                        {alert.regla.nombre}
+                      </span>
+                    ) : alert.tipo === 'hiperglucemia_prevista' ? (
+                      <span className="inline-flex items-center gap-1 text-orange-700 font-semibold">
+                        <TrendingUp className="w-3.5 h-3.5" />
+                        {t('forecast.rule', { horizon: alert.prevision.horizonte_min })}
+                      </span>
+                    ) : (
+                      <span className="text-gray-500">{t('table.ruleProfile', { name: perfil.nombre })}</span>
+                    )}
+                  </td>
+                  {onReview && (
+                    <td className="px-6 py-4 whitespace-nowrap text-xs">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setReviewingKey(reviewingKey === key ? null : key);
+                        }}
+                        aria-expanded={reviewingKey === key}
+                        title={review?.notes || t('review.edit')}
+                        className={`inline-flex items-center gap-1 px-3 py-1 rounded-full font-bold hover:ring-2 hover:ring-indigo-300 ${getReviewBadge(review?.status ?? 'new')}`}
+                      >
+                        {t(`review.status.${review?.status ?? 'new'}`)}
+                        {review?.notes && <MessageSquare className="w-3 h-3" />}
+                      </button>
+                      {review && review.status !== 'new' && (
+                        <div className="text-gray-500 mt-1">
+                          {review.reviewer} · {formatDateTime(review.reviewedAt, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                        </div>
+                      )}
+                    </td>
+                  )}
+                </tr>
+                {onReview && reviewingKey === key && (
+                  <tr className="bg-indigo-50">
+                    <td colSpan={columns} className="px-6 py-4">
+                      <AlertReviewForm
+                        alertKey={key}
+                        review={review}
+                        onSave={(saved) => {
+                          onReview(saved);
+                          setReviewingKey(null);
+                        }}
+                        onCancel={() => setReviewingKey(null)}
+                      />
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {alerts.length === 0 && (
+        <div className="text-center py-16 bg-green-50">
+          <Heart className="w-20 h-20 text-green-500 mx-auto mb-4 animate-pulse" />
+          <p className="text-2xl font-bold text-gray-900 mb-2">{t('table.emptyTitle')}</p>
+          <p className="text-gray-600">{emptyMessage ?? t('table.empty')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertsTable;
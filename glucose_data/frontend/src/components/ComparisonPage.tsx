@@ -0,0 +1,464 @@
+// ComparisonPage.tsx
+// Modo comparación (/compare): dos grupos de pacientes y fechas lado a lado
+import React from 'react';
+import { Link } from 'react-router';
+import { ArrowLeft, ArrowLeftRight, GitCompare, Users } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { useComparison } from '../hooks/useGlucoseData';
+import { useGlucoseDataContext } from '../context/GlucoseDataContext';
+import { useI18n, type I18nState } from '../context/I18nContext';
+import { compareValues, periodOverPeriod, type CohortSummary } from '../analysis/comparison';
+import { MEAL_CONTEXTS } from '../analysis/constants';
+import { roundGlucose } from '../analysis/units';
+import type { ComparisonCohort, GlucoseUnit, PatientId } from './types';
+import { formatSigned, getContextIcon, getTrendIcon } from './dashboardHelpers';
+import TimeInRangeBar from './TimeInRangeBar';
+import ToggleChip from './ToggleChip';
+import LiveIndicator from './LiveIndicator';
+import UnitToggle from './UnitToggle';
+import LanguageSwitcher from './LanguageSwitcher';
+
+type Cohorts = [ComparisonCohort, ComparisonCohort];
+
+// Colores de cada grupo en tarjetas y gráficos
+const COHORT_NAMES = ['A', 'B'] as const;
+const COHORT_COLORS = ['#4f46e5', '#f59e0b'] as const;
+const COHORT_BORDERS = ['border-indigo-300', 'border-amber-300'] as const;
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-600 focus:border-transparent transition-all';
+
+/**
+ * Fila de la tabla de estadísticas: cómo leer el valor, formatearlo y
+ * qué diferencia se considera igual
+ */
+interface StatRow {
+  key: 'readings' | 'mean' | 'gmi' | 'cv' | 'tir' | 'tar' | 'tbr' | 'hyperPerDay' | 'hypoPerDay';
+  value: (summary: CohortSummary) => number | null;
+  format: (value: number) => string;
+  formatDelta: (delta: number) => string;
+  tolerance: number;
+  better: 'increasing' | 'decreasing' | null; // null: sin flecha (ej. número de lecturas)
+}
+
+/**
+ * Editor de un grupo: pacientes y rango de fechas
+ */
+const CohortEditor: React.FC<{
+  index: 0 | 1;
+  cohort: ComparisonCohort;
+  summary: CohortSummary | null;
+  patients: PatientId[];
+  onChange: (cohort: ComparisonCohort) => void;
+}> = ({ index, cohort, summary, patients, onChange }) => {
+  const { t } = useI18n();
+  const toggle = (patient: PatientId) => onChange({
+    ...cohort,
+    patients: cohort.patients.includes(patient)
+      ? cohort.patients.filter(item => item !== patient)
+      : [...cohort.patients, patient],
+  });
+
+  return (
+    <div className={`bg-white rounded-xl shadow-lg p-6 border-t-4 ${COHORT_BORDERS[index]}`}>
+      <div className="flex items-center justify-between mb-4 flex-wrap gap-2">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+          <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: COHORT_COLORS[index] }}></span>
+          {t('compare.cohort', { name: COHORT_NAMES[index] })}
+        </h2>
+        {summary && (
+          <span className="text-sm text-gray-500">
+            {t('compare.patients', { count: summary.patients.length })} · {t('compare.days', { count: summary.days })}
+          </span>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-2 mb-2">
+        {patients.map(patient => (
+          <ToggleChip key={patient} active={cohort.patients.includes(patient)} onClick={() => toggle(patient)}>
+            {patient}
+          </ToggleChip>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mb-4">{t('compare.patientsHint')}</p>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t('compare.from')}</label>
+          <input
+            type="date"
+            value={cohort.dateFrom ?? ''}
+            max={cohort.dateTo ?? undefined}
+            onChange={(e) => onChange({ ...cohort, dateFrom: e.target.value || null })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t('compare.to')}</label>
+          <input
+            type="date"
+            value={cohort.dateTo ?? ''}
+            min={cohort.dateFrom ?? undefined}
+            onChange={(e) => onChange({ ...cohort, dateTo: e.target.value || null })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Filas de la tabla de estadísticas
+ *
+ * Las alertas se comparan por día con datos para que periodos de distinta
+ * duración sean comparables.
+ */
+function buildRows(
+  unit: GlucoseUnit,
+  { t, formatNumber, formatGlucose }: Pick<I18nState, 't' | 'formatNumber' | 'formatGlucose'>
+): StatRow[] {
+  const percent = (value: number) => `${formatNumber(value)}%`;
+  const points = (delta: number) => t('compare.points', { value: formatSigned(delta, formatNumber) });
+  const perDay = (count: (summary: CohortSummary) => number) => (summary: CohortSummary) =>
+    summary.days > 0 ? count(summary) / summary.days : null;
+
+  return [
+    {
+      key: 'readings',
+      value: summary => summary.metrics?.readings ?? null,
+      format: value => formatNumber(value, 0),
+      formatDelta: delta => formatSigned(delta, value => formatNumber(value, 0)),
+      tolerance: 0,
+      better: null,
+    },
+    {
+      key: 'mean',
+      value: summary => summary.metrics?.meanGlucose ?? null,
+      format: value => formatGlucose(value, unit),
+      formatDelta: delta => formatSigned(delta, value => formatGlucose(value, unit)),
+      tolerance: 5,
+      better: 'decreasing',
+    },
+    {
+      key: 'gmi',
+      value: summary => summary.metrics?.gmi ?? null,
+      format: percent,
+      formatDelta: points,
+      tolerance: 0.1,
+      better: 'decreasing',
+    },
+    {
+      key: 'cv',
+      value: summary => summary.metrics?.cv ?? null,
+      format: percent,
+      formatDelta: points,
+      tolerance: 1,
+      better: 'decreasing',
+    },
+    {
+      key: 'tir',
+      value: summary => summary.metrics?.tir ?? null,
+      format: percent,
+      formatDelta: points,
+      tolerance: 1,
+      better: 'increasing',
+    },
+    {
+      key: 'tar',
+      value: summary => (summary.metrics ? summary.metrics.tarHigh + summary.metrics.tarVeryHigh : null),
+      format: percent,
+      formatDelta: points,
+      tolerance: 1,
+      better: 'decreasing',
+    },
+    {
+      key: 'tbr',
+      value: summary => (summary.metrics ? summary.metrics.tbrLow + summary.metrics.tbrVeryLow : null),
+      format: percent,
+      formatDelta: points,
+      tolerance: 1,
+      better: 'decreasing',
+    },
+    {
+      key: 'hyperPerDay',
+      value: perDay(summary => summary.hyperCount),
+      format: value => formatNumber(value),
+      formatDelta: delta => formatSigned(delta, value => formatNumber(value)),
+      tolerance: 0.1,
+      better: 'decreasing',
+    },
+    {
+      key: 'hypoPerDay',
+      value: perDay(summary => summary.hypoCount),
+      format: value => formatNumber(value),
+      formatDelta: delta => formatSigned(delta, value => formatNumber(value)),
+      tolerance: 0.1,
+      better: 'decreasing',
+    },
+  ];
+}
+
+const ComparisonPage: React.FC = () => {
+  const { data, readings, unit, analyzing } = useGlucoseDataContext();
+  const { t, formatNumber, formatGlucose } = useI18n();
+
+  // null hasta que se edita: el worker propone la última semana contra la anterior
+  const [selected, setSelected] = React.useState<Cohorts | null>(null);
+  const { comparison, pending, error } = useComparison(readings, data, selected);
+  const cohorts = selected ?? comparison?.selection ?? null;
+  const summaries = comparison?.cohorts ?? null;
+
+  const rows = React.useMemo(
+    () => buildRows(unit, { t, formatNumber, formatGlucose }),
+    [unit, formatNumber, formatGlucose, t]
+  );
+
+  const contextData = React.useMemo(() => {
+    if (!summaries) return [];
+    return MEAL_CONTEXTS.map(context => {
+      const value = (summary: CohortSummary) =>
+        summary.contextAverages[context] > 0 ? roundGlucose(summary.contextAverages[context], unit) : null;
+      return { name: t(`context.${context}`), context, a: value(summaries[0]), b: value(summaries[1]) };
+    });
+  }, [summaries, unit, t]);
+
+  if (!data) return null;
+
+  const updateCohort = (index: 0 | 1, cohort: ComparisonCohort) => {
+    if (!cohorts) return;
+    setSelected(index === 0 ? [cohort, cohorts[1]] : [cohorts[0], cohort]);
+  };
+  const applyPeriod = (days: number) => {
+    if (!comparison?.lastDate || !cohorts) return;
+    setSelected(periodOverPeriod(comparison.lastDate, days, cohorts[0].patients));
+  };
+  const applyPatients = () => {
+    if (!comparison || !cohorts) return;
+    const [first, second = first] = comparison.patients;
+    const { dateFrom, dateTo } = cohorts[1];
+    setSelected([{ patients: [first], dateFrom, dateTo }, { patients: [second], dateFrom, dateTo }]);
+  };
+
+  const presetClass =
+    'flex items-center gap-2 bg-white text-indigo-700 border-2 border-indigo-200 px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-50 transition-colors disabled:opacity-40';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      {/* ========== HEADER ========== */}
+      <header className="bg-white shadow-md border-b-4 border-indigo-600 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <Link
+            to="/"
+            className="inline-flex items-center gap-2 text-indigo-600 hover:text-indigo-800 font-medium text-sm mb-3"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            {t('app.backToCohort')}
+          </Link>
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <div className="flex items-center gap-4">
+              <div className="bg-indigo-600 p-3 rounded-xl shadow-lg">
+                <GitCompare className="w-8 h-8 text-white" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">{t('compare.title')}</h1>
+                <p className="text-sm text-gray-600 mt-1">{t('compare.subtitle')}</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3 flex-wrap">
+              {(pending || analyzing) && (
+                <span className="text-xs font-medium text-indigo-600 animate-pulse" role="status">
+                  {t('app.updating')}
+                </span>
+              )}
+              <LiveIndicator />
+              <LanguageSwitcher />
+              <UnitToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="mb-8 bg-red-50 border-2 border-red-200 rounded-xl p-4 text-sm text-red-800" role="alert">
+            {error}
+          </div>
+        )}
+
+        {!comparison || !cohorts || !summaries ? (
+          <p className="text-center text-gray-500 py-16">{t('app.loading')}</p>
+        ) : (
+          <>
+            {/* ========== ATAJOS ========== */}
+            <div className="flex items-center gap-3 flex-wrap mb-6">
+              <span className="text-sm font-medium text-gray-700">{t('compare.presets')}</span>
+              <button type="button" onClick={() => applyPeriod(7)} disabled={!comparison.lastDate} className={presetClass}>
+                {t('compare.preset.week')}
+              </button>
+              <button type="button" onClick={() => applyPeriod(30)} disabled={!comparison.lastDate} className={presetClass}>
+                {t('compare.preset.month')}
+              </button>
+              <button type="button" onClick={applyPatients} disabled={comparison.patients.length === 0} className={presetClass}>
+                <Users className="w-4 h-4" />
+                {t('compare.preset.patients')}
+              </button>
+              <button type="button" onClick={() => setSelected([cohorts[1], cohorts[0]])} className={presetClass}>
+                <ArrowLeftRight className="w-4 h-4" />
+                {t('compare.swap')}
+              </button>
+            </div>
+
+            {/* ========== GRUPOS ========== */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+              {([0, 1] as const).map(index => (
+                <CohortEditor
+                  key={index}
+                  index={index}
+                  cohort={cohorts[index]}
+                  summary={summaries[index]}
+                  patients={comparison.patients}
+                  onChange={cohort => updateCohort(index, cohort)}
+                />
+              ))}
+            </div>
+
+            {/* ========== ESTADÍSTICAS ========== */}
+            <div className="bg-white rounded-xl shadow-lg overflow-hidden mb-8">
+              <div className="p-6 border-b border-gray-200">
+                <h2 className="text-2xl font-bold text-gray-900">{t('compare.stats')}</h2>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b-2 border-gray-200">
+                    <tr>
+                      <th className="px-6 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">
+                        {t('compare.metric')}
+                      </th>
+                      {COHORT_NAMES.map(name => (
+                        <th key={name} className="px-6 py-4 text-right text-xs font-bold text-gray-600 uppercase tracking-wider">
+                          {t('compare.cohort', { name })}
+                        </th>
+                      ))}
+                      <th className="px-6 py-4 text-right text-xs font-bold text-gray-600 uppercase tracking-wider">
+                        {t('compare.delta')}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {rows.map(row => {
+                      const a = row.value(summaries[0]);
+                      const b = row.value(summaries[1]);
+                      return (
+                        <tr key={row.key} className="hover:bg-indigo-50 transition-colors">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                            {t(`compare.row.${row.key}`)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                            {a === null ? '—' : row.format(a)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                            {b === null ? '—' : row.format(b)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-semibold text-gray-900">
+                            {a === null || b === null ? '—' : (
+                              <span className="inline-flex items-center gap-2">
+                                {row.better && getTrendIcon(compareValues(a, b, row.tolerance), row.better)}
+                                {row.formatDelta(b - a)}
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* ========== PROMEDIOS POR CONTEXTO ========== */}
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <h2 className="text-2xl font-bold text-gray-900 mb-6">{t('compare.contexts')}</h2>
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart data={contextData} margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                    <XAxis dataKey="name" stroke="#6b7280" tick={{ fill: '#374151', fontSize: '13px' }} />
+                    <YAxis
+                      label={{
+                        value: t('chart.glucoseAxis', { unit }),
+                        angle: -90,
+                        position: 'insideLeft',
+                        style: { fontSize: '13px', fontWeight: 600, fill: '#374151' }
+                      }}
+                      stroke="#6b7280"
+                      tick={{ fill: '#374151' }}
+                    />
+                    <Tooltip formatter={(value) => `${value} ${unit}`} />
+                    <Legend />
+                    <Bar dataKey="a" name={t('compare.cohort', { name: 'A' })} fill={COHORT_COLORS[0]} radius={[6, 6, 0, 0]} />
+                    <Bar dataKey="b" name={t('compare.cohort', { name: 'B' })} fill={COHORT_COLORS[1]} radius={[6, 6, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+                <ul className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-2 text-sm">
+                  {contextData.map(({ name, context, a, b }) => (
+                    <li key={context} className="flex items-center justify-between gap-2 bg-gray-50 rounded-lg px-3 py-2">
+                      <span>{getContextIcon(context)} {name}</span>
+                      {a === null || b === null ? (
+                        <span className="text-gray-400">—</span>
+                      ) : (
+                        <span className="flex items-center gap-1 font-semibold text-gray-900">
+                          {getTrendIcon(
+                            compareValues(summaries[0].contextAverages[context], summaries[1].contextAverages[context], 5)
+                          )}
+                          {formatSigned(
+                            summaries[1].contextAverages[context] - summaries[0].contextAverages[context],
+                            value => formatGlucose(value, unit, { withUnit: false })
+                          )}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {/* ========== TIEMPO EN RANGO ========== */}
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <h2 className="text-2xl font-bold text-gray-900 mb-1">{t('compare.tir')}</h2>
+                <p className="text-xs text-gray-500 mb-6">{t('compare.tirHint')}</p>
+                <div className="space-y-6">
+                  {([0, 1] as const).map(index => (
+                    <div key={index}>
+                      <p className="text-sm font-semibold text-gray-700 mb-2 flex items-center gap-2">
+                        <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: COHORT_COLORS[index] }}></span>
+                        {t('compare.cohort', { name: COHORT_NAMES[index] })}
+                      </p>
+                      {summaries[index].metrics ? (
+                        <TimeInRangeBar
+                          metrics={summaries[index].metrics}
+                          unit={unit}
+                          compareTo={index === 1 ? summaries[0].metrics : null}
+                        />
+                      ) : (
+                        <p className="text-sm text-gray-500">{t('compare.noReadings')}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ComparisonPage;
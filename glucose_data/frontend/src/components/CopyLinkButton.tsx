@@ -0,0 +1,56 @@
+// CopyLinkButton.tsx
+// Copia la URL de la vista actual (filtros, orden y zoom) al portapapeles
+import React from 'react';
+import { Check, Link2 } from 'lucide-react';
+import { useI18n } from '../context/I18nContext';
+
+// Tiempo que se muestra la confirmación antes de volver al texto normal
+const FEEDBACK_MS = 2000;
+
+type CopyStatus = 'idle' | 'copied' | 'failed';
+
+const CopyLinkButton: React.FC = () => {
+  const { t } = useI18n();
+  const [status, setStatus] = React.useState<CopyStatus>('idle');
+
+  React.useEffect(() => {
+    if (status === 'idle') return;
+    const timer = setTimeout(() => setStatus('idle'), FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [status]);
+
+  const copy = () => {
+    if (!navigator.clipboard) {
+      setStatus('failed');
+      return;
+    }
+    navigator.clipboard.writeText(window.location.href)
+      .then(() => setStatus('copied'))
+      .catch(err => {
+        console.warn('No se pudo copiar el enlace:', err);
+        setStatus('failed');
+      });
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={copy}
+      title={t('share.copyLinkTitle')}
+      className={`flex items-center gap-2 px-4 py-2 rounded-lg border-2 transition-colors ${
+        status === 'copied'
+          ? 'bg-green-50 text-green-800 border-green-300'
+          : status === 'failed'
+            ? 'bg-red-50 text-red-800 border-red-300'
+            : 'bg-white text-indigo-700 border-indigo-200 hover:bg-indigo-50'
+      }`}
+    >
+      {status === 'copied' ? <Check className="w-5 h-5" /> : <Link2 className="w-5 h-5" />}
+      <span role="status">
+        {status === 'copied' ? t('share.copied') : status === 'failed' ? t('share.copyFailed') : t('share.copyLink')}
+      </span>
+    </button>
+  );
+};
+
+export default CopyLinkButton;
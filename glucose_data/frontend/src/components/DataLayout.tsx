@@ -0,0 +1,69 @@
+// DataLayout.tsx
+// Layout de rutas: muestra carga/error hasta que el resumen está disponible y
+// los avisos de trabajo sin conexión y de lecturas no disponibles
+import React from 'react';
+import { Link, Outlet } from 'react-router';
+import { Activity, AlertTriangle } from 'lucide-react';
+import { useGlucoseDataContext } from '../context/GlucoseDataContext';
+import { useI18n } from '../context/I18nContext';
+import ValidationErrorList from './ValidationErrorList';
+import ReadingsProgress from './ReadingsProgress';
+import OfflineBanner from './OfflineBanner';
+import ReadingsErrorBanner from './ReadingsErrorBanner';
+
+const DataLayout: React.FC = () => {
+  const { data, loading, error, validationErrors, readingsLoading } = useGlucoseDataContext();
+  const { t } = useI18n();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+        <div className="text-center">
+          <Activity className="w-16 h-16 text-indigo-600 animate-pulse mx-auto mb-4" />
+          <p className="text-xl text-gray-700 font-medium">{t('app.loading')}</p>
+          <p className="text-sm text-gray-500 mt-2">{t('app.loadingDetail')}</p>
+          {readingsLoading && <ReadingsProgress className="pt-6 text-sm" />}
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-red-50 to-pink-100 flex items-center justify-center">
+        <div className="bg-white rounded-lg shadow-xl p-8 max-w-xl">
+          <AlertTriangle className="w-16 h-16 text-red-600 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2 text-center">{t('app.loadError')}</h2>
+          <p className="text-gray-600 text-center mb-4">{error}</p>
+          {validationErrors.length > 0 && (
+            <ValidationErrorList errors={validationErrors} />
+          )}
+          <button 
+            onClick={() => window.location.reload()}
+            className="w-full bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors"
+          >
+            {t('app.retry')}
+          </button>
+          <Link
+            to="/import"
+            className="block w-full mt-2 text-center bg-white text-indigo-700 border-2 border-indigo-200 px-4 py-2 rounded-lg hover:bg-indigo-50 transition-colors"
+          >
+            {t('import.title')}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) return null;
+
+  return (
+    <>
+      <OfflineBanner />
+      <ReadingsErrorBanner />
+      <Outlet />
+    </>
+  );
+};
+
+export default DataLayout;
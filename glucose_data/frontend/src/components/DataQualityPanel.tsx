@@ -0,0 +1,200 @@
+// DataQualityPanel.tsx
+// Calidad de los datos por paciente: cobertura del sensor y avisos
+import React from 'react';
+import { Link } from 'react-router';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import {
+  IMPLAUSIBLE_HIGH,
+  IMPLAUSIBLE_LOW,
+  MAX_PLAUSIBLE_RATE,
+  MIN_RELIABLE_COVERAGE,
+  QUALITY_GAP_OPTIONS,
+  type DataQualityReport,
+  type PatientQuality,
+} from '../analysis/quality';
+import { useI18n } from '../context/I18nContext';
+import { formatDuration } from './dashboardHelpers';
+import type { GlucoseUnit, PatientId } from './types';
+
+interface DataQualityPanelProps {
+  report: DataQualityReport;
+  patients: PatientId[]; // Pacientes visibles, en orden
+  gapMinutes: number;
+  onGapChange: (minutes: number) => void;
+  unit: GlucoseUnit;
+}
+
+/**
+ * Avisos de un paciente, uno por línea
+ */
+function useQualityWarnings(unit: GlucoseUnit) {
+  const { t, formatDateTime, formatGlucose } = useI18n();
+  const date = (timestamp: string) =>
+    formatDateTime(timestamp, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+  return (quality: PatientQuality, gapMinutes: number): string[] => {
+    const warnings: string[] = [];
+    if (quality.gapCount > 0) {
+      const [longest] = quality.longestGaps;
+      warnings.push(
+        `${t('quality.gaps', { count: quality.gapCount, gap: formatDuration(gapMinutes), total: formatDuration(Math.round(quality.gapMinutes)) })}. ` +
+        t('quality.longestGap', { duration: formatDuration(Math.round(longest.minutes)), start: date(longest.start) })
+      );
+    }
+    if (quality.duplicates > 0) {
+      const conflicting = quality.conflictingDuplicates > 0
+        ? ` (${t('quality.conflicting', { count: quality.conflictingDuplicates })})`
+        : '';
+      warnings.push(t('quality.duplicates', { count: quality.duplicates }) + conflicting);
+    }
+    if (quality.implausible > 0) {
+      const [example] = quality.implausibleExamples;
+      warnings.push(
+        `${t('quality.implausible', {
+          count: quality.implausible,
+          low: formatGlucose(IMPLAUSIBLE_LOW, unit, { compact: true }),
+          high: formatGlucose(IMPLAUSIBLE_HIGH, unit, { compact: true }),
+        })}: ` +
+        t('quality.implausibleExample', { value: formatGlucose(example.glucose_level, unit), date: date(example.timestamp) })
+      );
+    }
+    if (quality.jumps > 0) {
+      const [example] = quality.jumpExamples;
+      warnings.push(
+        `${t('quality.jumps', { count: quality.jumps, rate: formatGlucose(MAX_PLAUSIBLE_RATE, unit, { compact: true }) })}: ` +
+        t('quality.jumpExample', {
+          from: formatGlucose(example.from, unit, { withUnit: false }),
+          to: formatGlucose(example.to, unit),
+          date: date(example.timestamp),
+        })
+      );
+    }
+    return warnings;
+  };
+}
+
+const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ report, patients, gapMinutes, onGapChange, unit }) => {
+  const { t, formatNumber, formatDateTime } = useI18n();
+  const warningsOf = useQualityWarnings(unit);
+  const rows = patients.filter(patient => report.patients[patient]);
+  const unreliable = rows.filter(patient => !report.patients[patient].reliable).length;
+  const period = (timestamp: string) => formatDateTime(timestamp, { day: 'numeric', month: 'short', year: 'numeric' });
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg overflow-hidden mb-8">
+      <div className="p-6 border-b border-gray-200 bg-gradient-to-r from-amber-50 to-yellow-50">
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <ShieldCheck className="w-6 h-6 text-amber-600" />
+              {t('quality.title')}
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {report.from && report.to
+                ? t('quality.subtitle', { from: period(report.from), to: period(report.to) })
+                : t('quality.empty')}
+            </p>
+          </div>
+          <div className="flex items-center gap-3 flex-wrap">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              {t('quality.gap')}
+              <select
+                value={gapMinutes}
+                onChange={(e) => onGapChange(Number(e.target.value))}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+              >
+                {QUALITY_GAP_OPTIONS.map(minutes => (
+                  <option key={minutes} value={minutes}>{formatDuration(minutes)}</option>
+                ))}
+              </select>
+            </label>
+            {rows.length > 0 && (
+              <span
+                className={`px-4 py-2 rounded-full text-sm font-bold ${
+                  unreliable > 0 ? 'bg-amber-600 text-white shadow-md' : 'bg-white text-green-700 border-2 border-green-200'
+                }`}
+              >
+                {unreliable > 0 ? t('quality.summary', { count: unreliable }) : t('quality.allReliable')}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {rows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b-2 border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-bold text-gray-700 uppercase">{t('quality.patient')}</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-gray-700 uppercase">{t('quality.coverage')}</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-gray-700 uppercase">{t('quality.interval')}</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-gray-700 uppercase">{t('quality.issues')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map(patientId => {
+                const quality = report.patients[patientId];
+                const warnings = warningsOf(quality, report.gapMinutes);
+                const coverage = quality.coverage ?? 0;
+                return (
+                  <tr key={patientId} className={quality.reliable ? 'hover:bg-gray-50' : 'bg-amber-50/50 hover:bg-amber-50'}>
+                    <td className="px-6 py-4 align-top">
+                      <Link
+                        to={`/patients/${encodeURIComponent(patientId)}`}
+                        className="font-semibold text-indigo-600 hover:text-indigo-800"
+                      >
+                        {patientId}
+                      </Link>
+                      <p className="text-xs text-gray-500">{t('quality.readings', { count: quality.readings })}</p>
+                    </td>
+                    <td className="px-6 py-4 align-top w-48">
+                      <div className="flex items-center justify-between text-sm mb-1">
+                        <span className="font-bold text-gray-900">
+                          {quality.coverage === null ? '—' : `${formatNumber(quality.coverage, 0)}%`}
+                        </span>
+                        <span
+                          className={`text-xs font-semibold ${quality.reliable ? 'text-green-700' : 'text-amber-700'}`}
+                          title={t('quality.threshold', { min: MIN_RELIABLE_COVERAGE })}
+                        >
+                          {quality.reliable ? t('quality.reliable') : t('quality.unreliable')}
+                        </span>
+                      </div>
+                      <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                        <div
+                          className={`h-full ${quality.reliable ? 'bg-green-500' : 'bg-amber-500'}`}
+                          style={{ width: `${coverage}%` }}
+                        />
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 align-top text-sm text-gray-700 whitespace-nowrap">
+                      {quality.expectedInterval === null ? '—' : formatDuration(Math.round(quality.expectedInterval))}
+                    </td>
+                    <td className="px-6 py-4 align-top text-sm">
+                      {warnings.length > 0 ? (
+                        <ul className="space-y-1">
+                          {warnings.map(warning => (
+                            <li key={warning} className="flex items-start gap-2 text-gray-800">
+                              <ShieldAlert className="w-4 h-4 text-amber-600 mt-0.5 shrink-0" />
+                              {warning}
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <span className="text-gray-500">
+                          {quality.reliable ? t('quality.noIssues') : t('quality.lowCoverageOnly')}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataQualityPanel;
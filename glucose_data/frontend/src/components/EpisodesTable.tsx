@@ -0,0 +1,119 @@
+// EpisodesTable.tsx
+// Tabla ordenable de episodios (alertas consecutivas agrupadas)
+import React from 'react';
+import { Link } from 'react-router';
+import { Clock, Heart } from 'lucide-react';
+import type { GlucoseUnit } from './types';
+import type { EpisodeSortField, GlycemicEpisode } from '../analysis/episodes';
+import { useI18n } from '../context/I18nContext';
+import {
+  formatDuration,
+  getContextIcon,
+  getRowColor,
+  getSeverityBadge,
+  getSeverityLabel
+} from './dashboardHelpers';
+import type { SortOrder } from './AlertsTable';
+
+interface EpisodesTableProps {
+  episodes: GlycemicEpisode[]; // Ya ordenados
+  sortField: EpisodeSortField;
+  sortOrder: SortOrder;
+  onSort: (field: EpisodeSortField) => void;
+  unit: GlucoseUnit;
+  emptyMessage?: string;
+}
+
+const EpisodesTable: React.FC<EpisodesTableProps> = ({ episodes, sortField, sortOrder, onSort, unit, emptyMessage }) => {
+  const { t, formatDateTime, formatGlucose } = useI18n();
+
+  const header = (field: EpisodeSortField, label: string) => (
+    <th
+      className="px-6 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider cursor-pointer hover:bg-gray-100 transition-colors"
+      onClick={() => onSort(field)}
+    >
+      {label} {sortField === field && (sortOrder === 'asc' ? '↑' : '↓')}
+    </th>
+  );
+  const formatTime = (timestamp: string) =>
+    formatDateTime(timestamp, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead className="bg-gray-50 border-b-2 border-gray-200">
+          <tr>
+            {header('start', t('episodes.start'))}
+            {header('patient_id', t('table.patient'))}
+            {header('durationMinutes', t('episodes.duration'))}
+            {header('peak', t('episodes.peak'))}
+            <th className="px-6 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">
+              {t('episodes.mean')}
+            </th>
+            {header('area', t('episodes.area', { unit }))}
+            <th className="px-6 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">
+              {t('table.severity')}
+            </th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {episodes.map(episode => (
+            <tr key={episode.id} className={`hover:bg-indigo-50 transition-colors ${getRowColor(episode)}`}>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                <div className="flex items-center gap-2">
+                  <Clock className="w-4 h-4 text-gray-400" />
+                  {formatTime(episode.start)}
+                </div>
+                {episode.readings > 1 && (
+                  <div className="text-xs text-gray-500 mt-1">{t('episodes.until', { end: formatTime(episode.end) })}</div>
+                )}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap">
+                <Link
+                  to={`/patients/${encodeURIComponent(episode.patient_id)}`}
+                  className="inline-flex items-center px-3 py-1 rounded-full text-xs font-bold bg-blue-100 text-blue-800 hover:bg-blue-200 transition-colors"
+                >
+                  {episode.patient_id}
+                </Link>
+                <div className="text-xs text-gray-500 mt-1">
+                  {episode.contexts.map(getContextIcon).join(' ')}
+                </div>
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                <div className="font-semibold">{formatDuration(episode.durationMinutes)}</div>
+                <div className="text-xs text-gray-500 mt-1">{t('episodes.readings', { count: episode.readings })}</div>
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap">
+                <span className={`text-xl font-bold ${episode.tipo === 'hipoglucemia' ? 'text-sky-600' : 'text-red-600'}`}>
+                  {formatGlucose(episode.peak, unit, { withUnit: false })}
+                </span>
+                <span className="text-sm text-gray-500 ml-1">{unit}</span>
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                {formatGlucose(episode.mean, unit)}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                {formatGlucose(episode.area, unit, { withUnit: false })}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap">
+                <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-bold ${getSeverityBadge(episode)}`}>
+                  {getSeverityLabel(episode, t)}
+                </span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {episodes.length === 0 && (
+        <div className="text-center py-16 bg-green-50">
+          <Heart className="w-20 h-20 text-green-500 mx-auto mb-4 animate-pulse" />
+          <p className="text-2xl font-bold text-gray-900 mb-2">{t('episodes.emptyTitle')}</p>
+          <p className="text-gray-600">{emptyMessage ?? t('episodes.empty')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EpisodesTable;
@@ -0,0 +1,226 @@
+// FilterPanel.tsx
+// Controles del filtro del dashboard: pacientes, contextos, tipo, severidad,
+// estado de revisión, fechas, franja horaria y rango de glucosa
+import React from 'react';
+import { Filter } from 'lucide-react';
+import { useI18n } from '../context/I18nContext';
+import { FORECAST_ALERT_KIND, HYPO_SEVERITIES, MEAL_CONTEXTS, REVIEW_STATUSES, RULE_ALERT_KINDS, SEVERITIES } from '../analysis/constants';
+import { roundGlucose, toMgdl } from '../analysis/units';
+import { getContextIcon } from './dashboardHelpers';
+import ToggleChip from './ToggleChip';
+import type { AlertFilter, AlertKind, GlucoseUnit, HypoSeverity, PatientId, ReviewStatus, Severity } from './types';
+
+interface FilterPanelProps {
+  filter: AlertFilter;
+  onChange: (filter: AlertFilter) => void;
+  patients: PatientId[];
+  unit: GlucoseUnit;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-600 focus:border-transparent transition-all';
+
+/**
+ * Añade o quita un valor de una selección múltiple
+ */
+function toggle<T>(values: readonly T[], value: T): T[] {
+  return values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+}
+
+/**
+ * Límite de glucosa en la unidad de presentación; se confirma al salir
+ * del campo o pulsar Enter (igual que en ThresholdSettings)
+ */
+const GlucoseBoundInput: React.FC<{
+  label: string;
+  mgdl: number | null;
+  unit: GlucoseUnit;
+  onCommit: (mgdl: number | null) => void;
+}> = ({ label, mgdl, unit, onCommit }) => {
+  const [draft, setDraft] = React.useState<string | null>(null);
+  const shown = draft ?? (mgdl === null ? '' : String(roundGlucose(mgdl, unit)));
+
+  return (
+    <input
+      type="number"
+      min={0}
+      step={unit === 'mmol/L' ? 0.1 : 1}
+      aria-label={label}
+      placeholder={label}
+      value={shown}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== null) {
+          const parsed = Number(draft);
+          onCommit(draft.trim() === '' || !Number.isFinite(parsed) ? null : toMgdl(parsed, unit));
+        }
+        setDraft(null);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+      }}
+      className={inputClass}
+    />
+  );
+};
+
+const FilterPanel: React.FC<FilterPanelProps> = ({ filter, onChange, patients, unit }) => {
+  const { t } = useI18n();
+  const update = (changes: Partial<AlertFilter>) => onChange({ ...filter, ...changes });
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+      <div className="flex items-center gap-2 mb-4">
+        <Filter className="w-5 h-5 text-indigo-600" />
+        <h3 className="text-xl font-bold text-gray-900">{t('filters.title')}</h3>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <div>
+          <p className="block text-sm font-medium text-gray-700 mb-2">{t('filters.patients')}</p>
+          <div className="flex flex-wrap gap-2">
+            {patients.map(patient => (
+              <ToggleChip
+                key={patient}
+                active={filter.patients.includes(patient)}
+                onClick={() => update({ patients: toggle(filter.patients, patient) })}
+              >
+                {patient}
+              </ToggleChip>
+            ))}
+          </div>
+        </div>
+        <div>
+          <p className="block text-sm font-medium text-gray-700 mb-2">{t('filters.contexts')}</p>
+          <div className="flex flex-wrap gap-2">
+            {MEAL_CONTEXTS.map(context => (
+              <ToggleChip
+                key={context}
+                active={filter.contexts.includes(context)}
+                onClick={() => update({ contexts: toggle(filter.contexts, context) })}
+              >
+                {getContextIcon(context)} {t(`context.${context}`)}
+              </ToggleChip>
+            ))}
+          </div>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 -mt-4 mb-6">{t('filters.multiHint')}</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t('filters.kind')}</label>
+          <select
+            value={filter.kind ?? ''}
+            onChange={(e) => update({ kind: (e.target.value as AlertKind) || null })}
+            className={inputClass}
+          >
+            <option value="">{t('filters.allKinds')}</option>
+            <option value="hiperglucemia">🔺 {t('kind.hiperglucemia')}</option>
+            <option value="hipoglucemia">🔻 {t('kind.hipoglucemia')}</option>
+            {RULE_ALERT_KINDS.map(kind => (
+              <option key={kind} value={kind}>⚡ {t(`kind.${kind}`)}</option>
+            ))}
+            <option value={FORECAST_ALERT_KIND}>🔮 {t(`kind.${FORECAST_ALERT_KIND}`)}</option>
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t('filters.severity')}</label>
+          <select
+            value={filter.severity ?? ''}
+            onChange={(e) => update({ severity: (e.target.value as Severity | HypoSeverity) || null })}
+            className={inputClass}
+          >
+            <option value="">{t('filters.allSeverities')}</option>
+            {SEVERITIES.map(severity => (
+              <option key={severity} value={severity}>{t(`severity.${severity}`)}</option>
+            ))}
+            {HYPO_SEVERITIES.map(severity => (
+              <option key={severity} value={severity}>
+                {t('severity.hypoPrefix', { severity: t(`severity.${severity}`) })}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t('filters.review')}</label>
+          <select
+            value={filter.reviewStatus ?? ''}
+            onChange={(e) => update({ reviewStatus: (e.target.value as ReviewStatus) || null })}
+            className={inputClass}
+          >
+            <option value="">{t('filters.allReviews')}</option>
+            {REVIEW_STATUSES.map(status => (
+              <option key={status} value={status}>{t(`review.status.${status}`)}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t('filters.dateRange')}</label>
+          <div className="flex gap-2">
+            <input
+              type="date"
+              aria-label={t('filters.from')}
+              value={filter.dateFrom ?? ''}
+              max={filter.dateTo ?? undefined}
+              onChange={(e) => update({ dateFrom: e.target.value || null })}
+              className={inputClass}
+            />
+            <input
+              type="date"
+              aria-label={t('filters.to')}
+              value={filter.dateTo ?? ''}
+              min={filter.dateFrom ?? undefined}
+              onChange={(e) => update({ dateTo: e.target.value || null })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t('filters.timeWindow')}</label>
+          <div className="flex gap-2">
+            <input
+              type="time"
+              aria-label={t('filters.from')}
+              value={filter.timeFrom ?? ''}
+              onChange={(e) => update({ timeFrom: e.target.value || null })}
+              className={inputClass}
+            />
+            <input
+              type="time"
+              aria-label={t('filters.to')}
+              value={filter.timeTo ?? ''}
+              onChange={(e) => update({ timeTo: e.target.value || null })}
+              className={inputClass}
+            />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">{t('filters.timeWindowHint')}</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t('filters.glucoseRange', { unit })}</label>
+          <div className="flex gap-2">
+            <GlucoseBoundInput
+              label={t('filters.min')}
+              mgdl={filter.minGlucose}
+              unit={unit}
+              onCommit={(minGlucose) => update({ minGlucose })}
+            />
+            <GlucoseBoundInput
+              label={t('filters.max')}
+              mgdl={filter.maxGlucose}
+              unit={unit}
+              onCommit={(maxGlucose) => update({ maxGlucose })}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FilterPanel;
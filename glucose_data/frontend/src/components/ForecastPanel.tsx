@@ -0,0 +1,68 @@
+// ForecastPanel.tsx
+// Previsión de glucosa a corto plazo de un paciente desde su última lectura
+import React from 'react';
+import { TrendingUp } from 'lucide-react';
+import { FORECAST_HORIZONS } from '../analysis/forecast';
+import { useI18n } from '../context/I18nContext';
+import type { GlucoseReading, GlucoseUnit, PrevisionGlucosa } from './types';
+
+interface ForecastPanelProps {
+  forecasts: PrevisionGlucosa[]; // Una por horizonte con modelo
+  lastReading: GlucoseReading; // Lectura desde la que se prevé
+  threshold: number; // Umbral de hiperglucemia de esa lectura (mg/dL)
+  unit: GlucoseUnit;
+}
+
+const ForecastPanel: React.FC<ForecastPanelProps> = ({ forecasts, lastReading, threshold, unit }) => {
+  const { t, formatDateTime, formatGlucose } = useI18n();
+  const time = (timestamp: string) =>
+    formatDateTime(timestamp, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+      <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+        <TrendingUp className="w-6 h-6 text-orange-600" />
+        {t('forecast.title')}
+      </h2>
+      <p className="text-sm text-gray-600 mt-1 mb-4">
+        {t('forecast.subtitle', { value: formatGlucose(lastReading.glucose_level, unit), date: time(lastReading.timestamp) })}
+      </p>
+      {forecasts.length === 0 ? (
+        <p className="text-gray-500">{t('forecast.unavailable', { horizons: FORECAST_HORIZONS.join('/') })}</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {forecasts.map(forecast => {
+            const above = forecast.glucosa > threshold;
+            return (
+              <div
+                key={forecast.horizonte_min}
+                className={`rounded-lg p-4 border-2 ${above ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'}`}
+              >
+                <p className="text-sm text-gray-600">
+                  {t('forecast.horizon', { horizon: forecast.horizonte_min, date: time(forecast.timestamp) })}
+                </p>
+                <p className={`text-3xl font-bold ${above ? 'text-red-600' : 'text-gray-900'}`}>
+                  {formatGlucose(forecast.glucosa, unit)}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {t('forecast.interval', {
+                    low: formatGlucose(forecast.inferior, unit, { withUnit: false }),
+                    high: formatGlucose(forecast.superior, unit, { withUnit: false }),
+                  })}
+                </p>
+                {above && (
+                  <p className="text-xs font-bold text-red-700 mt-2">
+                    {t('forecast.aboveThreshold', { threshold: formatGlucose(threshold, unit) })}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <p className="text-xs text-gray-500 mt-4">{t('forecast.note')}</p>
+    </div>
+  );
+};
+
+export default ForecastPanel;
@@ -0,0 +1,318 @@
+// GlucoseTimelineChart.tsx
+// Evolución temporal de las lecturas de glucosa, una línea por paciente,
+// con la banda objetivo sombreada, alertas por severidad, hiperglucemias
+// previstas y zoom por rango
+import React from 'react';
+import { ZoomOut } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceArea,
+  ReferenceLine,
+  Brush,
+  type DotItemDotProps,
+  type TooltipContentProps,
+} from 'recharts';
+import type { GlucoseUnit, PatientId, TimeRange } from './types';
+import { HYPO_SEVERITIES, SEVERITIES } from '../analysis/constants';
+import type { TimelineSample, TimelineSeries } from '../analysis/timeline';
+import { roundGlucose } from '../analysis/units';
+import { useI18n } from '../context/I18nContext';
+import { getContextLabel, getSeverityLabel, PATIENT_COLORS, SEVERITY_COLORS } from './dashboardHelpers';
+
+interface GlucoseTimelineChartProps {
+  series: TimelineSeries; // Puntos ya reducidos (ver analysis/timeline)
+  umbralHipo: number; // mg/dL
+  umbralHiper: number; // mg/dL
+  unit: GlucoseUnit;
+  range?: TimeRange | null; // Ventana visible; null = todas las lecturas
+  onRangeChange?: (range: TimeRange | null) => void; // Si se pasa, se muestra el selector de rango
+  focusTime?: number | null; // Momento marcado con una línea vertical (epoch ms)
+  emptyMessage?: string;
+}
+
+interface TimelinePoint {
+  time: number; // epoch ms
+  sample: TimelineSample;
+  unit: GlucoseUnit;
+  [patientId: PatientId]: unknown; // Glucosa en la unidad de presentación, solo en su paciente
+}
+
+// Por encima de este número de lecturas visibles solo se dibujan las alertas
+const MAX_PLAIN_DOTS = 300;
+const SHORT_WINDOW_MS = 2 * 24 * 60 * 60 * 1000;
+
+/**
+ * Triángulo hueco que apunta hacia arriba (hiperglucemia prevista)
+ */
+function trianglePath(cx: number, cy: number, size: number): string {
+  return `M${cx},${cy - size} L${cx + size},${cy + size * 0.8} L${cx - size},${cy + size * 0.8} Z`;
+}
+
+/**
+ * Primer índice con time >= value (los puntos están ordenados)
+ */
+function lowerBound(points: readonly TimelinePoint[], value: number): number {
+  let low = 0;
+  let high = points.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (points[mid].time < value) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+function toPoints(samples: readonly TimelineSample[], unit: GlucoseUnit): TimelinePoint[] {
+  return samples.map(sample => ({
+    time: sample.time,
+    sample,
+    unit,
+    [sample.patient_id]: roundGlucose(sample.glucose_level, unit),
+  }));
+}
+
+const GlucoseTimelineChart: React.FC<GlucoseTimelineChartProps> = ({
+  series,
+  umbralHipo,
+  umbralHiper,
+  unit,
+  range = null,
+  onRangeChange,
+  focusTime = null,
+  emptyMessage,
+}) => {
+  const { t, formatDateTime } = useI18n();
+
+  const overview = React.useMemo(() => toPoints(series.overview, unit), [series.overview, unit]);
+  const detail = React.useMemo(() => (series.detail ? toPoints(series.detail, unit) : null), [series.detail, unit]);
+  const patients = React.useMemo(
+    () => [...new Set(series.overview.map(sample => sample.patient_id))].sort(),
+    [series.overview]
+  );
+
+  if (overview.length === 0) {
+    return <p className="text-center text-gray-500 py-16">{emptyMessage ?? t('timeline.empty')}</p>;
+  }
+
+  // El detalle llega algo después que la ventana; mientras no la cubra se
+  // usan los puntos de la vista general
+  const { detailRange } = series;
+  const covered = !!range && !!detail && !!detailRange && detailRange.start <= range.start && detailRange.end >= range.end;
+  const source = covered ? detail : overview;
+  const points = range ? source.slice(lowerBound(source, range.start), lowerBound(source, range.end + 1)) : source;
+  const sampled = series.total > source.length;
+
+  // Índices del rango visible para el Brush (controlado desde fuera)
+  const startIndex = range ? Math.min(lowerBound(overview, range.start), overview.length - 1) : 0;
+  const endIndex = range ? Math.max(lowerBound(overview, range.end + 1) - 1, startIndex) : overview.length - 1;
+  const showPlainDots = points.length <= MAX_PLAIN_DOTS;
+  // Con ventanas cortas las marcas del eje muestran la hora en vez del día
+  const shown = range ?? { start: overview[0].time, end: overview[overview.length - 1].time };
+  const showHours = shown.end - shown.start <= SHORT_WINDOW_MS;
+
+  const renderDot = (color: string) => (props: DotItemDotProps) => {
+    const { cx, cy, index, payload } = props;
+    const point = payload as TimelinePoint;
+    const { alert, forecast } = point.sample;
+    if (cx == null || cy == null || (!alert && !forecast && !showPlainDots)) {
+      return <g key={`dot-${index}`} />;
+    }
+    return (
+      <g key={`dot-${index}`}>
+        {alert ? (
+          <circle cx={cx} cy={cy} r={5} fill={SEVERITY_COLORS[alert.severidad]} stroke="#fff" strokeWidth={1.5} />
+        ) : (
+          <circle cx={cx} cy={cy} r={forecast ? 3 : 2} fill={color} />
+        )}
+        {forecast && (
+          // Encima de la lectura: la subida que se espera
+          <path d={trianglePath(cx, cy - 12, 5)} fill="#fff" stroke={SEVERITY_COLORS[forecast.severidad]} strokeWidth={2} />
+        )}
+      </g>
+    );
+  };
+
+  const formatTick = (time: number) => formatDateTime(time, { day: 'numeric', month: 'short' });
+
+  return (
+    <div>
+      <ResponsiveContainer width="100%" height={350}>
+        <LineChart data={points} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={range ? [range.start, range.end] : ['dataMin', 'dataMax']}
+            allowDataOverflow
+            tickFormatter={(time: number) =>
+            formatDateTime(time, showHours ? { hour: '2-digit', minute: '2-digit' } : { day: 'numeric', month: 'short' })
+          }
+            stroke="#6b7280"
+            tick={{ fill: '#374151', fontSize: '12px' }}
+          />
+          <YAxis
+            domain={[roundGlucose(40, unit, true), 'auto']}
+            label={{
+              value: t('chart.glucoseAxis', { unit }),
+              angle: -90,
+              position: 'insideLeft',
+              style: { fontSize: '14px', fontWeight: 600, fill: '#374151' }
+            }}
+            stroke="#6b7280"
+            tick={{ fill: '#374151' }}
+          />
+          <Tooltip content={TimelineTooltip} />
+          <ReferenceArea
+            y1={roundGlucose(umbralHipo, unit, true)}
+            y2={roundGlucose(umbralHiper, unit, true)}
+            fill="#22c55e"
+            fillOpacity={0.08}
+            ifOverflow="extendDomain"
+          />
+          <ReferenceLine y={roundGlucose(umbralHiper, unit, true)} stroke="#ef4444" strokeWidth={2} strokeDasharray="5 5" />
+          <ReferenceLine y={roundGlucose(umbralHipo, unit, true)} stroke="#0ea5e9" strokeWidth={2} strokeDasharray="5 5" />
+          {focusTime !== null && <ReferenceLine x={focusTime} stroke="#4f46e5" strokeWidth={2} />}
+          {patients.map((patient, index) => {
+            const color = PATIENT_COLORS[index % PATIENT_COLORS.length];
+            return (
+              <Line
+                key={patient}
+                name={patient}
+                type="monotone"
+                dataKey={patient}
+                stroke={color}
+                strokeWidth={2}
+                connectNulls
+                dot={renderDot(color)}
+                activeDot={{ r: 5 }}
+                isAnimationActive={false}
+              />
+            );
+          })}
+        </LineChart>
+      </ResponsiveContainer>
+      {onRangeChange && (
+        // Vista general con el selector de rango: siempre todo el periodo,
+        // para que el selector no cambie al llegar el detalle de la ventana
+        <ResponsiveContainer width="100%" height={90}>
+          <LineChart data={overview} margin={{ top: 0, right: 30, left: 80, bottom: 0 }}>
+            <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} hide />
+            <YAxis domain={['auto', 'auto']} hide />
+            {patients.map((patient, index) => (
+              <Line
+                key={patient}
+                type="monotone"
+                dataKey={patient}
+                stroke={PATIENT_COLORS[index % PATIENT_COLORS.length]}
+                strokeWidth={1}
+                strokeOpacity={0.5}
+                connectNulls
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+            <Brush
+              dataKey="time"
+              height={30}
+              stroke="#4f46e5"
+              startIndex={startIndex}
+              endIndex={endIndex}
+              tickFormatter={formatTick}
+              onChange={({ startIndex: start, endIndex: end }) => {
+                if (start === undefined || end === undefined) return;
+                onRangeChange(
+                  start === 0 && end === overview.length - 1
+                    ? null
+                    : { start: overview[start].time, end: overview[end].time }
+                );
+              }}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+      {sampled && (
+        <p className="text-xs text-gray-500 mt-1">
+          {t('timeline.sampled', { shown: points.length, total: series.total })}
+        </p>
+      )}
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mt-2 text-xs text-gray-600">
+        {patients.length > 1 && patients.map((patient, index) => (
+          <span key={patient} className="inline-flex items-center gap-1">
+            <span className="w-4 h-0.5" style={{ backgroundColor: PATIENT_COLORS[index % PATIENT_COLORS.length] }} />
+            {patient}
+          </span>
+        ))}
+        {[...SEVERITIES, ...HYPO_SEVERITIES].map(severity => (
+          <span key={severity} className="inline-flex items-center gap-1">
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: SEVERITY_COLORS[severity] }} />
+            {severity.startsWith('level')
+              ? t('severity.hypoPrefix', { severity: t(`severity.${severity}`) })
+              : t(`severity.${severity}`)}
+          </span>
+        ))}
+        <span className="inline-flex items-center gap-1">
+          <svg width="12" height="12" viewBox="0 0 12 12" aria-hidden="true">
+            <path d={trianglePath(6, 6, 4.5)} fill="#fff" stroke={SEVERITY_COLORS.high} strokeWidth={1.5} />
+          </svg>
+          {t('kind.hiperglucemia_prevista')}
+        </span>
+        <span className="inline-flex items-center gap-1">
+          <span className="w-4 h-2.5 bg-green-500/20 border border-green-500/40" />
+          {t('timeline.targetBand')}
+        </span>
+        {onRangeChange && range && (
+          <button
+            type="button"
+            onClick={() => onRangeChange(null)}
+            className="ml-auto inline-flex items-center gap-1 px-3 py-1 rounded-lg border-2 border-indigo-200 text-indigo-700 font-medium hover:bg-indigo-50 transition-colors"
+          >
+            <ZoomOut className="w-4 h-4" />
+            {t('timeline.resetZoom')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const TimelineTooltip = ({ active, payload }: TooltipContentProps<number, string>) => {
+  const { t, formatDateTime, formatGlucose } = useI18n();
+  if (active && payload && payload.length) {
+    const point = payload[0].payload as TimelinePoint;
+    return (
+      <div className="bg-white border-2 border-indigo-600 rounded-lg shadow-xl p-3 text-sm">
+        <p className="text-gray-500">{formatDateTime(point.sample.timestamp)}</p>
+        <p className="font-semibold text-gray-900">{point.sample.patient_id}</p>
+        <p className="text-indigo-600 font-bold text-xl">{formatGlucose(point.sample.glucose_level, point.unit)}</p>
+        <p className="text-xs text-gray-500">{getContextLabel(point.sample.meal_context, t)}</p>
+        {point.sample.alert && (
+          <p className="text-xs font-bold mt-1" style={{ color: SEVERITY_COLORS[point.sample.alert.severidad] }}>
+            {point.sample.alert.tipo === 'hiperglucemia'
+              ? `${t('kind.hiperglucemia')} · ${getSeverityLabel(point.sample.alert, t)}`
+              : getSeverityLabel(point.sample.alert, t)}
+          </p>
+        )}
+        {point.sample.forecast && (
+          <p className="text-xs font-bold mt-1" style={{ color: SEVERITY_COLORS[point.sample.forecast.severidad] }}>
+            {t('forecast.tooltip', {
+              value: formatGlucose(point.sample.forecast.glucosa, point.unit),
+              horizon: point.sample.forecast.horizonte_min,
+              low: formatGlucose(point.sample.forecast.inferior, point.unit, { withUnit: false }),
+              high: formatGlucose(point.sample.forecast.superior, point.unit, { withUnit: false }),
+            })}
+          </p>
+        )}
+      </div>
+    );
+  }
+  return null;
+};
+
+export default GlucoseTimelineChart;
@@ -1,49 +1,95 @@
 // HealthDashboard.tsx
 // VERSIÓN DEFINITIVA - Combina hooks profesionales + visualizaciones completas
-import React, { useState } from 'react';
+import React from 'react';
+import { Link } from 'react-router';
 import { 
   Droplet, 
   Heart, 
   Activity, 
   AlertTriangle, 
+  Bell,
+  BellOff,
   Users, 
   TrendingUp,
   TrendingDown,
-  Minus,
   Calendar,
+  ClipboardCheck,
   Clock,
-  Filter,
-  Download
+  Download,
+  FileUp,
+  GitCompare,
+  History,
+  Layers,
+  Settings,
+  Zap
 } from 'lucide-react';
 import {
-  BarChart,
+  ComposedChart,
   Bar,
+  Scatter,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
   Cell,
-  ReferenceLine
+  ReferenceLine,
+  type TooltipContentProps
 } from 'recharts';
 import { 
-  useGlucoseData,
-  useAlertFilters,
-  usePatientStats,
-  usePatientList,
-  useContextStats,
-  useGlucoseTrend,
+  useDashboardUrlState,
+  useDashboardView,
+  useDebouncedValue,
   useExportCSV,
-  useLocalStorage
+  useExportEpisodesCSV,
+  useEpisodeGap,
+  usePageIndex,
+  useQualityGap,
+  useTimelineZoom,
+  useTrendWindow
 } from '../hooks/useGlucoseData';
 import type { 
   MealContext, 
-  PatientId, 
-  ChartDataPoint,
-  AlertaHiperglucemia 
+  ChartDataPoint
 } from './types';
+import { useGlucoseDataContext } from '../context/GlucoseDataContext';
+import { resolveThresholds, DEFAULT_PROFILE } from '../analysis/thresholds';
+import { roundGlucose } from '../analysis/units';
+import { isFilterActive } from '../analysis/filters';
+import { EPISODE_GAP_OPTIONS } from '../analysis/episodes';
+import { DEFAULT_PAGE_SIZE, type DashboardQuery } from '../analysis/dashboard';
+import { countTrendDirections } from '../analysis/trend';
+import type { GlucoseTrend } from '../analysis/stats';
+import { queryFilteredAlerts, queryFilteredEpisodes } from '../workers/analysisClient';
+import { useI18n } from '../context/I18nContext';
+import TimeInRangeBar from './TimeInRangeBar';
+import AGPChart from './AGPChart';
+import AlertsTable from './AlertsTable';
+import EpisodesTable from './EpisodesTable';
+import GlucoseTimelineChart from './GlucoseTimelineChart';
+import TimeRangeChip from './TimeRangeChip';
+import StatCard from './StatCard';
+import LiveIndicator from './LiveIndicator';
+import CopyLinkButton from './CopyLinkButton';
+import UnitToggle from './UnitToggle';
+import LanguageSwitcher from './LanguageSwitcher';
+import ValidationErrorList from './ValidationErrorList';
+import FilterPanel from './FilterPanel';
+import ActiveFilterChips from './ActiveFilterChips';
+import DataQualityPanel from './DataQualityPanel';
+import UnreliableBadge from './UnreliableBadge';
+import Pagination from './Pagination';
+import ReadingsProgress from './ReadingsProgress';
+import TrendBadge from './TrendBadge';
+import TrendWindowSelect from './TrendWindowSelect';
+import {
+  getContextIcon,
+  getBarColor,
+  getTrendIcon
+} from './dashboardHelpers';
 
-// import type { TooltipProps } from 'recharts';
+// Espera tras el último movimiento del zoom antes de pedir el detalle
+const TIMELINE_DETAIL_DELAY_MS = 300;
 
 /**
  * Health Dashboard - Versión Definitiva
@@ -54,111 +100,144 @@ const HealthDashboard: React.FC = () => {
   // CUSTOM HOOKS - GESTIÓN DE DATOS
   // ============================================================================
   
-  const { data, loading, error } = useGlucoseData();
-  
-  // Filtros con persistencia en localStorage
-  const [selectedPatient, setSelectedPatient] = useLocalStorage<PatientId | null>('filter_patient', null);
-  const [selectedContext, setSelectedContext] = useLocalStorage<MealContext | null>('filter_context', null);
-
-  // Procesamiento de datos con hooks
-  const alerts = data?.alertas_hiperglucemia || [];
-  const filteredAlerts = useAlertFilters(alerts, {
-    patient: selectedPatient,
-    context: selectedContext,
-  });
+  const {
+    data, validationErrors, droppedAlerts, readings, readingsLoading, newAlertKeys, unit,
+    importedDataset, setImportedDataset, reviews, saveReview, reviewsError, analyzing, notificationSettings,
+  } = useGlucoseDataContext();
+  const { t, formatNumber, formatDateTime, formatGlucose } = useI18n();
   
-  const patientStats = usePatientStats(alerts);
-  const patients = usePatientList(alerts);
-  const contextStats = useContextStats(alerts);
-  const trend = useGlucoseTrend(alerts);
-  const exportCSV = useExportCSV(filteredAlerts);
+  // Vista en la URL (filtro, orden y zoom) para compartirla con un enlace;
+  // el filtro se aplica a todas las vistas
+  const { filter, setFilter, alertSort, episodeSort, range: urlRange, setRange } = useDashboardUrlState();
+  const filtering = isFilterActive(filter);
+
+  // Perfil de umbrales con el que se generó (o reanalizó) el resumen
+  const perfil = data?.metadata.perfil_umbrales ?? DEFAULT_PROFILE;
+  const cohortLimits = resolveThresholds(perfil, null, null);
+  const singlePatient = filter.patients.length === 1 ? filter.patients[0] : null;
+  const agpLimits = resolveThresholds(perfil, singlePatient, null);
+  const formatLimit = (mgdl: number) => formatGlucose(mgdl, unit, { compact: true, withUnit: false });
+
+  // Episodios: alertas consecutivas del mismo paciente agrupadas
+  const [episodeGap, setEpisodeGap] = useEpisodeGap();
+
+  // Tendencia por paciente sobre las lecturas filtradas
+  const [trendWindow, setTrendWindow] = useTrendWindow();
+
+  // Calidad de los datos: separación que cuenta como hueco del sensor
+  const [qualityGap, setQualityGap] = useQualityGap();
+
+  // Zoom de la gráfica de evolución enlazado con la tabla; el detalle de la
+  // ventana se pide cuando el selector deja de moverse
+  const { range, selectedKey, focusTime, changeRange, focusAlert, chartRef } = useTimelineZoom({ range: urlRange, setRange });
+  const timelineRange = useDebouncedValue(range, TIMELINE_DETAIL_DELAY_MS);
+
+  // Paginación: se vuelve a la primera página al cambiar filtro, orden o ventana
+  const filterKey = JSON.stringify(filter);
+  const [alertsPage, setAlertsPage] = usePageIndex(
+    `${filterKey}|${alertSort.sortField}|${alertSort.sortOrder}|${range?.start}|${range?.end}`
+  );
+  const [episodesPage, setEpisodesPage] = usePageIndex(
+    `${filterKey}|${episodeGap}|${episodeSort.sortField}|${episodeSort.sortOrder}`
+  );
+
+  // Filtros, agregados, orden y páginas se calculan en el worker de análisis
+  const query = React.useMemo((): DashboardQuery => ({
+    filter,
+    perfil,
+    episodeGap,
+    trendWindow,
+    qualityGap,
+    alertSort: { field: alertSort.sortField, order: alertSort.sortOrder },
+    episodeSort: { field: episodeSort.sortField, order: episodeSort.sortOrder },
+    range,
+    timelineRange,
+    alertsPage,
+    episodesPage,
+    pageSize: DEFAULT_PAGE_SIZE,
+  }), [
+    filter, perfil, episodeGap, trendWindow, qualityGap, alertSort.sortField, alertSort.sortOrder, episodeSort.sortField, episodeSort.sortOrder,
+    range, timelineRange, alertsPage, episodesPage,
+  ]);
+  const { view, pending, error: viewError } = useDashboardView(readings, data, reviews, query);
+
+  // Las exportaciones piden al worker todas las filas, no solo la página
+  const exportCSV = useExportCSV(unit, reviews);
+  const exportEpisodesCSV = useExportEpisodesCSV(unit);
+  const handleExport = () => {
+    queryFilteredAlerts(reviews, query)
+      .then(exportCSV)
+      .catch(err => console.warn('Error exporting alerts:', err));
+  };
+  const handleExportEpisodes = () => {
+    queryFilteredEpisodes(reviews, query)
+      .then(exportEpisodesCSV)
+      .catch(err => console.warn('Error exporting episodes:', err));
+  };
 
-  // Estado local para sorting de tabla
-  const [sortField, setSortField] = useState<keyof AlertaHiperglucemia>('timestamp');
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const patients = view?.patients ?? [];
+  const visiblePatients = filter.patients.length > 0
+    ? patients.filter(patient => filter.patients.includes(patient))
+    : patients;
 
   // ============================================================================
   // PREPARACIÓN DE DATOS PARA GRÁFICOS
   // ============================================================================
 
+  // Con filtros activos los promedios y extremos se recalculan sobre las
+  // lecturas filtradas; sin lecturas cargadas se usan los del resumen
+  const fromReadings = filtering && readings.length > 0;
+  const contextAverages = fromReadings ? view?.contextAverages : data?.promedios_por_comida;
+  const extremes = React.useMemo(() => {
+    if (!data) return null;
+    if (!fromReadings) {
+      return { max: data.estadisticas.glucosa_maxima, min: data.estadisticas.glucosa_minima };
+    }
+    return view?.extremes ?? null;
+  }, [data, fromReadings, view]);
+
   // Datos para gráfico de barras (Recharts)
   const chartData: ChartDataPoint[] = React.useMemo(() => {
-    if (!data) return [];
+    if (!data || !contextAverages) return [];
     
-    return Object.entries(data.promedios_por_comida).map(([context, value]) => ({
-      name: translateContext(context as MealContext),
-      value: Math.round(value * 10) / 10,
-      context: context as MealContext
-    }));
-  }, [data]);
-
-  // Alertas ordenadas para tabla
-  const sortedAlerts = React.useMemo(() => {
-    return [...filteredAlerts].sort((a, b) => {
-      const aValue = a[sortField];
-      const bValue = b[sortField];
-      
-      if (sortOrder === 'asc') {
-        return aValue > bValue ? 1 : -1;
-      } else {
-        return aValue < bValue ? 1 : -1;
-      }
-    });
-  }, [filteredAlerts, sortField, sortOrder]);
-
-  // ============================================================================
-  // HANDLERS
-  // ============================================================================
-
-  const handleSort = (field: keyof AlertaHiperglucemia) => {
-    if (sortField === field) {
-      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortField(field);
-      setSortOrder('desc');
-    }
-  };
-
-  const clearFilters = () => {
-    setSelectedPatient(null);
-    setSelectedContext(null);
-  };
+    return Object.entries(contextAverages)
+      .filter(([context, value]) => value > 0 && (filter.contexts.length === 0 || filter.contexts.includes(context as MealContext)))
+      .map(([context, value]) => {
+        const limits = resolveThresholds(data.metadata.perfil_umbrales, null, context as MealContext);
+        return {
+          name: t(`context.${context as MealContext}`),
+          value: roundGlucose(value, unit),
+          context: context as MealContext,
+          umbralHiper: roundGlucose(limits.hiperglucemia, unit, true),
+          umbralHipo: roundGlucose(limits.hipoglucemia, unit, true),
+          unit,
+        };
+      });
+  }, [data, contextAverages, filter.contexts, unit, t]);
+
+  // Solo se marcan umbrales por barra si algún contexto sobrescribe el por defecto
+  const hasContextThresholds = chartData.some(
+    entry => entry.umbralHiper !== roundGlucose(cohortLimits.hiperglucemia, unit, true)
+      || entry.umbralHipo !== roundGlucose(cohortLimits.hipoglucemia, unit, true)
+  );
 
-  // ============================================================================
-  // ESTADOS DE CARGA Y ERROR
-  // ============================================================================
+  if (!data) return null;
 
-  if (loading) {
+  if (!view) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
         <div className="text-center">
           <Activity className="w-16 h-16 text-indigo-600 animate-pulse mx-auto mb-4" />
-          <p className="text-xl text-gray-700 font-medium">Cargando análisis médico...</p>
-          <p className="text-sm text-gray-500 mt-2">Procesando datos de glucosa</p>
+          <p className="text-xl text-gray-700 font-medium">{viewError ?? t('app.loading')}</p>
         </div>
       </div>
     );
   }
 
-  if (error) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-red-50 to-pink-100 flex items-center justify-center">
-        <div className="bg-white rounded-lg shadow-xl p-8 max-w-md">
-          <AlertTriangle className="w-16 h-16 text-red-600 mx-auto mb-4" />
-          <h2 className="text-2xl font-bold text-gray-900 mb-2 text-center">Error al cargar datos</h2>
-          <p className="text-gray-600 text-center mb-4">{error}</p>
-          <button 
-            onClick={() => window.location.reload()}
-            className="w-full bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors"
-          >
-            Reintentar
-          </button>
-        </div>
-      </div>
-    );
-  }
-
-  if (!data) return null;
+  const { trends, quality, unreviewedCount, patientStats, patientMetrics, contextStats } = view;
+  const trendCounts = countTrendDirections(trends);
+  const trendPatients = (direction: GlucoseTrend) =>
+    visiblePatients.filter(patient => trends[patient]?.confidence !== 'insufficient' && trends[patient]?.direction === direction);
 
   // ============================================================================
   // RENDER PRINCIPAL
@@ -176,12 +255,12 @@ const HealthDashboard: React.FC = () => {
               </div>
               <div>
                 <h1 className="text-3xl font-bold text-gray-900">
-                  Dashboard Médico de Glucosa
+                  {t('app.title')}
                 </h1>
                 <div className="flex items-center gap-4 mt-1 flex-wrap">
                   <p className="text-gray-600 flex items-center gap-2 text-sm">
                     <Calendar className="w-4 h-4" />
-                    {new Date(data.metadata.fecha_generacion).toLocaleString('es-ES', {
+                    {formatDateTime(data.metadata.fecha_generacion, {
                       year: 'numeric',
                       month: 'long',
                       day: 'numeric',
@@ -189,115 +268,305 @@ const HealthDashboard: React.FC = () => {
                       minute: '2-digit'
                     })}
                   </p>
-                  <div className="flex items-center gap-2">
-                    {getTrendIcon(trend)}
-                    <span className="text-sm font-medium text-gray-700">
-                      {getTrendText(trend)}
-                    </span>
+                  <div className="flex items-center gap-3">
+                    {Object.keys(trends).length === 0 ? (
+                      <span className="text-sm text-gray-500">{t('trend.none')}</span>
+                    ) : (
+                      (['increasing', 'stable', 'decreasing'] as const).map(direction => (
+                        <span
+                          key={direction}
+                          className="flex items-center gap-1 text-sm font-medium text-gray-700"
+                          title={t('trend.patients', { label: t(`trend.${direction}`), patients: trendPatients(direction).join(', ') || '—' })}
+                        >
+                          {getTrendIcon(direction)}
+                          {trendCounts[direction]}
+                        </span>
+                      ))
+                    )}
+                    <TrendWindowSelect value={trendWindow} onChange={setTrendWindow} />
                   </div>
+                  {(pending || analyzing) && (
+                    <span className="text-xs font-medium text-indigo-600 animate-pulse" role="status">
+                      {t('app.updating')}
+                    </span>
+                  )}
                 </div>
               </div>
             </div>
-            <button 
-              onClick={exportCSV}
-              className="flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors shadow-md hover:shadow-lg"
-            >
-              <Download className="w-5 h-5" />
-              Exportar CSV
-            </button>
+            <div className="flex items-center gap-3 flex-wrap">
+              {unreviewedCount > 0 && (
+                <button
+                  onClick={() => setFilter({ ...filter, reviewStatus: 'new' })}
+                  title={t('review.showUnreviewed')}
+                  className="flex items-center gap-2 bg-amber-100 text-amber-800 border-2 border-amber-200 px-4 py-2 rounded-lg font-semibold hover:bg-amber-200 transition-colors"
+                >
+                  <ClipboardCheck className="w-5 h-5" />
+                  {t('review.unreviewed', { count: unreviewedCount })}
+                </button>
+              )}
+              <LiveIndicator />
+              <LanguageSwitcher />
+              <UnitToggle />
+              <Link
+                to="/compare"
+                className="flex items-center gap-2 bg-white text-indigo-700 border-2 border-indigo-200 px-4 py-2 rounded-lg hover:bg-indigo-50 transition-colors"
+              >
+                <GitCompare className="w-5 h-5" />
+                {t('compare.link')}
+              </Link>
+              <Link
+                to="/history"
+                className="flex items-center gap-2 bg-white text-indigo-700 border-2 border-indigo-200 px-4 py-2 rounded-lg hover:bg-indigo-50 transition-colors"
+              >
+                <History className="w-5 h-5" />
+                {t('history.link')}
+              </Link>
+              <CopyLinkButton />
+              <Link
+                to="/settings"
+                title={t('app.thresholdProfileTitle', { name: perfil.nombre })}
+                className="flex items-center gap-2 bg-white text-indigo-700 border-2 border-indigo-200 px-4 py-2 rounded-lg hover:bg-indigo-50 transition-colors"
+              >
+                <Settings className="w-5 h-5" />
+                {t('app.thresholds')}
+              </Link>
+              <Link
+                to="/settings/rules"
+                className="flex items-center gap-2 bg-white text-indigo-700 border-2 border-indigo-200 px-4 py-2 rounded-lg hover:bg-indigo-50 transition-colors"
+              >
+                <Zap className="w-5 h-5" />
+                {t('rules.link')}
+              </Link>
+              <Link
+                to="/settings/notifications"
+                title={t('notifications.title')}
+                className="flex items-center gap-2 bg-white text-indigo-700 border-2 border-indigo-200 px-4 py-2 rounded-lg hover:bg-indigo-50 transition-colors"
+              >
+                {notificationSettings.enabled ? <Bell className="w-5 h-5" /> : <BellOff className="w-5 h-5" />}
+                {t('notifications.link')}
+              </Link>
+              <Link
+                to="/import"
+                className="flex items-center gap-2 bg-white text-indigo-700 border-2 border-indigo-200 px-4 py-2 rounded-lg hover:bg-indigo-50 transition-colors"
+              >
+                <FileUp className="w-5 h-5" />
+                {t('import.link')}
+              </Link>
+              <button 
+                onClick={handleExport}
+                className="flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors shadow-md hover:shadow-lg"
+              >
+                <Download className="w-5 h-5" />
+                {t('app.exportCsv')}
+              </button>
+            </div>
           </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* ========== AVISO DE DATOS IMPORTADOS ========== */}
+        {importedDataset && (
+          <div className="bg-indigo-50 border-2 border-indigo-300 rounded-xl p-6 mb-8 flex items-center justify-between flex-wrap gap-4">
+            <div>
+              <h3 className="text-lg font-bold text-indigo-900 flex items-center gap-2">
+                <FileUp className="w-5 h-5 text-indigo-600" />
+                {t('import.banner', { file: importedDataset.fileName })}
+              </h3>
+              <p className="text-sm text-indigo-800">
+                {t(`import.format.${importedDataset.format}`)} · {t('import.readings', { count: importedDataset.readings.length })}
+                {' · '}{t('import.rejected', { count: importedDataset.rejected })}
+              </p>
+              <p className="text-xs text-indigo-700 mt-1">{t('import.bannerDetail')}</p>
+            </div>
+            <button
+              onClick={() => setImportedDataset(null)}
+              className="px-4 py-2 text-sm font-medium text-indigo-700 bg-white border-2 border-indigo-200 rounded-lg hover:bg-indigo-100"
+            >
+              {t('import.backToServer')}
+            </button>
+          </div>
+        )}
+
+        {/* ========== AVISO DE VALIDACIÓN ========== */}
+        {validationErrors.length > 0 && (
+          <div className="bg-yellow-50 border-2 border-yellow-300 rounded-xl p-6 mb-8">
+            <div className="flex items-center gap-2 mb-2">
+              <AlertTriangle className="w-5 h-5 text-yellow-600" />
+              <h3 className="text-lg font-bold text-yellow-900">
+                {droppedAlerts > 0 ? t('validation.dropped', { count: droppedAlerts }) : t('validation.legacy')}
+              </h3>
+            </div>
+            <p className="text-sm text-yellow-800 mb-3">
+              {t('validation.droppedDetail')}
+            </p>
+            <ValidationErrorList errors={validationErrors} />
+          </div>
+        )}
+
+        {/* ========== FILTERS ========== */}
+        <FilterPanel filter={filter} onChange={setFilter} patients={patients} unit={unit} />
+        <ActiveFilterChips filter={filter} onChange={setFilter} unit={unit} />
+
         {/* ========== STATS GRID ========== */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6 mb-8">
           <StatCard
-            title="Total de Alertas"
-            value={data.metadata.total_alertas}
+            title={t('stats.totalAlerts')}
+            value={view.alertCount}
             icon={<AlertTriangle className="w-6 h-6" />}
-            subtitle={`${filteredAlerts.length} visibles`}
-            alert={data.metadata.total_alertas > 100}
+            subtitle={`${t('stats.totalAlertsDetail', {
+              hyper: view.hyperCount,
+              hypo: view.hypoCount,
+              rules: view.alertCount - view.hyperCount - view.hypoCount - view.predictedCount,
+              predicted: view.predictedCount,
+            })} · ${t('episodes.count', { count: view.episodes.total })}`}
+            alert={view.hyperCount > 100 || view.hasLevel2}
           />
           
           <StatCard
-            title="Glucosa Máxima"
-            value={`${data.estadisticas.glucosa_maxima.toFixed(1)} mg/dL`}
+            title={t('stats.maxGlucose')}
+            value={extremes ? formatGlucose(extremes.max, unit) : '—'}
             icon={<TrendingUp className="w-6 h-6" />}
-            subtitle="Nivel más alto detectado"
-            alert={data.estadisticas.glucosa_maxima > 180}
+            subtitle={t('stats.maxGlucoseDetail')}
+            alert={!!extremes && extremes.max > 180}
+          />
+
+          <StatCard
+            title={t('stats.minGlucose')}
+            value={extremes ? formatGlucose(extremes.min, unit) : '—'}
+            icon={<TrendingDown className="w-6 h-6" />}
+            subtitle={t('stats.minGlucoseDetail')}
+            alert={!!extremes && extremes.min < data.metadata.umbral_hipoglucemia_grave}
           />
           
           <StatCard
-            title="Pacientes Monitoreados"
-            value={patients.length}
+            title={t('stats.patients')}
+            value={visiblePatients.length}
             icon={<Users className="w-6 h-6" />}
-            subtitle={`${data.estadisticas.pacientes_afectados} con alertas`}
+            subtitle={t('stats.patientsDetail', { count: Object.keys(patientStats).length })}
           />
           
           <StatCard
-            title="Umbral Clínico"
-            value={`${data.metadata.umbral_hiperglucemia} mg/dL`}
+            title={t('stats.targetRange')}
+            value={`${formatLimit(cohortLimits.hipoglucemia)}–${formatLimit(cohortLimits.hiperglucemia)} ${unit}`}
             icon={<Droplet className="w-6 h-6" />}
-            subtitle="Límite de hiperglucemia"
+            subtitle={t('stats.targetRangeDetail', { name: perfil.nombre, value: formatLimit(cohortLimits.hipoglucemia_grave) })}
           />
         </div>
 
         {/* ========== PATIENT STATS CARDS ========== */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-          {patients.map(patientId => {
+          {visiblePatients.map(patientId => {
             const stats = patientStats[patientId];
+            const metrics = patientMetrics[patientId];
             return (
-              <div 
+              <Link 
                 key={patientId}
-                className="bg-white rounded-xl shadow-lg p-6 hover:shadow-xl transition-all border-2 border-transparent hover:border-indigo-200"
+                to={`/patients/${encodeURIComponent(patientId)}`}
+                className="block bg-white rounded-xl shadow-lg p-6 hover:shadow-xl transition-all border-2 border-transparent hover:border-indigo-200"
               >
                 <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-xl font-bold text-gray-900">{patientId}</h3>
+                  <h3 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+                    {patientId}
+                    {metrics && <UnreliableBadge quality={quality.patients[patientId]} />}
+                  </h3>
                   <div className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm font-semibold">
-                    {stats.totalAlerts} alertas
+                    {t('patientCard.alerts', { count: stats?.totalAlerts ?? 0 })}
                   </div>
                 </div>
                 <div className="space-y-3">
+                  {trends[patientId] && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-600 text-sm">{t('trend.card', { days: trendWindow })}</span>
+                      <TrendBadge trend={trends[patientId]} unit={unit} />
+                    </div>
+                  )}
                   <div className="flex justify-between items-center">
-                    <span className="text-gray-600 text-sm">Promedio:</span>
-                    <span className="font-bold text-gray-900">{stats.avgGlucose.toFixed(1)} mg/dL</span>
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <span className="text-gray-600 text-sm">Máximo:</span>
-                    <span className="font-bold text-red-600">{stats.maxGlucose.toFixed(1)} mg/dL</span>
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <span className="text-gray-600 text-sm">Mínimo:</span>
-                    <span className="font-bold text-green-600">{stats.minGlucose.toFixed(1)} mg/dL</span>
+                    <span className="text-gray-600 text-sm">{t('patientCard.hyperHypo')}</span>
+                    <span className="font-bold">
+                      <span className="text-red-600">{stats?.hyperAlerts ?? 0}</span>
+                      <span className="text-gray-400"> / </span>
+                      <span className="text-sky-600">{stats?.hypoAlerts ?? 0}</span>
+                    </span>
                   </div>
+                  {metrics ? (
+                    <>
+                      <div className="flex justify-between items-center">
+                        <span className="text-gray-600 text-sm">{t('patientCard.mean')}</span>
+                        <span className="font-bold text-gray-900">{formatGlucose(metrics.meanGlucose, unit)}</span>
+                      </div>
+                      <div className="flex justify-between items-center">
+                        <span className="text-gray-600 text-sm">{t('patientCard.gmi')}</span>
+                        <span className="font-bold text-gray-900">{formatNumber(metrics.gmi)}%</span>
+                      </div>
+                      <div className="flex justify-between items-center">
+                        <span className="text-gray-600 text-sm">{t('patientCard.cv')}</span>
+                        <span className={`font-bold ${metrics.cv > 36 ? 'text-red-600' : 'text-green-600'}`}>
+                          {formatNumber(metrics.cv)}%
+                        </span>
+                      </div>
+                      <div className="pt-2">
+                        <p className="text-gray-600 text-sm mb-2">
+                          {t('patientCard.tir', { count: metrics.readings })}
+                        </p>
+                        <TimeInRangeBar metrics={metrics} unit={unit} />
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-sm text-gray-500 italic">
+                      {readingsLoading ? t('app.loadingReadings') : t('patientCard.noReadings')}
+                    </p>
+                  )}
                 </div>
-              </div>
+              </Link>
             );
           })}
         </div>
 
+        {/* ========== DATA QUALITY ========== */}
+        {!readingsLoading && readings.length > 0 && (
+          <DataQualityPanel
+            report={quality}
+            patients={visiblePatients}
+            gapMinutes={qualityGap}
+            onGapChange={setQualityGap}
+            unit={unit}
+          />
+        )}
+
         {/* ========== RECHARTS BAR CHART ========== */}
         <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
               <Activity className="w-6 h-6 text-indigo-600" />
-              Promedio de Glucosa por Contexto de Comida
+              {t('chart.byContext')}
             </h2>
             <div className="flex items-center gap-4 text-sm">
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 bg-sky-500 rounded"></div>
+                <span className="text-gray-600">{t('chart.low', { value: formatLimit(cohortLimits.hipoglucemia) })}</span>
+              </div>
               <div className="flex items-center gap-2">
                 <div className="w-4 h-4 bg-green-500 rounded"></div>
-                <span className="text-gray-600">Normal (&lt;{data.metadata.umbral_hiperglucemia})</span>
+                <span className="text-gray-600">
+                  {t('chart.normal', { from: formatLimit(cohortLimits.hipoglucemia), to: formatLimit(cohortLimits.hiperglucemia) })}
+                </span>
               </div>
               <div className="flex items-center gap-2">
                 <div className="w-4 h-4 bg-red-500 rounded"></div>
-                <span className="text-gray-600">Alto (≥{data.metadata.umbral_hiperglucemia})</span>
+                <span className="text-gray-600">{t('chart.high', { value: formatLimit(cohortLimits.hiperglucemia) })}</span>
               </div>
+              {hasContextThresholds && (
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-0 border-t-2 border-dashed border-gray-700"></div>
+                  <span className="text-gray-600">{t('chart.contextThreshold')}</span>
+                </div>
+              )}
             </div>
           </div>
           
           <ResponsiveContainer width="100%" height={400}>
-            <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+            <ComposedChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
               <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
               <XAxis 
                 dataKey="name" 
@@ -306,7 +575,7 @@ const HealthDashboard: React.FC = () => {
               />
               <YAxis 
                 label={{ 
-                  value: 'Glucosa (mg/dL)', 
+                  value: t('chart.glucoseAxis', { unit }),
                   angle: -90, 
                   position: 'insideLeft',
                   style: { fontSize: '14px', fontWeight: 600, fill: '#374151' }
@@ -314,35 +583,101 @@ const HealthDashboard: React.FC = () => {
                 stroke="#6b7280"
                 tick={{ fill: '#374151' }}
               />
-              <Tooltip content={<CustomTooltip />} />
+              <Tooltip content={CustomTooltip} />
               <ReferenceLine 
-              y={data.metadata.umbral_hiperglucemia}
+              y={roundGlucose(cohortLimits.hiperglucemia, unit, true)}
               stroke="#ef4444"
               strokeWidth={2}
               strokeDasharray="5 5"
               // Pasamos solo el string. Recharts usará el estilo por defecto del stroke.
-              label={`Umbral: ${data.metadata.umbral_hiperglucemia} mg/dL`}
+              label={t('chart.threshold', { value: formatGlucose(cohortLimits.hiperglucemia, unit, { compact: true }) })}
+              />
+              <ReferenceLine 
+              y={roundGlucose(cohortLimits.hipoglucemia, unit, true)}
+              stroke="#0ea5e9"
+              strokeWidth={2}
+              strokeDasharray="5 5"
+              label={t('chart.hypoThreshold', { value: formatGlucose(cohortLimits.hipoglucemia, unit, { compact: true }) })}
               />
               <Bar dataKey="value" radius={[8, 8, 0, 0]}>
                 {chartData.map((entry, index) => (
                   <Cell 
                     key={`cell-${index}`} 
-                    fill={getBarColor(entry.value, data.metadata.umbral_hiperglucemia)} 
+                    fill={getBarColor(entry.value, { hiperglucemia: entry.umbralHiper, hipoglucemia: entry.umbralHipo })} 
                   />
                 ))}
               </Bar>
-            </BarChart>
+              {hasContextThresholds && (
+                <Scatter dataKey="umbralHiper" shape={<ThresholdMarker color="#ef4444" />} isAnimationActive={false} />
+              )}
+              {hasContextThresholds && (
+                <Scatter dataKey="umbralHipo" shape={<ThresholdMarker color="#0ea5e9" />} isAnimationActive={false} />
+              )}
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
 
+        {/* ========== TIMELINE ========== */}
+        <div ref={chartRef} className="bg-white rounded-xl shadow-lg p-6 mb-8 scroll-mt-4">
+          <div className="flex items-center justify-between mb-2 flex-wrap gap-2">
+            <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <Activity className="w-6 h-6 text-indigo-600" />
+              {t('timeline.title')}
+            </h2>
+            <TimeRangeChip range={range} onClear={() => changeRange(null)} />
+          </div>
+          <p className="text-sm text-gray-500 mb-4">{t('timeline.hint')}</p>
+          {readingsLoading ? (
+            <ReadingsProgress />
+          ) : (
+            <GlucoseTimelineChart
+              series={view.timeline}
+              umbralHipo={agpLimits.hipoglucemia}
+              umbralHiper={agpLimits.hiperglucemia}
+              unit={unit}
+              range={range}
+              onRangeChange={changeRange}
+              focusTime={focusTime}
+            />
+          )}
+        </div>
+
+        {/* ========== AGP ========== */}
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+          <div className="flex items-center justify-between mb-2 flex-wrap gap-2">
+            <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <Clock className="w-6 h-6 text-indigo-600" />
+              {t('agp.title')}
+            </h2>
+            <span className="bg-indigo-100 text-indigo-800 px-3 py-1 rounded-full text-sm font-semibold">
+              {filtering ? t('agp.filtered', { count: view.readingCount }) : t('agp.wholeCohort')}
+            </span>
+          </div>
+          {readingsLoading ? (
+            <ReadingsProgress />
+          ) : (
+            <AGPChart
+              bins={view.agp}
+              readings={view.readingCount}
+              days={view.agpDays}
+              umbralHipo={agpLimits.hipoglucemia}
+              umbralHiper={agpLimits.hiperglucemia}
+              unit={unit}
+            />
+          )}
+        </div>
+
         {/* ========== CONTEXT DISTRIBUTION ========== */}
         <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
           <h2 className="text-2xl font-bold text-gray-900 mb-6">
-            Distribución de Alertas por Contexto
+            {t('contextDist.title')}
           </h2>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            {Object.entries(contextStats).map(([context, count]) => {
-              const percentage = ((count / alerts.length) * 100).toFixed(1);
+            {Object.entries(contextStats).map(([context, counts]) => {
+              // Solo hiper e hipo: las alertas de reglas y previstas no se reparten por contexto
+              const count = counts.hiperglucemia + counts.hipoglucemia;
+              const total = view.hyperCount + view.hypoCount;
+              const percentage = formatNumber(total > 0 ? (count / total) * 100 : 0);
               return (
                 <div 
                   key={context} 
@@ -354,64 +689,71 @@ const HealthDashboard: React.FC = () => {
                       {percentage}%
                     </span>
                   </div>
-                  <p className="text-sm text-gray-600 mb-1">{translateContext(context as MealContext)}</p>
+                  <p className="text-sm text-gray-600 mb-1">{t(`context.${context as MealContext}`)}</p>
                   <p className="text-4xl font-bold text-indigo-600 mb-1">{count}</p>
-                  <p className="text-xs text-gray-500">alertas detectadas</p>
+                  <p className="text-xs text-gray-500">
+                    {t('contextDist.detail', { hyper: counts.hiperglucemia, hypo: counts.hipoglucemia })}
+                  </p>
                 </div>
               );
             })}
           </div>
         </div>
 
-        {/* ========== FILTERS ========== */}
-        <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
-          <div className="flex items-center gap-2 mb-4">
-            <Filter className="w-5 h-5 text-indigo-600" />
-            <h3 className="text-xl font-bold text-gray-900">Filtros de Alertas</h3>
-          </div>
-          
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Paciente
-              </label>
-              <select
-                value={selectedPatient || ''}
-                onChange={(e) => setSelectedPatient(e.target.value || null)}
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-600 focus:border-transparent transition-all"
-              >
-                <option value="">Todos los pacientes</option>
-                {patients.map(patient => (
-                  <option key={patient} value={patient}>{patient}</option>
-                ))}
-              </select>
-            </div>
-            
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Contexto de Comida
-              </label>
-              <select
-                value={selectedContext || ''}
-                onChange={(e) => setSelectedContext((e.target.value as MealContext) || null)}
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-600 focus:border-transparent transition-all"
-              >
-                <option value="">Todos los contextos</option>
-                <option value="Fasting">🌅 Ayuno (Fasting)</option>
-                <option value="Post-prandial">🍽️ Post-prandial</option>
-                <option value="Before sleep">🌙 Antes de dormir</option>
-              </select>
+        {/* ========== EPISODES TABLE ========== */}
+        <div className="bg-white rounded-xl shadow-lg overflow-hidden mb-8">
+          <div className="p-6 border-b border-gray-200 bg-gradient-to-r from-orange-50 to-red-50">
+            <div className="flex items-center justify-between flex-wrap gap-4">
+              <div>
+                <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+                  <Layers className="w-6 h-6 text-orange-600" />
+                  {t('episodes.title')}
+                </h2>
+                <p className="text-sm text-gray-600 mt-1">{t('episodes.subtitle')}</p>
+              </div>
+              <div className="flex items-center gap-3 flex-wrap">
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                  {t('episodes.gap')}
+                  <select
+                    value={episodeGap}
+                    onChange={(e) => setEpisodeGap(Number(e.target.value))}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+                  >
+                    {EPISODE_GAP_OPTIONS.map(minutes => (
+                      <option key={minutes} value={minutes}>{t('episodes.gapOption', { minutes })}</option>
+                    ))}
+                  </select>
+                </label>
+                <span className="bg-orange-600 text-white px-4 py-2 rounded-full text-sm font-bold shadow-md">
+                  {t('episodes.count', { count: view.episodes.total })}
+                </span>
+                <span className="bg-white text-red-700 border-2 border-red-200 px-4 py-2 rounded-full text-sm font-bold">
+                  {t('table.count', { count: view.alertCount })}
+                </span>
+                <button
+                  onClick={handleExportEpisodes}
+                  className="flex items-center gap-2 bg-white text-indigo-700 border-2 border-indigo-200 px-4 py-2 rounded-lg hover:bg-indigo-50 transition-colors"
+                >
+                  <Download className="w-5 h-5" />
+                  {t('episodes.export')}
+                </button>
+              </div>
             </div>
           </div>
-          
-          {(selectedPatient || selectedContext) && (
-            <button
-              onClick={clearFilters}
-              className="mt-4 text-indigo-600 hover:text-indigo-800 font-medium text-sm hover:underline"
-            >
-              ✕ Limpiar todos los filtros
-            </button>
-          )}
+
+          <EpisodesTable
+            episodes={view.episodes.items}
+            sortField={episodeSort.sortField}
+            sortOrder={episodeSort.sortOrder}
+            onSort={episodeSort.handleSort}
+            unit={unit}
+          />
+          <Pagination
+            page={view.episodes.page}
+            pageSize={DEFAULT_PAGE_SIZE}
+            total={view.episodes.total}
+            onChange={setEpisodesPage}
+          />
         </div>
 
         {/* ========== ALERTS TABLE ========== */}
@@ -420,111 +762,42 @@ const HealthDashboard: React.FC = () => {
             <div className="flex items-center justify-between">
               <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
                 <AlertTriangle className="w-6 h-6 text-red-600" />
-                Tabla de Alertas de Hiperglucemia
+                {t('table.title')}
               </h2>
-              <span className="bg-red-600 text-white px-4 py-2 rounded-full text-sm font-bold shadow-md">
-                {sortedAlerts.length} alertas
-              </span>
+              <div className="flex items-center gap-2 flex-wrap">
+                <TimeRangeChip range={range} onClear={() => changeRange(null)} />
+                <span className="bg-red-600 text-white px-4 py-2 rounded-full text-sm font-bold shadow-md">
+                  {t('table.count', { count: view.alerts.total })}
+                </span>
+              </div>
             </div>
           </div>
 
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead className="bg-gray-50 border-b-2 border-gray-200">
-                <tr>
-                  <th 
-                    className="px-6 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider cursor-pointer hover:bg-gray-100 transition-colors"
-                    onClick={() => handleSort('timestamp')}
-                  >
-                    <div className="flex items-center gap-2">
-                      <Clock className="w-4 h-4" />
-                      Fecha/Hora {sortField === 'timestamp' && (sortOrder === 'asc' ? '↑' : '↓')}
-                    </div>
-                  </th>
-                  <th 
-                    className="px-6 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider cursor-pointer hover:bg-gray-100 transition-colors"
-                    onClick={() => handleSort('patient_id')}
-                  >
-                    Paciente {sortField === 'patient_id' && (sortOrder === 'asc' ? '↑' : '↓')}
-                  </th>
-                  <th 
-                    className="px-6 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider cursor-pointer hover:bg-gray-100 transition-colors"
-                    onClick={() => handleSort('glucose_level')}
-                  >
-                    <div className="flex items-center gap-2">
-                      <Droplet className="w-4 h-4" />
-                      Glucosa {sortField === 'glucose_level' && (sortOrder === 'asc' ? '↑' : '↓')}
-                    </div>
-                  </th>
-                  <th className="px-6 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">
-                    Contexto
-                  </th>
-                  <th className="px-6 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">
-                    Severidad
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="bg-white divide-y divide-gray-200">
-                {sortedAlerts.map((alert, index) => (
-                  <tr 
-                    key={index} 
-                    className={`hover:bg-indigo-50 transition-colors ${
-                      alert.severidad === 'Alta' ? 'bg-red-50' : ''
-                    }`}
-                  >
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {new Date(alert.timestamp).toLocaleString('es-ES', {
-                        year: 'numeric',
-                        month: 'short',
-                        day: 'numeric',
-                        hour: '2-digit',
-                        minute: '2-digit'
-                      })}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-bold bg-blue-100 text-blue-800">
-                        {alert.patient_id}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div>
-                        <span className="text-xl font-bold text-red-600">
-                          {alert.glucose_level.toFixed(1)}
-                        </span>
-                        <span className="text-sm text-gray-500 ml-1">mg/dL</span>
-                      </div>
-                      <div className="text-xs text-gray-500 mt-1">
-                        +{(alert.glucose_level - data.metadata.umbral_hiperglucemia).toFixed(1)} sobre umbral
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      <div className="flex items-center gap-2">
-                        <span>{getContextIcon(alert.meal_context)}</span>
-                        <span>{translateContext(alert.meal_context)}</span>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-bold ${
-                        alert.severidad === 'Alta' 
-                          ? 'bg-red-600 text-white' 
-                          : 'bg-yellow-100 text-yellow-800'
-                      }`}>
-                        {alert.severidad}
-                      </span>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-
-            {sortedAlerts.length === 0 && (
-              <div className="text-center py-16 bg-green-50">
-                <Heart className="w-20 h-20 text-green-500 mx-auto mb-4 animate-pulse" />
-                <p className="text-2xl font-bold text-gray-900 mb-2">¡Sin alertas!</p>
-                <p className="text-gray-600">No hay alertas de hiperglucemia con los filtros seleccionados</p>
-              </div>
-            )}
-          </div>
+          <AlertsTable
+            alerts={view.alerts.items}
+            sortField={alertSort.sortField}
+            sortOrder={alertSort.sortOrder}
+            onSort={alertSort.handleSort}
+            perfil={perfil}
+            unit={unit}
+            newAlertKeys={newAlertKeys}
+            emptyMessage={range ? t('timeline.emptyWindow') : undefined}
+            onRowClick={focusAlert}
+            selectedKey={selectedKey}
+            reviews={reviews}
+            onReview={saveReview}
+          />
+          <Pagination
+            page={view.alerts.page}
+            pageSize={DEFAULT_PAGE_SIZE}
+            total={view.alerts.total}
+            onChange={setAlertsPage}
+          />
+          {reviewsError && (
+            <p className="px-6 py-3 text-xs text-amber-800 bg-amber-50 border-t border-amber-200">
+              {t('review.storageError', { error: reviewsError })}
+            </p>
+          )}
         </div>
       </main>
     </div>
@@ -535,104 +808,28 @@ const HealthDashboard: React.FC = () => {
 // COMPONENTES AUXILIARES
 // ============================================================================
 
-interface StatCardProps {
-  title: string;
-  value: string | number;
-  icon: React.ReactNode;
-  subtitle?: string;
-  alert?: boolean;
-}
-
-const StatCard: React.FC<StatCardProps> = ({ 
-  title, 
-  value, 
-  icon, 
-  subtitle, 
-  alert = false 
-}) => {
-  const bgColor = alert ? 'bg-red-50 border-red-300' : 'bg-white border-gray-200';
-  const iconColor = alert ? 'bg-red-100 text-red-600' : 'bg-indigo-100 text-indigo-600';
-  
+// Marca horizontal discontinua con el umbral de cada barra
+const ThresholdMarker: React.FC<{ cx?: number; cy?: number; color: string }> = ({ cx, cy, color }) => {
+  if (cx === undefined || cy === undefined) return null;
   return (
-    <div className={`${bgColor} border-2 rounded-xl p-6 shadow-md hover:shadow-xl transition-all hover:-translate-y-1`}>
-      <div className="flex items-start justify-between">
-        <div className="flex-1">
-          <p className="text-gray-600 text-sm font-medium mb-2">{title}</p>
-          <p className="text-3xl font-bold text-gray-900 mb-2">{value}</p>
-          {subtitle && (
-            <p className="text-gray-500 text-sm">{subtitle}</p>
-          )}
-        </div>
-        <div className={`${iconColor} p-3 rounded-lg shadow-sm`}>
-          {icon}
-        </div>
-      </div>
-    </div>
+    <line x1={cx - 50} x2={cx + 50} y1={cy} y2={cy} stroke={color} strokeWidth={3} strokeDasharray="6 4" />
   );
 };
 
 // Tooltip personalizado para Recharts
-const CustomTooltip = ({active, payload}:any) => {
+const CustomTooltip = ({ active, payload }: TooltipContentProps<number, string>) => {
+  const { t, formatNumber } = useI18n();
   if (active && payload && payload.length) {
     const data = payload[0].payload as ChartDataPoint;
     return (
       <div className="bg-white border-2 border-indigo-600 rounded-lg shadow-xl p-4">
         <p className="font-bold text-gray-900 text-lg mb-1">{data.name}</p>
-        <p className="text-indigo-600 font-bold text-2xl mb-1">{data.value} mg/dL</p>
-        <p className="text-xs text-gray-500">Promedio de glucosa</p>
+        <p className="text-indigo-600 font-bold text-2xl mb-1">{formatNumber(data.value)} {data.unit}</p>
+        <p className="text-xs text-gray-500">{t('chart.averageGlucose')}</p>
       </div>
     );
   }
   return null;
 };
 
-// ============================================================================
-// FUNCIONES AUXILIARES
-// ============================================================================
-
-function translateContext(context: MealContext): string {
-  const translations: Record<MealContext, string> = {
-    'Fasting': 'Ayuno',
-    'Post-prandial': 'Post-prandial',
-    'Before sleep': 'Antes de dormir'
-  };
-  return translations[context] || context;
-}
-
-function getContextIcon(context: MealContext): string {
-  const icons: Record<MealContext, string> = {
-    'Fasting': '🌅',
-    'Post-prandial': '🍽️',
-    'Before sleep': '🌙'
-  };
-  return icons[context] || '📊';
-}
-
-function getBarColor(value: number, umbral: number): string {
-  return value > umbral ? '#ef4444' : '#22c55e';
-}
-
-function getTrendIcon(trend: 'increasing' | 'decreasing' | 'stable') {
-  switch (trend) {
-    case 'increasing':
-      return <TrendingUp className="w-5 h-5 text-red-500" />;
-    case 'decreasing':
-      return <TrendingDown className="w-5 h-5 text-green-500" />;
-    default:
-      return <Minus className="w-5 h-5 text-gray-500" />;
-  }
-}
-
-function getTrendText(trend: 'increasing' | 'decreasing' | 'stable'): string {
-  switch (trend) {
-    case 'increasing':
-      return 'Tendencia al alza ⚠️';
-    case 'decreasing':
-      return 'Tendencia a la baja ✅';
-    default:
-      return 'Tendencia estable';
-  }
-}
-
-
 export default HealthDashboard;
\ No newline at end of file
@@ -0,0 +1,361 @@
+// ImportPage.tsx
+// Importación de archivos de dispositivos con vista previa y mapeo (/import)
+import React from 'react';
+import { Link, useNavigate } from 'react-router';
+import { ArrowLeft, FileUp, Upload } from 'lucide-react';
+import { useGlucoseDataContext } from '../context/GlucoseDataContext';
+import { useI18n } from '../context/I18nContext';
+import { GLUCOSE_UNITS, MEAL_CONTEXTS, isGlucoseUnit } from '../analysis/constants';
+import {
+  importReadings,
+  isContextFallback,
+  prepareImport,
+  type ColumnMapping,
+  type DateOrder,
+  type ImportOptions,
+  type ImportPreview,
+} from '../analysis/importers';
+import { getContextIcon, getContextLabel } from './dashboardHelpers';
+import LanguageSwitcher from './LanguageSwitcher';
+import ValidationErrorList from './ValidationErrorList';
+
+/**
+ * Campos del mapeo, en orden de presentación; los opcionales admiten "ninguna"
+ */
+const MAPPING_FIELDS: { key: keyof ColumnMapping; optional: boolean }[] = [
+  { key: 'timestamp', optional: false },
+  { key: 'glucose', optional: false },
+  { key: 'glucoseAlt', optional: true },
+  { key: 'patient', optional: true },
+  { key: 'context', optional: true },
+];
+
+const DATE_ORDERS: readonly DateOrder[] = ['ymd', 'mdy', 'dmy'];
+
+const PREVIEW_ROWS = 5;
+
+const selectClass =
+  'mt-1 w-full px-3 py-2 border-2 border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+const ImportPage: React.FC = () => {
+  const { setImportedDataset, unit } = useGlucoseDataContext();
+  const { t, formatDateTime, formatGlucose } = useI18n();
+  const navigate = useNavigate();
+  const inputRef = React.useRef<HTMLInputElement>(null);
+
+  const [preview, setPreview] = React.useState<ImportPreview | null>(null);
+  const [options, setOptions] = React.useState<ImportOptions | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [dragging, setDragging] = React.useState(false);
+
+  // Se recalcula con cada cambio del mapeo para ver el efecto al instante
+  const result = React.useMemo(
+    () => (preview && options ? importReadings(preview, options) : null),
+    [preview, options]
+  );
+  const mapped = React.useMemo(
+    () => new Set(options ? Object.values(options.mapping).filter((index): index is number => index !== null) : []),
+    [options]
+  );
+
+  const readFile = async (file: File) => {
+    try {
+      const next = prepareImport(await file.text(), file.name);
+      setPreview(next);
+      setOptions(next.suggested);
+      setError(null);
+    } catch (err) {
+      setError(t('import.readError', { message: err instanceof Error ? err.message : String(err) }));
+      setPreview(null);
+      setOptions(null);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) readFile(file);
+  };
+
+  const updateMapping = (key: keyof ColumnMapping, raw: string) => {
+    if (!options) return;
+    setOptions({ ...options, mapping: { ...options.mapping, [key]: raw === '' ? null : Number(raw) } });
+  };
+
+  const loadIntoDashboard = () => {
+    if (!preview || !result || result.readings.length === 0) return;
+    setImportedDataset({
+      fileName: preview.fileName,
+      format: preview.format,
+      readings: result.readings,
+      rejected: result.rejected.length,
+      importedAt: new Date(),
+    });
+    navigate('/');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      {/* ========== HEADER ========== */}
+      <header className="bg-white shadow-md border-b-4 border-indigo-600 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <Link
+            to="/"
+            className="inline-flex items-center gap-2 text-indigo-600 hover:text-indigo-800 font-medium text-sm mb-3"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            {t('app.backToCohort')}
+          </Link>
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <div className="flex items-center gap-4">
+              <div className="bg-indigo-600 p-3 rounded-xl shadow-lg">
+                <FileUp className="w-8 h-8 text-white" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">{t('import.title')}</h1>
+                <p className="text-sm text-gray-600 mt-1">{t('import.subtitle')}</p>
+              </div>
+            </div>
+            <LanguageSwitcher />
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {/* ========== ZONA DE ARRASTRE ========== */}
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={handleDrop}
+          onClick={() => inputRef.current?.click()}
+          className={`bg-white rounded-xl shadow-lg p-10 text-center cursor-pointer border-4 border-dashed transition-colors ${
+            dragging ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200 hover:border-indigo-300'
+          }`}
+        >
+          <Upload className="w-12 h-12 text-indigo-600 mx-auto mb-3" />
+          <p className="text-lg font-semibold text-gray-900">
+            {preview ? preview.fileName : t('import.drop')}
+          </p>
+          <p className="text-sm text-gray-500">{preview ? t('import.changeFile') : t('import.browse')}</p>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".csv,.txt,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) readFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border-2 border-red-300 rounded-xl p-4 text-red-800">{error}</div>
+        )}
+
+        {preview && options && result && (
+          <>
+            {/* ========== MAPEO ========== */}
+            <section className="bg-white rounded-xl shadow-lg p-6">
+              <div className="flex items-center justify-between flex-wrap gap-2 mb-4">
+                <h2 className="text-xl font-bold text-gray-900">{t('import.mapping')}</h2>
+                <span className="bg-indigo-100 text-indigo-800 px-3 py-1 rounded-full text-sm font-semibold">
+                  {t('import.detected')}: {t(`import.format.${preview.format}`)}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-6">
+                {MAPPING_FIELDS.map(({ key, optional }) => (
+                  <label key={key} className="text-xs font-semibold text-gray-600">
+                    {t(`import.column.${key}`)}
+                    <select
+                      value={options.mapping[key] ?? ''}
+                      onChange={(e) => updateMapping(key, e.target.value)}
+                      className={selectClass}
+                    >
+                      {optional && <option value="">{t('import.none')}</option>}
+                      {preview.header.map((name, index) => (
+                        <option key={index} value={index}>{name || `#${index + 1}`}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              <h3 className="text-lg font-bold text-gray-900 mb-3">{t('import.options')}</h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <label className="text-xs font-semibold text-gray-600">
+                  {t('import.unit')}
+                  <select
+                    value={options.unit}
+                    onChange={(e) => {
+                      if (isGlucoseUnit(e.target.value)) setOptions({ ...options, unit: e.target.value });
+                    }}
+                    className={selectClass}
+                  >
+                    {GLUCOSE_UNITS.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-xs font-semibold text-gray-600">
+                  {t('import.dateOrder')}
+                  <select
+                    value={options.dateOrder}
+                    onChange={(e) => setOptions({ ...options, dateOrder: e.target.value as DateOrder })}
+                    className={selectClass}
+                  >
+                    {DATE_ORDERS.map(order => (
+                      <option key={order} value={order}>{t(`import.dateOrder.${order}`)}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-xs font-semibold text-gray-600">
+                  {t('import.patientId')}
+                  <input
+                    type="text"
+                    value={options.patientId}
+                    onChange={(e) => setOptions({ ...options, patientId: e.target.value })}
+                    className={selectClass}
+                  />
+                </label>
+                <label className="text-xs font-semibold text-gray-600">
+                  {t('import.contextFallback')}
+                  <select
+                    value={options.contextFallback}
+                    onChange={(e) => {
+                      if (isContextFallback(e.target.value)) setOptions({ ...options, contextFallback: e.target.value });
+                    }}
+                    title={t('import.contextGuessedHint')}
+                    className={selectClass}
+                  >
+                    <option value="none">{t('import.contextNone')}</option>
+                    <option value="schedule">{t('import.contextSchedule')}</option>
+                    {MEAL_CONTEXTS.map(context => (
+                      <option key={context} value={context}>{getContextIcon(context)} {t(`context.${context}`)}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            </section>
+
+            {/* ========== VISTA PREVIA ========== */}
+            <section className="bg-white rounded-xl shadow-lg p-6">
+              <div className="flex items-center gap-3 flex-wrap mb-4">
+                <span className="bg-green-100 text-green-800 px-3 py-1 rounded-full text-sm font-semibold">
+                  {t('import.readings', { count: result.readings.length })}
+                </span>
+                <span
+                  className={`px-3 py-1 rounded-full text-sm font-semibold ${
+                    result.rejected.length > 0 ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-700'
+                  }`}
+                >
+                  {t('import.rejected', { count: result.rejected.length })}
+                </span>
+                {result.skipped > 0 && (
+                  <span className="bg-gray-100 text-gray-700 px-3 py-1 rounded-full text-sm font-semibold">
+                    {t('import.skipped', { count: result.skipped })}
+                  </span>
+                )}
+                {result.duplicates > 0 && (
+                  <span className="bg-gray-100 text-gray-700 px-3 py-1 rounded-full text-sm font-semibold">
+                    {t('import.duplicates', { count: result.duplicates })}
+                  </span>
+                )}
+              </div>
+
+              {result.rejected.length > 0 && (
+                <ValidationErrorList
+                  errors={result.rejected.map(row => ({ path: t('import.line', { line: row.line }), message: row.message }))}
+                  limit={10}
+                />
+              )}
+
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">{t('import.rawPreview')}</h3>
+              <div className="overflow-x-auto mb-6 border border-gray-200 rounded-lg">
+                <table className="min-w-full text-xs">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {preview.header.map((name, index) => (
+                        <th
+                          key={index}
+                          className={`px-3 py-2 text-left font-semibold whitespace-nowrap ${
+                            mapped.has(index) ? 'bg-indigo-100 text-indigo-900' : 'text-gray-600'
+                          }`}
+                        >
+                          {name}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {preview.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                      <tr key={rowIndex}>
+                        {preview.header.map((_, index) => (
+                          <td
+                            key={index}
+                            className={`px-3 py-1 whitespace-nowrap ${mapped.has(index) ? 'bg-indigo-50 text-gray-900' : 'text-gray-500'}`}
+                          >
+                            {row[index] ?? ''}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">{t('import.normalizedPreview')}</h3>
+              {result.readings.length === 0 ? (
+                <p className="text-sm text-red-700 mb-6">{t('import.noReadings')}</p>
+              ) : (
+                <div className="overflow-x-auto mb-6 border border-gray-200 rounded-lg">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50 text-gray-600">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-semibold">{t('table.datetime')}</th>
+                        <th className="px-3 py-2 text-left font-semibold">{t('table.patient')}</th>
+                        <th className="px-3 py-2 text-left font-semibold">{t('table.glucose')}</th>
+                        <th className="px-3 py-2 text-left font-semibold">{t('table.context')}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {result.readings.slice(0, PREVIEW_ROWS).map((reading, index) => (
+                        <tr key={index}>
+                          <td className="px-3 py-1 text-gray-900">{formatDateTime(reading.timestamp)}</td>
+                          <td className="px-3 py-1 text-gray-900">{reading.patient_id}</td>
+                          <td className="px-3 py-1 text-gray-900">{formatGlucose(reading.glucose_level, unit)}</td>
+                          <td className="px-3 py-1 text-gray-900">
+                            {getContextIcon(reading.meal_context)} {getContextLabel(reading.meal_context, t)}
+                            {reading.meal_context_guessed && (
+                              <span className="ml-1 text-xs italic text-amber-700">{t('import.contextGuessed')}</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <button
+                onClick={loadIntoDashboard}
+                disabled={result.readings.length === 0}
+                className="flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <FileUp className="w-5 h-5" />
+                {t('import.load')}
+              </button>
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ImportPage;
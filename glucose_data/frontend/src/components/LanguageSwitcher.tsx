@@ -0,0 +1,30 @@
+// LanguageSwitcher.tsx
+// Selector de idioma de la interfaz (español o inglés)
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { useI18n } from '../context/I18nContext';
+import { LOCALES, LOCALE_NAMES, isLocale } from '../i18n';
+
+const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border-2 border-indigo-200 bg-white text-sm text-indigo-700">
+      <Languages className="w-4 h-4" aria-hidden="true" />
+      <select
+        value={locale}
+        onChange={(e) => {
+          if (isLocale(e.target.value)) setLocale(e.target.value);
+        }}
+        aria-label={t('app.language')}
+        className="bg-transparent font-medium focus:outline-none"
+      >
+        {LOCALES.map(option => (
+          <option key={option} value={option}>{LOCALE_NAMES[option]}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,60 @@
+// LiveIndicator.tsx
+// Interruptor del modo en vivo con estado de conexión y alertas nuevas
+import React from 'react';
+import { Bell, Radio } from 'lucide-react';
+import { useGlucoseDataContext } from '../context/GlucoseDataContext';
+import { useI18n } from '../context/I18nContext';
+import type { LiveStatus } from '../hooks/useGlucoseData';
+
+const STATUS_DOTS: Record<LiveStatus, string> = {
+  off: 'bg-gray-400',
+  connecting: 'bg-yellow-400 animate-pulse',
+  streaming: 'bg-green-500 animate-pulse',
+  polling: 'bg-green-500',
+  error: 'bg-red-500',
+};
+
+const LiveIndicator: React.FC = () => {
+  const { liveMode, setLiveMode, liveStatus, lastUpdated, newAlertKeys, markAlertsSeen } = useGlucoseDataContext();
+  const { t, formatDateTime } = useI18n();
+
+  return (
+    <div className="flex items-center gap-3 flex-wrap">
+      <button
+        onClick={() => setLiveMode(!liveMode)}
+        className={`flex items-center gap-2 px-4 py-2 rounded-lg border-2 transition-colors ${
+          liveMode
+            ? 'bg-green-50 text-green-800 border-green-300 hover:bg-green-100'
+            : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+        }`}
+        title={liveMode ? t('live.pause') : t('live.start')}
+      >
+        <Radio className="w-5 h-5" />
+        {t('live.toggle')}
+        <span className={`inline-block w-2 h-2 rounded-full ${STATUS_DOTS[liveStatus]}`}></span>
+      </button>
+      {liveMode && (
+        <div className="text-xs text-gray-600 leading-tight">
+          <p className="font-medium">{t(`live.status.${liveStatus}`)}</p>
+          <p>
+            {lastUpdated
+              ? t('live.updated', { time: formatDateTime(lastUpdated, { timeStyle: 'medium' }) })
+              : t('live.waiting')}
+          </p>
+        </div>
+      )}
+      {newAlertKeys.size > 0 && (
+        <button
+          onClick={markAlertsSeen}
+          className="flex items-center gap-1 bg-red-600 text-white px-3 py-1 rounded-full text-xs font-bold shadow-md hover:bg-red-700 animate-pulse"
+          title={t('live.markSeen')}
+        >
+          <Bell className="w-4 h-4" />
+          {t('live.newAlerts', { count: newAlertKeys.size })}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default LiveIndicator;
@@ -0,0 +1,37 @@
+// OfflineBanner.tsx
+// Aviso de trabajo sin conexión con la fecha de los datos en pantalla y si
+// las lecturas son las guardadas
+import React from 'react';
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { useGlucoseDataContext } from '../context/GlucoseDataContext';
+import { useI18n } from '../context/I18nContext';
+
+const OfflineBanner: React.FC = () => {
+  const { data, online, dataFromCache, readingsFromCache, pendingChanges } = useGlucoseDataContext();
+  const { t, formatDateTime } = useI18n();
+  if (online && !dataFromCache && !readingsFromCache) return null;
+
+  return (
+    <div
+      role="status"
+      className="bg-amber-100 border-b-2 border-amber-300 text-amber-900 text-sm px-4 py-2 flex items-center justify-center gap-x-4 gap-y-1 flex-wrap"
+    >
+      <span className="inline-flex items-center gap-2 font-semibold">
+        <CloudOff className="w-4 h-4" />
+        {online ? t('offline.serverUnavailable') : t('offline.title')}
+      </span>
+      {data && (
+        <span>{t('offline.generatedAt', { date: formatDateTime(data.metadata.fecha_generacion) })}</span>
+      )}
+      {readingsFromCache && <span>{t('offline.readingsCached')}</span>}
+      {pendingChanges > 0 && (
+        <span className="inline-flex items-center gap-1">
+          <RefreshCw className="w-3.5 h-3.5" />
+          {t('offline.pending', { count: pendingChanges })}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default OfflineBanner;
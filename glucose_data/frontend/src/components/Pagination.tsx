@@ -0,0 +1,47 @@
+// Pagination.tsx
+// Controles de página para las tablas largas
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { useI18n } from '../context/I18nContext';
+
+interface PaginationProps {
+  page: number; // Índice desde 0
+  pageSize: number;
+  total: number; // Filas en todas las páginas
+  onChange: (page: number) => void;
+}
+
+const Pagination: React.FC<PaginationProps> = ({ page, pageSize, total, onChange }) => {
+  const { t } = useI18n();
+  const pages = Math.max(1, Math.ceil(total / pageSize));
+
+  if (total <= pageSize) return null;
+
+  const buttonClass =
+    'inline-flex items-center gap-1 px-3 py-1.5 rounded-lg border-2 border-indigo-200 text-indigo-700 font-medium hover:bg-indigo-50 transition-colors disabled:opacity-40 disabled:hover:bg-transparent';
+
+  return (
+    <div className="flex items-center justify-between flex-wrap gap-3 px-6 py-4 border-t border-gray-200 text-sm text-gray-600">
+      <span>
+        {t('pagination.range', {
+          from: page * pageSize + 1,
+          to: Math.min((page + 1) * pageSize, total),
+          total,
+        })}
+      </span>
+      <div className="flex items-center gap-2">
+        <button type="button" onClick={() => onChange(page - 1)} disabled={page === 0} className={buttonClass}>
+          <ChevronLeft className="w-4 h-4" />
+          {t('pagination.previous')}
+        </button>
+        <span className="px-2">{t('pagination.page', { page: page + 1, pages })}</span>
+        <button type="button" onClick={() => onChange(page + 1)} disabled={page >= pages - 1} className={buttonClass}>
+          {t('pagination.next')}
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Pagination;
@@ -0,0 +1,310 @@
+// PatientPage.tsx
+// Vista de detalle de un paciente: /patients/:patientId
+import React from 'react';
+import { Link, useParams } from 'react-router';
+import {
+  ArrowLeft,
+  AlertTriangle,
+  Activity,
+  Droplet,
+  Gauge,
+  Heart,
+  TrendingUp,
+  User
+} from 'lucide-react';
+import {
+  useAllAlerts,
+  useAlertSort,
+  useContextStats,
+  usePatientTrend,
+  usePatientForecast,
+  useTrendWindow,
+  usePatientMetrics,
+  useEpisodes,
+  useEpisodeGap,
+  usePageIndex,
+  usePatientQuality,
+  useQualityGap,
+  useUnreviewedCount,
+  useTimelineSeries,
+  useTimelineZoom
+} from '../hooks/useGlucoseData';
+import { useGlucoseDataContext } from '../context/GlucoseDataContext';
+import { useI18n } from '../context/I18nContext';
+import { computeContextAverages, sortByTimestamp } from '../analysis/summary';
+import { MEAL_CONTEXTS } from '../analysis/constants';
+import { resolveThresholds, DEFAULT_PROFILE } from '../analysis/thresholds';
+import { DEFAULT_PAGE_SIZE, alertsInRange, paginate } from '../analysis/dashboard';
+import AlertsTable from './AlertsTable';
+import StatCard from './StatCard';
+import LiveIndicator from './LiveIndicator';
+import UnitToggle from './UnitToggle';
+import LanguageSwitcher from './LanguageSwitcher';
+import TimeInRangeBar from './TimeInRangeBar';
+import GlucoseTimelineChart from './GlucoseTimelineChart';
+import TimeRangeChip from './TimeRangeChip';
+import Pagination from './Pagination';
+import ReadingsProgress from './ReadingsProgress';
+import TrendBadge from './TrendBadge';
+import TrendWindowSelect from './TrendWindowSelect';
+import DataQualityPanel from './DataQualityPanel';
+import UnreliableBadge from './UnreliableBadge';
+import ForecastPanel from './ForecastPanel';
+import { getContextIcon } from './dashboardHelpers';
+
+const PatientPage: React.FC = () => {
+  const { patientId = '' } = useParams();
+  const { data, readings, readingsLoading, newAlertKeys, unit, reviews, saveReview } = useGlucoseDataContext();
+  const { t, formatNumber, formatGlucose } = useI18n();
+
+  // Datos del paciente
+  const allAlerts = useAllAlerts(data);
+  const alerts = React.useMemo(
+    () => allAlerts.filter(alert => alert.patient_id === patientId),
+    [allAlerts, patientId]
+  );
+  const patientReadings = React.useMemo(
+    () => sortByTimestamp(readings.filter(reading => reading.patient_id === patientId)),
+    [readings, patientId]
+  );
+
+  const metrics = usePatientMetrics(patientReadings)[patientId];
+  const contextStats = useContextStats(alerts);
+  const contextAverages = React.useMemo(() => computeContextAverages(patientReadings), [patientReadings]);
+  const [trendWindow, setTrendWindow] = useTrendWindow();
+  const trend = usePatientTrend(patientReadings, trendWindow);
+  const forecasts = usePatientForecast(patientReadings);
+  const [qualityGap, setQualityGap] = useQualityGap();
+  const quality = usePatientQuality(readings, patientId, patientReadings, qualityGap);
+  const { sortedAlerts, sortField, sortOrder, handleSort } = useAlertSort(alerts);
+  const { range, selectedKey, focusTime, changeRange, focusAlert, chartRef } = useTimelineZoom();
+  const visibleAlerts = React.useMemo(() => alertsInRange(sortedAlerts, range), [sortedAlerts, range]);
+  const series = useTimelineSeries(patientReadings, alerts, range);
+  const [page, setPage] = usePageIndex(`${sortField}|${sortOrder}|${range?.start}|${range?.end}`);
+  const alertsPage = paginate(visibleAlerts, page, DEFAULT_PAGE_SIZE);
+  const unreviewedCount = useUnreviewedCount(alerts, reviews);
+  const [episodeGap] = useEpisodeGap();
+  const episodes = useEpisodes(patientReadings, alerts, data?.metadata.perfil_umbrales ?? DEFAULT_PROFILE, episodeGap);
+
+  if (!data) return null;
+
+  const perfil = data.metadata.perfil_umbrales;
+  const limits = resolveThresholds(perfil, patientId, null);
+  const known = alerts.length > 0 || patientReadings.length > 0;
+  const hyperCount = alerts.filter(alert => alert.tipo === 'hiperglucemia').length;
+  const hypoCount = alerts.filter(alert => alert.tipo === 'hipoglucemia').length;
+  const predictedCount = alerts.filter(alert => alert.tipo === 'hiperglucemia_prevista').length;
+  const lastReading = patientReadings[patientReadings.length - 1];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      {/* ========== HEADER ========== */}
+      <header className="bg-white shadow-md border-b-4 border-indigo-600 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <Link
+            to="/"
+            className="inline-flex items-center gap-2 text-indigo-600 hover:text-indigo-800 font-medium text-sm mb-3"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            {t('app.backToCohort')}
+          </Link>
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <div className="flex items-center gap-4">
+              <div className="bg-indigo-600 p-3 rounded-xl shadow-lg">
+                <User className="w-8 h-8 text-white" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">{t('patient.title', { id: patientId })}</h1>
+                {trend && (
+                  <div className="flex items-start gap-3 mt-1">
+                    <TrendBadge trend={trend} unit={unit} showInterval />
+                    <TrendWindowSelect value={trendWindow} onChange={setTrendWindow} />
+                  </div>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center gap-3 flex-wrap">
+              <LiveIndicator />
+              <LanguageSwitcher />
+              <UnitToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!known && !readingsLoading ? (
+          <div className="bg-white rounded-xl shadow-lg p-12 text-center">
+            <AlertTriangle className="w-16 h-16 text-yellow-500 mx-auto mb-4" />
+            <p className="text-2xl font-bold text-gray-900 mb-2">{t('patient.notFound')}</p>
+            <p className="text-gray-600">{t('patient.notFoundDetail', { id: patientId })}</p>
+          </div>
+        ) : (
+          <>
+            {/* ========== STATS GRID ========== */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+              <StatCard
+                title={t('patient.alerts')}
+                value={alerts.length}
+                icon={<AlertTriangle className="w-6 h-6" />}
+                subtitle={`${t('patient.alertsDetail', { hyper: hyperCount, hypo: hypoCount, rules: alerts.length - hyperCount - hypoCount - predictedCount, predicted: predictedCount })} · ${t('episodes.count', { count: episodes.length })}`}
+                alert={alerts.some(alert => alert.severidad === 'high' || alert.severidad === 'level2')}
+              />
+              <StatCard
+                title={t('patient.mean')}
+                value={metrics ? formatGlucose(metrics.meanGlucose, unit) : '—'}
+                icon={<Droplet className="w-6 h-6" />}
+                subtitle={metrics ? t('patient.readings', { count: metrics.readings }) : t('patient.noReadings')}
+                badge={<UnreliableBadge quality={quality.patients[patientId]} />}
+              />
+              <StatCard
+                title={t('patient.gmi')}
+                value={metrics ? `${formatNumber(metrics.gmi)}%` : '—'}
+                icon={<Gauge className="w-6 h-6" />}
+                subtitle={t('patient.gmiDetail')}
+                badge={<UnreliableBadge quality={quality.patients[patientId]} />}
+              />
+              <StatCard
+                title={t('patient.cv')}
+                value={metrics ? `${formatNumber(metrics.cv)}%` : '—'}
+                icon={<TrendingUp className="w-6 h-6" />}
+                subtitle={t('patient.cvDetail')}
+                badge={<UnreliableBadge quality={quality.patients[patientId]} />}
+                alert={metrics ? metrics.cv > 36 : false}
+              />
+            </div>
+
+            {/* ========== TIEMPO EN RANGO ========== */}
+            {metrics && (
+              <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+                <h2 className="text-2xl font-bold text-gray-900 mb-4 flex items-center gap-3">
+                  {t('patient.tir')}
+                  <UnreliableBadge quality={quality.patients[patientId]} />
+                </h2>
+                <TimeInRangeBar metrics={metrics} unit={unit} />
+              </div>
+            )}
+
+            {/* ========== FORECAST ========== */}
+            {!readingsLoading && lastReading && (
+              <ForecastPanel
+                forecasts={forecasts}
+                lastReading={lastReading}
+                threshold={resolveThresholds(perfil, patientId, lastReading.meal_context).hiperglucemia}
+                unit={unit}
+              />
+            )}
+
+            {/* ========== DATA QUALITY ========== */}
+            {!readingsLoading && patientReadings.length > 0 && (
+              <DataQualityPanel
+                report={quality}
+                patients={[patientId]}
+                gapMinutes={qualityGap}
+                onGapChange={setQualityGap}
+                unit={unit}
+              />
+            )}
+
+            {/* ========== TIMELINE ========== */}
+            <div ref={chartRef} className="bg-white rounded-xl shadow-lg p-6 mb-8 scroll-mt-4">
+              <div className="flex items-center justify-between mb-6 flex-wrap gap-2">
+                <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+                  <Activity className="w-6 h-6 text-indigo-600" />
+                  {t('patient.timeline')}
+                </h2>
+                <TimeRangeChip range={range} onClear={() => changeRange(null)} />
+              </div>
+              {readingsLoading ? (
+                <ReadingsProgress />
+              ) : (
+                <GlucoseTimelineChart
+                  series={series}
+                  umbralHipo={limits.hipoglucemia}
+                  umbralHiper={limits.hiperglucemia}
+                  unit={unit}
+                  range={range}
+                  onRangeChange={changeRange}
+                  focusTime={focusTime}
+                  emptyMessage={t('patient.timelineEmpty')}
+                />
+              )}
+            </div>
+
+            {/* ========== CONTEXT BREAKDOWN ========== */}
+            <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+              <h2 className="text-2xl font-bold text-gray-900 mb-6">{t('patient.byContext')}</h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {MEAL_CONTEXTS.map(context => (
+                  <div
+                    key={context}
+                    className="bg-gradient-to-br from-indigo-50 to-purple-50 rounded-lg p-6 border-2 border-indigo-100"
+                  >
+                    <div className="flex items-center gap-2 mb-2">
+                      <span className="text-2xl">{getContextIcon(context)}</span>
+                      <span className="text-sm text-gray-600">{t(`context.${context}`)}</span>
+                    </div>
+                    <p className="text-3xl font-bold text-indigo-600 mb-1">
+                      {contextAverages[context] > 0 ? formatGlucose(contextAverages[context], unit) : '—'}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {t('patient.contextDetail', {
+                        hyper: contextStats[context].hiperglucemia,
+                        hypo: contextStats[context].hipoglucemia,
+                      })}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* ========== ALERT HISTORY ========== */}
+            <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+              <div className="p-6 border-b border-gray-200 bg-gradient-to-r from-red-50 to-pink-50">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+                    <Heart className="w-6 h-6 text-red-600" />
+                    {t('patient.history')}
+                  </h2>
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <TimeRangeChip range={range} onClear={() => changeRange(null)} />
+                    {unreviewedCount > 0 && (
+                      <span className="bg-amber-100 text-amber-800 border-2 border-amber-200 px-4 py-2 rounded-full text-sm font-bold">
+                        {t('review.unreviewed', { count: unreviewedCount })}
+                      </span>
+                    )}
+                    <span className="bg-red-600 text-white px-4 py-2 rounded-full text-sm font-bold shadow-md">
+                      {t('table.count', { count: visibleAlerts.length })}
+                    </span>
+                  </div>
+                </div>
+              </div>
+              <AlertsTable
+                alerts={alertsPage.items}
+                sortField={sortField}
+                sortOrder={sortOrder}
+                onSort={handleSort}
+                perfil={perfil}
+                unit={unit}
+                newAlertKeys={newAlertKeys}
+                emptyMessage={range ? t('timeline.emptyWindow') : t('patient.noAlerts', { id: patientId })}
+                onRowClick={focusAlert}
+                selectedKey={selectedKey}
+                reviews={reviews}
+                onReview={saveReview}
+              />
+              <Pagination
+                page={alertsPage.page}
+                pageSize={DEFAULT_PAGE_SIZE}
+                total={alertsPage.total}
+                onChange={setPage}
+              />
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default PatientPage;
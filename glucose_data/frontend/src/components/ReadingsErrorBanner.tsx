@@ -0,0 +1,35 @@
+// ReadingsErrorBanner.tsx
+// Aviso de que no se pudieron cargar las lecturas, con opción de reintentar
+import React from 'react';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { useGlucoseDataContext } from '../context/GlucoseDataContext';
+import { useI18n } from '../context/I18nContext';
+
+const ReadingsErrorBanner: React.FC = () => {
+  const { readingsError, readingsLoading, retryReadings } = useGlucoseDataContext();
+  const { t } = useI18n();
+  if (!readingsError || readingsLoading) return null;
+
+  return (
+    <div
+      role="alert"
+      className="bg-red-50 border-b-2 border-red-200 text-red-900 text-sm px-4 py-2 flex items-center justify-center gap-x-4 gap-y-1 flex-wrap"
+    >
+      <span className="inline-flex items-center gap-2 font-semibold">
+        <AlertTriangle className="w-4 h-4" />
+        {t('app.readingsError')}
+      </span>
+      <span className="text-red-700">{t('app.readingsErrorDetail', { error: readingsError })}</span>
+      <button
+        type="button"
+        onClick={retryReadings}
+        className="inline-flex items-center gap-1 bg-white border-2 border-red-200 text-red-700 px-3 py-1 rounded-lg font-medium hover:bg-red-100 transition-colors"
+      >
+        <RefreshCw className="w-3.5 h-3.5" />
+        {t('app.retry')}
+      </button>
+    </div>
+  );
+};
+
+export default ReadingsErrorBanner;
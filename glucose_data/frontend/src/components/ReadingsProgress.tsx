@@ -0,0 +1,34 @@
+// ReadingsProgress.tsx
+// Avance de la carga del CSV de lecturas (lecturas procesadas y barra)
+import React from 'react';
+import { useGlucoseDataContext } from '../context/GlucoseDataContext';
+import { useI18n } from '../context/I18nContext';
+
+const ReadingsProgress: React.FC<{ className?: string }> = ({ className = 'py-16' }) => {
+  const { readingsProgress } = useGlucoseDataContext();
+  const { t } = useI18n();
+  const percent = readingsProgress?.totalBytes
+    ? Math.min(100, Math.round((readingsProgress.loadedBytes / readingsProgress.totalBytes) * 100))
+    : null;
+
+  return (
+    <div className={`text-center text-gray-500 ${className}`} role="status">
+      <p>{t('app.loadingReadings')}</p>
+      {readingsProgress && (
+        <>
+          <p className="text-xs mt-1">
+            {t('app.loadingProgress', { count: readingsProgress.readings })}
+            {percent !== null && ` · ${percent}%`}
+          </p>
+          {percent !== null && (
+            <div className="w-64 max-w-full h-2 bg-gray-200 rounded-full overflow-hidden mx-auto mt-2">
+              <div className="h-full bg-indigo-600 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReadingsProgress;
@@ -0,0 +1,385 @@
+// SnapshotHistoryPage.tsx
+// Historial de resúmenes (/history): qué cambió entre dos generaciones
+import React from 'react';
+import { Link } from 'react-router';
+import { Activity, AlertTriangle, ArrowLeft, ArrowLeftRight, CheckCircle, History, Users } from 'lucide-react';
+import { useSnapshotDiff, useSnapshotHistory } from '../hooks/useGlucoseData';
+import { useGlucoseDataContext } from '../context/GlucoseDataContext';
+import { useI18n } from '../context/I18nContext';
+import { alertKey } from '../analysis/alerts';
+import { compareValues } from '../analysis/comparison';
+import { MEAL_CONTEXTS } from '../analysis/constants';
+import type { SnapshotDelta } from '../analysis/snapshots';
+import type { AlertaGlucosa, GlucoseUnit } from './types';
+import {
+  formatSigned,
+  getContextIcon,
+  getContextLabel,
+  getRowColor,
+  getSeverityBadge,
+  getSeverityLabel,
+  getTrendIcon,
+} from './dashboardHelpers';
+import StatCard from './StatCard';
+import LanguageSwitcher from './LanguageSwitcher';
+import UnitToggle from './UnitToggle';
+
+const selectClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-600 focus:border-transparent transition-all';
+
+/**
+ * Lista compacta de las alertas nuevas o desaparecidas
+ */
+const SnapshotAlertList: React.FC<{
+  title: string;
+  hint: string;
+  alerts: AlertaGlucosa[];
+  unit: GlucoseUnit;
+}> = ({ title, hint, alerts, unit }) => {
+  const { t, formatDateTime, formatGlucose } = useI18n();
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-2xl font-bold text-gray-900">{title}</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          {t('table.count', { count: alerts.length })} · {hint}
+        </p>
+      </div>
+      {alerts.length === 0 ? (
+        <p className="text-center text-gray-500 py-10 text-sm">{t('history.noAlerts')}</p>
+      ) : (
+        <div className="overflow-auto max-h-96">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b-2 border-gray-200 sticky top-0">
+              <tr>
+                {(['table.datetime', 'table.patient', 'table.glucose', 'table.context', 'table.severity'] as const).map(key => (
+                  <th key={key} className="px-4 py-3 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">
+                    {t(key)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {alerts.map(alert => (
+                <tr key={alertKey(alert)} className={getRowColor(alert)}>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                    {formatDateTime(alert.timestamp, {
+                      year: 'numeric',
+                      month: 'short',
+                      day: 'numeric',
+                      hour: '2-digit',
+                      minute: '2-digit'
+                    })}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <Link
+                      to={`/patients/${encodeURIComponent(alert.patient_id)}`}
+                      className="inline-flex items-center px-3 py-1 rounded-full text-xs font-bold bg-blue-100 text-blue-800 hover:bg-blue-200 transition-colors"
+                    >
+                      {alert.patient_id}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm font-semibold text-gray-900">
+                    {formatGlucose(alert.glucose_level, unit)}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                    {getContextIcon(alert.meal_context)} {getContextLabel(alert.meal_context, t)}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-bold ${getSeverityBadge(alert)}`}>
+                      {getSeverityLabel(alert, t)}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SnapshotHistoryPage: React.FC = () => {
+  const { sourceData, unit } = useGlucoseDataContext();
+  const { snapshots, loading, error } = useSnapshotHistory();
+  const { t, formatNumber, formatGlucose, formatDateTime } = useI18n();
+
+  // null hasta que se elige: el último resumen contra el anterior
+  const [selected, setSelected] = React.useState<[string, string] | null>(null);
+  const byKey = React.useMemo(
+    () => new Map(snapshots.map(snapshot => [snapshot.generatedAt, snapshot])),
+    [snapshots]
+  );
+  const defaults: [string, string] | null =
+    snapshots.length >= 2 ? [snapshots[1].generatedAt, snapshots[0].generatedAt] : null;
+  // Si se descartó alguno de los elegidos (límite del historial) se vuelve a los de por defecto
+  const keys = selected && selected.every(key => byKey.has(key)) ? selected : defaults;
+  const before = keys ? byKey.get(keys[0]) ?? null : null;
+  const after = keys ? byKey.get(keys[1]) ?? null : null;
+  const diff = useSnapshotDiff(before?.data ?? null, after?.data ?? null);
+
+  const formatCount = (value: number) => formatNumber(value, 0);
+  const countDelta = (value: SnapshotDelta) => (
+    <span className="inline-flex items-center gap-1">
+      {getTrendIcon(compareValues(value.before, value.after, 0))}
+      {formatSigned(value.delta, formatCount)}
+    </span>
+  );
+  const snapshotLabel = (generatedAt: string) => {
+    const date = formatDateTime(generatedAt, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    return generatedAt === sourceData?.metadata.fecha_generacion ? t('history.current', { date }) : date;
+  };
+  const updateKey = (index: 0 | 1, key: string) => {
+    if (!keys) return;
+    const next: [string, string] = [...keys];
+    next[index] = key;
+    setSelected(next);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      {/* ========== HEADER ========== */}
+      <header className="bg-white shadow-md border-b-4 border-indigo-600 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <Link
+            to="/"
+            className="inline-flex items-center gap-2 text-indigo-600 hover:text-indigo-800 font-medium text-sm mb-3"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            {t('app.backToCohort')}
+          </Link>
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <div className="flex items-center gap-4">
+              <div className="bg-indigo-600 p-3 rounded-xl shadow-lg">
+                <History className="w-8 h-8 text-white" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">{t('history.title')}</h1>
+                <p className="text-sm text-gray-600 mt-1">{t('history.subtitle')}</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3 flex-wrap">
+              <LanguageSwitcher />
+              <UnitToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="mb-8 bg-red-50 border-2 border-red-200 rounded-xl p-4 text-sm text-red-800" role="alert">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-center text-gray-500 py-16">{t('app.loading')}</p>
+        ) : !keys ? (
+          <p className="text-center text-gray-500 py-16 max-w-xl mx-auto">
+            {t('history.notEnough', { count: snapshots.length })}
+          </p>
+        ) : (
+          <>
+            {/* ========== SELECCIÓN ========== */}
+            <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-4 items-end">
+                {([0, 1] as const).map(index => (
+                  <React.Fragment key={index}>
+                    <label className="block">
+                      <span className="block text-sm font-medium text-gray-700 mb-1">
+                        {t(index === 0 ? 'history.before' : 'history.after')}
+                      </span>
+                      <select
+                        value={keys[index]}
+                        onChange={e => updateKey(index, e.target.value)}
+                        className={selectClass}
+                      >
+                        {snapshots.map(snapshot => (
+                          <option key={snapshot.generatedAt} value={snapshot.generatedAt}>
+                            {snapshotLabel(snapshot.generatedAt)}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    {index === 0 && (
+                      <button
+                        type="button"
+                        onClick={() => setSelected([keys[1], keys[0]])}
+                        title={t('history.swap')}
+                        aria-label={t('history.swap')}
+                        className="justify-self-center p-2 rounded-lg text-indigo-700 border-2 border-indigo-200 hover:bg-indigo-50 transition-colors"
+                      >
+                        <ArrowLeftRight className="w-5 h-5" />
+                      </button>
+                    )}
+                  </React.Fragment>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-3">
+                {t('history.saved', { count: snapshots.length })}
+                {keys[0] > keys[1] && <> · {t('history.reversed')}</>}
+              </p>
+            </div>
+
+            {keys[0] === keys[1] ? (
+              <p className="text-center text-gray-500 py-16">{t('history.sameSnapshot')}</p>
+            ) : diff && (
+              <>
+                {/* ========== RESUMEN DE CAMBIOS ========== */}
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+                  <StatCard
+                    title={t('history.newAlerts')}
+                    value={formatCount(diff.newAlerts.length)}
+                    icon={<AlertTriangle className="w-6 h-6" />}
+                    subtitle={t('history.unchanged', { count: diff.unchangedCount })}
+                    alert={diff.newAlerts.length > 0}
+                  />
+                  <StatCard
+                    title={t('history.removedAlerts')}
+                    value={formatCount(diff.removedAlerts.length)}
+                    icon={<CheckCircle className="w-6 h-6" />}
+                    subtitle={t('history.removedHint')}
+                  />
+                  <StatCard
+                    title={t('history.newlyAffected')}
+                    value={formatCount(diff.newlyAffected.length)}
+                    icon={<Users className="w-6 h-6" />}
+                    subtitle={t('history.noLongerAffected', { count: diff.noLongerAffected.length })}
+                    alert={diff.newlyAffected.length > 0}
+                  />
+                  <StatCard
+                    title={t('history.totals')}
+                    value={formatSigned(diff.totalHyper.delta + diff.totalHypo.delta, formatCount)}
+                    icon={<Activity className="w-6 h-6" />}
+                    subtitle={t('history.totalsDetail', {
+                      before: formatCount(diff.totalHyper.before + diff.totalHypo.before),
+                      after: formatCount(diff.totalHyper.after + diff.totalHypo.after),
+                    })}
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+                  {/* ========== TOTALES Y PROMEDIOS ========== */}
+                  <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+                    <div className="p-6 border-b border-gray-200">
+                      <h2 className="text-2xl font-bold text-gray-900">{t('history.changes')}</h2>
+                    </div>
+                    <table className="w-full">
+                      <thead className="bg-gray-50 border-b-2 border-gray-200">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">
+                            {t('compare.metric')}
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-bold text-gray-600 uppercase tracking-wider">
+                            {t('history.before')}
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-bold text-gray-600 uppercase tracking-wider">
+                            {t('history.after')}
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-bold text-gray-600 uppercase tracking-wider">
+                            {t('history.delta')}
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200 text-sm">
+                        {([
+                          ['history.totalHyper', diff.totalHyper],
+                          ['history.totalHypo', diff.totalHypo],
+                        ] as const).map(([key, value]) => (
+                          <tr key={key} className="hover:bg-indigo-50 transition-colors">
+                            <td className="px-6 py-3 whitespace-nowrap font-medium text-gray-900">{t(key)}</td>
+                            <td className="px-6 py-3 whitespace-nowrap text-right text-gray-900">{formatCount(value.before)}</td>
+                            <td className="px-6 py-3 whitespace-nowrap text-right text-gray-900">{formatCount(value.after)}</td>
+                            <td className="px-6 py-3 whitespace-nowrap text-right font-semibold text-gray-900">{countDelta(value)}</td>
+                          </tr>
+                        ))}
+                        {MEAL_CONTEXTS.map(context => {
+                          const value = diff.contextAverages[context];
+                          return (
+                            <tr key={context} className="hover:bg-indigo-50 transition-colors">
+                              <td className="px-6 py-3 whitespace-nowrap font-medium text-gray-900">
+                                {getContextIcon(context)} {t('history.contextAverage', { context: t(`context.${context}`) })}
+                              </td>
+                              <td className="px-6 py-3 whitespace-nowrap text-right text-gray-900">
+                                {formatGlucose(value.before, unit)}
+                              </td>
+                              <td className="px-6 py-3 whitespace-nowrap text-right text-gray-900">
+                                {formatGlucose(value.after, unit)}
+                              </td>
+                              <td className="px-6 py-3 whitespace-nowrap text-right font-semibold text-gray-900">
+                                <span className="inline-flex items-center gap-1">
+                                  {getTrendIcon(compareValues(value.before, value.after, 5))}
+                                  {formatSigned(value.delta, delta => formatGlucose(delta, unit))}
+                                </span>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {/* ========== PACIENTES ========== */}
+                  <div className="bg-white rounded-xl shadow-lg p-6">
+                    <h2 className="text-2xl font-bold text-gray-900 mb-4">{t('history.patients')}</h2>
+                    {([
+                      ['history.newlyAffectedList', diff.newlyAffected, 'bg-red-100 text-red-800 hover:bg-red-200'],
+                      ['history.noLongerAffectedList', diff.noLongerAffected, 'bg-green-100 text-green-800 hover:bg-green-200'],
+                    ] as const).map(([key, patients, badge]) => (
+                      <div key={key} className="mb-4 last:mb-0">
+                        <h3 className="text-sm font-semibold text-gray-700 mb-2">{t(key)}</h3>
+                        {patients.length === 0 ? (
+                          <p className="text-sm text-gray-500">{t('history.noPatients')}</p>
+                        ) : (
+                          <div className="flex flex-wrap gap-2">
+                            {patients.map(patient => (
+                              <Link
+                                key={patient}
+                                to={`/patients/${encodeURIComponent(patient)}`}
+                                className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-bold transition-colors ${badge}`}
+                              >
+                                {patient}
+                              </Link>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {/* ========== ALERTAS ========== */}
+                <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                  <SnapshotAlertList
+                    title={t('history.newAlerts')}
+                    hint={t('history.newHint')}
+                    alerts={diff.newAlerts}
+                    unit={unit}
+                  />
+                  <SnapshotAlertList
+                    title={t('history.removedAlerts')}
+                    hint={t('history.removedHint')}
+                    alerts={diff.removedAlerts}
+                    unit={unit}
+                  />
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SnapshotHistoryPage;
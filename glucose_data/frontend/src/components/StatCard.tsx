@@ -0,0 +1,46 @@
+// StatCard.tsx
+// Tarjeta de estadística del dashboard
+import React from 'react';
+
+interface StatCardProps {
+  title: string;
+  value: string | number;
+  icon: React.ReactNode;
+  subtitle?: string;
+  alert?: boolean;
+  badge?: React.ReactNode; // Junto al título (ej. aviso de datos poco fiables)
+}
+
+const StatCard: React.FC<StatCardProps> = ({ 
+  title, 
+  value, 
+  icon, 
+  subtitle, 
+  alert = false,
+  badge
+}) => {
+  const bgColor = alert ? 'bg-red-50 border-red-300' : 'bg-white border-gray-200';
+  const iconColor = alert ? 'bg-red-100 text-red-600' : 'bg-indigo-100 text-indigo-600';
+  
+  return (
+    <div className={`${bgColor} border-2 rounded-xl p-6 shadow-md hover:shadow-xl transition-all hover:-translate-y-1`}>
+      <div className="flex items-start justify-between">
+        <div className="flex-1">
+          <p className="text-gray-600 text-sm font-medium mb-2 flex items-center gap-2 flex-wrap">
+            {title}
+            {badge}
+          </p>
+          <p className="text-3xl font-bold text-gray-900 mb-2">{value}</p>
+          {subtitle && (
+            <p className="text-gray-500 text-sm">{subtitle}</p>
+          )}
+        </div>
+        <div className={`${iconColor} p-3 rounded-lg shadow-sm`}>
+          {icon}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatCard;
@@ -0,0 +1,366 @@
+// ThresholdSettings.tsx
+// Ajustes: edición de perfiles de umbrales (/settings)
+import React from 'react';
+import { Link } from 'react-router';
+import { ArrowLeft, Bell, Copy, Plus, RotateCcw, Settings, Trash2, Zap } from 'lucide-react';
+import { useGlucoseDataContext } from '../context/GlucoseDataContext';
+import { usePatientList } from '../hooks/useGlucoseData';
+import { MEAL_CONTEXTS } from '../analysis/constants';
+import { PRESET_PROFILES, resolveThresholds } from '../analysis/thresholds';
+import { roundGlucose, toMgdl } from '../analysis/units';
+import { getContextIcon } from './dashboardHelpers';
+import { useI18n } from '../context/I18nContext';
+import UnitToggle from './UnitToggle';
+import LanguageSwitcher from './LanguageSwitcher';
+import type { GlucoseUnit, ThresholdLimits, ThresholdOverride, ThresholdProfile } from './types';
+
+/**
+ * Campos editables de un conjunto de límites, en orden de presentación
+ */
+const LIMIT_FIELDS: (keyof ThresholdLimits)[] = ['hiperglucemia', 'severidad_alta', 'hipoglucemia', 'hipoglucemia_grave'];
+
+interface LimitInputsProps {
+  value: ThresholdOverride; // mg/dL
+  inherited: ThresholdLimits; // Valores que se aplican si un campo queda vacío
+  onChange: (value: ThresholdOverride) => void;
+  unit: GlucoseUnit;
+  required?: boolean;
+}
+
+interface LimitFieldProps {
+  label: string;
+  mgdl: number | undefined;
+  placeholder: number;
+  unit: GlucoseUnit;
+  onCommit: (raw: string) => void;
+}
+
+/**
+ * Campo numérico en la unidad de presentación
+ *
+ * Mientras se escribe se conserva el texto tal cual (ej. "7." en mmol/L) y
+ * el valor se confirma al salir del campo o pulsar Enter.
+ */
+const LimitField: React.FC<LimitFieldProps> = ({ label, mgdl, placeholder, unit, onCommit }) => {
+  const [draft, setDraft] = React.useState<string | null>(null);
+  const shown = draft ?? (mgdl === undefined ? '' : String(roundGlucose(mgdl, unit)));
+
+  return (
+    <label className="text-xs font-semibold text-gray-600">
+      {label}
+      <input
+        type="number"
+        min={0}
+        step={unit === 'mmol/L' ? 0.1 : 1}
+        value={shown}
+        placeholder={String(roundGlucose(placeholder, unit))}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => {
+          if (draft !== null) onCommit(draft);
+          setDraft(null);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur();
+        }}
+        className="mt-1 w-full px-3 py-2 border-2 border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+      />
+    </label>
+  );
+};
+
+/**
+ * Fila de cuatro campos numéricos; vacío = hereda del nivel superior
+ */
+const LimitInputs: React.FC<LimitInputsProps> = ({ value, inherited, onChange, unit, required = false }) => {
+  const { t } = useI18n();
+  const handleCommit = (key: keyof ThresholdLimits, raw: string) => {
+    const parsed = Number(raw);
+    const next = { ...value };
+    if (raw.trim() === '' || !Number.isFinite(parsed) || parsed <= 0) {
+      if (required) return;
+      delete next[key];
+    } else {
+      next[key] = Math.round(toMgdl(parsed, unit) * 10) / 10;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      {LIMIT_FIELDS.map(key => (
+        <LimitField
+          key={key}
+          label={t(`settings.field.${key}`)}
+          mgdl={value[key]}
+          placeholder={inherited[key]}
+          unit={unit}
+          onCommit={(raw) => handleCommit(key, raw)}
+        />
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Quita las sobrescrituras vacías para no guardar objetos `{}`
+ */
+function compact<T extends object>(overrides: Record<string, T | undefined>): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(overrides).filter((entry): entry is [string, T] => !!entry[1] && Object.keys(entry[1]).length > 0)
+  );
+}
+
+const ThresholdSettings: React.FC = () => {
+  const {
+    sourceData, readings, profiles, setProfiles, activeProfileId, setActiveProfileId, unit,
+  } = useGlucoseDataContext();
+  const { t } = useI18n();
+  const patients = usePatientList(readings);
+  const [editingId, setEditingId] = React.useState<string | null>(activeProfileId ?? profiles[0]?.id ?? null);
+
+  const editing = profiles.find(profile => profile.id === editingId) ?? null;
+  const summaryProfile = sourceData?.metadata.perfil_umbrales;
+
+  const updateProfile = (profile: ThresholdProfile) => {
+    setProfiles(profiles.map(item => (item.id === profile.id ? profile : item)));
+  };
+
+  const addProfile = (base: ThresholdProfile, nombre: string) => {
+    const profile = { ...structuredClone(base), id: `perfil-${Date.now()}`, nombre };
+    setProfiles([...profiles, profile]);
+    setEditingId(profile.id);
+  };
+
+  const deleteProfile = (id: string) => {
+    const remaining = profiles.filter(profile => profile.id !== id);
+    setProfiles(remaining);
+    if (activeProfileId === id) setActiveProfileId(null);
+    setEditingId(remaining[0]?.id ?? null);
+  };
+
+  const resetProfiles = () => {
+    setProfiles([...PRESET_PROFILES]);
+    setActiveProfileId(null);
+    setEditingId(PRESET_PROFILES[0].id);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      {/* ========== HEADER ========== */}
+      <header className="bg-white shadow-md border-b-4 border-indigo-600 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center gap-4 mb-3">
+            <Link
+              to="/"
+              className="inline-flex items-center gap-2 text-indigo-600 hover:text-indigo-800 font-medium text-sm"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              {t('app.backToCohort')}
+            </Link>
+            <Link
+              to="/settings/rules"
+              className="inline-flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium text-sm"
+            >
+              <Zap className="w-4 h-4" />
+              {t('rules.link')}
+            </Link>
+            <Link
+              to="/settings/notifications"
+              className="inline-flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium text-sm"
+            >
+              <Bell className="w-4 h-4" />
+              {t('notifications.link')}
+            </Link>
+          </div>
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <div className="flex items-center gap-4">
+              <div className="bg-indigo-600 p-3 rounded-xl shadow-lg">
+                <Settings className="w-8 h-8 text-white" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">{t('settings.title')}</h1>
+                <p className="text-sm text-gray-600 mt-1">{t('settings.subtitle')}</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <LanguageSwitcher />
+              <UnitToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* ========== LISTA DE PERFILES ========== */}
+        <section className="bg-white rounded-xl shadow-lg p-6 h-fit">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">{t('settings.activeProfile')}</h2>
+          <ul className="space-y-2 mb-6">
+            <li>
+              <label className="flex items-center gap-3 p-3 rounded-lg border-2 border-gray-200 cursor-pointer hover:border-indigo-300">
+                <input
+                  type="radio"
+                  name="perfil-activo"
+                  checked={activeProfileId === null}
+                  onChange={() => setActiveProfileId(null)}
+                />
+                <span className="text-sm">
+                  <span className="font-semibold text-gray-900">{t('settings.summaryProfile')}</span>
+                  {summaryProfile && <span className="block text-gray-500">{summaryProfile.nombre}</span>}
+                </span>
+              </label>
+            </li>
+            {profiles.map(profile => (
+              <li key={profile.id}>
+                <label
+                  className={`flex items-center gap-3 p-3 rounded-lg border-2 cursor-pointer ${
+                    profile.id === editingId ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200 hover:border-indigo-300'
+                  }`}
+                  onClick={() => setEditingId(profile.id)}
+                >
+                  <input
+                    type="radio"
+                    name="perfil-activo"
+                    checked={activeProfileId === profile.id}
+                    onChange={() => setActiveProfileId(profile.id)}
+                  />
+                  <span className="text-sm font-semibold text-gray-900">{profile.nombre}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex flex-col gap-2">
+            <select
+              value=""
+              onChange={(e) => {
+                const preset = PRESET_PROFILES.find(profile => profile.id === e.target.value);
+                if (preset) addProfile(preset, t('settings.copySuffix', { name: preset.nombre }));
+              }}
+              className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="">{t('settings.newFrom')}</option>
+              {PRESET_PROFILES.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.nombre}</option>
+              ))}
+            </select>
+            {summaryProfile && (
+              <button
+                onClick={() => addProfile(summaryProfile, t('settings.summarySuffix', { name: summaryProfile.nombre }))}
+                className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100"
+              >
+                <Plus className="w-4 h-4" />
+                {t('settings.copySummary')}
+              </button>
+            )}
+            <button
+              onClick={resetProfiles}
+              className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+            >
+              <RotateCcw className="w-4 h-4" />
+              {t('settings.reset')}
+            </button>
+          </div>
+        </section>
+
+        {/* ========== EDITOR ========== */}
+        <section className="lg:col-span-2 bg-white rounded-xl shadow-lg p-6">
+          {!editing ? (
+            <p className="text-center text-gray-500 py-16">{t('settings.selectProfile')}</p>
+          ) : (
+            <>
+              <div className="flex items-end gap-3 mb-6 flex-wrap">
+                <label className="flex-1 text-sm font-semibold text-gray-700">
+                  {t('settings.name')}
+                  <input
+                    type="text"
+                    value={editing.nombre}
+                    onChange={(e) => updateProfile({ ...editing, nombre: e.target.value })}
+                    className="mt-1 w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                </label>
+                <button
+                  onClick={() => addProfile(editing, t('settings.copySuffix', { name: editing.nombre }))}
+                  className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100"
+                >
+                  <Copy className="w-4 h-4" />
+                  {t('settings.duplicate')}
+                </button>
+                <button
+                  onClick={() => deleteProfile(editing.id)}
+                  className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-red-700 bg-red-50 rounded-lg hover:bg-red-100"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  {t('settings.delete')}
+                </button>
+              </div>
+
+              <h3 className="text-lg font-bold text-gray-900 mb-2">{t('settings.defaults', { unit })}</h3>
+              <div className="mb-8">
+                <LimitInputs
+                  value={editing.por_defecto}
+                  inherited={editing.por_defecto}
+                  unit={unit}
+                  required
+                  onChange={(value) => updateProfile({ ...editing, por_defecto: { ...editing.por_defecto, ...value } })}
+                />
+              </div>
+
+              <h3 className="text-lg font-bold text-gray-900 mb-1">{t('settings.byContext')}</h3>
+              <p className="text-xs text-gray-500 mb-3">{t('settings.byContextHint')}</p>
+              <div className="space-y-4 mb-8">
+                {MEAL_CONTEXTS.map(context => (
+                  <div key={context}>
+                    <p className="text-sm font-semibold text-gray-700 mb-1">
+                      {getContextIcon(context)} {t(`context.${context}`)}
+                    </p>
+                    <LimitInputs
+                      value={editing.por_contexto[context] ?? {}}
+                      inherited={editing.por_defecto}
+                      unit={unit}
+                      onChange={(value) => updateProfile({
+                        ...editing,
+                        por_contexto: compact({ ...editing.por_contexto, [context]: value }),
+                      })}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <h3 className="text-lg font-bold text-gray-900 mb-1">{t('settings.byPatient')}</h3>
+              <p className="text-xs text-gray-500 mb-3">{t('settings.byPatientHint')}</p>
+              <div className="space-y-4">
+                {patients.length === 0 && (
+                  <p className="text-sm text-gray-500">{t('settings.noReadings')}</p>
+                )}
+                {patients.map(patientId => {
+                  const patient = editing.por_paciente[patientId] ?? {};
+                  return (
+                    <div key={patientId}>
+                      <p className="text-sm font-semibold text-gray-700 mb-1">{patientId}</p>
+                      <LimitInputs
+                        value={patient.por_defecto ?? {}}
+                        inherited={resolveThresholds(editing, null, null)}
+                        unit={unit}
+                        onChange={(value) => updateProfile({
+                          ...editing,
+                          por_paciente: compact({
+                            ...editing.por_paciente,
+                            [patientId]: Object.keys(value).length > 0 || patient.por_contexto
+                              ? { ...patient, por_defecto: value }
+                              : undefined,
+                          }),
+                        })}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default ThresholdSettings;
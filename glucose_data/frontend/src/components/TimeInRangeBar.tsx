@@ -0,0 +1,85 @@
+// TimeInRangeBar.tsx
+// Barra apilada de tiempo en rango (colores del informe AGP estándar)
+import React from 'react';
+import { TIR_LIMITS, type GlycemicMetrics } from '../analysis/metrics';
+import { roundGlucose } from '../analysis/units';
+import type { GlucoseUnit } from './types';
+import { useI18n, type I18nState } from '../context/I18nContext';
+import { compareValues } from '../analysis/comparison';
+import { formatSigned, getTrendIcon } from './dashboardHelpers';
+
+interface TimeInRangeBarProps {
+  metrics: GlycemicMetrics;
+  unit: GlucoseUnit;
+  compareTo?: GlycemicMetrics | null; // Muestra la diferencia de cada rango respecto a estas métricas
+}
+
+type Segment = { key: keyof GlycemicMetrics; label: string; color: string; better: 'increasing' | 'decreasing' };
+
+// Diferencia en puntos porcentuales por debajo de la cual un rango se considera igual
+const SEGMENT_DELTA_TOLERANCE = 1;
+
+/**
+ * Segmentos de la barra, de muy alto a muy bajo (orden del informe AGP)
+ *
+ * Los límites de cada rango se muestran en la resolución de la unidad
+ * (1 mg/dL o 0,1 mmol/L), ej. "Alto (181–250)" o "Alto (10,1–13,9)".
+ */
+function buildSegments(unit: GlucoseUnit, { t, formatNumber }: Pick<I18nState, 't' | 'formatNumber'>): Segment[] {
+  const step = unit === 'mmol/L' ? 0.1 : 1;
+  const decimals = unit === 'mmol/L' ? 1 : 0;
+  const value = (mgdl: number, offset: number = 0) => formatNumber(roundGlucose(mgdl, unit, true) + offset, decimals);
+  const { veryLow, low, high, veryHigh } = TIR_LIMITS;
+
+  return [
+    { key: 'tarVeryHigh', label: t('tir.veryHigh', { value: value(veryHigh) }), color: 'bg-orange-500', better: 'decreasing' },
+    { key: 'tarHigh', label: t('tir.high', { from: value(high, step), to: value(veryHigh) }), color: 'bg-yellow-400', better: 'decreasing' },
+    { key: 'tir', label: t('tir.inRange', { from: value(low), to: value(high) }), color: 'bg-green-500', better: 'increasing' },
+    { key: 'tbrLow', label: t('tir.low', { from: value(veryLow), to: value(low, -step) }), color: 'bg-red-500', better: 'decreasing' },
+    { key: 'tbrVeryLow', label: t('tir.veryLow', { value: value(veryLow) }), color: 'bg-red-800', better: 'decreasing' },
+  ];
+}
+
+const TimeInRangeBar: React.FC<TimeInRangeBarProps> = ({ metrics, unit, compareTo }) => {
+  const { t, formatNumber } = useI18n();
+  const segments = React.useMemo(() => buildSegments(unit, { t, formatNumber }), [unit, t, formatNumber]);
+
+  return (
+    <div>
+      <div className="flex h-4 w-full overflow-hidden rounded-full bg-gray-100">
+        {segments.map(segment => (
+          <div
+            key={segment.key}
+            className={segment.color}
+            style={{ width: `${metrics[segment.key]}%` }}
+            title={`${segment.label}: ${formatNumber(metrics[segment.key])}%`}
+          />
+        ))}
+      </div>
+      <ul className="mt-2 grid grid-cols-1 gap-1 text-xs text-gray-600">
+        {segments.map(segment => (
+          <li key={segment.key} className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <span className={`inline-block h-2 w-2 rounded-full ${segment.color}`}></span>
+              {segment.label}
+            </span>
+            <span className="flex items-center gap-2">
+              {compareTo && (
+                <span className="flex items-center gap-1 text-gray-500">
+                  {getTrendIcon(
+                    compareValues(compareTo[segment.key], metrics[segment.key], SEGMENT_DELTA_TOLERANCE),
+                    segment.better
+                  )}
+                  {t('compare.points', { value: formatSigned(metrics[segment.key] - compareTo[segment.key], formatNumber) })}
+                </span>
+              )}
+              <span className="font-semibold text-gray-900">{formatNumber(metrics[segment.key])}%</span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TimeInRangeBar;
@@ -0,0 +1,36 @@
+// TimeRangeChip.tsx
+// Chip con la ventana seleccionada en la gráfica de evolución
+import React from 'react';
+import { X } from 'lucide-react';
+import { useI18n } from '../context/I18nContext';
+import type { TimeRange } from './types';
+
+interface TimeRangeChipProps {
+  range: TimeRange | null;
+  onClear: () => void;
+}
+
+const TimeRangeChip: React.FC<TimeRangeChipProps> = ({ range, onClear }) => {
+  const { t, formatDateTime } = useI18n();
+
+  if (!range) return null;
+
+  const format = (time: number) => formatDateTime(time, { dateStyle: 'medium', timeStyle: 'short' });
+  const label = t('timeline.window', { from: format(range.start), to: format(range.end) });
+
+  return (
+    <span className="inline-flex items-center gap-1 bg-indigo-100 text-indigo-800 pl-3 pr-1 py-1 rounded-full text-sm font-medium">
+      {label}
+      <button
+        onClick={onClear}
+        className="p-0.5 rounded-full hover:bg-indigo-200"
+        aria-label={t('filters.remove', { label })}
+        title={t('filters.remove', { label })}
+      >
+        <X className="w-3.5 h-3.5" />
+      </button>
+    </span>
+  );
+};
+
+export default TimeRangeChip;
@@ -0,0 +1,22 @@
+// ToggleChip.tsx
+// Botón de selección múltiple con estado activo (filtros y grupos de comparación)
+import React from 'react';
+
+const ToggleChip: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({
+  active,
+  onClick,
+  children,
+}) => (
+  <button
+    type="button"
+    onClick={onClick}
+    aria-pressed={active}
+    className={`px-3 py-1 rounded-full text-sm font-medium border-2 transition-colors ${
+      active ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 border-gray-200 hover:border-indigo-300'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+export default ToggleChip;
@@ -0,0 +1,47 @@
+// TrendBadge.tsx
+// Tendencia de un paciente: flecha, pendiente por día y confianza
+import React from 'react';
+import { fromMgdl } from '../analysis/units';
+import type { PatientTrend } from '../analysis/trend';
+import { useI18n } from '../context/I18nContext';
+import { formatSigned, getTrendIcon } from './dashboardHelpers';
+import type { GlucoseUnit } from './types';
+
+interface TrendBadgeProps {
+  trend: PatientTrend;
+  unit: GlucoseUnit;
+  showInterval?: boolean; // Muestra el intervalo de confianza bajo la pendiente (si no, solo en el title)
+}
+
+const CONFIDENCE_COLORS: Record<PatientTrend['confidence'], string> = {
+  high: 'text-gray-900',
+  medium: 'text-gray-700',
+  low: 'text-gray-500',
+  insufficient: 'text-gray-400',
+};
+
+const TrendBadge: React.FC<TrendBadgeProps> = ({ trend, unit, showInterval = false }) => {
+  const { t, formatNumber } = useI18n();
+  // Las pendientes son pequeñas: una décima en mg/dL, centésimas en mmol/L
+  const format = (mgdl: number) => formatNumber(fromMgdl(mgdl, unit), unit === 'mmol/L' ? 2 : 1);
+  const interval = t('trend.interval', {
+    lower: formatSigned(trend.lower, format),
+    upper: formatSigned(trend.upper, format),
+    unit,
+    days: trend.days,
+  });
+  const insufficient = trend.confidence === 'insufficient';
+
+  return (
+    <span className="inline-flex flex-col" title={insufficient ? undefined : interval}>
+      <span className={`inline-flex items-center gap-2 text-sm font-medium ${CONFIDENCE_COLORS[trend.confidence]}`}>
+        {getTrendIcon(trend.direction)}
+        {!insufficient && t('trend.slope', { value: formatSigned(trend.slope, format), unit })}
+        <span className="text-xs font-normal text-gray-500">{t(`trend.confidence.${trend.confidence}`)}</span>
+      </span>
+      {showInterval && !insufficient && <span className="text-xs text-gray-500 mt-0.5">{interval}</span>}
+    </span>
+  );
+};
+
+export default TrendBadge;
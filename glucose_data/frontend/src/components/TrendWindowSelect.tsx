@@ -0,0 +1,30 @@
+// TrendWindowSelect.tsx
+// Selector de la ventana de la tendencia (7/14/30 días)
+import React from 'react';
+import { TREND_WINDOWS, type TrendWindow } from '../analysis/trend';
+import { useI18n } from '../context/I18nContext';
+
+interface TrendWindowSelectProps {
+  value: TrendWindow;
+  onChange: (days: TrendWindow) => void;
+}
+
+const TrendWindowSelect: React.FC<TrendWindowSelectProps> = ({ value, onChange }) => {
+  const { t } = useI18n();
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value) as TrendWindow)}
+      aria-label={t('trend.window')}
+      title={t('trend.window')}
+      className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+    >
+      {TREND_WINDOWS.map(days => (
+        <option key={days} value={days}>{t('trend.windowOption', { days })}</option>
+      ))}
+    </select>
+  );
+};
+
+export default TrendWindowSelect;
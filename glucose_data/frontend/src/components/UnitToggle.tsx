@@ -0,0 +1,30 @@
+// UnitToggle.tsx
+// Selector de unidad de presentación (mg/dL o mmol/L)
+import React from 'react';
+import { useGlucoseDataContext } from '../context/GlucoseDataContext';
+import { useI18n } from '../context/I18nContext';
+import { GLUCOSE_UNITS } from '../analysis/constants';
+
+const UnitToggle: React.FC = () => {
+  const { unit, setUnit } = useGlucoseDataContext();
+  const { t } = useI18n();
+
+  return (
+    <div className="inline-flex rounded-lg border-2 border-indigo-200 overflow-hidden" role="group" aria-label={t('app.unit')}>
+      {GLUCOSE_UNITS.map(option => (
+        <button
+          key={option}
+          onClick={() => setUnit(option)}
+          aria-pressed={unit === option}
+          className={`px-3 py-2 text-sm font-medium transition-colors ${
+            unit === option ? 'bg-indigo-600 text-white' : 'bg-white text-indigo-700 hover:bg-indigo-50'
+          }`}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default UnitToggle;
@@ -0,0 +1,30 @@
+// UnreliableBadge.tsx
+// Aviso junto a las métricas de un paciente con poca cobertura del sensor
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { MIN_RELIABLE_COVERAGE, type PatientQuality } from '../analysis/quality';
+import { useI18n } from '../context/I18nContext';
+
+interface UnreliableBadgeProps {
+  quality: PatientQuality | null | undefined;
+}
+
+const UnreliableBadge: React.FC<UnreliableBadgeProps> = ({ quality }) => {
+  const { t, formatNumber } = useI18n();
+  if (!quality || quality.reliable) return null;
+
+  const title = quality.coverage === null
+    ? t('quality.noCoverage')
+    : t('quality.unreliableTitle', { coverage: formatNumber(quality.coverage, 0), min: MIN_RELIABLE_COVERAGE });
+  return (
+    <span
+      className="inline-flex items-center gap-1 bg-amber-100 text-amber-800 border border-amber-200 px-2 py-0.5 rounded-full text-xs font-semibold"
+      title={title}
+    >
+      <ShieldAlert className="w-3.5 h-3.5" />
+      {t('quality.unreliable')}
+    </span>
+  );
+};
+
+export default UnreliableBadge;
@@ -0,0 +1,24 @@
+// ValidationErrorList.tsx
+// Lista de errores de validación del resumen, con la ruta de cada campo
+import React from 'react';
+import type { ValidationIssue } from '../analysis/validation';
+import { useI18n } from '../context/I18nContext';
+
+const ValidationErrorList: React.FC<{ errors: ValidationIssue[]; limit?: number }> = ({ errors, limit = 20 }) => {
+  const { t } = useI18n();
+  return (
+    <ul className="max-h-64 overflow-y-auto text-sm bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-1 mb-4">
+      {errors.slice(0, limit).map((issue, index) => (
+        <li key={index} className="text-gray-700">
+          <code className="font-mono text-xs text-red-700 bg-red-50 px-1 rounded">{issue.path}</code>{' '}
+          {issue.message}
+        </li>
+      ))}
+      {errors.length > limit && (
+        <li className="text-gray-500 italic">{t('validation.more', { count: errors.length - limit })}</li>
+      )}
+    </ul>
+  );
+};
+
+export default ValidationErrorList;
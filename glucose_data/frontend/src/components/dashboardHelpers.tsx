@@ -0,0 +1,118 @@
+// dashboardHelpers.tsx
+// Funciones auxiliares de presentación compartidas por las vistas del dashboard
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import type { MealContext, AlertaGlucosa, ThresholdLimits, GlucoseUnit, Severity, HypoSeverity, ReviewStatus } from './types';
+import type { I18nState } from '../context/I18nContext';
+
+// Color de los marcadores de alerta en las gráficas (mismos tonos que las insignias)
+export const SEVERITY_COLORS: Record<Severity | HypoSeverity, string> = {
+  moderate: '#f59e0b',
+  high: '#dc2626',
+  level1: '#0ea5e9',
+  level2: '#7e22ce',
+};
+
+// Paleta de líneas cuando se dibujan varios pacientes a la vez
+export const PATIENT_COLORS = ['#4f46e5', '#059669', '#db2777', '#ea580c', '#0891b2', '#65a30d', '#9333ea', '#475569'];
+
+export function getContextIcon(context: MealContext | null): string {
+  const icons: Record<MealContext, string> = {
+    'Fasting': '🌅',
+    'Post-prandial': '🍽️',
+    'Before sleep': '🌙'
+  };
+  return (context && icons[context]) || '📊';
+}
+
+export function getContextLabel(context: MealContext | null, t: I18nState['t']): string {
+  return context ? t(`context.${context}`) : t('context.none');
+}
+
+export function getBarColor(value: number, limits: Pick<ThresholdLimits, 'hiperglucemia' | 'hipoglucemia'>): string {
+  if (value > limits.hiperglucemia) return '#ef4444';
+  if (value < limits.hipoglucemia) return '#0ea5e9';
+  return '#22c55e';
+}
+
+export function getRowColor(alert: Pick<AlertaGlucosa, 'severidad' | 'tipo'>): string {
+  if (alert.severidad === 'high') return 'bg-red-50';
+  if (alert.severidad === 'level2') return 'bg-purple-50';
+  if (alert.tipo === 'hipoglucemia') return 'bg-sky-50';
+  if (alert.tipo !== 'hiperglucemia') return 'bg-orange-50';
+  return '';
+}
+
+export function getSeverityBadge(alert: Pick<AlertaGlucosa, 'severidad'>): string {
+  switch (alert.severidad) {
+    case 'high':
+      return 'bg-red-600 text-white';
+    case 'level2':
+      return 'bg-purple-700 text-white';
+    case 'level1':
+      return 'bg-sky-100 text-sky-800';
+    default:
+      return 'bg-yellow-100 text-yellow-800';
+  }
+}
+
+export function getReviewBadge(status: ReviewStatus): string {
+  switch (status) {
+    case 'acknowledged':
+      return 'bg-green-100 text-green-800';
+    case 'escalated':
+      return 'bg-red-100 text-red-800';
+    case 'dismissed':
+      return 'bg-gray-100 text-gray-500';
+    default:
+      return 'bg-amber-100 text-amber-800';
+  }
+}
+
+export function getSeverityLabel(alert: Pick<AlertaGlucosa, 'severidad' | 'tipo'>, t: I18nState['t']): string {
+  const label = t(`severity.${alert.severidad}`);
+  if (alert.tipo === 'hipoglucemia') return t('severity.hypoPrefix', { severity: label });
+  if (alert.tipo !== 'hiperglucemia') return `${t(`kind.${alert.tipo}`)} · ${label}`;
+  return label;
+}
+
+export function formatDistance(
+  distance: number,
+  unit: GlucoseUnit,
+  { t, formatGlucose }: Pick<I18nState, 't' | 'formatGlucose'>
+): string {
+  if (distance > 0) return t('distance.above', { value: formatGlucose(distance, unit, { withUnit: false }) });
+  if (distance < 0) return t('distance.below', { value: formatGlucose(distance, unit, { withUnit: false }) });
+  return t('distance.inRange');
+}
+
+// `better` indica qué dirección es una mejora (verde): a la baja para la
+// glucosa, al alza para métricas como el tiempo en rango
+export function getTrendIcon(
+  trend: 'increasing' | 'decreasing' | 'stable',
+  better: 'increasing' | 'decreasing' = 'decreasing'
+) {
+  const color = (direction: 'increasing' | 'decreasing') => (direction === better ? 'text-green-500' : 'text-red-500');
+  switch (trend) {
+    case 'increasing':
+      return <TrendingUp className={`w-5 h-5 ${color('increasing')}`} />;
+    case 'decreasing':
+      return <TrendingDown className={`w-5 h-5 ${color('decreasing')}`} />;
+    default:
+      return <Minus className="w-5 h-5 text-gray-500" />;
+  }
+}
+
+// Diferencia con signo explícito ("+2,5", "−1,0"); sin signo si redondea a 0
+export function formatSigned(value: number, format: (value: number) => string): string {
+  const text = format(Math.abs(value));
+  if (text === format(0)) return text;
+  return `${value > 0 ? '+' : '−'}${text}`;
+}
+
+// Duración legible: "45 min", "3 h", "2 h 30 min"
+export function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
@@ -1,28 +1,116 @@
 // types.ts
 // Definiciones de tipos para el Dashboard Médico de Glucosa
 
+import type { ReactNode } from 'react';
+
 /**
  * Tipo literal para los contextos de comida válidos
  */
 export type MealContext = "Fasting" | "Post-prandial" | "Before sleep";
 
 /**
- * Tipo literal para la severidad de las alertas
+ * Código de severidad de las alertas de hiperglucemia
+ * (independiente del idioma; la etiqueta se traduce al mostrarla)
+ */
+export type Severity = "moderate" | "high";
+
+/**
+ * Nivel de las alertas de hipoglucemia (consenso ADA):
+ * level1 < 70 mg/dL, level2 < 54 mg/dL
+ */
+export type HypoSeverity = "level1" | "level2";
+
+/**
+ * Tipos de alerta que solo generan las reglas configurables
  */
-export type Severity = "Moderada" | "Alta";
+export type RuleAlertKind = "hiperglucemia_sostenida" | "subida_rapida" | "hiperglucemia_nocturna";
+
+/**
+ * Tipo de alerta que generan las previsiones, antes de que una lectura
+ * cruce el umbral
+ */
+export type ForecastAlertKind = "hiperglucemia_prevista";
+
+/**
+ * Tipo de alerta: por encima o por debajo del rango objetivo, uno de los
+ * tipos propios de las reglas o una previsión
+ */
+export type AlertKind = "hiperglucemia" | "hipoglucemia" | RuleAlertKind | ForecastAlertKind;
 
 /**
  * ID de paciente en formato P001, P002, etc.
  */
 export type PatientId = string;
 
+/**
+ * Lectura cruda de glucosa, tal como aparece en glucose_data.csv
+ * (columnas: timestamp,patient_id,glucose_level,meal_context)
+ */
+export interface GlucoseReading {
+  timestamp: string; // Formato: "2026-01-01 17:30:00"
+  patient_id: PatientId;
+  glucose_level: number; // mg/dL
+  meal_context: MealContext | null; // null = sin contexto (importaciones)
+  meal_context_guessed?: true; // Contexto supuesto al importar, no leído del archivo
+}
+
+/**
+ * Límites clínicos aplicados a una lectura, en mg/dL
+ */
+export interface ThresholdLimits {
+  hiperglucemia: number; // Alerta si la lectura lo supera
+  severidad_alta: number; // Severidad "high" si la lectura lo supera
+  hipoglucemia: number; // Alerta level1 por debajo
+  hipoglucemia_grave: number; // level2 por debajo
+}
+
+/**
+ * Sobrescritura parcial de límites (los campos ausentes se heredan)
+ */
+export type ThresholdOverride = Partial<ThresholdLimits>;
+
+/**
+ * Sobrescrituras de un paciente concreto
+ */
+export interface PatientThresholds {
+  por_defecto?: ThresholdOverride;
+  por_contexto?: Partial<Record<MealContext, ThresholdOverride>>;
+}
+
+/**
+ * Perfil de umbrales: valores por defecto, por contexto y por paciente
+ *
+ * Orden de precedencia (de menor a mayor): por_defecto, por_contexto,
+ * por_paciente.por_defecto, por_paciente.por_contexto
+ */
+export interface ThresholdProfile {
+  id: string;
+  nombre: string;
+  por_defecto: ThresholdLimits;
+  por_contexto: Partial<Record<MealContext, ThresholdOverride>>;
+  por_paciente: Record<PatientId, PatientThresholds>;
+}
+
+/**
+ * Unidad en la que se expresan los valores de glucosa
+ */
+export type GlucoseUnit = "mg/dL" | "mmol/L";
+
 /**
  * Metadata del análisis de glucosa
+ *
+ * Todos los valores del resumen están en `unidad`; al cargarlo se
+ * normalizan a mg/dL, que es la unidad interna del dashboard.
  */
 export interface GlucoseMetadata {
   fecha_generacion: string; // ISO 8601 timestamp
-  umbral_hiperglucemia: number; // Umbral en mg/dL
-  total_alertas: number;
+  unidad: GlucoseUnit; // Ausente en resúmenes antiguos (= mg/dL)
+  umbral_hiperglucemia: number; // Umbral por defecto del perfil, en mg/dL
+  umbral_hipoglucemia: number; // Nivel 1 por defecto, en mg/dL
+  umbral_hipoglucemia_grave: number; // Nivel 2 por defecto, en mg/dL
+  perfil_umbrales: ThresholdProfile; // Perfil que generó este resumen
+  total_alertas: number; // Alertas de hiperglucemia
+  total_alertas_hipoglucemia: number;
 }
 
 /**
@@ -36,6 +124,14 @@ export interface PromediosPorComida {
   "Post-prandial": number;
 }
 
+/**
+ * Referencia a la regla que generó o clasificó una alerta
+ */
+export interface RuleRef {
+  id: string;
+  nombre: string;
+}
+
 /**
  * Alerta individual de hiperglucemia
  */
@@ -43,16 +139,84 @@ export interface AlertaHiperglucemia {
   timestamp: string; // Formato: "2026-01-01 17:30:00"
   patient_id: PatientId;
   glucose_level: number; // mg/dL
-  meal_context: MealContext;
+  meal_context: MealContext | null;
+  severidad: Severity;
+  regla?: RuleRef; // Ausente = clasificada por el perfil de umbrales
+}
+
+/**
+ * Alerta individual de hipoglucemia
+ */
+export interface AlertaHipoglucemia {
+  timestamp: string; // Formato: "2026-01-01 17:30:00"
+  patient_id: PatientId;
+  glucose_level: number; // mg/dL
+  meal_context: MealContext | null;
+  severidad: HypoSeverity;
+  regla?: RuleRef; // Ausente = clasificada por el perfil de umbrales
+}
+
+/**
+ * Alerta de un tipo propio de las reglas (ej. subida rápida)
+ */
+export interface AlertaRegla {
+  timestamp: string; // Lectura en la que se cumple la regla
+  patient_id: PatientId;
+  glucose_level: number; // mg/dL
+  meal_context: MealContext | null;
+  tipo: RuleAlertKind;
   severidad: Severity;
+  regla: RuleRef;
+}
+
+/**
+ * Glucosa prevista para dentro de `horizonte_min` minutos, en mg/dL, con
+ * su intervalo de predicción del 80%
+ */
+export interface PrevisionGlucosa {
+  horizonte_min: number;
+  timestamp: string; // Momento previsto
+  glucosa: number;
+  inferior: number;
+  superior: number;
+}
+
+/**
+ * Alerta de hiperglucemia prevista: la lectura aún está por debajo del
+ * umbral, pero la previsión lo supera
+ */
+export interface AlertaPrevista {
+  timestamp: string; // Lectura desde la que se prevé
+  patient_id: PatientId;
+  glucose_level: number; // mg/dL, de esa lectura
+  meal_context: MealContext | null;
+  tipo: ForecastAlertKind;
+  severidad: Severity; // "high" si todo el intervalo supera el umbral
+  prevision: PrevisionGlucosa;
+  regla?: never; // Las previsiones no las generan las reglas
 }
 
+/**
+ * Alerta de cualquier tipo, con discriminante para distinguirlas en la UI
+ */
+export type AlertaGlucosa =
+  | (AlertaHiperglucemia & { tipo: "hiperglucemia" })
+  | (AlertaHipoglucemia & { tipo: "hipoglucemia" })
+  | AlertaRegla
+  | AlertaPrevista;
+
+/**
+ * Columnas por las que se puede ordenar la tabla de alertas
+ */
+export type AlertSortField = Exclude<keyof AlertaGlucosa, 'regla'>;
+
 /**
  * Estadísticas agregadas del análisis
  */
 export interface Estadisticas {
   glucosa_maxima: number;
-  pacientes_afectados: number;
+  glucosa_minima: number;
+  pacientes_afectados: number; // Pacientes con al menos una alerta (hiper o hipo)
 }
 
 /**
@@ -62,6 +226,9 @@ export interface GlucoseData {
   metadata: GlucoseMetadata;
   promedios_por_comida: PromediosPorComida;
   alertas_hiperglucemia: AlertaHiperglucemia[];
+  alertas_hipoglucemia: AlertaHipoglucemia[];
+  alertas_reglas?: AlertaRegla[]; // Solo si se evaluaron reglas con tipos propios
+  alertas_previstas?: AlertaPrevista[]; // Solo si se calcularon previsiones
   estadisticas: Estadisticas;
 }
 
@@ -72,6 +239,9 @@ export interface ChartDataPoint {
   name: string; // Nombre legible del contexto
   value: number; // Valor de glucosa
   context: MealContext; // Contexto original para referencia
+  umbralHiper: number; // Umbral efectivo del contexto según el perfil
+  umbralHipo: number;
+  unit: GlucoseUnit; // Unidad de value y de los umbrales
 }
 
 /**
@@ -80,25 +250,148 @@ export interface ChartDataPoint {
 export interface StatCardProps {
   title: string;
   value: string | number;
-  icon: React.ReactNode;
+  icon: ReactNode;
   trend?: "up" | "down" | "neutral";
   subtitle?: string;
   alert?: boolean;
+  badge?: ReactNode;
 }
 
 /**
  * Props para el componente de tabla de alertas
  */
 export interface AlertTableProps {
-  alerts: AlertaHiperglucemia[];
+  alerts: AlertaGlucosa[];
   onPatientFilter?: (patientId: PatientId | null) => void;
 }
 
 /**
- * Estado del filtro de alertas
+ * Estado del filtro del dashboard
+ *
+ * Los criterios de lectura (pacientes, contextos, fechas, franja horaria y
+ * glucosa) se aplican a lecturas y alertas; `kind`, `severity` y
+ * `reviewStatus` solo a alertas. Las listas vacías y los null significan
+ * "sin filtrar".
  */
 export interface AlertFilter {
-  patient: PatientId | null;
-  severity: Severity | null;
-  context: MealContext | null;
+  patients: PatientId[];
+  contexts: MealContext[];
+  kind: AlertKind | null;
+  severity: Severity | HypoSeverity | null;
+  dateFrom: string | null; // "YYYY-MM-DD", inclusive
+  dateTo: string | null; // "YYYY-MM-DD", inclusive
+  timeFrom: string | null; // "HH:MM"; si es mayor que timeTo la franja cruza la medianoche
+  timeTo: string | null; // "HH:MM", exclusivo
+  minGlucose: number | null; // mg/dL, inclusive
+  maxGlucose: number | null; // mg/dL, inclusive
+  reviewStatus: ReviewStatus | null; // "new" incluye las alertas sin revisión guardada
+}
+
+/**
+ * Grupo del modo comparación: pacientes y rango de fechas
+ *
+ * Sin pacientes se toma toda la cohorte; sin fechas, todo el periodo.
+ */
+export interface ComparisonCohort {
+  patients: PatientId[];
+  dateFrom: string | null; // "YYYY-MM-DD", inclusive
+  dateTo: string | null; // "YYYY-MM-DD", inclusive
+}
+
+/**
+ * Ventana temporal seleccionada en la gráfica (epoch ms, ambos inclusive)
+ */
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Condición de una regla de alerta (valores en mg/dL)
+ *
+ * - above / below: la lectura supera o no alcanza `value`
+ * - sustained: al menos `count` lecturas del paciente por encima de `value`
+ *   en las últimas `hours` horas (incluida la actual, que también debe superarlo)
+ * - riseRate: la subida desde la lectura anterior del paciente supera
+ *   `rate` mg/dL por cada 30 minutos
+ */
+export type RuleCondition =
+  | { type: "above"; value: number }
+  | { type: "below"; value: number }
+  | { type: "sustained"; value: number; count: number; hours: number }
+  | { type: "riseRate"; rate: number };
+
+/**
+ * Regla de alerta declarativa, editable en ajustes
+ *
+ * Las reglas se evalúan en orden sobre cada lectura; para cada tipo de
+ * alerta gana la primera regla que se cumple.
+ */
+export interface AlertRule {
+  id: string;
+  nombre: string;
+  enabled: boolean;
+  condition: RuleCondition;
+  contexts: MealContext[]; // Vacío = todos los contextos
+  kind: Exclude<AlertKind, ForecastAlertKind>; // Tipo de alerta que genera o reclasifica
+  severity: Severity | HypoSeverity; // HypoSeverity solo con kind "hipoglucemia"
+}
+
+/**
+ * Estado de revisión clínica de una alerta
+ */
+export type ReviewStatus = "new" | "acknowledged" | "escalated" | "dismissed";
+
+/**
+ * Revisión de una alerta, guardada en el navegador (IndexedDB)
+ */
+export interface AlertReview {
+  alertKey: string; // Identidad estable de la alerta (ver alertKey)
+  status: ReviewStatus;
+  reviewer: string;
+  reviewedAt: string; // ISO 8601
+  notes: string;
+}
+
+/**
+ * Silencio temporal de las notificaciones de un paciente
+ */
+export interface NotificationMute {
+  patient_id: PatientId;
+  until: string; // ISO 8601
+}
+
+/**
+ * Franja del día sin notificaciones (hora local del navegador)
+ */
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // "HH:MM"
+  end: string; // "HH:MM"; si es anterior a `start`, la franja cruza la medianoche
+}
+
+/**
+ * Preferencias de las notificaciones del navegador (localStorage)
+ */
+export interface NotificationSettings {
+  enabled: boolean; // Activadas por el usuario (además hace falta el permiso del navegador)
+  severities: (Severity | HypoSeverity)[];
+  patients: PatientId[]; // Vacío = todos los pacientes
+  contexts: MealContext[]; // Vacío = todos los contextos
+  mutes: NotificationMute[];
+  quietHours: QuietHours;
+}
+
+/**
+ * Cambio local (revisión o ajuste) pendiente de enviar al servidor
+ *
+ * El id combina tipo y clave, así que un segundo cambio del mismo elemento
+ * sustituye al primero y solo se envía el último.
+ */
+export interface SyncChange {
+  id: string; // `${type}:${key}`
+  type: 'review' | 'setting';
+  key: string; // alertKey o clave de localStorage del ajuste
+  payload: unknown;
+  changedAt: string; // ISO 8601
 }
\ No newline at end of file
@@ -0,0 +1,87 @@
+// context/GlucoseDataContext.ts
+// Contexto compartido con el resumen y las lecturas cargadas una sola vez
+
+import { createContext, useContext } from 'react';
+import type {
+  AlertReview,
+  AlertRule,
+  GlucoseData,
+  GlucoseReading,
+  GlucoseUnit,
+  NotificationSettings,
+  ThresholdProfile,
+} from '../components/types';
+import type { ValidationIssue } from '../analysis/validation';
+import type { LiveStatus } from '../hooks/useGlucoseData';
+import type { ImportFormat } from '../analysis/importers';
+import type { LoadProgress } from '../workers/protocol';
+
+/**
+ * Lecturas importadas desde un archivo que sustituyen al resumen del servidor
+ */
+export interface ImportedDataset {
+  fileName: string;
+  format: ImportFormat;
+  readings: GlucoseReading[]; // En mg/dL
+  rejected: number;
+  importedAt: Date;
+}
+
+/**
+ * Estado de carga común a todas las rutas del dashboard
+ */
+export interface GlucoseDataState {
+  data: GlucoseData | null; // Resumen (o archivo importado) con el perfil de umbrales y las reglas aplicados
+  sourceData: GlucoseData | null; // Resumen tal como llegó del servidor
+  loading: boolean;
+  error: string | null;
+  analyzing: boolean; // Hay un análisis en curso en el worker; `data` es el anterior
+  validationErrors: ValidationIssue[];
+  droppedAlerts: number;
+  readings: GlucoseReading[]; // Lecturas del CSV más las recibidas en vivo, o las importadas
+  readingsLoading: boolean;
+  readingsProgress: LoadProgress | null; // Avance de la carga del CSV
+  readingsError: string | null; // No se pudo cargar el CSV de lecturas
+  retryReadings: () => void;
+  readingsFromCache: boolean; // Lecturas guardadas de una carga anterior (sin conexión)
+  profiles: ThresholdProfile[];
+  setProfiles: (profiles: ThresholdProfile[]) => void;
+  activeProfileId: string | null; // null = perfil del resumen
+  setActiveProfileId: (id: string | null) => void;
+  rules: AlertRule[]; // Reglas de alerta en orden de prioridad
+  setRules: (rules: AlertRule[]) => void;
+  unit: GlucoseUnit; // Unidad de presentación elegida por el usuario
+  setUnit: (unit: GlucoseUnit) => void;
+  liveMode: boolean;
+  setLiveMode: (enabled: boolean) => void;
+  liveStatus: LiveStatus;
+  lastUpdated: Date | null; // Última lectura recibida en vivo
+  newAlertKeys: ReadonlySet<string>; // readingKey de alertas en vivo aún no vistas
+  markAlertsSeen: () => void;
+  importedDataset: ImportedDataset | null; // null = datos de /api/summary.json
+  setImportedDataset: (dataset: ImportedDataset | null) => void;
+  reviews: ReadonlyMap<string, AlertReview>; // Revisiones clínicas por alertKey
+  saveReview: (review: AlertReview) => void;
+  reviewsError: string | null; // IndexedDB no disponible o con error
+  notificationSettings: NotificationSettings; // Notificaciones del navegador de alertas nuevas
+  setNotificationSettings: (settings: NotificationSettings) => void;
+  online: boolean; // El navegador tiene conexión
+  dataFromCache: boolean; // El resumen es el último guardado en IndexedDB (servidor inaccesible)
+  pendingChanges: number; // Revisiones y ajustes que esperan conexión para sincronizarse
+}
+
+export const GlucoseDataContext = createContext<GlucoseDataState | null>(null);
+
+/**
+ * Hook para leer los datos compartidos desde cualquier vista
+ *
+ * @returns Estado cargado por GlucoseDataProvider
+ * @throws Error si se usa fuera del provider
+ */
+export function useGlucoseDataContext(): GlucoseDataState {
+  const context = useContext(GlucoseDataContext);
+  if (!context) {
+    throw new Error('useGlucoseDataContext debe usarse dentro de <GlucoseDataProvider>');
+  }
+  return context;
+}
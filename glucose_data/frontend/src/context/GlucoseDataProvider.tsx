@@ -0,0 +1,184 @@
+// context/GlucoseDataProvider.tsx
+// Carga resumen y lecturas una vez y los comparte entre rutas
+import React from 'react';
+import {
+  useGlucoseData,
+  useGlucoseReadings,
+  useThresholdProfiles,
+  useLiveReadings,
+  useLocalStorage,
+  useAlertRules,
+  useAlertReviews,
+  useNotificationSettings,
+  useAlertNotifications,
+  useOnlineStatus,
+  usePendingChanges,
+  SUMMARY_REFRESH_MS,
+} from '../hooks/useGlucoseData';
+import { DEFAULT_PROFILE } from '../analysis/thresholds';
+import { mergeAlerts, readingKey } from '../analysis/alerts';
+import { analyzeDataset } from '../workers/analysisClient';
+import type { AnalyzeOptions } from '../workers/protocol';
+import { GlucoseDataContext, type GlucoseDataState, type ImportedDataset } from './GlucoseDataContext';
+import type { GlucoseData, GlucoseReading, GlucoseUnit } from '../components/types';
+
+const GlucoseDataProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // Con las notificaciones activadas el resumen se recarga para detectar alertas nuevas
+  const [notificationSettings, setNotificationSettings] = useNotificationSettings();
+  const { data, loading, error, validationErrors, droppedAlerts, fromCache } = useGlucoseData(
+    undefined,
+    notificationSettings.enabled ? SUMMARY_REFRESH_MS : null
+  );
+  const {
+    readings: csvReadings,
+    loading: readingsLoading,
+    progress: readingsProgress,
+    error: readingsError,
+    fromCache: readingsFromCache,
+    retry: retryReadings,
+  } = useGlucoseReadings();
+  const { profiles, setProfiles, activeProfileId, setActiveProfileId } = useThresholdProfiles();
+  const [rules, setRules] = useAlertRules();
+  const { reviews, saveReview, error: reviewsError } = useAlertReviews();
+  const online = useOnlineStatus();
+  const pendingChanges = usePendingChanges();
+
+  // Unidad de presentación; los datos se mantienen siempre en mg/dL
+  const [unit, setUnit] = useLocalStorage<GlucoseUnit>('glucose_unit', 'mg/dL');
+
+  // Archivo importado por el usuario: sustituye al resumen y a las lecturas
+  // del servidor mientras esté cargado (no se persiste)
+  const [importedDataset, setImportedDataset] = React.useState<ImportedDataset | null>(null);
+
+  useAlertNotifications(importedDataset ? null : data, notificationSettings, unit);
+
+  // Modo en vivo: las lecturas nuevas se añaden a las del CSV
+  const [liveMode, setLiveMode] = useLocalStorage<boolean>('live_mode', false);
+  const lastTimestamp = React.useMemo(
+    () => csvReadings.reduce<string | null>((last, r) => (!last || r.timestamp > last ? r.timestamp : last), null),
+    [csvReadings]
+  );
+  const { liveReadings, status: liveStatus, lastUpdated } = useLiveReadings(
+    liveMode && !readingsLoading && !importedDataset,
+    lastTimestamp
+  );
+  const readings = React.useMemo(() => {
+    if (importedDataset) return importedDataset.readings;
+    return liveReadings.length > 0 ? [...csvReadings, ...liveReadings] : csvReadings;
+  }, [csvReadings, liveReadings, importedDataset]);
+
+  // Si hay un perfil activo distinto del del resumen, o lecturas en vivo,
+  // se reanalizan las lecturas; sin lecturas se mantiene el resumen
+  // original. Un archivo importado siempre se analiza. Las reglas de alerta
+  // se evalúan sobre las lecturas cada vez que cambian las reglas o llegan
+  // lecturas nuevas. Todo ello ocurre en el worker de análisis.
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId) ?? null;
+  const analysisOptions = React.useMemo((): AnalyzeOptions | null => {
+    if (importedDataset) {
+      return {
+        base: null,
+        reanalyze: true,
+        perfil: activeProfile ?? data?.metadata.perfil_umbrales ?? DEFAULT_PROFILE,
+        fechaGeneracion: importedDataset.importedAt,
+        rules,
+      };
+    }
+    if (!data) return null;
+    return {
+      base: data,
+      reanalyze: (!!activeProfile || liveReadings.length > 0) && readings.length > 0,
+      perfil: activeProfile ?? data.metadata.perfil_umbrales,
+      fechaGeneracion: lastUpdated ?? new Date(data.metadata.fecha_generacion),
+      rules,
+    };
+  }, [data, activeProfile, readings.length, liveReadings.length, lastUpdated, importedDataset, rules]);
+
+  // Mientras se recalcula se sigue mostrando el último análisis
+  const [analysis, setAnalysis] = React.useState<{
+    options: AnalyzeOptions;
+    readings: GlucoseReading[];
+    data: GlucoseData;
+  } | null>(null);
+  const [analysisError, setAnalysisError] = React.useState<string | null>(null);
+  React.useEffect(() => {
+    if (!analysisOptions) return;
+    let cancelled = false;
+    analyzeDataset(readings, analysisOptions)
+      .then(result => {
+        if (cancelled) return;
+        setAnalysis({ options: analysisOptions, readings, data: result });
+        setAnalysisError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setAnalysisError(err instanceof Error ? err.message : 'Error al analizar las lecturas');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [analysisOptions, readings]);
+  const ruledData = analysisOptions ? analysis?.data ?? null : null;
+  const analyzing = !!analysisOptions && (analysis?.options !== analysisOptions || analysis.readings !== readings);
+
+  // Alertas generadas por lecturas en vivo que el usuario aún no ha visto
+  const [seenLiveCount, setSeenLiveCount] = React.useState(0);
+  const newAlertKeys = React.useMemo(() => {
+    const unseen = new Set(liveReadings.slice(seenLiveCount).map(readingKey));
+    if (!ruledData || unseen.size === 0) return new Set<string>();
+    return new Set(mergeAlerts(ruledData).map(readingKey).filter(key => unseen.has(key)));
+  }, [ruledData, liveReadings, seenLiveCount]);
+  const markAlertsSeen = React.useCallback(() => setSeenLiveCount(liveReadings.length), [liveReadings.length]);
+
+  const value: GlucoseDataState = React.useMemo(() => ({
+    data: ruledData,
+    sourceData: data,
+    loading: (loading && !importedDataset) || (!!analysisOptions && !analysis && !analysisError),
+    error: (importedDataset ? null : error) ?? analysisError,
+    analyzing,
+    validationErrors: importedDataset ? [] : validationErrors,
+    droppedAlerts: importedDataset ? 0 : droppedAlerts,
+    readings,
+    readingsLoading: readingsLoading && !importedDataset,
+    readingsProgress: importedDataset ? null : readingsProgress,
+    readingsError: importedDataset ? null : readingsError,
+    retryReadings,
+    readingsFromCache: readingsFromCache && !importedDataset,
+    profiles,
+    setProfiles,
+    activeProfileId,
+    setActiveProfileId,
+    rules,
+    setRules,
+    unit,
+    setUnit,
+    liveMode,
+    setLiveMode,
+    liveStatus,
+    lastUpdated,
+    newAlertKeys,
+    markAlertsSeen,
+    importedDataset,
+    setImportedDataset,
+    reviews,
+    saveReview,
+    reviewsError,
+    notificationSettings,
+    setNotificationSettings,
+    online,
+    dataFromCache: fromCache && !importedDataset,
+    pendingChanges,
+  }), [
+    ruledData, data, loading, error, analysisOptions, analysis, analysisError, analyzing, validationErrors, droppedAlerts,
+    readings, readingsLoading, readingsProgress, readingsError, retryReadings, readingsFromCache,
+    profiles, setProfiles, activeProfileId, setActiveProfileId, rules, setRules, unit, setUnit,
+    liveMode, setLiveMode, liveStatus, lastUpdated, newAlertKeys, markAlertsSeen, importedDataset,
+    reviews, saveReview, reviewsError, notificationSettings, setNotificationSettings, online, fromCache, pendingChanges,
+  ]);
+
+  return (
+    <GlucoseDataContext.Provider value={value}>
+      {children}
+    </GlucoseDataContext.Provider>
+  );
+};
+
+export default GlucoseDataProvider;
@@ -0,0 +1,38 @@
+// context/I18nContext.ts
+// Contexto con el idioma activo y los formatos que dependen de él
+
+import { createContext, useContext } from 'react';
+import type { Locale, MessageKey, MessageParams } from '../i18n';
+import type { GlucoseUnit } from '../components/types';
+
+/**
+ * Idioma activo y funciones ligadas a él
+ */
+export interface I18nState {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number, decimals?: number) => string;
+  formatDateTime: (value: string | number | Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatGlucose: (
+    mgdl: number,
+    unit: GlucoseUnit,
+    options?: { compact?: boolean; withUnit?: boolean }
+  ) => string;
+}
+
+export const I18nContext = createContext<I18nState | null>(null);
+
+/**
+ * Hook para traducir textos y formatear números y fechas
+ *
+ * @returns Estado de I18nProvider
+ * @throws Error si se usa fuera del provider
+ */
+export function useI18n(): I18nState {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useI18n debe usarse dentro de <I18nProvider>');
+  }
+  return context;
+}
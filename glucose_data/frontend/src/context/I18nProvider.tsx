@@ -0,0 +1,38 @@
+// context/I18nProvider.tsx
+// Idioma persistido en localStorage y funciones de traducción/formato
+import React from 'react';
+import { useLocalStorage } from '../hooks/useGlucoseData';
+import { detectLocale, translate, LOCALE_TAGS, type Locale } from '../i18n';
+import { formatGlucose } from '../analysis/units';
+import { toEpoch } from '../analysis/time';
+import { I18nContext, type I18nState } from './I18nContext';
+
+const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocale] = useLocalStorage<Locale>('locale', detectLocale());
+
+  React.useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value: I18nState = React.useMemo(() => {
+    const tag = LOCALE_TAGS[locale];
+    return {
+      locale,
+      setLocale,
+      t: (key, params) => translate(locale, key, params),
+      formatNumber: (number, decimals = 1) =>
+        number.toLocaleString(tag, { minimumFractionDigits: decimals, maximumFractionDigits: decimals }),
+      formatDateTime: (date, options) =>
+        new Date(typeof date === 'string' ? toEpoch(date) : date).toLocaleString(tag, options),
+      formatGlucose: (mgdl, unit, options) => formatGlucose(mgdl, unit, { ...options, locale: tag }),
+    };
+  }, [locale, setLocale]);
+
+  return (
+    <I18nContext.Provider value={value}>
+      {children}
+    </I18nContext.Provider>
+  );
+};
+
+export default I18nProvider;
@@ -1,36 +1,165 @@
 // hooks/useGlucoseData.ts
 // Custom hooks para manejo de datos de glucosa
 
-import { useState, useEffect, useMemo } from 'react';
-import type { GlucoseData, AlertaHiperglucemia, MealContext, PatientId } from '../components/types';
+import { useState, useEffect, useMemo, useCallback, useRef, useSyncExternalStore } from 'react';
+import { useSearchParams } from 'react-router';
+import type {
+  GlucoseData,
+  GlucoseReading,
+  AlertaGlucosa,
+  AlertFilter,
+  AlertRule,
+  AlertReview,
+  AlertSortField,
+  ComparisonCohort,
+  NotificationSettings,
+  PatientId,
+  PrevisionGlucosa,
+  ThresholdProfile,
+  GlucoseUnit,
+  TimeRange
+} from '../components/types';
+import { validateGlucoseData, validateReading, type ValidationIssue } from '../analysis/validation';
+import { alertKey, mergeAlerts, readingKey } from '../analysis/alerts';
+import { computeMetricsByPatient } from '../analysis/metrics';
+import { PRESET_PROFILES } from '../analysis/thresholds';
+import { DEFAULT_RULES } from '../analysis/rules';
+import { normalizeToMgdl, roundGlucose } from '../analysis/units';
+import { toEpoch } from '../analysis/time';
+import {
+  buildEpisodes,
+  DEFAULT_EPISODE_GAP_MINUTES,
+  type EpisodeSortField,
+  type GlycemicEpisode,
+} from '../analysis/episodes';
+import { EMPTY_FILTER, filterFromLegacy, normalizeFilter, reviewStatusOf } from '../analysis/filters';
+import type { DashboardQuery, DashboardView } from '../analysis/dashboard';
+import {
+  decodeDashboardState,
+  encodeDashboardState,
+  hasDashboardParams,
+  type DashboardUrlState,
+  type SortState,
+} from '../analysis/urlState';
+import type { ComparisonResult } from '../analysis/comparison';
+import {
+  computePatientQuality,
+  DEFAULT_QUALITY_GAP_MINUTES,
+  readingsPeriod,
+  type DataQualityReport,
+} from '../analysis/quality';
+import { computePatientTrend, DEFAULT_TREND_WINDOW, type PatientTrend, type TrendWindow } from '../analysis/trend';
+import { indexTimeline, sampleTimeline, type TimelineSeries } from '../analysis/timeline';
+import { forecastLatest } from '../analysis/forecast';
+import { compareSnapshots, type SnapshotDiff } from '../analysis/snapshots';
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  MAX_INDIVIDUAL_NOTIFICATIONS,
+  MAX_NOTIFIED_KEYS,
+  selectNotifications,
+} from '../analysis/notifications';
+import { loadReadingsCSV, queryComparison, queryDashboardView } from '../workers/analysisClient';
+import type { LoadProgress } from '../workers/protocol';
+import { getAllRecords, putRecord } from '../storage/db';
+import {
+  listSummaries,
+  loadLatestSummary,
+  saveSummary,
+  subscribeSummaries,
+  type CachedSummary,
+} from '../storage/summaries';
+import { loadCachedReadings, saveReadings } from '../storage/readings';
+import { countPendingChanges, flushOutbox, queueChange, subscribeOutbox } from '../storage/sync';
+import {
+  computeContextStats,
+  listPatients,
+  sortAlerts,
+} from '../analysis/stats';
+import { useI18n } from '../context/I18nContext';
+
+/**
+ * Cada cuánto se vuelve a pedir el resumen cuando hay que vigilar alertas nuevas
+ */
+export const SUMMARY_REFRESH_MS = 60_000;
+
+/**
+ * Suscripción al estado de la conexión para useSyncExternalStore
+ */
+function subscribeOnline(callback: () => void) {
+  window.addEventListener('online', callback);
+  window.addEventListener('offline', callback);
+  return () => {
+    window.removeEventListener('online', callback);
+    window.removeEventListener('offline', callback);
+  };
+}
 
 /**
  * Hook para cargar y gestionar datos de glucosa desde el API
  * 
+ * El JSON se valida antes de usarse: las alertas inválidas se descartan y
+ * se informan en `validationErrors`; si la estructura base es inválida se
+ * devuelve `error` junto con la lista de campos incorrectos. Los valores
+ * se normalizan a mg/dL según `metadata.unidad`.
+ * 
+ * Cada resumen válido se guarda en IndexedDB; si el servidor no responde se
+ * usa el último guardado (`fromCache`) y se vuelve a intentar al recuperar
+ * la conexión y cada `SUMMARY_REFRESH_MS`.
+ * 
+ * Con `refreshIntervalMs` el resumen se vuelve a pedir en segundo plano y
+ * `data` solo cambia si llega uno generado en otro momento; los fallos de
+ * esas recargas se ignoran y se mantiene el último resumen.
+ *
  * @param apiUrl - URL del endpoint del JSON
- * @returns Estado con datos, loading y error
+ * @param refreshIntervalMs - Intervalo de recarga (null = cargar una vez)
+ * @returns Estado con datos, loading, error, errores de validación y si los datos vienen de la caché
  */
-export function useGlucoseData(apiUrl: string = '/api/summary.json') {
+export function useGlucoseData(apiUrl: string = '/api/summary.json', refreshIntervalMs: number | null = null) {
   const [data, setData] = useState<GlucoseData | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<ValidationIssue[]>([]);
+  const [droppedAlerts, setDroppedAlerts] = useState<number>(0);
+  const [fromCache, setFromCache] = useState<boolean>(false);
 
   useEffect(() => {
     const fetchData = async () => {
+      let invalid = false;
       try {
         setLoading(true);
+        setValidationErrors([]);
+        setDroppedAlerts(0);
         const response = await fetch(apiUrl);
         
         if (!response.ok) {
           throw new Error(`Error HTTP: ${response.status}`);
         }
         
-        const jsonData: GlucoseData = await response.json();
-        setData(jsonData);
+        const result = validateGlucoseData(await response.json());
+        setValidationErrors(result.errors);
+        setDroppedAlerts(result.droppedAlerts);
+
+        if (!result.data) {
+          invalid = true;
+          throw new Error('El resumen no cumple el formato esperado');
+        }
+
+        const normalized = normalizeToMgdl(result.data);
+        setData(normalized);
+        setFromCache(false);
         setError(null);
+        saveSummary(normalized).catch(err => console.warn('No se pudo guardar el resumen:', err));
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Error desconocido al cargar datos');
-        setData(null);
+        // Sin conexión (o con el servidor caído) se usa el último resumen guardado
+        const cached = invalid ? null : await loadLatestSummary().catch(() => null);
+        if (cached) {
+          setData(cached.data);
+          setFromCache(true);
+          setError(null);
+        } else {
+          setError(err instanceof Error ? err.message : 'Error desconocido al cargar datos');
+          setData(null);
+        }
       } finally {
         setLoading(false);
       }
@@ -39,190 +168,865 @@ export function useGlucoseData(apiUrl: string = '/api/summary.json') {
     fetchData();
   }, [apiUrl]);
 
-  return { data, loading, error };
+  useEffect(() => {
+    if (refreshIntervalMs === null && !fromCache) return;
+    let cancelled = false;
+
+    const refresh = async () => {
+      try {
+        const response = await fetch(apiUrl, { cache: 'no-store' });
+        if (!response.ok) return;
+        const result = validateGlucoseData(await response.json());
+        if (cancelled || !result.data) return;
+        const next = normalizeToMgdl(result.data);
+        setData(current =>
+          current && current.metadata.fecha_generacion === next.metadata.fecha_generacion ? current : next
+        );
+        setFromCache(false);
+        saveSummary(next).catch(err => console.warn('No se pudo guardar el resumen:', err));
+      } catch (err) {
+        console.warn('Error al recargar el resumen:', err);
+      }
+    };
+
+    const timer = window.setInterval(refresh, refreshIntervalMs ?? SUMMARY_REFRESH_MS);
+    window.addEventListener('online', refresh);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+      window.removeEventListener('online', refresh);
+    };
+  }, [apiUrl, refreshIntervalMs, fromCache]);
+
+  return { data, loading, error, validationErrors, droppedAlerts, fromCache };
 }
 
 /**
- * Hook para filtrar alertas de hiperglucemia
+ * Hook para cargar las lecturas crudas (todas, no solo las alertas)
  * 
- * @param alerts - Array completo de alertas
- * @param filters - Objeto con filtros activos
- * @returns Array de alertas filtradas
+ * El CSV se descarga y procesa por trozos en el worker de análisis;
+ * `progress` informa del avance mientras carga. Las filas inválidas se
+ * ignoran y se cuentan en `rejected`. Las lecturas cargadas se guardan en
+ * IndexedDB y, si el CSV no se puede descargar, se usan las guardadas
+ * (`fromCache`).
+ * 
+ * @param csvUrl - URL del CSV de lecturas normalizadas
+ * @returns Estado con lecturas, loading, avance, error, filas rechazadas,
+ * origen y función para reintentar la carga
  */
-export function useAlertFilters(
-  alerts: AlertaHiperglucemia[],
-  filters: {
-    patient?: PatientId | null;
-    context?: MealContext | null;
-    minGlucose?: number;
-    maxGlucose?: number;
-  }
+export function useGlucoseReadings(csvUrl: string = '/api/readings.csv') {
+  const [readings, setReadings] = useState<GlucoseReading[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [progress, setProgress] = useState<LoadProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [rejected, setRejected] = useState<number>(0);
+  const [fromCache, setFromCache] = useState<boolean>(false);
+  const [attempt, setAttempt] = useState<number>(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchReadings = async () => {
+      try {
+        setLoading(true);
+        setProgress(null);
+        const parsed = await loadReadingsCSV(csvUrl, next => {
+          if (!cancelled) setProgress(next);
+        });
+        if (cancelled) return;
+        setReadings(parsed.readings);
+        setRejected(parsed.rejected);
+        setFromCache(false);
+        setError(null);
+        saveReadings(parsed.readings).catch(err => console.warn('No se pudieron guardar las lecturas:', err));
+      } catch (err) {
+        if (cancelled) return;
+        // Sin conexión se usan las últimas lecturas guardadas
+        const cached = await loadCachedReadings().catch(() => null);
+        if (cancelled) return;
+        if (cached) {
+          setReadings(cached.readings);
+          setFromCache(true);
+          setError(null);
+        } else {
+          setError(err instanceof Error ? err.message : 'Error desconocido al cargar lecturas');
+          setReadings([]);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchReadings();
+    return () => {
+      cancelled = true;
+    };
+  }, [csvUrl, attempt]);
+
+  const retry = useCallback(() => setAttempt(current => current + 1), []);
+
+  // Con las lecturas guardadas se vuelve a intentar al recuperar la conexión
+  useEffect(() => {
+    if (!fromCache) return;
+    window.addEventListener('online', retry);
+    return () => window.removeEventListener('online', retry);
+  }, [fromCache, retry]);
+
+  return { readings, loading, progress, error, rejected, fromCache, retry };
+}
+
+/**
+ * Estado de la conexión del modo en vivo
+ */
+export type LiveStatus = 'off' | 'connecting' | 'streaming' | 'polling' | 'error';
+
+export const LIVE_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Hook para el modo en vivo: nuevas lecturas por SSE con respaldo de polling
+ * 
+ * Intenta primero Server-Sent Events en `${baseUrl}/stream`; si la conexión
+ * no llega a abrirse (o el navegador no tiene EventSource) consulta
+ * `${baseUrl}/readings?since=` cada `pollInterval` ms. Las lecturas inválidas
+ * o repetidas se ignoran. Al desactivarlo se conservan las ya recibidas.
+ * 
+ * @param enabled - Si el modo en vivo está activo
+ * @param since - Timestamp de la última lectura ya cargada
+ * @param baseUrl - Prefijo del servidor de streaming
+ * @param pollInterval - Intervalo del polling de respaldo en ms
+ * @returns Lecturas recibidas, estado de la conexión y hora de la última
+ */
+export function useLiveReadings(
+  enabled: boolean,
+  since: string | null,
+  baseUrl: string = '/live',
+  pollInterval: number = LIVE_POLL_INTERVAL_MS
 ) {
-  return useMemo(() => {
-    let filtered = [...alerts];
+  const [liveReadings, setLiveReadings] = useState<GlucoseReading[]>([]);
+  const [status, setStatus] = useState<LiveStatus>('connecting');
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const sinceRef = useRef<string | null>(since);
+  const seenRef = useRef(new Set<string>());
 
-    if (filters.patient) {
-      filtered = filtered.filter(alert => alert.patient_id === filters.patient);
+  useEffect(() => {
+    if (since && (!sinceRef.current || since > sinceRef.current)) {
+      sinceRef.current = since;
     }
+  }, [since]);
 
-    if (filters.context) {
-      filtered = filtered.filter(alert => alert.meal_context === filters.context);
-    }
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    let source: EventSource | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    const query = () => (sinceRef.current ? `?since=${encodeURIComponent(sinceRef.current)}` : '');
 
-    if (filters.minGlucose !== undefined) {
-      filtered = filtered.filter(alert => alert.glucose_level >= filters.minGlucose!);
+    const receive = (incoming: unknown[]) => {
+      const fresh = incoming.filter((item): item is GlucoseReading => {
+        if (validateReading(item).length > 0) return false;
+        const key = readingKey(item as GlucoseReading);
+        if (seenRef.current.has(key)) return false;
+        seenRef.current.add(key);
+        return true;
+      });
+      if (fresh.length === 0) return;
+
+      fresh.forEach(reading => {
+        if (!sinceRef.current || reading.timestamp > sinceRef.current) sinceRef.current = reading.timestamp;
+      });
+      setLiveReadings(previous => [...previous, ...fresh]);
+      setLastUpdated(new Date());
+    };
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`${baseUrl}/readings${query()}`);
+        if (!response.ok) {
+          throw new Error(`Error HTTP: ${response.status}`);
+        }
+        const body: unknown = await response.json();
+        if (cancelled) return;
+        receive(Array.isArray(body) ? body : []);
+        setStatus('polling');
+      } catch {
+        if (!cancelled) setStatus('error');
+      }
+    };
+
+    const startPolling = () => {
+      poll();
+      timer = setInterval(poll, pollInterval);
+    };
+
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+    } else {
+      let opened = false;
+      source = new EventSource(`${baseUrl}/stream${query()}`);
+      source.onopen = () => {
+        opened = true;
+        setStatus('streaming');
+      };
+      source.addEventListener('reading', (event) => {
+        try {
+          receive([JSON.parse(event.data)]);
+        } catch {
+          // Evento malformado: se ignora
+        }
+      });
+      source.onerror = () => {
+        // Tras abrir, EventSource reconecta solo; si nunca abrió, se pasa a polling
+        if (opened) {
+          setStatus('connecting');
+          return;
+        }
+        source?.close();
+        source = null;
+        startPolling();
+      };
     }
 
-    if (filters.maxGlucose !== undefined) {
-      filtered = filtered.filter(alert => alert.glucose_level <= filters.maxGlucose!);
+    return () => {
+      cancelled = true;
+      source?.close();
+      clearInterval(timer);
+      setStatus('connecting');
+    };
+  }, [enabled, baseUrl, pollInterval]);
+
+  const currentStatus: LiveStatus = enabled ? status : 'off';
+  return { liveReadings, status: currentStatus, lastUpdated };
+}
+
+/**
+ * Hook para métricas CGM de consenso por paciente (TIR, GMI, CV)
+ * 
+ * @param readings - Todas las lecturas de la cohorte
+ * @returns Objeto con métricas por paciente
+ */
+export function usePatientMetrics(readings: GlucoseReading[]) {
+  return useMemo(() => computeMetricsByPatient(readings), [readings]);
+}
+
+/**
+ * Hook para unir alertas de hiperglucemia e hipoglucemia
+ * 
+ * @param data - Resumen cargado (o null mientras carga)
+ * @returns Array de alertas de ambos tipos ordenado por fecha
+ */
+export function useAllAlerts(data: GlucoseData | null): AlertaGlucosa[] {
+  return useMemo(() => (data ? mergeAlerts(data) : []), [data]);
+}
+
+/**
+ * Hook para contar las alertas pendientes de revisión
+ * 
+ * @param alerts - Alertas a considerar
+ * @param reviews - Revisiones por alertKey
+ * @returns Alertas sin revisión o con estado "new"
+ */
+export function useUnreviewedCount(alerts: AlertaGlucosa[], reviews: ReadonlyMap<string, AlertReview>) {
+  return useMemo(
+    () => alerts.filter(alert => reviewStatusOf(alert, reviews) === 'new').length,
+    [alerts, reviews]
+  );
+}
+
+/**
+ * Pasa el filtro de paciente y contexto de las primeras versiones
+ * ('filter_patient' y 'filter_context') a 'dashboard_filter'
+ * 
+ * Solo se copia si aún no hay filtro nuevo; las claves antiguas se borran
+ * para que la migración ocurra una sola vez.
+ */
+function migrateLegacyFilter(): void {
+  try {
+    const patient = window.localStorage.getItem('filter_patient');
+    const context = window.localStorage.getItem('filter_context');
+    if (patient === null && context === null) return;
+    if (window.localStorage.getItem('dashboard_filter') === null) {
+      const filter = filterFromLegacy(patient && JSON.parse(patient), context && JSON.parse(context));
+      window.localStorage.setItem('dashboard_filter', JSON.stringify(filter));
     }
+    window.localStorage.removeItem('filter_patient');
+    window.localStorage.removeItem('filter_context');
+  } catch (error) {
+    console.warn('Error migrating legacy dashboard filter:', error);
+  }
+}
 
-    return filtered;
-  }, [alerts, filters]);
+/**
+ * Hook para el filtro por defecto del dashboard, guardado en localStorage
+ * 
+ * Solo se usa cuando la URL no trae filtro (ver useDashboardUrlState).
+ * 
+ * Los filtros guardados con versiones anteriores se completan con los
+ * criterios que les falten, y el de paciente y contexto de las primeras
+ * versiones se migra al cargar.
+ * 
+ * @returns [filtro, setter]
+ */
+export function useDashboardFilter(): [AlertFilter, (filter: AlertFilter) => void] {
+  // Antes de leer 'dashboard_filter', que ya incluirá el filtro migrado
+  useState(migrateLegacyFilter);
+  const [stored, setFilter] = useLocalStorage<AlertFilter>('dashboard_filter', EMPTY_FILTER);
+  const filter = useMemo(() => normalizeFilter(stored), [stored]);
+  return [filter, setFilter];
 }
 
+// Espera antes de llevar a la URL el zoom de la gráfica mientras se arrastra
+export const URL_RANGE_DELAY_MS = 500;
+
 /**
- * Hook para obtener estadísticas de pacientes
+ * Hook para la vista del dashboard guardada en la URL
+ * 
+ * Filtro, orden de las tablas y zoom de la gráfica viven en los parámetros
+ * de la URL (ver analysis/urlState), así que una vista se comparte copiando
+ * el enlace, cada pestaña tiene la suya y atrás/adelante del navegador la
+ * recorren. El filtro se guarda además en localStorage como valor por
+ * defecto para las URLs sin parámetros (ej. el enlace "Volver a la
+ * cohorte"), que se completan al entrar para que el historial las conserve.
+ * 
+ * Los cambios de filtro y orden añaden una entrada al historial; el zoom
+ * se escribe al dejar de arrastrar y reemplaza la entrada actual.
  * 
- * @param alerts - Array de alertas
- * @returns Objeto con estadísticas por paciente
+ * @returns Filtro, orden de alertas y episodios, zoom y sus setters
  */
-export function usePatientStats(alerts: AlertaHiperglucemia[]) {
-  return useMemo(() => {
-    const stats = new Map<PatientId, {
-      totalAlerts: number;
-      avgGlucose: number;
-      maxGlucose: number;
-      minGlucose: number;
-    }>();
+export function useDashboardUrlState() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [defaultFilter, setDefaultFilter] = useDashboardFilter();
+  const state = useMemo(() => decodeDashboardState(searchParams, defaultFilter), [searchParams, defaultFilter]);
+  const search = searchParams.toString();
 
-    alerts.forEach(alert => {
-      const existing = stats.get(alert.patient_id);
-      
-      if (!existing) {
-        stats.set(alert.patient_id, {
-          totalAlerts: 1,
-          avgGlucose: alert.glucose_level,
-          maxGlucose: alert.glucose_level,
-          minGlucose: alert.glucose_level,
-        });
-      } else {
-        existing.totalAlerts += 1;
-        existing.avgGlucose = (existing.avgGlucose * (existing.totalAlerts - 1) + alert.glucose_level) / existing.totalAlerts;
-        existing.maxGlucose = Math.max(existing.maxGlucose, alert.glucose_level);
-        existing.minGlucose = Math.min(existing.minGlucose, alert.glucose_level);
-      }
-    });
+  // Zoom en curso, ligado a la URL sobre la que empezó
+  const [draft, setDraft] = useState<{ search: string; range: TimeRange | null } | null>(null);
+  const range = draft && draft.search === search ? draft.range : state.range;
+
+  const navigate = useCallback((next: DashboardUrlState, replace = false) => {
+    setSearchParams(encodeDashboardState(next), { replace });
+  }, [setSearchParams]);
+
+  useEffect(() => {
+    if (!hasDashboardParams(searchParams)) navigate(state, true);
+  }, [searchParams, state, navigate]);
+
+  useEffect(() => {
+    if (!draft || draft.search !== search) return;
+    const next = { ...state, range: draft.range };
+    // Un zoom que redondea a la misma URL (segundos) no vuelve a navegar
+    if (encodeDashboardState(next).toString() === search) return;
+    const timer = setTimeout(() => navigate(next, true), URL_RANGE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draft, search, state, navigate]);
+
+  const setFilter = useCallback((filter: AlertFilter) => {
+    setDefaultFilter(filter);
+    navigate({ ...state, filter, range });
+  }, [state, range, navigate, setDefaultFilter]);
+
+  const setRange = useCallback((next: TimeRange | null, { push = false }: { push?: boolean } = {}) => {
+    if (push) navigate({ ...state, range: next });
+    else setDraft({ search, range: next });
+  }, [state, search, navigate]);
 
-    return Object.fromEntries(stats);
-  }, [alerts]);
+  return {
+    filter: state.filter,
+    setFilter,
+    alertSort: {
+      sortField: state.alertSort.field,
+      sortOrder: state.alertSort.order,
+      handleSort: (field: AlertSortField) => navigate({ ...state, range, alertSort: toggleSort(state.alertSort, field) }),
+    },
+    episodeSort: {
+      sortField: state.episodeSort.field,
+      sortOrder: state.episodeSort.order,
+      handleSort: (field: EpisodeSortField) => navigate({ ...state, range, episodeSort: toggleSort(state.episodeSort, field) }),
+    },
+    range,
+    setRange,
+  };
+}
+
+/**
+ * Hook para el estado de orden de una tabla (columna y sentido)
+ * 
+ * Pulsar la columna activa invierte el sentido; otra columna empieza en
+ * descendente.
+ * 
+ * @param initialField - Columna inicial (descendente)
+ * @returns Campo y sentido actuales y handler de cabecera
+ */
+export function useSortState<F extends string>(initialField: F) {
+  const [sort, setSort] = useState<SortState<F>>({ field: initialField, order: 'desc' });
+  const handleSort = (field: F) => setSort(toggleSort(sort, field));
+  return { sortField: sort.field, sortOrder: sort.order, handleSort };
+}
+
+// Pulsar la columna activa invierte el sentido; otra columna empieza en descendente
+function toggleSort<F extends string>(current: SortState<F>, field: F): SortState<F> {
+  if (current.field === field) return { field, order: current.order === 'asc' ? 'desc' : 'asc' };
+  return { field, order: 'desc' };
+}
+
+/**
+ * Hook para ordenar alertas por columna de la tabla
+ * 
+ * @param alerts - Alertas a ordenar
+ * @returns Alertas ordenadas, campo y sentido actuales y handler de cabecera
+ */
+export function useAlertSort(alerts: AlertaGlucosa[]) {
+  const { sortField, sortOrder, handleSort } = useSortState<AlertSortField>('timestamp');
+  const sortedAlerts = useMemo(() => sortAlerts(alerts, sortField, sortOrder), [alerts, sortField, sortOrder]);
+  return { sortedAlerts, sortField, sortOrder, handleSort };
+}
+
+/**
+ * Hook para la página visible de una tabla
+ * 
+ * Vuelve a la primera página cuando cambia `resetKey` (filtro, orden o
+ * ventana de la tabla).
+ * 
+ * @param resetKey - Identifica la lista paginada
+ * @returns [página desde 0, setter]
+ */
+export function usePageIndex(resetKey: string): [number, (page: number) => void] {
+  const [state, setState] = useState({ key: resetKey, page: 0 });
+  const setPage = useCallback((page: number) => setState({ key: resetKey, page }), [resetKey]);
+  return [state.key === resetKey ? state.page : 0, setPage];
+}
+
+/**
+ * Hook que devuelve un valor con retraso, cuando deja de cambiar
+ * 
+ * @param value - Valor que cambia con frecuencia (ej. al arrastrar el zoom)
+ * @param delayMs - Tiempo sin cambios antes de devolverlo
+ * @returns Último valor estable
+ */
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+}
+
+// Margen a cada lado de una alerta al hacer zoom desde la tabla
+export const ALERT_ZOOM_MARGIN_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * Hook para enlazar la gráfica de evolución con la tabla de alertas
+ * 
+ * El rango elegido en la gráfica filtra las alertas de la tabla (ver
+ * alertsInRange); al pulsar una fila se selecciona la alerta, se hace zoom
+ * a su entorno y se desplaza la vista hasta la gráfica.
+ * 
+ * Con `control` el rango lo guarda quien llama (ej. la URL del dashboard,
+ * ver useDashboardUrlState); el zoom desde la tabla se marca con `push`.
+ * 
+ * @param control - Rango y setter externos; sin él, estado local
+ * @returns Rango, alerta seleccionada y handlers
+ */
+export function useTimelineZoom(control?: {
+  range: TimeRange | null;
+  setRange: (range: TimeRange | null, options?: { push?: boolean }) => void;
+}) {
+  const [localRange, setLocalRange] = useState<TimeRange | null>(null);
+  const [focus, setFocus] = useState<{ key: string; time: number } | null>(null);
+  const chartRef = useRef<HTMLDivElement>(null);
+  const range = control ? control.range : localRange;
+  const setRange: (range: TimeRange | null, options?: { push?: boolean }) => void = control?.setRange ?? setLocalRange;
+
+  const changeRange = useCallback((next: TimeRange | null) => {
+    setRange(next);
+    setFocus(null);
+  }, [setRange]);
+
+  const focusAlert = useCallback((alert: AlertaGlucosa) => {
+    const time = toEpoch(alert.timestamp);
+    setRange({ start: time - ALERT_ZOOM_MARGIN_MS, end: time + ALERT_ZOOM_MARGIN_MS }, { push: true });
+    setFocus({ key: alertKey(alert), time });
+    chartRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [setRange]);
+
+  return {
+    range,
+    selectedKey: focus?.key ?? null,
+    focusTime: focus?.time ?? null,
+    changeRange,
+    focusAlert,
+    chartRef,
+  };
+}
+
+/**
+ * Hook para los puntos de la gráfica de evolución calculados en el hilo
+ * principal (vistas con pocas lecturas, como la de un paciente)
+ * 
+ * @param readings - Lecturas a dibujar
+ * @param alerts - Alertas a marcar
+ * @param range - Ventana de zoom
+ * @returns Vista general y detalle de la ventana
+ */
+export function useTimelineSeries(
+  readings: GlucoseReading[],
+  alerts: AlertaGlucosa[],
+  range: TimeRange | null
+): TimelineSeries {
+  const index = useMemo(() => indexTimeline(readings, alerts), [readings, alerts]);
+  const overview = useMemo(() => sampleTimeline(index), [index]);
+  const detail = useMemo(() => (range ? sampleTimeline(index, range) : null), [index, range]);
+  return { overview, detail, detailRange: range, total: index.readings.length };
+}
+
+/**
+ * Hook para la vista del dashboard calculada en el worker de análisis
+ * 
+ * Mientras llega la respuesta a una consulta nueva se sigue devolviendo la
+ * vista anterior, con `pending` a true. Las respuestas a consultas ya
+ * superadas se descartan.
+ * 
+ * @param readings - Lecturas en uso
+ * @param data - Resumen analizado (su cambio indica alertas nuevas en el worker)
+ * @param reviews - Revisiones por alertKey
+ * @param query - Filtro, orden, ventanas y páginas (memorizado)
+ * @returns Última vista, si hay una consulta en curso y error
+ */
+export function useDashboardView(
+  readings: GlucoseReading[],
+  data: GlucoseData | null,
+  reviews: ReadonlyMap<string, AlertReview>,
+  query: DashboardQuery
+) {
+  const [result, setResult] = useState<{ view: DashboardView; query: DashboardQuery; data: GlucoseData } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!data) return;
+    let cancelled = false;
+    queryDashboardView(readings, reviews, query)
+      .then(view => {
+        if (cancelled) return;
+        setResult({ view, query, data });
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Error al calcular la vista');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [readings, data, reviews, query]);
+
+  const pending = !result || result.query !== query || result.data !== data;
+  return { view: result?.view ?? null, pending, error };
+}
+
+/**
+ * Hook para comparar dos grupos en el worker de análisis
+ * 
+ * Igual que useDashboardView: mientras se calcula una comparación nueva se
+ * devuelve la anterior con `pending` a true.
+ * 
+ * @param readings - Lecturas en uso
+ * @param data - Resumen analizado (su cambio indica alertas nuevas en el worker)
+ * @param cohorts - Grupos A y B, o null para la comparación inicial del worker
+ * @returns Última comparación, si hay una en curso y error
+ */
+export function useComparison(
+  readings: GlucoseReading[],
+  data: GlucoseData | null,
+  cohorts: [ComparisonCohort, ComparisonCohort] | null
+) {
+  const [result, setResult] = useState<{
+    comparison: ComparisonResult;
+    cohorts: [ComparisonCohort, ComparisonCohort] | null;
+    data: GlucoseData;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!data) return;
+    let cancelled = false;
+    queryComparison(readings, cohorts)
+      .then(comparison => {
+        if (cancelled) return;
+        setResult({ comparison, cohorts, data });
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Error al comparar los grupos');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [readings, data, cohorts]);
+
+  const pending = !result || result.cohorts !== cohorts || result.data !== data;
+  return { comparison: result?.comparison ?? null, pending, error };
+}
+
+/**
+ * Hook para agrupar en episodios las lecturas fuera de rango
+ * 
+ * @param readings - Lecturas sin filtrar
+ * @param alerts - Alertas de esas lecturas
+ * @param perfil - Perfil de umbrales para el área fuera de rango
+ * @param maxGapMinutes - Separación máxima entre lecturas de un episodio
+ * @returns Episodios ordenados por inicio
+ */
+export function useEpisodes(
+  readings: GlucoseReading[],
+  alerts: AlertaGlucosa[],
+  perfil: ThresholdProfile,
+  maxGapMinutes: number
+) {
+  return useMemo(
+    () => buildEpisodes(readings, alerts, perfil, maxGapMinutes),
+    [readings, alerts, perfil, maxGapMinutes]
+  );
+}
+
+/**
+ * Hook para la separación máxima entre lecturas de un episodio, con
+ * persistencia en localStorage
+ * 
+ * @returns [minutos, setter]
+ */
+export function useEpisodeGap(): [number, (minutes: number) => void] {
+  return useLocalStorage<number>('episode_gap_minutes', DEFAULT_EPISODE_GAP_MINUTES);
 }
 
 /**
  * Hook para obtener lista única de pacientes
  * 
- * @param alerts - Array de alertas
+ * @param alerts - Array de alertas o de lecturas
  * @returns Array ordenado de IDs de pacientes
  */
-export function usePatientList(alerts: AlertaHiperglucemia[]): PatientId[] {
-  return useMemo(() => {
-    return Array.from(new Set(alerts.map(alert => alert.patient_id))).sort();
-  }, [alerts]);
+export function usePatientList(alerts: { patient_id: PatientId }[]): PatientId[] {
+  return useMemo(() => listPatients(alerts), [alerts]);
 }
 
 /**
  * Hook para estadísticas por contexto de comida
  * 
- * @param alerts - Array de alertas
- * @returns Objeto con conteo por contexto
+ * @param alerts - Array de alertas de cualquier tipo
+ * @returns Objeto con conteo por contexto y tipo de alerta
  */
-export function useContextStats(alerts: AlertaHiperglucemia[]) {
-  return useMemo(() => {
-    const stats: Record<MealContext, number> = {
-      'Fasting': 0,
-      'Post-prandial': 0,
-      'Before sleep': 0,
-    };
+export function useContextStats(alerts: AlertaGlucosa[]) {
+  return useMemo(() => computeContextStats(alerts), [alerts]);
+}
 
-    alerts.forEach(alert => {
-      stats[alert.meal_context] = (stats[alert.meal_context] || 0) + 1;
-    });
+/**
+ * Hook para la tendencia de un paciente
+ * 
+ * @param readings - Lecturas del paciente
+ * @param window - Días de la ventana
+ * @returns Pendiente con su intervalo y confianza, o null sin lecturas
+ */
+export function usePatientTrend(readings: GlucoseReading[], window: TrendWindow): PatientTrend | null {
+  return useMemo(() => computePatientTrend(readings, window), [readings, window]);
+}
+
+/**
+ * Hook para la previsión de glucosa de un paciente desde su última lectura
+ * 
+ * @param readings - Lecturas del paciente
+ * @returns Una previsión por horizonte (vacío sin historial suficiente)
+ */
+export function usePatientForecast(readings: GlucoseReading[]): PrevisionGlucosa[] {
+  return useMemo(() => forecastLatest(readings), [readings]);
+}
 
-    return stats;
-  }, [alerts]);
+/**
+ * Hook para la ventana de la tendencia, con persistencia en localStorage
+ * 
+ * @returns [días, setter]
+ */
+export function useTrendWindow(): [TrendWindow, (days: TrendWindow) => void] {
+  return useLocalStorage<TrendWindow>('trend_window_days', DEFAULT_TREND_WINDOW);
 }
 
 /**
- * Hook para detectar tendencias temporales
+ * Hook para la calidad de los datos de un paciente
+ * 
+ * El periodo es el de toda la cohorte, como en el dashboard, para que los
+ * días sin lecturas al principio o al final cuenten como huecos.
  * 
- * @param alerts - Array de alertas ordenadas por tiempo
- * @returns Indicador de tendencia: 'increasing', 'decreasing', 'stable'
+ * @param readings - Lecturas de toda la cohorte
+ * @param patientId - ID del paciente
+ * @param patientReadings - Lecturas del paciente
+ * @param gapMinutes - Separación a partir de la cual hay un hueco
+ * @returns Informe con solo ese paciente (sin entrada si no tiene lecturas)
  */
-export function useGlucoseTrend(alerts: AlertaHiperglucemia[]): 'increasing' | 'decreasing' | 'stable' {
-  return useMemo(() => {
-    if (alerts.length < 10) return 'stable';
+export function usePatientQuality(
+  readings: GlucoseReading[],
+  patientId: PatientId,
+  patientReadings: GlucoseReading[],
+  gapMinutes: number
+): DataQualityReport {
+  const period = useMemo(() => readingsPeriod(readings), [readings]);
+  return useMemo(() => ({
+    from: period?.from ?? null,
+    to: period?.to ?? null,
+    gapMinutes,
+    patients: patientReadings.length > 0
+      ? { [patientId]: computePatientQuality(patientReadings, gapMinutes, period ?? undefined) }
+      : {},
+  }), [patientId, patientReadings, gapMinutes, period]);
+}
 
-    // Tomar primeros y últimos 20% de datos
-    const sampleSize = Math.floor(alerts.length * 0.2);
-    const firstSample = alerts.slice(0, sampleSize);
-    const lastSample = alerts.slice(-sampleSize);
+/**
+ * Hook para la separación que cuenta como hueco del sensor, con
+ * persistencia en localStorage
+ * 
+ * @returns [minutos, setter]
+ */
+export function useQualityGap(): [number, (minutes: number) => void] {
+  return useLocalStorage<number>('quality_gap_minutes', DEFAULT_QUALITY_GAP_MINUTES);
+}
 
-    const firstAvg = firstSample.reduce((sum, a) => sum + a.glucose_level, 0) / firstSample.length;
-    const lastAvg = lastSample.reduce((sum, a) => sum + a.glucose_level, 0) / lastSample.length;
+/**
+ * Hook para exportar datos a CSV
+ * 
+ * Las cabeceras y las etiquetas de tipo, contexto y severidad se escriben
+ * en el idioma activo. Las alertas se pasan al descargar porque en el
+ * dashboard se piden al worker solo en ese momento.
+ * 
+ * @param unit - Unidad de la columna de glucosa
+ * @param reviews - Revisiones por alertKey (columnas de estado, revisor, fecha y notas)
+ * @returns Función que descarga como CSV las alertas recibidas
+ */
+export function useExportCSV(unit: GlucoseUnit = 'mg/dL', reviews?: ReadonlyMap<string, AlertReview>) {
+  const { t } = useI18n();
 
-    const diff = lastAvg - firstAvg;
-    const threshold = 5; // mg/dL
+  return (alerts: AlertaGlucosa[]) => {
+    const headers = [
+      t('export.datetime'),
+      t('export.kind'),
+      t('export.patient'),
+      t('export.glucose', { unit }),
+      t('export.context'),
+      t('export.severity'),
+      t('export.rule'),
+      t('export.forecast', { unit }),
+      t('export.forecastInterval'),
+      t('export.forecastHorizon'),
+      t('export.reviewStatus'),
+      t('export.reviewer'),
+      t('export.reviewedAt'),
+      t('export.reviewNotes'),
+    ];
+    const rows = alerts.map(alert => {
+      const review = reviews?.get(alertKey(alert));
+      return [
+        alert.timestamp,
+        t(`kind.${alert.tipo}`),
+        alert.patient_id,
+        roundGlucose(alert.glucose_level, unit).toString(),
+        alert.meal_context ? t(`context.${alert.meal_context}`) : t('context.none'),
+        t(`severity.${alert.severidad}`),
+        alert.regla?.nombre.replaceAll(',', ' ') ?? '',
+        ...(alert.tipo === 'hiperglucemia_prevista'
+          ? [
+            roundGlucose(alert.prevision.glucosa, unit).toString(),
+            `${roundGlucose(alert.prevision.inferior, unit)}-${roundGlucose(alert.prevision.superior, unit)}`,
+            alert.prevision.horizonte_min.toString(),
+          ]
+          : ['', '', '']),
+        t(`review.status.${review?.status ?? 'new'}`),
+        review?.reviewer.replaceAll(',', ' ') ?? '',
+        review?.reviewedAt ?? '',
+        review?.notes.replace(/[,\r\n]+/g, ' ') ?? '',
+      ];
+    });
 
-    if (diff > threshold) return 'increasing';
-    if (diff < -threshold) return 'decreasing';
-    return 'stable';
-  }, [alerts]);
+    downloadCSV(t('export.filename', { date: new Date().toISOString().split('T')[0] }), headers, rows);
+  };
 }
 
 /**
- * Hook para exportar datos a CSV
+ * Hook para exportar episodios a CSV
  * 
- * @param alerts - Array de alertas a exportar
- * @returns Función para descargar CSV
+ * @param unit - Unidad de las columnas de glucosa y del área
+ * @returns Función que descarga como CSV los episodios recibidos
  */
-export function useExportCSV(alerts: AlertaHiperglucemia[]) {
-  return () => {
-    const headers = ['Fecha/Hora', 'Paciente', 'Glucosa (mg/dL)', 'Contexto', 'Severidad'];
-    const rows = alerts.map(alert => [
-      alert.timestamp,
-      alert.patient_id,
-      alert.glucose_level.toString(),
-      alert.meal_context,
-      alert.severidad,
+export function useExportEpisodesCSV(unit: GlucoseUnit = 'mg/dL') {
+  const { t } = useI18n();
+
+  return (episodes: GlycemicEpisode[]) => {
+    const headers = [
+      t('export.kind'),
+      t('export.patient'),
+      t('export.start'),
+      t('export.end'),
+      t('export.duration'),
+      t('export.readings'),
+      t('export.peak', { unit }),
+      t('export.mean', { unit }),
+      t('export.area', { unit }),
+      t('export.severity'),
+      t('export.context'),
+    ];
+    const rows = episodes.map(episode => [
+      t(`kind.${episode.tipo}`),
+      episode.patient_id,
+      episode.start,
+      episode.end,
+      episode.durationMinutes.toString(),
+      episode.readings.toString(),
+      roundGlucose(episode.peak, unit).toString(),
+      roundGlucose(episode.mean, unit).toString(),
+      roundGlucose(episode.area, unit).toString(),
+      t(`severity.${episode.severidad}`),
+      episode.contexts.map(context => t(`context.${context}`)).join(' / '),
     ]);
 
-    const csvContent = [
-      headers.join(','),
-      ...rows.map(row => row.join(','))
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    
-    link.setAttribute('href', url);
-    link.setAttribute('download', `alertas_glucosa_${new Date().toISOString().split('T')[0]}.csv`);
-    link.style.visibility = 'hidden';
-    
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadCSV(t('export.episodesFilename', { date: new Date().toISOString().split('T')[0] }), headers, rows);
   };
 }
 
+/**
+ * Descarga filas ya formateadas como archivo CSV
+ */
+function downloadCSV(filename: string, headers: string[], rows: string[][]) {
+  const csvContent = [
+    headers.join(','),
+    ...rows.map(row => row.join(','))
+  ].join('\n');
+
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
 /**
  * Hook para localStorage persistence
  * 
+ * Con `sync` cada cambio se encola además para enviarlo al servidor (ver
+ * storage/sync), también los hechos sin conexión.
+ * 
  * @param key - Clave para localStorage
  * @param initialValue - Valor inicial
+ * @param options - `sync`: sincronizar el ajuste entre dispositivos
  * @returns [valor, setter] similar a useState
  */
-export function useLocalStorage<T>(key: string, initialValue: T): [T, (value: T) => void] {
+export function useLocalStorage<T>(
+  key: string,
+  initialValue: T,
+  { sync = false }: { sync?: boolean } = {}
+): [T, (value: T) => void] {
   const [storedValue, setStoredValue] = useState<T>(() => {
     try {
       const item = window.localStorage.getItem(key);
@@ -233,14 +1037,271 @@ export function useLocalStorage<T>(key: string, initialValue: T): [T, (value: T)
     }
   });
 
-  const setValue = (value: T) => {
+  const setValue = useCallback((value: T) => {
     try {
       setStoredValue(value);
       window.localStorage.setItem(key, JSON.stringify(value));
     } catch (error) {
       console.warn(`Error setting localStorage key "${key}":`, error);
     }
-  };
+    if (sync) {
+      queueChange('setting', key, value).catch(error => console.warn(`Error queuing setting "${key}":`, error));
+    }
+  }, [key, sync]);
 
   return [storedValue, setValue];
+}
+
+/**
+ * Hook para los perfiles de umbrales guardados en localStorage
+ * 
+ * `activeProfileId` null significa usar el perfil con el que se generó el
+ * resumen (sin reanalizar).
+ * 
+ * @returns Perfiles, id activo y sus setters
+ */
+export function useThresholdProfiles() {
+  const [profiles, setProfiles] = useLocalStorage<ThresholdProfile[]>('threshold_profiles', [...PRESET_PROFILES], { sync: true });
+  const [activeProfileId, setActiveProfileId] = useLocalStorage<string | null>('threshold_profile_active', null, { sync: true });
+
+  return { profiles, setProfiles, activeProfileId, setActiveProfileId };
+}
+
+/**
+ * Hook para las reglas de alerta guardadas en localStorage
+ * 
+ * @returns [reglas en orden de prioridad, setter]
+ */
+export function useAlertRules(): [AlertRule[], (rules: AlertRule[]) => void] {
+  return useLocalStorage<AlertRule[]>('alert_rules', [...DEFAULT_RULES], { sync: true });
+}
+
+/**
+ * Hook para las revisiones de alertas guardadas en IndexedDB
+ * 
+ * Los cambios se aplican al estado en el acto y se guardan en segundo
+ * plano; si el navegador no permite IndexedDB las revisiones duran solo
+ * la sesión y el motivo queda en `error`. Cada revisión guardada se encola
+ * también para el servidor (ver storage/sync).
+ * 
+ * @returns Revisiones por alertKey, función para guardar y error de almacenamiento
+ */
+export function useAlertReviews() {
+  const [reviews, setReviews] = useState<ReadonlyMap<string, AlertReview>>(() => new Map());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAllRecords<AlertReview>('alert_reviews')
+      .then(records => {
+        if (cancelled) return;
+        // Las revisiones hechas antes de terminar la lectura tienen prioridad
+        setReviews(current => new Map([...records.map(review => [review.alertKey, review] as const), ...current]));
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'No se pudieron leer las revisiones');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const saveReview = useCallback((review: AlertReview) => {
+    setReviews(current => new Map(current).set(review.alertKey, review));
+    putRecord('alert_reviews', review)
+      .then(() => queueChange('review', review.alertKey, review))
+      .catch(err => {
+        setError(err instanceof Error ? err.message : 'No se pudo guardar la revisión');
+      });
+  }, []);
+
+  return { reviews, saveReview, error };
+}
+
+/**
+ * Hook para las preferencias de notificación, con persistencia en localStorage
+ * 
+ * @returns [preferencias, setter]
+ */
+export function useNotificationSettings(): [NotificationSettings, (settings: NotificationSettings) => void] {
+  return useLocalStorage<NotificationSettings>('notification_settings', DEFAULT_NOTIFICATION_SETTINGS, { sync: true });
+}
+
+const NOTIFIED_KEYS_STORAGE = 'notified_alerts';
+
+function loadNotifiedKeys(): Set<string> {
+  try {
+    const item = window.localStorage.getItem(NOTIFIED_KEYS_STORAGE);
+    return new Set(item ? (JSON.parse(item) as string[]) : []);
+  } catch (error) {
+    console.warn(`Error reading localStorage key "${NOTIFIED_KEYS_STORAGE}":`, error);
+    return new Set();
+  }
+}
+
+function saveNotifiedKeys(keys: Set<string>) {
+  try {
+    window.localStorage.setItem(NOTIFIED_KEYS_STORAGE, JSON.stringify([...keys].slice(-MAX_NOTIFIED_KEYS)));
+  } catch (error) {
+    console.warn(`Error setting localStorage key "${NOTIFIED_KEYS_STORAGE}":`, error);
+  }
+}
+
+/**
+ * Hook que avisa con notificaciones del navegador de las alertas nuevas
+ * 
+ * Compara cada carga del resumen con la anterior: la primera solo sirve
+ * de referencia y, a partir de ahí, las alertas que aparecen y cumplen los
+ * criterios se notifican una vez (las ya tratadas se recuerdan en
+ * localStorage, también entre sesiones). Hace falta que el usuario las
+ * haya activado y que el navegador tenga permiso.
+ * 
+ * @param data - Resumen tal como llega de useGlucoseData
+ * @param settings - Criterios, silencios y horas de silencio
+ * @param unit - Unidad de los valores en el texto de la notificación
+ */
+export function useAlertNotifications(data: GlucoseData | null, settings: NotificationSettings, unit: GlucoseUnit) {
+  const { t, formatGlucose, formatDateTime } = useI18n();
+  const previousRef = useRef<AlertaGlucosa[] | null>(null);
+  const notifiedRef = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    if (!data) return;
+    const alerts = mergeAlerts(data);
+    const previous = previousRef.current;
+    previousRef.current = alerts;
+    if (!previous || !settings.enabled) return;
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+    notifiedRef.current ??= loadNotifiedKeys();
+    const notified = notifiedRef.current;
+    const { notify, handled } = selectNotifications(previous, alerts, settings, notified, new Date());
+    if (handled.length === 0) return;
+    handled.forEach(key => notified.add(key));
+    saveNotifiedKeys(notified);
+
+    const show = (title: string, options: NotificationOptions) => {
+      const notification = new Notification(title, options);
+      notification.onclick = () => {
+        window.focus();
+        notification.close();
+      };
+    };
+
+    if (notify.length > MAX_INDIVIDUAL_NOTIFICATIONS) {
+      const patients = [...new Set(notify.map(alert => alert.patient_id))].sort();
+      show(t('notifications.summaryTitle', { count: notify.length }), {
+        body: t('notifications.summaryBody', { patients: patients.join(', ') }),
+        tag: 'glucose-alerts',
+      });
+      return;
+    }
+    notify.forEach(alert => {
+      show(t('notifications.alertTitle', { kind: t(`kind.${alert.tipo}`), severity: t(`severity.${alert.severidad}`), patient: alert.patient_id }), {
+        body: t('notifications.alertBody', {
+          value: formatGlucose(alert.glucose_level, unit),
+          context: alert.meal_context ? t(`context.${alert.meal_context}`) : t('context.none'),
+          date: formatDateTime(alert.timestamp),
+        }),
+        tag: alertKey(alert),
+      });
+    });
+  }, [data, settings, unit, t, formatGlucose, formatDateTime]);
+}
+
+/**
+ * Hook para saber si el navegador tiene conexión
+ * 
+ * @returns true mientras navigator.onLine lo indique
+ */
+export function useOnlineStatus(): boolean {
+  return useSyncExternalStore(subscribeOnline, () => navigator.onLine);
+}
+
+/**
+ * Hook para la cola de cambios pendientes de sincronizar
+ * 
+ * Envía la cola al montar y cada vez que vuelve la conexión.
+ * 
+ * @returns Número de cambios (revisiones y ajustes) que esperan conexión
+ */
+export function usePendingChanges(): number {
+  const [pending, setPending] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const update = () => {
+      countPendingChanges()
+        .then(count => {
+          if (!cancelled) setPending(count);
+        })
+        .catch(err => console.warn('No se pudo leer la cola de sincronización:', err));
+    };
+    const flush = () => {
+      flushOutbox().catch(err => console.warn('No se pudo sincronizar:', err));
+    };
+
+    const unsubscribe = subscribeOutbox(update);
+    window.addEventListener('online', flush);
+    update();
+    flush();
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      window.removeEventListener('online', flush);
+    };
+  }, []);
+
+  return pending;
+}
+
+/**
+ * Hook para el historial de resúmenes guardados en IndexedDB
+ * 
+ * Se vuelve a leer cada vez que se guarda un resumen nuevo.
+ * 
+ * @returns Resúmenes del más reciente al más antiguo, loading y error
+ */
+export function useSnapshotHistory() {
+  const [snapshots, setSnapshots] = useState<CachedSummary[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const update = () => {
+      listSummaries()
+        .then(summaries => {
+          if (cancelled) return;
+          setSnapshots(summaries);
+          setError(null);
+        })
+        .catch(err => {
+          if (!cancelled) setError(err instanceof Error ? err.message : 'No se pudo leer el historial de resúmenes');
+        })
+        .finally(() => {
+          if (!cancelled) setLoading(false);
+        });
+    };
+
+    const unsubscribe = subscribeSummaries(update);
+    update();
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return { snapshots, loading, error };
+}
+
+/**
+ * Hook para comparar dos resúmenes del historial
+ * 
+ * @param before - Resumen anterior (o null si no hay)
+ * @param after - Resumen posterior (o null si no hay)
+ * @returns Diferencias, o null si falta alguno de los dos
+ */
+export function useSnapshotDiff(before: GlucoseData | null, after: GlucoseData | null): SnapshotDiff | null {
+  return useMemo(() => (before && after ? compareSnapshots(before, after) : null), [before, after]);
 }
\ No newline at end of file
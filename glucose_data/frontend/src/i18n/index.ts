@@ -0,0 +1,84 @@
+// i18n/index.ts
+// Catálogos de mensajes, traducción y formatos dependientes del idioma
+
+import { es } from './messages/es';
+import { en } from './messages/en';
+
+export type Locale = 'es' | 'en';
+
+export const LOCALES: readonly Locale[] = ['es', 'en'];
+
+/**
+ * Etiqueta BCP 47 usada por Intl para cada idioma
+ */
+export const LOCALE_TAGS: Record<Locale, string> = {
+  es: 'es-ES',
+  en: 'en-US',
+};
+
+/**
+ * Nombre de cada idioma en su propio idioma (para el selector)
+ */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  es: 'Español',
+  en: 'English',
+};
+
+/**
+ * Mensaje con formas de plural, elegidas con Intl.PluralRules según `{count}`
+ */
+export interface PluralMessage {
+  one: string;
+  other: string;
+}
+
+export type MessageKey = keyof typeof es;
+
+/**
+ * Forma que debe tener cada catálogo: las mismas claves que el español y
+ * plural donde el español usa plural
+ */
+export type Messages = {
+  [K in MessageKey]: (typeof es)[K] extends string ? string : PluralMessage;
+};
+
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, Messages> = { es, en };
+
+export function isLocale(value: string): value is Locale {
+  return (LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Idioma inicial a partir del navegador (español si no es inglés)
+ */
+export function detectLocale(): Locale {
+  const language = typeof navigator !== 'undefined' ? navigator.language.slice(0, 2) : 'es';
+  return isLocale(language) ? language : 'es';
+}
+
+/**
+ * Traduce una clave e interpola sus parámetros
+ *
+ * Los parámetros numéricos se formatean con el idioma; `{count}` además
+ * selecciona la forma de plural.
+ *
+ * @param locale - Idioma de destino
+ * @param key - Clave del catálogo
+ * @param params - Valores para los marcadores `{nombre}`
+ * @returns Texto traducido
+ */
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const tag = LOCALE_TAGS[locale];
+  const message: string | PluralMessage = CATALOGS[locale][key];
+  const template = typeof message === 'string'
+    ? message
+    : message[new Intl.PluralRules(tag).select(Number(params.count ?? 0)) === 'one' ? 'one' : 'other'];
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    if (!(name in params)) return match;
+    const value = params[name];
+    return typeof value === 'number' ? value.toLocaleString(tag) : value;
+  });
+}
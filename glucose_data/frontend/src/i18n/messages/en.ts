@@ -0,0 +1,536 @@
+// i18n/messages/en.ts
+// English catalog
+
+import type { Messages } from '../index';
+
+export const en: Messages = {
+  // General
+  'app.title': 'Glucose Medical Dashboard',
+  'app.backToCohort': 'Back to cohort',
+  'app.loading': 'Loading medical analysis...',
+  'app.loadingDetail': 'Processing glucose data',
+  'app.loadError': 'Error loading data',
+  'app.retry': 'Retry',
+  'app.loadingReadings': 'Loading readings…',
+  'app.loadingProgress': { one: '{count} reading processed', other: '{count} readings processed' },
+  'app.readingsError': 'Readings could not be loaded',
+  'app.readingsErrorDetail': 'Metrics based on readings are unavailable ({error})',
+  'app.updating': 'Updating…',
+  'app.exportCsv': 'Export CSV',
+  'app.thresholds': 'Thresholds',
+  'app.thresholdProfileTitle': 'Threshold profile: {name}',
+  'app.language': 'Language',
+  'app.unit': 'Glucose unit',
+
+  // Data model values
+  'context.Fasting': 'Fasting',
+  'context.Post-prandial': 'Post-prandial',
+  'context.Before sleep': 'Before sleep',
+  'context.none': 'No context',
+  'kind.hiperglucemia': 'Hyperglycemia',
+  'kind.hipoglucemia': 'Hypoglycemia',
+  'kind.hiperglucemia_sostenida': 'Sustained hyperglycemia',
+  'kind.subida_rapida': 'Rapid rise',
+  'kind.hiperglucemia_nocturna': 'Nocturnal hyperglycemia',
+  'kind.hiperglucemia_prevista': 'Predicted hyperglycemia',
+  'severity.moderate': 'Moderate',
+  'severity.high': 'High',
+  'severity.level1': 'Level 1',
+  'severity.level2': 'Level 2',
+  'severity.hypoPrefix': 'Hypo · {severity}',
+
+  // Trend
+  'trend.increasing': 'Rising trend ⚠️',
+  'trend.decreasing': 'Falling trend ✅',
+  'trend.stable': 'Stable trend',
+  'trend.window': 'Trend window',
+  'trend.windowOption': '{days} days',
+  'trend.slope': '{value} {unit}/day',
+  'trend.interval': '95% CI: {lower} to {upper} {unit}/day · {days} days with readings',
+  'trend.confidence.high': 'high confidence',
+  'trend.confidence.medium': 'medium confidence',
+  'trend.confidence.low': 'no clear trend',
+  'trend.confidence.insufficient': 'insufficient data',
+  'trend.patients': '{label}: {patients}',
+  'trend.none': 'No readings to compute trends',
+  'trend.card': 'Trend ({days} d)',
+
+  // Distance to target range
+  'distance.above': '+{value} above range',
+  'distance.below': '{value} below range',
+  'distance.inRange': 'Within range',
+
+  // Time in range
+  'tir.veryHigh': 'Very high (>{value})',
+  'tir.high': 'High ({from}–{to})',
+  'tir.inRange': 'In range ({from}–{to})',
+  'tir.low': 'Low ({from}–{to})',
+  'tir.veryLow': 'Very low (<{value})',
+
+  // Validation
+  'validation.dropped': {
+    one: '{count} alert with invalid data was discarded',
+    other: '{count} alerts with invalid data were discarded',
+  },
+  'validation.legacy': 'Summary in an older format: missing fields were filled with defaults',
+  'validation.droppedDetail': 'The rest of the summary is shown normally. Affected fields:',
+  'validation.more': '… and {count} more errors',
+
+  // Stat cards
+  'stats.totalAlerts': 'Total Alerts',
+  'stats.totalAlertsDetail': '{hyper} hyper · {hypo} hypo · {rules} from rules · {predicted} predicted',
+  'stats.maxGlucose': 'Maximum Glucose',
+  'stats.maxGlucoseDetail': 'Highest level detected',
+  'stats.minGlucose': 'Minimum Glucose',
+  'stats.minGlucoseDetail': 'Lowest level detected',
+  'stats.patients': 'Monitored Patients',
+  'stats.patientsDetail': '{count} with alerts',
+  'stats.targetRange': 'Target Range',
+  'stats.targetRangeDetail': '“{name}” profile · severe hypo < {value}',
+
+  // Patient cards
+  'patientCard.alerts': { one: '{count} alert', other: '{count} alerts' },
+  'patientCard.hyperHypo': 'Hyper / Hypo:',
+  'patientCard.mean': 'Mean glucose:',
+  'patientCard.gmi': 'GMI (estimated A1c):',
+  'patientCard.cv': 'Variability (CV):',
+  'patientCard.tir': 'Time in range · {count} readings',
+  'patientCard.noReadings': 'No readings available to compute metrics',
+
+  // Context chart
+  'chart.byContext': 'Average Glucose by Meal Context',
+  'chart.low': 'Low (<{value})',
+  'chart.normal': 'Normal ({from}–{to})',
+  'chart.high': 'High (>{value})',
+  'chart.contextThreshold': 'Context threshold',
+  'chart.glucoseAxis': 'Glucose ({unit})',
+  'chart.threshold': 'Threshold: {value}',
+  'chart.hypoThreshold': 'Hypoglycemia: {value}',
+  'chart.averageGlucose': 'Average glucose',
+
+  // Timeline
+  'timeline.title': 'Glucose Over Time',
+  'timeline.hint': 'Drag the selector below the chart to zoom in; the alerts table only shows that window. Click an alert in the table to center the chart on it.',
+  'timeline.empty': 'No readings in the selected period',
+  'timeline.emptyWindow': 'No alerts in the window selected on the chart',
+  'timeline.window': 'Window: {from} – {to}',
+  'timeline.resetZoom': 'Reset zoom',
+  'timeline.targetBand': 'Target range',
+  'timeline.sampled': 'Reduced view: {shown} points out of {total} readings (the maximum and minimum of each interval are kept)',
+
+  // AGP
+  'agp.title': 'Ambulatory Glucose Profile (AGP)',
+  'agp.wholeCohort': 'Whole cohort',
+  'agp.filtered': 'Filtered · {count} readings',
+  'agp.notEnough': 'Not enough readings to build the profile',
+  'agp.subtitle': '{readings} readings overlaid from {days} days · {minutes}-min bins',
+  'agp.band90': '5th–95th percentile',
+  'agp.band50': '25th–75th percentile',
+  'agp.median': 'Median',
+  'agp.medianValue': 'Median: {value}',
+  'agp.readings': '{count} readings',
+
+  // Context distribution
+  'contextDist.title': 'Alert Distribution by Context',
+  'contextDist.detail': 'alerts detected ({hyper} hyper · {hypo} hypo)',
+
+  // Filters
+  'filters.title': 'Filters',
+  'filters.patients': 'Patients',
+  'filters.contexts': 'Meal contexts',
+  'filters.multiHint': 'With nothing selected all are included. Filters apply to charts, statistics and the table.',
+  'filters.kind': 'Alert Type',
+  'filters.allKinds': 'All types',
+  'filters.severity': 'Severity',
+  'filters.allSeverities': 'All severities',
+  'filters.review': 'Review',
+  'filters.allReviews': 'All statuses',
+  'filters.dateRange': 'Date range',
+  'filters.timeWindow': 'Time of day',
+  'filters.timeWindowHint': 'E.g. 22:00–06:00 spans midnight',
+  'filters.glucoseRange': 'Glucose ({unit})',
+  'filters.from': 'From',
+  'filters.to': 'To',
+  'filters.min': 'Min',
+  'filters.max': 'Max',
+  'filters.active': 'Active filters:',
+  'filters.remove': 'Remove filter {label}',
+  'filters.chip.date': 'Date: {from} – {to}',
+  'filters.chip.time': 'Time: {from}–{to}',
+  'filters.chip.glucose': 'Glucose: {from} – {to}',
+  'filters.chip.review': 'Review: {status}',
+  'filters.clear': '✕ Clear all filters',
+
+  // Episodes
+  'episodes.title': 'Episodes',
+  'episodes.subtitle': 'Consecutive out-of-range readings of the same patient grouped into a single event',
+  'episodes.count': { one: '{count} episode', other: '{count} episodes' },
+  'episodes.gap': 'Maximum gap',
+  'episodes.gapOption': '{minutes} min',
+  'episodes.export': 'Export episodes',
+  'episodes.start': 'Start',
+  'episodes.until': 'until {end}',
+  'episodes.duration': 'Duration',
+  'episodes.readings': { one: '{count} reading', other: '{count} readings' },
+  'episodes.peak': 'Peak',
+  'episodes.mean': 'Mean',
+  'episodes.area': 'Area ({unit}·h)',
+  'episodes.emptyTitle': 'No episodes!',
+  'episodes.empty': 'No episodes match the selected filters',
+
+  // Data quality
+  'quality.title': 'Data quality',
+  'quality.subtitle': 'Sensor gaps, duplicates and impossible values per patient · {from} – {to}',
+  'quality.empty': 'No readings to assess data quality',
+  'quality.gap': 'Gap from',
+  'quality.summary': { one: '{count} patient with unreliable data', other: '{count} patients with unreliable data' },
+  'quality.allReliable': 'Sufficient coverage for every patient',
+  'quality.patient': 'Patient',
+  'quality.readings': { one: '{count} reading', other: '{count} readings' },
+  'quality.coverage': 'Coverage',
+  'quality.interval': 'Usual interval',
+  'quality.issues': 'Warnings',
+  'quality.reliable': 'Reliable',
+  'quality.unreliable': 'Unreliable',
+  'quality.threshold': 'Reliable with readings for at least {min}% of the period',
+  'quality.unreliableTitle': 'Sensor coverage of {coverage}% (minimum {min}%): metrics may not represent the period',
+  'quality.noCoverage': 'Not enough readings to measure sensor coverage',
+  'quality.gaps': {
+    one: '{count} gap longer than {gap} ({total} without data)',
+    other: '{count} gaps longer than {gap} ({total} without data)',
+  },
+  'quality.longestGap': 'Longest: {duration} from {start}',
+  'quality.duplicates': { one: '{count} duplicate timestamp', other: '{count} duplicate timestamps' },
+  'quality.conflicting': { one: '{count} with a different value', other: '{count} with a different value' },
+  'quality.implausible': {
+    one: '{count} impossible value (below {low} or above {high})',
+    other: '{count} impossible values (below {low} or above {high})',
+  },
+  'quality.implausibleExample': 'e.g. {value} on {date}',
+  'quality.jumps': {
+    one: '{count} sudden jump (more than {rate} per minute)',
+    other: '{count} sudden jumps (more than {rate} per minute)',
+  },
+  'quality.jumpExample': 'e.g. {from} → {to} on {date}',
+  'quality.noIssues': 'No issues detected',
+  'quality.lowCoverageOnly': 'No long gaps, but readings are less frequent than usual',
+
+  // Forecast
+  'forecast.title': 'Short-term forecast',
+  'forecast.subtitle': 'From the latest reading: {value} on {date}',
+  'forecast.horizon': 'In {horizon} min ({date})',
+  'forecast.interval': '80% interval: {low}–{high}',
+  'forecast.aboveThreshold': 'Above the hyperglycemia threshold ({threshold})',
+  'forecast.unavailable': 'Not enough history to forecast {horizons} min ahead',
+  'forecast.note': 'Trend and context model fitted to the patient’s history; indicative only, not a substitute for measuring.',
+  'forecast.predicted': '→ {value} in {horizon} min ({low}–{high})',
+  'forecast.tooltip': 'Predicted hyperglycemia: {value} in {horizon} min ({low}–{high})',
+  'forecast.rule': '{horizon}-min forecast',
+
+  // Alerts table
+  'table.title': 'Glucose Alerts Table',
+  'table.count': { one: '{count} alert', other: '{count} alerts' },
+  'table.datetime': 'Date/Time',
+  'table.patient': 'Patient',
+  'table.glucose': 'Glucose',
+  'table.context': 'Context',
+  'table.severity': 'Severity',
+  'table.rule': 'Rule',
+  'table.ruleProfile': '“{name}” profile',
+  'table.review': 'Review',
+  'table.new': 'New',
+  'table.emptyTitle': 'No alerts!',
+  'table.empty': 'No glucose alerts match the selected filters',
+
+  // Pagination
+  'pagination.range': 'Rows {from}–{to} of {total}',
+  'pagination.previous': 'Previous',
+  'pagination.next': 'Next',
+  'pagination.page': 'Page {page} of {pages}',
+
+  // Export
+  'export.datetime': 'Date/Time',
+  'export.kind': 'Type',
+  'export.patient': 'Patient',
+  'export.glucose': 'Glucose ({unit})',
+  'export.context': 'Context',
+  'export.severity': 'Severity',
+  'export.rule': 'Rule',
+  'export.forecast': 'Predicted glucose ({unit})',
+  'export.forecastInterval': '80% interval',
+  'export.forecastHorizon': 'Horizon (min)',
+  'export.reviewStatus': 'Review',
+  'export.reviewer': 'Reviewed by',
+  'export.reviewedAt': 'Reviewed at',
+  'export.reviewNotes': 'Notes',
+  'export.filename': 'glucose_alerts_{date}.csv',
+  'export.start': 'Start',
+  'export.end': 'End',
+  'export.duration': 'Duration (min)',
+  'export.readings': 'Readings',
+  'export.peak': 'Peak ({unit})',
+  'export.mean': 'Mean ({unit})',
+  'export.area': 'Area out of range ({unit}·h)',
+  'export.episodesFilename': 'glucose_episodes_{date}.csv',
+
+  // Patient page
+  'patient.title': 'Patient {id}',
+  'patient.notFound': 'Patient not found',
+  'patient.notFoundDetail': 'There are no readings or alerts for “{id}” in the current summary',
+  'patient.alerts': 'Alerts',
+  'patient.alertsDetail': '{hyper} hyper · {hypo} hypo · {rules} from rules · {predicted} predicted',
+  'patient.mean': 'Mean Glucose',
+  'patient.readings': '{count} readings',
+  'patient.noReadings': 'No readings',
+  'patient.gmi': 'GMI',
+  'patient.gmiDetail': 'Estimated A1c',
+  'patient.cv': 'Variability (CV)',
+  'patient.cvDetail': 'Target ≤ 36%',
+  'patient.tir': 'Time in Range',
+  'patient.timeline': 'Glucose Over Time',
+  'patient.timelineEmpty': 'No readings for this patient',
+  'patient.byContext': 'Breakdown by Meal Context',
+  'patient.contextDetail': 'Average · {hyper} hyper · {hypo} hypo',
+  'patient.history': 'Alert History',
+  'patient.noAlerts': '{id} has no alerts in this summary',
+
+  // Share view
+  'share.copyLink': 'Copy link',
+  'share.copyLinkTitle': 'Copy the URL with the current filters, sort and zoom to share this view',
+  'share.copied': 'Link copied',
+  'share.copyFailed': 'Could not copy',
+
+  // Comparison mode
+  'compare.link': 'Compare',
+  'compare.title': 'Cohort comparison',
+  'compare.subtitle': 'Two groups of patients and dates side by side; differences are B − A',
+  'compare.cohort': 'Cohort {name}',
+  'compare.patientsHint': 'With no patients selected the whole cohort is included',
+  'compare.from': 'From',
+  'compare.to': 'To',
+  'compare.patients': { one: '{count} patient', other: '{count} patients' },
+  'compare.days': { one: '{count} day with data', other: '{count} days with data' },
+  'compare.presets': 'Shortcuts',
+  'compare.preset.week': 'Last week vs previous',
+  'compare.preset.month': 'Last 30 days vs previous',
+  'compare.preset.patients': 'Same period, different patients',
+  'compare.swap': 'Swap A and B',
+  'compare.stats': 'Statistics',
+  'compare.metric': 'Metric',
+  'compare.delta': 'Difference (B − A)',
+  'compare.row.readings': 'Readings',
+  'compare.row.mean': 'Mean glucose',
+  'compare.row.gmi': 'GMI',
+  'compare.row.cv': 'Variability (CV)',
+  'compare.row.tir': 'Time in range',
+  'compare.row.tar': 'Time above range',
+  'compare.row.tbr': 'Time below range',
+  'compare.row.hyperPerDay': 'Hyperglycemia per day',
+  'compare.row.hypoPerDay': 'Hypoglycemia per day',
+  'compare.points': '{value} pp',
+  'compare.contexts': 'Average by meal context',
+  'compare.tir': 'Time in range',
+  'compare.tirHint': 'Next to each range of B, its difference from A in percentage points',
+  'compare.noReadings': 'No readings in this cohort',
+
+  // Summary history
+  'history.link': 'History',
+  'history.title': 'Summary history',
+  'history.subtitle': 'What changed between two summary generations; differences are later − earlier',
+  'history.before': 'Earlier',
+  'history.after': 'Later',
+  'history.delta': 'Difference',
+  'history.swap': 'Swap earlier and later',
+  'history.current': '{date} · on screen',
+  'history.saved': { one: '{count} summary saved in this browser', other: '{count} summaries saved in this browser' },
+  'history.reversed': 'The “earlier” summary is newer than the “later” one',
+  'history.notEnough': 'At least two saved summaries are needed to compare ({count} so far). Every summary loaded from the server is saved here by its generation time.',
+  'history.sameSnapshot': 'Pick two different summaries',
+  'history.newAlerts': 'New alerts',
+  'history.newHint': 'Only in the later summary',
+  'history.unchanged': { one: '{count} alert unchanged', other: '{count} alerts unchanged' },
+  'history.removedAlerts': 'Disappeared alerts',
+  'history.removedHint': 'Only in the earlier summary (resolved or out of the period)',
+  'history.newlyAffected': 'Newly affected patients',
+  'history.noLongerAffected': { one: '{count} patient no longer has alerts', other: '{count} patients no longer have alerts' },
+  'history.totals': 'Alert change',
+  'history.totalsDetail': '{before} → {after} in total',
+  'history.changes': 'Totals and averages',
+  'history.totalHyper': 'Total hyperglycemia alerts',
+  'history.totalHypo': 'Total hypoglycemia alerts',
+  'history.contextAverage': 'Average: {context}',
+  'history.patients': 'Patients',
+  'history.newlyAffectedList': 'With alerts for the first time',
+  'history.noLongerAffectedList': 'No longer with alerts',
+  'history.noPatients': 'None',
+  'history.noAlerts': 'None',
+
+  // Threshold settings
+  'settings.title': 'Alert thresholds',
+  'settings.subtitle': 'Alerts are recomputed in the browser with the active profile',
+  'settings.activeProfile': 'Active profile',
+  'settings.summaryProfile': 'Summary profile',
+  'settings.newFrom': '+ New profile based on…',
+  'settings.copySuffix': '{name} (copy)',
+  'settings.summarySuffix': '{name} (summary)',
+  'settings.copySummary': 'Copy summary profile',
+  'settings.reset': 'Restore presets',
+  'settings.selectProfile': 'Select or create a profile to edit it',
+  'settings.name': 'Name',
+  'settings.duplicate': 'Duplicate',
+  'settings.delete': 'Delete',
+  'settings.defaults': 'Defaults ({unit})',
+  'settings.byContext': 'By meal context',
+  'settings.byContextHint': 'Empty fields inherit the default value',
+  'settings.byPatient': 'By patient',
+  'settings.byPatientHint': 'Applied on top of the context values; empty fields inherit the default value',
+  'settings.noReadings': 'No readings loaded',
+  'settings.field.hiperglucemia': 'Hyperglycemia >',
+  'settings.field.severidad_alta': 'High severity >',
+  'settings.field.hipoglucemia': 'Hypoglycemia <',
+  'settings.field.hipoglucemia_grave': 'Severe hypo <',
+
+  // Alert rules
+  'rules.link': 'Rules',
+  'rules.title': 'Alert rules',
+  'rules.subtitle': 'Declarative conditions that classify or raise alerts on the readings',
+  'rules.priorityHint': 'Rules are evaluated in order: for each reading and alert kind the first matching rule wins. Threshold profile alerts with no matching rule are kept.',
+  'rules.add': 'New rule',
+  'rules.reset': 'Restore examples',
+  'rules.empty': 'No rules: alerts come from the threshold profile only',
+  'rules.newName': 'New rule',
+  'rules.enabled': 'Enabled',
+  'rules.condition': 'Condition',
+  'rules.conditionType.above': 'Glucose above',
+  'rules.conditionType.below': 'Glucose below',
+  'rules.conditionType.sustained': 'N readings above within a window',
+  'rules.conditionType.riseRate': 'Rapid rise',
+  'rules.field.value': 'Value ({unit})',
+  'rules.field.count': 'Readings',
+  'rules.field.hours': 'Window (h)',
+  'rules.field.rate': 'Rise ({unit} per 30 min)',
+  'rules.kind': 'Alert kind',
+  'rules.contexts': 'Meal contexts',
+  'rules.allContexts': 'None selected: applies to all',
+  'rules.fired': { one: '{count} alert', other: '{count} alerts' },
+  'rules.moveUp': 'Raise priority',
+  'rules.moveDown': 'Lower priority',
+
+  // Browser notifications
+  'notifications.link': 'Notifications',
+  'notifications.title': 'Alert notifications',
+  'notifications.subtitle': 'Browser notifications when new alerts appear; while they are on, the summary is checked every {seconds} s',
+  'notifications.active': 'Notifications on',
+  'notifications.inactive': 'Notifications off',
+  'notifications.enable': 'Turn on notifications',
+  'notifications.disable': 'Turn off',
+  'notifications.test': 'Send test',
+  'notifications.testTitle': 'Glucose notifications are on',
+  'notifications.testBody': 'New alerts will look like this',
+  'notifications.permission.default': 'The browser will ask for permission when you turn them on',
+  'notifications.permission.granted': 'The browser is allowed to show them',
+  'notifications.permission.denied': 'The browser blocks them for this site; allow them in its settings',
+  'notifications.permission.unsupported': 'This browser does not support notifications',
+  'notifications.criteria': 'Which alerts notify',
+  'notifications.criteriaHint': 'Only alerts that are new between one summary load and the next; each alert notifies once.',
+  'notifications.noSeverities': 'With no severity selected nothing will notify',
+  'notifications.patients': 'Patients',
+  'notifications.allPatients': 'None selected: all patients',
+  'notifications.quietHours': 'Quiet hours',
+  'notifications.quietHoursHint': 'No notifications during this window (local time); alerts that appear show on the dashboard but are not notified later.',
+  'notifications.quietFrom': 'From',
+  'notifications.quietTo': 'To',
+  'notifications.mutes': 'Mute patients',
+  'notifications.mutesHint': 'Alerts of a muted patient do not notify until the mute ends.',
+  'notifications.muteFor': 'For',
+  'notifications.hours': { one: '{count} hour', other: '{count} hours' },
+  'notifications.mute': 'Mute',
+  'notifications.unmute': 'Unmute',
+  'notifications.noMutes': 'No muted patients',
+  'notifications.mutedUntil': 'muted until {date}',
+  'notifications.alertTitle': '{kind} · {severity} · {patient}',
+  'notifications.alertBody': '{value} · {context} · {date}',
+  'notifications.summaryTitle': { one: '{count} new alert', other: '{count} new alerts' },
+  'notifications.summaryBody': 'Patients: {patients}',
+
+  // Clinical alert review
+  'review.status': 'Review status',
+  'review.status.new': 'Unreviewed',
+  'review.status.acknowledged': 'Acknowledged',
+  'review.status.escalated': 'Escalated',
+  'review.status.dismissed': 'Dismissed',
+  'review.reviewer': 'Reviewed by',
+  'review.notes': 'Notes',
+  'review.edit': 'Review alert',
+  'review.save': 'Save review',
+  'review.cancel': 'Cancel',
+  'review.last': 'Last review: {reviewer}, {date}',
+  'review.unreviewed': { one: '{count} unreviewed', other: '{count} unreviewed' },
+  'review.showUnreviewed': 'Show unreviewed alerts only',
+  'review.storageError': 'Reviews cannot be stored in this browser and will be lost when the tab is closed ({error})',
+
+  // Live mode
+  'live.toggle': 'Live',
+  'live.pause': 'Pause live mode',
+  'live.start': 'Receive new readings in real time',
+  'live.status.off': 'Paused',
+  'live.status.connecting': 'Connecting…',
+  'live.status.streaming': 'Live (SSE)',
+  'live.status.polling': 'Live (polling)',
+  'live.status.error': 'Offline, retrying',
+  'live.updated': 'Updated {time}',
+  'live.waiting': 'Waiting for readings…',
+  'live.markSeen': 'Mark as seen',
+  'live.newAlerts': { one: '{count} new', other: '{count} new' },
+
+  // Offline
+  'offline.title': 'Offline',
+  'offline.serverUnavailable': 'Server unavailable: showing the last saved data',
+  'offline.generatedAt': 'Data generated on {date}',
+  'offline.readingsCached': 'Readings from the last saved load',
+  'offline.pending': { one: '{count} change waiting to sync', other: '{count} changes waiting to sync' },
+
+  // File import
+  'import.link': 'Import',
+  'import.title': 'Import readings',
+  'import.subtitle': 'Dexcom Clarity, LibreView or CSV with the glucose_data.csv columns',
+  'import.drop': 'Drop a CSV file here',
+  'import.browse': 'or click to choose one',
+  'import.readError': 'Could not read the file: {message}',
+  'import.format.dexcom': 'Dexcom Clarity',
+  'import.format.libreview': 'LibreView',
+  'import.format.plain': 'Plain CSV',
+  'import.detected': 'Detected format',
+  'import.changeFile': 'Choose another file',
+  'import.mapping': 'Column mapping',
+  'import.column.timestamp': 'Date/Time',
+  'import.column.glucose': 'Glucose',
+  'import.column.glucoseAlt': 'Alternate glucose',
+  'import.column.patient': 'Patient',
+  'import.column.context': 'Meal context',
+  'import.none': '— None —',
+  'import.options': 'Interpretation',
+  'import.unit': 'File unit',
+  'import.dateOrder': 'Date format',
+  'import.dateOrder.ymd': 'YYYY-MM-DD',
+  'import.dateOrder.mdy': 'MM-DD-YYYY',
+  'import.dateOrder.dmy': 'DD-MM-YYYY',
+  'import.patientId': 'Patient when there is no column',
+  'import.contextFallback': 'Context when unknown',
+  'import.contextNone': 'None (no context)',
+  'import.contextSchedule': 'Guess from time of day',
+  'import.contextGuessedHint': 'Contexts assigned this way are marked as guessed',
+  'import.contextGuessed': '(guessed)',
+  'import.readings': { one: '{count} valid reading', other: '{count} valid readings' },
+  'import.rejected': { one: '{count} rejected row', other: '{count} rejected rows' },
+  'import.skipped': { one: '{count} skipped row (not a reading)', other: '{count} skipped rows (not readings)' },
+  'import.duplicates': { one: '{count} duplicate reading dropped', other: '{count} duplicate readings dropped' },
+  'import.line': 'line {line}',
+  'import.rawPreview': 'First rows of the file',
+  'import.normalizedPreview': 'First normalized readings',
+  'import.noReadings': 'No row could be converted into a reading; check the mapping',
+  'import.load': 'Load into the dashboard',
+  'import.banner': 'Showing data imported from {file}',
+  'import.bannerDetail': 'Analyzed in the browser with the active profile; not kept after reloading the page',
+  'import.backToServer': 'Back to server data',
+};
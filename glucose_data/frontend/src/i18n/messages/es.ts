@@ -0,0 +1,534 @@
+// i18n/messages/es.ts
+// Catálogo en español (idioma de referencia: define las claves)
+
+export const es = {
+  // Generales
+  'app.title': 'Dashboard Médico de Glucosa',
+  'app.backToCohort': 'Volver a la cohorte',
+  'app.loading': 'Cargando análisis médico...',
+  'app.loadingDetail': 'Procesando datos de glucosa',
+  'app.loadError': 'Error al cargar datos',
+  'app.retry': 'Reintentar',
+  'app.loadingReadings': 'Cargando lecturas…',
+  'app.loadingProgress': { one: '{count} lectura procesada', other: '{count} lecturas procesadas' },
+  'app.readingsError': 'No se pudieron cargar las lecturas',
+  'app.readingsErrorDetail': 'Las métricas que usan lecturas no están disponibles ({error})',
+  'app.updating': 'Actualizando…',
+  'app.exportCsv': 'Exportar CSV',
+  'app.thresholds': 'Umbrales',
+  'app.thresholdProfileTitle': 'Perfil de umbrales: {name}',
+  'app.language': 'Idioma',
+  'app.unit': 'Unidad de glucosa',
+
+  // Valores del modelo de datos
+  'context.Fasting': 'Ayuno',
+  'context.Post-prandial': 'Post-prandial',
+  'context.Before sleep': 'Antes de dormir',
+  'context.none': 'Sin contexto',
+  'kind.hiperglucemia': 'Hiperglucemia',
+  'kind.hipoglucemia': 'Hipoglucemia',
+  'kind.hiperglucemia_sostenida': 'Hiperglucemia sostenida',
+  'kind.subida_rapida': 'Subida rápida',
+  'kind.hiperglucemia_nocturna': 'Hiperglucemia nocturna',
+  'kind.hiperglucemia_prevista': 'Hiperglucemia prevista',
+  'severity.moderate': 'Moderada',
+  'severity.high': 'Alta',
+  'severity.level1': 'Nivel 1',
+  'severity.level2': 'Nivel 2',
+  'severity.hypoPrefix': 'Hipo · {severity}',
+
+  // Tendencia
+  'trend.increasing': 'Tendencia al alza ⚠️',
+  'trend.decreasing': 'Tendencia a la baja ✅',
+  'trend.stable': 'Tendencia estable',
+  'trend.window': 'Ventana de la tendencia',
+  'trend.windowOption': '{days} días',
+  'trend.slope': '{value} {unit}/día',
+  'trend.interval': 'IC 95%: {lower} a {upper} {unit}/día · {days} días con lecturas',
+  'trend.confidence.high': 'confianza alta',
+  'trend.confidence.medium': 'confianza media',
+  'trend.confidence.low': 'sin tendencia clara',
+  'trend.confidence.insufficient': 'datos insuficientes',
+  'trend.patients': '{label}: {patients}',
+  'trend.none': 'Sin lecturas para calcular tendencias',
+  'trend.card': 'Tendencia ({days} d)',
+
+  // Distancia al rango objetivo
+  'distance.above': '+{value} sobre el rango',
+  'distance.below': '{value} bajo el rango',
+  'distance.inRange': 'Dentro del rango',
+
+  // Tiempo en rango
+  'tir.veryHigh': 'Muy alto (>{value})',
+  'tir.high': 'Alto ({from}–{to})',
+  'tir.inRange': 'En rango ({from}–{to})',
+  'tir.low': 'Bajo ({from}–{to})',
+  'tir.veryLow': 'Muy bajo (<{value})',
+
+  // Validación
+  'validation.dropped': {
+    one: 'Se descartó {count} alerta con datos inválidos',
+    other: 'Se descartaron {count} alertas con datos inválidos',
+  },
+  'validation.legacy': 'Resumen en un formato anterior: se completaron campos con valores por defecto',
+  'validation.droppedDetail': 'El resto del resumen se muestra con normalidad. Campos afectados:',
+  'validation.more': '… y {count} errores más',
+
+  // Tarjetas de estadísticas
+  'stats.totalAlerts': 'Total de Alertas',
+  'stats.totalAlertsDetail': '{hyper} hiper · {hypo} hipo · {rules} por reglas · {predicted} previstas',
+  'stats.maxGlucose': 'Glucosa Máxima',
+  'stats.maxGlucoseDetail': 'Nivel más alto detectado',
+  'stats.minGlucose': 'Glucosa Mínima',
+  'stats.minGlucoseDetail': 'Nivel más bajo detectado',
+  'stats.patients': 'Pacientes Monitoreados',
+  'stats.patientsDetail': '{count} con alertas',
+  'stats.targetRange': 'Rango Objetivo',
+  'stats.targetRangeDetail': 'Perfil «{name}» · hipo grave < {value}',
+
+  // Tarjetas de paciente
+  'patientCard.alerts': { one: '{count} alerta', other: '{count} alertas' },
+  'patientCard.hyperHypo': 'Hiper / Hipo:',
+  'patientCard.mean': 'Glucosa media:',
+  'patientCard.gmi': 'GMI (A1c estimada):',
+  'patientCard.cv': 'Variabilidad (CV):',
+  'patientCard.tir': 'Tiempo en rango · {count} lecturas',
+  'patientCard.noReadings': 'Sin lecturas disponibles para calcular métricas',
+
+  // Gráfico por contexto
+  'chart.byContext': 'Promedio de Glucosa por Contexto de Comida',
+  'chart.low': 'Bajo (<{value})',
+  'chart.normal': 'Normal ({from}–{to})',
+  'chart.high': 'Alto (>{value})',
+  'chart.contextThreshold': 'Umbral del contexto',
+  'chart.glucoseAxis': 'Glucosa ({unit})',
+  'chart.threshold': 'Umbral: {value}',
+  'chart.hypoThreshold': 'Hipoglucemia: {value}',
+  'chart.averageGlucose': 'Promedio de glucosa',
+
+  // Evolución temporal
+  'timeline.title': 'Evolución de Glucosa',
+  'timeline.hint': 'Arrastra el selector inferior para hacer zoom; la tabla de alertas muestra solo esa ventana. Pulsa una alerta de la tabla para centrar la gráfica en ella.',
+  'timeline.empty': 'Sin lecturas en el periodo seleccionado',
+  'timeline.emptyWindow': 'No hay alertas en la ventana seleccionada de la gráfica',
+  'timeline.window': 'Ventana: {from} – {to}',
+  'timeline.resetZoom': 'Restablecer zoom',
+  'timeline.targetBand': 'Rango objetivo',
+  'timeline.sampled': 'Vista reducida: {shown} puntos de {total} lecturas (se conservan el máximo y el mínimo de cada tramo)',
+
+  // AGP
+  'agp.title': 'Perfil Ambulatorio de Glucosa (AGP)',
+  'agp.wholeCohort': 'Toda la cohorte',
+  'agp.filtered': 'Filtrado · {count} lecturas',
+  'agp.notEnough': 'No hay lecturas suficientes para construir el perfil',
+  'agp.subtitle': '{readings} lecturas superpuestas de {days} días · franjas de {minutes} min',
+  'agp.band90': 'Percentil 5–95',
+  'agp.band50': 'Percentil 25–75',
+  'agp.median': 'Mediana',
+  'agp.medianValue': 'Mediana: {value}',
+  'agp.readings': '{count} lecturas',
+
+  // Distribución por contexto
+  'contextDist.title': 'Distribución de Alertas por Contexto',
+  'contextDist.detail': 'alertas detectadas ({hyper} hiper · {hypo} hipo)',
+
+  // Filtros
+  'filters.title': 'Filtros',
+  'filters.patients': 'Pacientes',
+  'filters.contexts': 'Contextos de comida',
+  'filters.multiHint': 'Sin selección se incluyen todos. Los filtros se aplican a gráficos, estadísticas y tabla.',
+  'filters.kind': 'Tipo de Alerta',
+  'filters.allKinds': 'Todos los tipos',
+  'filters.severity': 'Severidad',
+  'filters.allSeverities': 'Todas las severidades',
+  'filters.review': 'Revisión',
+  'filters.allReviews': 'Todos los estados',
+  'filters.dateRange': 'Rango de fechas',
+  'filters.timeWindow': 'Franja horaria',
+  'filters.timeWindowHint': 'Ej. 22:00–06:00 cruza la medianoche',
+  'filters.glucoseRange': 'Glucosa ({unit})',
+  'filters.from': 'Desde',
+  'filters.to': 'Hasta',
+  'filters.min': 'Mín.',
+  'filters.max': 'Máx.',
+  'filters.active': 'Filtros activos:',
+  'filters.remove': 'Quitar filtro {label}',
+  'filters.chip.date': 'Fecha: {from} – {to}',
+  'filters.chip.time': 'Hora: {from}–{to}',
+  'filters.chip.glucose': 'Glucosa: {from} – {to}',
+  'filters.chip.review': 'Revisión: {status}',
+  'filters.clear': '✕ Limpiar todos los filtros',
+
+  // Episodios
+  'episodes.title': 'Episodios',
+  'episodes.subtitle': 'Lecturas consecutivas fuera de rango del mismo paciente agrupadas en un solo evento',
+  'episodes.count': { one: '{count} episodio', other: '{count} episodios' },
+  'episodes.gap': 'Separación máxima',
+  'episodes.gapOption': '{minutes} min',
+  'episodes.export': 'Exportar episodios',
+  'episodes.start': 'Inicio',
+  'episodes.until': 'hasta {end}',
+  'episodes.duration': 'Duración',
+  'episodes.readings': { one: '{count} lectura', other: '{count} lecturas' },
+  'episodes.peak': 'Pico',
+  'episodes.mean': 'Media',
+  'episodes.area': 'Área ({unit}·h)',
+  'episodes.emptyTitle': '¡Sin episodios!',
+  'episodes.empty': 'No hay episodios con los filtros seleccionados',
+
+  // Calidad de los datos
+  'quality.title': 'Calidad de los datos',
+  'quality.subtitle': 'Huecos del sensor, duplicados y valores imposibles por paciente · {from} – {to}',
+  'quality.empty': 'Sin lecturas para evaluar la calidad de los datos',
+  'quality.gap': 'Hueco a partir de',
+  'quality.summary': { one: '{count} paciente con datos poco fiables', other: '{count} pacientes con datos poco fiables' },
+  'quality.allReliable': 'Cobertura suficiente en todos los pacientes',
+  'quality.patient': 'Paciente',
+  'quality.readings': { one: '{count} lectura', other: '{count} lecturas' },
+  'quality.coverage': 'Cobertura',
+  'quality.interval': 'Intervalo habitual',
+  'quality.issues': 'Avisos',
+  'quality.reliable': 'Fiable',
+  'quality.unreliable': 'Poco fiable',
+  'quality.threshold': 'Fiable con al menos un {min}% del periodo con lecturas',
+  'quality.unreliableTitle': 'Cobertura del sensor del {coverage}% (mínimo {min}%): las métricas pueden no representar el periodo',
+  'quality.noCoverage': 'No hay lecturas suficientes para medir la cobertura del sensor',
+  'quality.gaps': {
+    one: '{count} hueco de más de {gap} ({total} sin datos)',
+    other: '{count} huecos de más de {gap} ({total} sin datos)',
+  },
+  'quality.longestGap': 'El más largo: {duration} desde el {start}',
+  'quality.duplicates': { one: '{count} timestamp duplicado', other: '{count} timestamps duplicados' },
+  'quality.conflicting': { one: '{count} con otro valor', other: '{count} con otro valor' },
+  'quality.implausible': {
+    one: '{count} valor imposible (menos de {low} o más de {high})',
+    other: '{count} valores imposibles (menos de {low} o más de {high})',
+  },
+  'quality.implausibleExample': 'p. ej. {value} el {date}',
+  'quality.jumps': {
+    one: '{count} salto brusco (más de {rate} por minuto)',
+    other: '{count} saltos bruscos (más de {rate} por minuto)',
+  },
+  'quality.jumpExample': 'p. ej. {from} → {to} el {date}',
+  'quality.noIssues': 'Sin problemas detectados',
+  'quality.lowCoverageOnly': 'Sin huecos largos, pero con lecturas menos frecuentes de lo habitual',
+
+  // Previsión
+  'forecast.title': 'Previsión a corto plazo',
+  'forecast.subtitle': 'Desde la última lectura: {value} el {date}',
+  'forecast.horizon': 'A {horizon} min ({date})',
+  'forecast.interval': 'Intervalo del 80%: {low}–{high}',
+  'forecast.aboveThreshold': 'Por encima del umbral de hiperglucemia ({threshold})',
+  'forecast.unavailable': 'Sin historial suficiente para prever a {horizons} min',
+  'forecast.note': 'Modelo de tendencia y contexto ajustado con el historial del paciente; orientativo, no sustituye a la medición.',
+  'forecast.predicted': '→ {value} en {horizon} min ({low}–{high})',
+  'forecast.tooltip': 'Hiperglucemia prevista: {value} en {horizon} min ({low}–{high})',
+  'forecast.rule': 'Previsión a {horizon} min',
+
+  // Tabla de alertas
+  'table.title': 'Tabla de Alertas de Glucosa',
+  'table.count': { one: '{count} alerta', other: '{count} alertas' },
+  'table.datetime': 'Fecha/Hora',
+  'table.patient': 'Paciente',
+  'table.glucose': 'Glucosa',
+  'table.context': 'Contexto',
+  'table.severity': 'Severidad',
+  'table.rule': 'Regla',
+  'table.ruleProfile': 'Perfil «{name}»',
+  'table.review': 'Revisión',
+  'table.new': 'Nueva',
+  'table.emptyTitle': '¡Sin alertas!',
+  'table.empty': 'No hay alertas de glucosa con los filtros seleccionados',
+
+  // Paginación
+  'pagination.range': 'Filas {from}–{to} de {total}',
+  'pagination.previous': 'Anterior',
+  'pagination.next': 'Siguiente',
+  'pagination.page': 'Página {page} de {pages}',
+
+  // Exportación
+  'export.datetime': 'Fecha/Hora',
+  'export.kind': 'Tipo',
+  'export.patient': 'Paciente',
+  'export.glucose': 'Glucosa ({unit})',
+  'export.context': 'Contexto',
+  'export.severity': 'Severidad',
+  'export.rule': 'Regla',
+  'export.forecast': 'Glucosa prevista ({unit})',
+  'export.forecastInterval': 'Intervalo 80%',
+  'export.forecastHorizon': 'Horizonte (min)',
+  'export.reviewStatus': 'Revisión',
+  'export.reviewer': 'Revisado por',
+  'export.reviewedAt': 'Fecha de revisión',
+  'export.reviewNotes': 'Notas',
+  'export.filename': 'alertas_glucosa_{date}.csv',
+  'export.start': 'Inicio',
+  'export.end': 'Fin',
+  'export.duration': 'Duración (min)',
+  'export.readings': 'Lecturas',
+  'export.peak': 'Pico ({unit})',
+  'export.mean': 'Media ({unit})',
+  'export.area': 'Área fuera de rango ({unit}·h)',
+  'export.episodesFilename': 'episodios_glucosa_{date}.csv',
+
+  // Página de paciente
+  'patient.title': 'Paciente {id}',
+  'patient.notFound': 'Paciente no encontrado',
+  'patient.notFoundDetail': 'No hay lecturas ni alertas para «{id}» en el resumen actual',
+  'patient.alerts': 'Alertas',
+  'patient.alertsDetail': '{hyper} hiper · {hypo} hipo · {rules} por reglas · {predicted} previstas',
+  'patient.mean': 'Glucosa Media',
+  'patient.readings': '{count} lecturas',
+  'patient.noReadings': 'Sin lecturas',
+  'patient.gmi': 'GMI',
+  'patient.gmiDetail': 'A1c estimada',
+  'patient.cv': 'Variabilidad (CV)',
+  'patient.cvDetail': 'Objetivo ≤ 36%',
+  'patient.tir': 'Tiempo en Rango',
+  'patient.timeline': 'Evolución de Glucosa',
+  'patient.timelineEmpty': 'Sin lecturas para este paciente',
+  'patient.byContext': 'Desglose por Contexto de Comida',
+  'patient.contextDetail': 'Promedio · {hyper} hiper · {hypo} hipo',
+  'patient.history': 'Historial de Alertas',
+  'patient.noAlerts': '{id} no tiene alertas en este resumen',
+
+  // Compartir vista
+  'share.copyLink': 'Copiar enlace',
+  'share.copyLinkTitle': 'Copia la URL con los filtros, el orden y el zoom actuales para compartir esta vista',
+  'share.copied': 'Enlace copiado',
+  'share.copyFailed': 'No se pudo copiar',
+
+  // Modo comparación
+  'compare.link': 'Comparar',
+  'compare.title': 'Comparación de grupos',
+  'compare.subtitle': 'Dos grupos de pacientes y fechas lado a lado; las diferencias son B − A',
+  'compare.cohort': 'Grupo {name}',
+  'compare.patientsHint': 'Sin pacientes marcados se incluye toda la cohorte',
+  'compare.from': 'Desde',
+  'compare.to': 'Hasta',
+  'compare.patients': { one: '{count} paciente', other: '{count} pacientes' },
+  'compare.days': { one: '{count} día con datos', other: '{count} días con datos' },
+  'compare.presets': 'Atajos',
+  'compare.preset.week': 'Última semana vs anterior',
+  'compare.preset.month': 'Últimos 30 días vs anteriores',
+  'compare.preset.patients': 'Mismo periodo, pacientes distintos',
+  'compare.swap': 'Intercambiar A y B',
+  'compare.stats': 'Estadísticas',
+  'compare.metric': 'Métrica',
+  'compare.delta': 'Diferencia (B − A)',
+  'compare.row.readings': 'Lecturas',
+  'compare.row.mean': 'Glucosa media',
+  'compare.row.gmi': 'GMI',
+  'compare.row.cv': 'Variabilidad (CV)',
+  'compare.row.tir': 'Tiempo en rango',
+  'compare.row.tar': 'Tiempo sobre el rango',
+  'compare.row.tbr': 'Tiempo bajo el rango',
+  'compare.row.hyperPerDay': 'Hiperglucemias por día',
+  'compare.row.hypoPerDay': 'Hipoglucemias por día',
+  'compare.points': '{value} pp',
+  'compare.contexts': 'Promedio por contexto de comida',
+  'compare.tir': 'Tiempo en rango',
+  'compare.tirHint': 'Junto a cada rango de B, su diferencia con A en puntos porcentuales',
+  'compare.noReadings': 'Sin lecturas en este grupo',
+
+  // Historial de resúmenes
+  'history.link': 'Historial',
+  'history.title': 'Historial de resúmenes',
+  'history.subtitle': 'Qué cambió entre dos generaciones del resumen; las diferencias son posterior − anterior',
+  'history.before': 'Anterior',
+  'history.after': 'Posterior',
+  'history.delta': 'Diferencia',
+  'history.swap': 'Intercambiar anterior y posterior',
+  'history.current': '{date} · en pantalla',
+  'history.saved': { one: '{count} resumen guardado en este navegador', other: '{count} resúmenes guardados en este navegador' },
+  'history.reversed': 'El «anterior» es más reciente que el «posterior»',
+  'history.notEnough': 'Hacen falta al menos dos resúmenes guardados para comparar ({count} por ahora). Cada resumen que se carga del servidor se guarda aquí por su fecha de generación.',
+  'history.sameSnapshot': 'Elige dos resúmenes distintos',
+  'history.newAlerts': 'Alertas nuevas',
+  'history.newHint': 'Solo en el resumen posterior',
+  'history.unchanged': { one: '{count} alerta sigue igual', other: '{count} alertas siguen igual' },
+  'history.removedAlerts': 'Alertas desaparecidas',
+  'history.removedHint': 'Solo en el resumen anterior (resueltas o fuera del periodo)',
+  'history.newlyAffected': 'Pacientes afectados nuevos',
+  'history.noLongerAffected': { one: '{count} paciente ya sin alertas', other: '{count} pacientes ya sin alertas' },
+  'history.totals': 'Variación de alertas',
+  'history.totalsDetail': '{before} → {after} en total',
+  'history.changes': 'Totales y promedios',
+  'history.totalHyper': 'Total de hiperglucemias',
+  'history.totalHypo': 'Total de hipoglucemias',
+  'history.contextAverage': 'Promedio: {context}',
+  'history.patients': 'Pacientes',
+  'history.newlyAffectedList': 'Con alertas por primera vez',
+  'history.noLongerAffectedList': 'Ya sin alertas',
+  'history.noPatients': 'Ninguno',
+  'history.noAlerts': 'Ninguna',
+
+  // Ajustes de umbrales
+  'settings.title': 'Umbrales de alerta',
+  'settings.subtitle': 'Las alertas se recalculan en el navegador con el perfil activo',
+  'settings.activeProfile': 'Perfil activo',
+  'settings.summaryProfile': 'Perfil del resumen',
+  'settings.newFrom': '+ Nuevo perfil a partir de…',
+  'settings.copySuffix': '{name} (copia)',
+  'settings.summarySuffix': '{name} (resumen)',
+  'settings.copySummary': 'Copiar perfil del resumen',
+  'settings.reset': 'Restaurar predefinidos',
+  'settings.selectProfile': 'Selecciona o crea un perfil para editarlo',
+  'settings.name': 'Nombre',
+  'settings.duplicate': 'Duplicar',
+  'settings.delete': 'Eliminar',
+  'settings.defaults': 'Por defecto ({unit})',
+  'settings.byContext': 'Por contexto de comida',
+  'settings.byContextHint': 'Los campos vacíos heredan el valor por defecto',
+  'settings.byPatient': 'Por paciente',
+  'settings.byPatientHint': 'Se aplican sobre los del contexto; los campos vacíos heredan el valor por defecto',
+  'settings.noReadings': 'No hay lecturas cargadas',
+  'settings.field.hiperglucemia': 'Hiperglucemia >',
+  'settings.field.severidad_alta': 'Severidad alta >',
+  'settings.field.hipoglucemia': 'Hipoglucemia <',
+  'settings.field.hipoglucemia_grave': 'Hipo grave <',
+
+  // Reglas de alerta
+  'rules.link': 'Reglas',
+  'rules.title': 'Reglas de alerta',
+  'rules.subtitle': 'Condiciones declarativas que clasifican o generan alertas sobre las lecturas',
+  'rules.priorityHint': 'Las reglas se evalúan en orden: para cada lectura y tipo de alerta gana la primera que se cumple. Las alertas del perfil de umbrales sin regla aplicable se conservan.',
+  'rules.add': 'Nueva regla',
+  'rules.reset': 'Restaurar ejemplos',
+  'rules.empty': 'No hay reglas: las alertas salen solo del perfil de umbrales',
+  'rules.newName': 'Nueva regla',
+  'rules.enabled': 'Activa',
+  'rules.condition': 'Condición',
+  'rules.conditionType.above': 'Glucosa por encima de',
+  'rules.conditionType.below': 'Glucosa por debajo de',
+  'rules.conditionType.sustained': 'N lecturas por encima en una ventana',
+  'rules.conditionType.riseRate': 'Subida rápida',
+  'rules.field.value': 'Valor ({unit})',
+  'rules.field.count': 'Lecturas',
+  'rules.field.hours': 'Ventana (h)',
+  'rules.field.rate': 'Subida ({unit} cada 30 min)',
+  'rules.kind': 'Tipo de alerta',
+  'rules.contexts': 'Contextos de comida',
+  'rules.allContexts': 'Ninguno seleccionado: se aplica a todos',
+  'rules.fired': { one: '{count} alerta', other: '{count} alertas' },
+  'rules.moveUp': 'Subir prioridad',
+  'rules.moveDown': 'Bajar prioridad',
+
+  // Notificaciones del navegador
+  'notifications.link': 'Notificaciones',
+  'notifications.title': 'Notificaciones de alertas',
+  'notifications.subtitle': 'Avisos del navegador cuando aparecen alertas nuevas; con las notificaciones activadas el resumen se comprueba cada {seconds} s',
+  'notifications.active': 'Notificaciones activadas',
+  'notifications.inactive': 'Notificaciones desactivadas',
+  'notifications.enable': 'Activar notificaciones',
+  'notifications.disable': 'Desactivar',
+  'notifications.test': 'Enviar prueba',
+  'notifications.testTitle': 'Notificaciones de glucosa activadas',
+  'notifications.testBody': 'Así se verán los avisos de alertas nuevas',
+  'notifications.permission.default': 'El navegador pedirá permiso al activarlas',
+  'notifications.permission.granted': 'El navegador tiene permiso para mostrarlas',
+  'notifications.permission.denied': 'El navegador las tiene bloqueadas para este sitio; hay que permitirlas en su configuración',
+  'notifications.permission.unsupported': 'Este navegador no admite notificaciones',
+  'notifications.criteria': 'Qué alertas se notifican',
+  'notifications.criteriaHint': 'Solo las alertas nuevas entre una carga del resumen y la siguiente; cada alerta se notifica una sola vez.',
+  'notifications.noSeverities': 'Sin severidades seleccionadas no se notificará nada',
+  'notifications.patients': 'Pacientes',
+  'notifications.allPatients': 'Ninguno seleccionado: todos los pacientes',
+  'notifications.quietHours': 'Horas de silencio',
+  'notifications.quietHoursHint': 'En esta franja (hora local) no se muestran notificaciones; las alertas que aparezcan se ven en el dashboard pero no se avisan más tarde.',
+  'notifications.quietFrom': 'Desde',
+  'notifications.quietTo': 'Hasta',
+  'notifications.mutes': 'Silenciar pacientes',
+  'notifications.mutesHint': 'Las alertas de un paciente silenciado no se notifican hasta que termine el silencio.',
+  'notifications.muteFor': 'Durante',
+  'notifications.hours': { one: '{count} hora', other: '{count} horas' },
+  'notifications.mute': 'Silenciar',
+  'notifications.unmute': 'Quitar silencio',
+  'notifications.noMutes': 'Ningún paciente silenciado',
+  'notifications.mutedUntil': 'silenciado hasta {date}',
+  'notifications.alertTitle': '{kind} · {severity} · {patient}',
+  'notifications.alertBody': '{value} · {context} · {date}',
+  'notifications.summaryTitle': { one: '{count} alerta nueva', other: '{count} alertas nuevas' },
+  'notifications.summaryBody': 'Pacientes: {patients}',
+
+  // Revisión clínica de alertas
+  'review.status': 'Estado de revisión',
+  'review.status.new': 'Sin revisar',
+  'review.status.acknowledged': 'Revisada',
+  'review.status.escalated': 'Escalada',
+  'review.status.dismissed': 'Descartada',
+  'review.reviewer': 'Revisado por',
+  'review.notes': 'Notas',
+  'review.edit': 'Revisar alerta',
+  'review.save': 'Guardar revisión',
+  'review.cancel': 'Cancelar',
+  'review.last': 'Última revisión: {reviewer}, {date}',
+  'review.unreviewed': { one: '{count} sin revisar', other: '{count} sin revisar' },
+  'review.showUnreviewed': 'Mostrar solo las alertas sin revisar',
+  'review.storageError': 'Las revisiones no se pueden guardar en este navegador y se perderán al cerrar la pestaña ({error})',
+
+  // Modo en vivo
+  'live.toggle': 'En vivo',
+  'live.pause': 'Pausar el modo en vivo',
+  'live.start': 'Recibir lecturas nuevas en tiempo real',
+  'live.status.off': 'Pausado',
+  'live.status.connecting': 'Conectando…',
+  'live.status.streaming': 'En vivo (SSE)',
+  'live.status.polling': 'En vivo (polling)',
+  'live.status.error': 'Sin conexión, reintentando',
+  'live.updated': 'Actualizado {time}',
+  'live.waiting': 'Esperando lecturas…',
+  'live.markSeen': 'Marcar como vistas',
+  'live.newAlerts': { one: '{count} nueva', other: '{count} nuevas' },
+
+  // Sin conexión
+  'offline.title': 'Sin conexión',
+  'offline.serverUnavailable': 'Servidor no disponible: se muestran los últimos datos guardados',
+  'offline.generatedAt': 'Datos generados el {date}',
+  'offline.readingsCached': 'Lecturas de la última carga guardada',
+  'offline.pending': { one: '{count} cambio pendiente de sincronizar', other: '{count} cambios pendientes de sincronizar' },
+
+  // Importación de archivos
+  'import.link': 'Importar',
+  'import.title': 'Importar lecturas',
+  'import.subtitle': 'Dexcom Clarity, LibreView o CSV con las columnas de glucose_data.csv',
+  'import.drop': 'Arrastra aquí un archivo CSV',
+  'import.browse': 'o haz clic para elegirlo',
+  'import.readError': 'No se pudo leer el archivo: {message}',
+  'import.format.dexcom': 'Dexcom Clarity',
+  'import.format.libreview': 'LibreView',
+  'import.format.plain': 'CSV plano',
+  'import.detected': 'Formato detectado',
+  'import.changeFile': 'Elegir otro archivo',
+  'import.mapping': 'Mapeo de columnas',
+  'import.column.timestamp': 'Fecha/Hora',
+  'import.column.glucose': 'Glucosa',
+  'import.column.glucoseAlt': 'Glucosa alternativa',
+  'import.column.patient': 'Paciente',
+  'import.column.context': 'Contexto de comida',
+  'import.none': '— Ninguna —',
+  'import.options': 'Interpretación',
+  'import.unit': 'Unidad del archivo',
+  'import.dateOrder': 'Formato de fecha',
+  'import.dateOrder.ymd': 'AAAA-MM-DD',
+  'import.dateOrder.mdy': 'MM-DD-AAAA',
+  'import.dateOrder.dmy': 'DD-MM-AAAA',
+  'import.patientId': 'Paciente si no hay columna',
+  'import.contextFallback': 'Contexto si no se conoce',
+  'import.contextNone': 'Ninguno (sin contexto)',
+  'import.contextSchedule': 'Suponer según la hora del día',
+  'import.contextGuessedHint': 'Los contextos asignados así se marcan como supuestos',
+  'import.contextGuessed': '(supuesto)',
+  'import.readings': { one: '{count} lectura válida', other: '{count} lecturas válidas' },
+  'import.rejected': { one: '{count} fila rechazada', other: '{count} filas rechazadas' },
+  'import.skipped': { one: '{count} fila omitida (no es lectura)', other: '{count} filas omitidas (no son lecturas)' },
+  'import.duplicates': { one: '{count} lectura repetida descartada', other: '{count} lecturas repetidas descartadas' },
+  'import.line': 'línea {line}',
+  'import.rawPreview': 'Primeras filas del archivo',
+  'import.normalizedPreview': 'Primeras lecturas normalizadas',
+  'import.noReadings': 'Ninguna fila se pudo convertir en lectura; revisa el mapeo',
+  'import.load': 'Cargar en el dashboard',
+  'import.banner': 'Mostrando datos importados de {file}',
+  'import.bannerDetail': 'Analizados en el navegador con el perfil activo; no se guardan al recargar la página',
+  'import.backToServer': 'Volver a los datos del servidor',
+} as const;
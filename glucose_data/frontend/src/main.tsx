@@ -3,6 +3,14 @@ import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
 
+// App shell disponible sin conexión (solo en la build: en desarrollo Vite
+// sirve los módulos sueltos y la caché estorbaría)
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.warn('No se pudo registrar el service worker:', err))
+  })
+}
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
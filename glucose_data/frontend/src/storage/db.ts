@@ -0,0 +1,83 @@
+// storage/db.ts
+// Base de datos IndexedDB del dashboard (datos que no caben o no deben ir en localStorage)
+
+const DB_NAME = 'medmetrics';
+const DB_VERSION = 3;
+
+/**
+ * Almacenes de la base de datos y la clave de sus registros
+ */
+const STORES = {
+  alert_reviews: 'alertKey',
+  summaries: 'generatedAt', // Últimos resúmenes cargados, para usarlos sin conexión
+  outbox: 'id', // Cambios locales pendientes de sincronizar
+  readings: 'id', // Últimas lecturas cargadas del CSV (un solo registro), para usarlas sin conexión
+} as const;
+
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Convierte una petición de IndexedDB en promesa
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Abre (una sola vez) la base de datos, creando los almacenes que falten
+ *
+ * @throws Error si el navegador no soporta IndexedDB o bloquea el acceso
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB no está disponible en este navegador'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        (Object.keys(STORES) as StoreName[]).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: STORES[name] });
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Un fallo no se cachea: el siguiente acceso lo reintenta
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Lee todos los registros de un almacén
+ */
+export async function getAllRecords<T>(store: StoreName): Promise<T[]> {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).getAll() as IDBRequest<T[]>);
+}
+
+/**
+ * Inserta o sustituye un registro (la clave va dentro del propio registro)
+ */
+export async function putRecord<T>(store: StoreName, record: T): Promise<void> {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(record));
+}
+
+/**
+ * Borra un registro por su clave (no falla si no existe)
+ */
+export async function deleteRecord(store: StoreName, key: IDBValidKey): Promise<void> {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+}
@@ -0,0 +1,33 @@
+// storage/readings.ts
+// Últimas lecturas cargadas del servidor, guardadas para usarlas sin conexión
+
+import type { GlucoseReading } from '../components/types';
+import { getAllRecords, putRecord } from './db';
+
+const LATEST_ID = 'latest';
+
+/**
+ * Lecturas guardadas en IndexedDB (solo se conserva la última carga)
+ */
+export interface CachedReadings {
+  id: typeof LATEST_ID;
+  savedAt: string; // ISO 8601, cuándo se descargaron
+  readings: GlucoseReading[]; // En mg/dL
+}
+
+/**
+ * Guarda las lecturas cargadas, sustituyendo a las anteriores
+ *
+ * @param readings - Lecturas válidas del CSV
+ */
+export async function saveReadings(readings: GlucoseReading[]): Promise<void> {
+  await putRecord<CachedReadings>('readings', { id: LATEST_ID, savedAt: new Date().toISOString(), readings });
+}
+
+/**
+ * Últimas lecturas guardadas, o null si no hay
+ */
+export async function loadCachedReadings(): Promise<CachedReadings | null> {
+  const [latest] = await getAllRecords<CachedReadings>('readings');
+  return latest ?? null;
+}
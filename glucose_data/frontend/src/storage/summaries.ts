@@ -0,0 +1,69 @@
+// storage/summaries.ts
+// Resúmenes cargados del servidor: historial para compararlos entre sí y
+// copia para usar el dashboard sin conexión
+
+import type { GlucoseData } from '../components/types';
+import { deleteRecord, getAllRecords, putRecord } from './db';
+
+/**
+ * Resúmenes que se conservan (los más recientes por fecha de generación)
+ */
+export const MAX_CACHED_SUMMARIES = 50;
+
+/**
+ * Resumen guardado en IndexedDB
+ */
+export interface CachedSummary {
+  generatedAt: string; // metadata.fecha_generacion, identifica el resumen
+  savedAt: string; // ISO 8601, cuándo se descargó por última vez
+  data: GlucoseData; // En mg/dL
+}
+
+const listeners = new Set<() => void>();
+
+/**
+ * Avisa cada vez que se guarda un resumen
+ *
+ * @returns Función para dejar de escuchar
+ */
+export function subscribeSummaries(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function newestFirst(a: CachedSummary, b: CachedSummary): number {
+  return a.generatedAt < b.generatedAt ? 1 : a.generatedAt > b.generatedAt ? -1 : 0;
+}
+
+/**
+ * Guarda un resumen y descarta los más antiguos que sobren
+ *
+ * @param data - Resumen ya validado y normalizado a mg/dL
+ */
+export async function saveSummary(data: GlucoseData): Promise<void> {
+  await putRecord<CachedSummary>('summaries', {
+    generatedAt: data.metadata.fecha_generacion,
+    savedAt: new Date().toISOString(),
+    data,
+  });
+  const stale = (await getAllRecords<CachedSummary>('summaries')).sort(newestFirst).slice(MAX_CACHED_SUMMARIES);
+  await Promise.all(stale.map(summary => deleteRecord('summaries', summary.generatedAt)));
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Resúmenes guardados, del más reciente al más antiguo
+ */
+export async function listSummaries(): Promise<CachedSummary[]> {
+  return (await getAllRecords<CachedSummary>('summaries')).sort(newestFirst);
+}
+
+/**
+ * Resumen guardado más reciente, o null si no hay ninguno
+ */
+export async function loadLatestSummary(): Promise<CachedSummary | null> {
+  const [latest] = await listSummaries();
+  return latest ?? null;
+}
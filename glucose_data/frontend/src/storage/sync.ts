@@ -0,0 +1,97 @@
+// storage/sync.ts
+// Cola de cambios locales (revisiones y ajustes) que se envían al servidor
+// cuando hay conexión
+
+import type { SyncChange } from '../components/types';
+import { deleteRecord, getAllRecords, putRecord } from './db';
+
+/**
+ * Endpoint que recibe los cambios (POST con un array de SyncChange); sin
+ * configurar, los cambios solo se guardan en este navegador
+ */
+export const SYNC_URL: string | null = import.meta.env.VITE_SYNC_URL || null;
+
+const listeners = new Set<() => void>();
+let flushing: Promise<void> | null = null;
+
+function notifyListeners() {
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Avisa cada vez que cambia la cola (se encola o se envía algo)
+ *
+ * @returns Función para dejar de escuchar
+ */
+export function subscribeOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Cambios que esperan conexión
+ */
+export async function countPendingChanges(): Promise<number> {
+  if (!SYNC_URL) return 0;
+  return (await getAllRecords<SyncChange>('outbox')).length;
+}
+
+/**
+ * Envía los cambios pendientes si hay conexión
+ *
+ * Si el envío falla, los cambios se quedan en la cola para el siguiente
+ * intento (al recuperar la conexión o al encolar otro cambio). Los cambios
+ * encolados mientras se enviaba la cola se envían al terminar.
+ */
+export function flushOutbox(): Promise<void> {
+  if (!SYNC_URL || !navigator.onLine) return Promise.resolve();
+  flushing ??= (async () => {
+    let queuedMeanwhile = false;
+    try {
+      const changes = await getAllRecords<SyncChange>('outbox');
+      if (changes.length === 0) return;
+      const response = await fetch(SYNC_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      if (!response.ok) throw new Error(`Error HTTP: ${response.status}`);
+      // Solo se quitan los enviados que no se hayan vuelto a modificar
+      const sent = new Map(changes.map(change => [change.id, change.changedAt]));
+      const pending = await getAllRecords<SyncChange>('outbox');
+      await Promise.all(pending
+        .filter(change => sent.get(change.id) === change.changedAt)
+        .map(change => deleteRecord('outbox', change.id)));
+      queuedMeanwhile = pending.some(change => sent.get(change.id) !== change.changedAt);
+    } catch (err) {
+      console.warn('No se pudieron sincronizar los cambios:', err);
+    } finally {
+      flushing = null;
+      notifyListeners();
+    }
+    if (queuedMeanwhile) await flushOutbox();
+  })();
+  return flushing;
+}
+
+/**
+ * Encola un cambio y lo intenta enviar en el acto
+ *
+ * @param type - Revisión de alerta o ajuste
+ * @param key - alertKey o clave del ajuste
+ * @param payload - Valor completo tras el cambio
+ */
+export async function queueChange(type: SyncChange['type'], key: string, payload: unknown): Promise<void> {
+  if (!SYNC_URL) return;
+  await putRecord<SyncChange>('outbox', {
+    id: `${type}:${key}`,
+    type,
+    key,
+    payload,
+    changedAt: new Date().toISOString(),
+  });
+  notifyListeners();
+  await flushOutbox();
+}
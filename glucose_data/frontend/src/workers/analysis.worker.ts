@@ -0,0 +1,9 @@
+// workers/analysis.worker.ts
+// Worker de análisis: carga, agregados, filtros y orden fuera del hilo principal
+
+import { createAnalysisHandler } from './analysisHandler';
+import type { WorkerRequest, WorkerResponse } from './protocol';
+
+const handle = createAnalysisHandler((response: WorkerResponse) => self.postMessage(response));
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => handle(event.data);
@@ -0,0 +1,196 @@
+// workers/analysisClient.ts
+// Acceso desde el hilo principal al worker de análisis
+
+import type { AlertaGlucosa, AlertReview, ComparisonCohort, GlucoseData, GlucoseReading } from '../components/types';
+import type { DashboardQuery, DashboardView } from '../analysis/dashboard';
+import type { GlycemicEpisode } from '../analysis/episodes';
+import type { ComparisonResult } from '../analysis/comparison';
+import { createAnalysisHandler } from './analysisHandler';
+import type { AnalyzeOptions, LoadProgress, WorkerRequest, WorkerResponse } from './protocol';
+
+// Mensajes que esperan respuesta, sin el id (lo asigna request)
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+type RequestBody = WithoutId<Extract<WorkerRequest, { id: number }>>;
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: LoadProgress) => void;
+  onBatch?: (readings: GlucoseReading[]) => void;
+}
+
+let port: { postMessage: (request: WorkerRequest) => void } | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingRequest>();
+
+// Lo que el worker tiene ya copiado, para enviar solo lo que cambia
+let loadedReadings: readonly GlucoseReading[] | null = null;
+let syncedReadings: readonly GlucoseReading[] | null = null;
+let syncedReviews: ReadonlyMap<string, AlertReview> | null = null;
+
+function receive(response: WorkerResponse) {
+  const request = pending.get(response.id);
+  if (!request) return;
+  switch (response.type) {
+    case 'progress':
+      request.onProgress?.(response.progress);
+      break;
+    case 'batch':
+      request.onBatch?.(response.readings);
+      break;
+    case 'result':
+      pending.delete(response.id);
+      request.resolve(response.value);
+      break;
+    case 'error':
+      pending.delete(response.id);
+      request.reject(new Error(response.message));
+      break;
+  }
+}
+
+/**
+ * Crea el worker la primera vez que se usa
+ *
+ * Sin soporte de workers (ej. scripts en Node) las mismas operaciones se
+ * ejecutan en el hilo actual.
+ */
+function getPort() {
+  if (!port) {
+    if (typeof Worker === 'undefined') {
+      port = { postMessage: createAnalysisHandler(receive) };
+    } else {
+      const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => receive(event.data);
+      worker.onerror = (event) => {
+        const error = new Error(event.message || 'Error en el worker de análisis');
+        pending.forEach(request => request.reject(error));
+        pending.clear();
+      };
+      port = worker;
+    }
+  }
+  return port;
+}
+
+function request<T>(body: RequestBody, callbacks: Pick<PendingRequest, 'onProgress' | 'onBatch'> = {}): Promise<T> {
+  const id = nextId++;
+  return new Promise<T>((resolve, reject) => {
+    pending.set(id, { resolve: value => resolve(value as T), reject, ...callbacks });
+    getPort().postMessage({ ...body, id } as WorkerRequest);
+  });
+}
+
+/**
+ * Si `readings` empieza por las lecturas de `prefix` (mismos objetos en los
+ * extremos, como al añadir lecturas en vivo a las del CSV)
+ */
+function extendsReadings(readings: readonly GlucoseReading[], prefix: readonly GlucoseReading[]): boolean {
+  return prefix.length <= readings.length
+    && (prefix.length === 0 || (readings[0] === prefix[0] && readings[prefix.length - 1] === prefix[prefix.length - 1]));
+}
+
+/**
+ * Envía al worker las lecturas en uso si han cambiado, copiando solo las
+ * añadidas cuando es posible (copiar un millón de lecturas cuesta segundos)
+ */
+function syncReadings(readings: GlucoseReading[]) {
+  if (readings === syncedReadings) return;
+  if (loadedReadings && extendsReadings(readings, loadedReadings)) {
+    getPort().postMessage({ type: 'readings', mode: 'append', base: 'loaded', readings: readings.slice(loadedReadings.length) });
+  } else if (syncedReadings && extendsReadings(readings, syncedReadings)) {
+    getPort().postMessage({ type: 'readings', mode: 'append', base: 'current', readings: readings.slice(syncedReadings.length) });
+  } else {
+    getPort().postMessage({ type: 'readings', mode: 'replace', readings });
+  }
+  syncedReadings = readings;
+}
+
+function syncReviews(reviews: ReadonlyMap<string, AlertReview>) {
+  if (reviews === syncedReviews) return;
+  getPort().postMessage({ type: 'reviews', reviews });
+  syncedReviews = reviews;
+}
+
+/**
+ * Descarga y procesa el CSV de lecturas en el worker
+ *
+ * @param url - URL del CSV de lecturas normalizadas
+ * @param onProgress - Se llama con cada lote procesado
+ * @returns Lecturas válidas y número de filas rechazadas
+ */
+export async function loadReadingsCSV(
+  url: string,
+  onProgress?: (progress: LoadProgress) => void
+): Promise<{ readings: GlucoseReading[]; rejected: number }> {
+  const readings: GlucoseReading[] = [];
+  const { rejected } = await request<{ rejected: number }>({ type: 'load', url }, {
+    onProgress,
+    onBatch: batch => {
+      for (const reading of batch) readings.push(reading);
+    },
+  });
+  loadedReadings = readings;
+  syncedReadings = readings;
+  return { readings, rejected };
+}
+
+/**
+ * Analiza las lecturas (perfil y reglas) en el worker
+ *
+ * @param readings - Lecturas en uso
+ * @param options - Resumen base, perfil, fecha y reglas
+ * @returns Resumen con las alertas del perfil y de las reglas
+ */
+export function analyzeDataset(readings: GlucoseReading[], options: AnalyzeOptions): Promise<GlucoseData> {
+  syncReadings(readings);
+  return request<GlucoseData>({ type: 'analyze', options });
+}
+
+/**
+ * Pide al worker la vista del dashboard (agregados y páginas de las tablas)
+ *
+ * Las alertas son las del último análisis hecho con `analyzeDataset`.
+ */
+export function queryDashboardView(
+  readings: GlucoseReading[],
+  reviews: ReadonlyMap<string, AlertReview>,
+  query: DashboardQuery
+): Promise<DashboardView> {
+  syncReadings(readings);
+  syncReviews(reviews);
+  return request<DashboardView>({ type: 'view', query });
+}
+
+/**
+ * Todas las alertas filtradas y ordenadas (para exportar)
+ */
+export function queryFilteredAlerts(
+  reviews: ReadonlyMap<string, AlertReview>,
+  query: DashboardQuery
+): Promise<AlertaGlucosa[]> {
+  syncReviews(reviews);
+  return request<AlertaGlucosa[]>({ type: 'export', kind: 'alerts', query });
+}
+
+/**
+ * Todos los episodios de las alertas filtradas, ordenados (para exportar)
+ */
+export function queryFilteredEpisodes(
+  reviews: ReadonlyMap<string, AlertReview>,
+  query: DashboardQuery
+): Promise<GlycemicEpisode[]> {
+  syncReviews(reviews);
+  return request<GlycemicEpisode[]>({ type: 'export', kind: 'episodes', query });
+}
+
+/**
+ * Agregados de los dos grupos del modo comparación (null: comparación inicial)
+ */
+export function queryComparison(
+  readings: GlucoseReading[],
+  cohorts: [ComparisonCohort, ComparisonCohort] | null
+): Promise<ComparisonResult> {
+  syncReadings(readings);
+  return request<ComparisonResult>({ type: 'compare', cohorts });
+}
@@ -0,0 +1,128 @@
+// workers/analysisHandler.ts
+// Estado y operaciones del worker de análisis (también usable sin worker)
+
+import type { AlertaGlucosa, AlertReview, GlucoseData, GlucoseReading } from '../components/types';
+import { createReadingsParser } from '../analysis/csv';
+import { analyzeReadings } from '../analysis/summary';
+import { applyRules } from '../analysis/rules';
+import { applyForecasts } from '../analysis/forecast';
+import { mergeAlerts } from '../analysis/alerts';
+import {
+  computeDashboardView,
+  computeFilteredAlerts,
+  computeFilteredEpisodes,
+  createDashboardCache,
+} from '../analysis/dashboard';
+import { compareCohorts } from '../analysis/comparison';
+import type { AnalyzeOptions, WorkerRequest, WorkerResponse } from './protocol';
+
+/**
+ * Lecturas que se envían juntas durante la carga
+ */
+export const LOAD_BATCH_SIZE = 20_000;
+
+/**
+ * Crea el manejador de mensajes del worker
+ *
+ * Guarda las lecturas y las alertas del último análisis para que las
+ * consultas del dashboard no tengan que volver a copiarlas entre hilos.
+ *
+ * @param post - Envía una respuesta al hilo principal
+ * @returns Función que procesa cada mensaje recibido
+ */
+export function createAnalysisHandler(post: (response: WorkerResponse) => void) {
+  let loaded: GlucoseReading[] = []; // Lecturas del CSV del servidor
+  let readings: GlucoseReading[] = loaded; // Lecturas en uso (CSV + en vivo, o importadas)
+  let alerts: AlertaGlucosa[] = [];
+  let reviews: ReadonlyMap<string, AlertReview> = new Map();
+  const cache = createDashboardCache();
+
+  /**
+   * Descarga y procesa el CSV por trozos, enviando lotes y avances
+   */
+  const load = async (id: number, url: string): Promise<{ rejected: number }> => {
+    const response = await fetch(url);
+    if (!response.ok || !response.body) {
+      throw new Error(`Error HTTP: ${response.status}`);
+    }
+
+    const totalBytes = Number(response.headers.get('Content-Length')) || null;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const parser = createReadingsParser();
+    const all: GlucoseReading[] = [];
+    let sent = 0;
+    let loadedBytes = 0;
+
+    const flush = () => {
+      if (all.length > sent) {
+        post({ id, type: 'batch', readings: all.slice(sent) });
+        sent = all.length;
+      }
+      post({ id, type: 'progress', progress: { loadedBytes, totalBytes, readings: all.length } });
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      loadedBytes += value.byteLength;
+      for (const reading of parser.push(decoder.decode(value, { stream: true }))) all.push(reading);
+      if (all.length - sent >= LOAD_BATCH_SIZE) flush();
+    }
+    for (const reading of parser.push(decoder.decode()).concat(parser.finish())) all.push(reading);
+    flush();
+
+    // Si mientras tanto llegaron lecturas importadas o en vivo, se conservan
+    if (readings === loaded) readings = all;
+    loaded = all;
+    return { rejected: parser.rejected.length };
+  };
+
+  /**
+   * Aplica el perfil (si hay que reanalizar), las reglas y las previsiones a
+   * las lecturas en uso
+   */
+  const analyze = ({ base, reanalyze, perfil, fechaGeneracion, rules }: AnalyzeOptions): GlucoseData => {
+    const analyzed = reanalyze ? analyzeReadings(readings, { perfil, fechaGeneracion }) : base;
+    if (!analyzed) {
+      throw new Error('No hay resumen ni lecturas que analizar');
+    }
+    const result = applyForecasts(applyRules(analyzed, readings, rules), readings);
+    alerts = mergeAlerts(result);
+    return result;
+  };
+
+  const run = async (request: Extract<WorkerRequest, { id: number }>): Promise<unknown> => {
+    switch (request.type) {
+      case 'load':
+        return load(request.id, request.url);
+      case 'analyze':
+        return analyze(request.options);
+      case 'view':
+        return computeDashboardView(readings, alerts, reviews, request.query, cache);
+      case 'export':
+        return request.kind === 'alerts'
+          ? computeFilteredAlerts(alerts, reviews, request.query)
+          : computeFilteredEpisodes(readings, alerts, reviews, request.query);
+      case 'compare':
+        return compareCohorts(readings, alerts, request.cohorts);
+    }
+  };
+
+  return (request: WorkerRequest) => {
+    if (request.type === 'readings') {
+      if (request.mode === 'replace') readings = request.readings;
+      else readings = (request.base === 'loaded' ? loaded : readings).concat(request.readings);
+      return;
+    }
+    if (request.type === 'reviews') {
+      reviews = request.reviews;
+      return;
+    }
+
+    const { id } = request;
+    run(request)
+      .then(value => post({ id, type: 'result', value }))
+      .catch(err => post({ id, type: 'error', message: err instanceof Error ? err.message : String(err) }));
+  };
+}
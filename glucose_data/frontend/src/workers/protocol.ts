@@ -0,0 +1,59 @@
+// workers/protocol.ts
+// Mensajes entre el hilo principal y el worker de análisis
+
+import type {
+  AlertReview,
+  AlertRule,
+  ComparisonCohort,
+  GlucoseData,
+  GlucoseReading,
+  ThresholdProfile,
+} from '../components/types';
+import type { DashboardQuery } from '../analysis/dashboard';
+
+/**
+ * Avance de la carga de lecturas
+ */
+export interface LoadProgress {
+  loadedBytes: number;
+  totalBytes: number | null; // null si el servidor no envía Content-Length
+  readings: number; // Lecturas válidas procesadas
+}
+
+/**
+ * Opciones de un análisis en el worker
+ */
+export interface AnalyzeOptions {
+  base: GlucoseData | null; // Resumen del servidor; se usa tal cual si no hay que reanalizar
+  reanalyze: boolean; // Recalcular las alertas del perfil a partir de las lecturas
+  perfil: ThresholdProfile;
+  fechaGeneracion: Date;
+  rules: AlertRule[];
+}
+
+/**
+ * Mensajes al worker
+ *
+ * Los que llevan `id` esperan respuesta; el resto sincronizan el estado
+ * del worker (lecturas y revisiones) y se aplican en orden de llegada.
+ */
+export type WorkerRequest =
+  | { type: 'readings'; mode: 'replace'; readings: GlucoseReading[] }
+  | { type: 'readings'; mode: 'append'; base: 'loaded' | 'current'; readings: GlucoseReading[] }
+  | { type: 'reviews'; reviews: ReadonlyMap<string, AlertReview> }
+  | { id: number; type: 'load'; url: string }
+  | { id: number; type: 'analyze'; options: AnalyzeOptions }
+  | { id: number; type: 'view'; query: DashboardQuery }
+  | { id: number; type: 'export'; kind: 'alerts' | 'episodes'; query: DashboardQuery }
+  | { id: number; type: 'compare'; cohorts: [ComparisonCohort, ComparisonCohort] | null };
+
+/**
+ * Mensajes del worker
+ *
+ * Una carga envía lotes de lecturas y avances antes del resultado final.
+ */
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: LoadProgress }
+  | { id: number; type: 'batch'; readings: GlucoseReading[] }
+  | { id: number; type: 'result'; value: unknown }
+  | { id: number; type: 'error'; message: string };
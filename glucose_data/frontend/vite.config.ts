@@ -1,11 +1,49 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto';
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite';
 
+/**
+ * Escribe en el sw.js copiado de public/ la lista de archivos de la build y
+ * un id derivado de ella, para que el service worker los guarde al
+ * instalarse y cada build tenga su propia caché
+ */
+function swPrecache(): Plugin {
+  return {
+    name: 'medmetrics-sw-precache',
+    apply: 'build',
+    async writeBundle({ dir = 'dist' }, bundle) {
+      const assets = Object.keys(bundle).filter(file => file.startsWith('assets/')).sort().map(file => `/${file}`);
+      const buildId = createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 12);
+      const path = join(dir, 'sw.js');
+      const source = await readFile(path, 'utf-8');
+      const output = source
+        .replace("const BUILD_ID = 'dev';", `const BUILD_ID = '${buildId}';`)
+        .replace('const BUILD_ASSETS = [];', `const BUILD_ASSETS = ${JSON.stringify(assets)};`);
+      if (output === source || !output.includes(buildId)) {
+        throw new Error('sw.js no tiene los marcadores BUILD_ID y BUILD_ASSETS');
+      }
+      await writeFile(path, output);
+    },
+  };
+}
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [
     react(),
     tailwindcss(),
+    swPrecache(),
   ],
+  server: {
+    // Modo en vivo: npm run mock:stream escucha en el 8787
+    proxy: {
+      '/live': {
+        target: 'http://localhost:8787',
+        rewrite: (path) => path.replace(/^\/live/, ''),
+      },
+    },
+  },
 })